@@ -6,6 +6,15 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import TicketPage from "./pages/TicketPage";
+import Notifications from "./pages/Notifications";
+import Settings from "./pages/Settings";
+import Csat from "./pages/Csat";
+import KnowledgeBase from "./pages/KnowledgeBase";
+import KbAsk from "./pages/KbAsk";
+import KbQuestion from "./pages/KbQuestion";
+import KbArticle from "./pages/KbArticle";
+import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +31,15 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/tickets/:id" element={<TicketPage />} />
+          <Route path="/notifications" element={<Notifications />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/csat/:token" element={<Csat />} />
+          <Route path="/kb" element={<KnowledgeBase />} />
+          <Route path="/kb/ask" element={<KbAsk />} />
+          <Route path="/kb/questions/:id" element={<KbQuestion />} />
+          <Route path="/kb/articles/:id" element={<KbArticle />} />
+          <Route path="/users/:id" element={<Profile />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,9 +1,9 @@
 import { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserProfile } from '@/hooks/useUserProfile';
-import { LogOut, User, Settings } from 'lucide-react';
+import { Ban, BookOpen, LayoutDashboard, LogOut, User, Settings } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,18 +12,27 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
+import { isSuspended } from '@/lib/moderation';
 
 interface LayoutProps {
   children: ReactNode; // Accepts child components to render inside layout
 }
 
 export const Layout = ({ children }: LayoutProps) => {
-  const { user, signOut } = useAuth(); // Custom hook to get authenticated user and signOut method
+  const { user, loading, signOut } = useAuth(); // Custom hook to get authenticated user and signOut method
   const { profile } = useUserProfile(); // Custom hook to fetch the user's profile
+  const location = useLocation(); // Current URL, remembered across the sign-in redirect
+  const navigate = useNavigate();
+
+  // Wait for the stored session before deciding, so deep links survive a refresh
+  if (loading) {
+    return null;
+  }
 
   // If user is not authenticated, redirect to login/auth page
   if (!user) {
-    return <Navigate to="/auth" replace />;
+    return <Navigate to="/auth" replace state={{ from: location }} />;
   }
 
   // Handles user sign-out
@@ -31,6 +40,29 @@ export const Layout = ({ children }: LayoutProps) => {
     await signOut();
   };
 
+  // Suspended accounts can sign in but see nothing else until the ban ends
+  if (isSuspended(profile)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="max-w-md text-center space-y-4">
+          <Ban className="h-12 w-12 mx-auto text-destructive" />
+          <h1 className="text-2xl font-bold">Account suspended</h1>
+          <p className="text-muted-foreground">
+            {profile?.banned_until
+              ? `Your account has been suspended until ${new Date(profile.banned_until).toLocaleString()}.`
+              : 'Your account has been suspended.'}
+            {' '}You can't create tickets, comments or posts while it is suspended. Contact an administrator if you
+            think this is a mistake.
+          </p>
+          <Button variant="outline" onClick={handleSignOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -44,54 +76,78 @@ export const Layout = ({ children }: LayoutProps) => {
                 {profile.role}
               </span>
             )}
+            {/* Main navigation */}
+            <nav className="flex items-center gap-1">
+              <Button
+                variant={location.pathname.startsWith('/kb') ? 'ghost' : 'secondary'}
+                size="sm"
+                onClick={() => navigate('/dashboard')}
+              >
+                <LayoutDashboard className="mr-2 h-4 w-4" />
+                Tickets
+              </Button>
+              <Button
+                variant={location.pathname.startsWith('/kb') ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => navigate('/kb')}
+              >
+                <BookOpen className="mr-2 h-4 w-4" />
+                Knowledge Base
+              </Button>
+            </nav>
           </div>
 
-          {/* User avatar and dropdown menu */}
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" className="relative h-8 w-8 rounded-full">
-                <Avatar className="h-8 w-8">
-                  {/* Displays user avatar or fallback */}
-                  <AvatarImage src={profile?.avatar_url || ''} alt={profile?.full_name || ''} />
-                  <AvatarFallback>
-                    {/* Fallback shows first letter of full name or username, defaults to 'U' */}
-                    {profile?.full_name?.charAt(0) || profile?.username?.charAt(0) || 'U'}
-                  </AvatarFallback>
-                </Avatar>
-              </Button>
-            </DropdownMenuTrigger>
+          <div className="flex items-center gap-2">
+            {/* Notifications */}
+            <NotificationBell />
 
-            {/* Dropdown menu content */}
-            <DropdownMenuContent className="w-56" align="end" forceMount>
-              {/* User info section */}
-              <div className="flex items-center justify-start gap-2 p-2">
-                <div className="flex flex-col space-y-1 leading-none">
-                  <p className="font-medium">{profile?.full_name || profile?.username}</p>
-                  <p className="text-sm text-muted-foreground">{user.email}</p>
+            {/* User avatar and dropdown menu */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="relative h-8 w-8 rounded-full">
+                  <Avatar className="h-8 w-8">
+                    {/* Displays user avatar or fallback */}
+                    <AvatarImage src={profile?.avatar_url || ''} alt={profile?.full_name || ''} />
+                    <AvatarFallback>
+                      {/* Fallback shows first letter of full name or username, defaults to 'U' */}
+                      {profile?.full_name?.charAt(0) || profile?.username?.charAt(0) || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                </Button>
+              </DropdownMenuTrigger>
+
+              {/* Dropdown menu content */}
+              <DropdownMenuContent className="w-56" align="end" forceMount>
+                {/* User info section */}
+                <div className="flex items-center justify-start gap-2 p-2">
+                  <div className="flex flex-col space-y-1 leading-none">
+                    <p className="font-medium">{profile?.full_name || profile?.username}</p>
+                    <p className="text-sm text-muted-foreground">{user.email}</p>
+                  </div>
                 </div>
-              </div>
 
-              <DropdownMenuSeparator />
+                <DropdownMenuSeparator />
 
-              {/* Profile and Settings menu options */}
-              <DropdownMenuItem>
-                <User className="mr-2 h-4 w-4" />
-                Profile
-              </DropdownMenuItem>
-              <DropdownMenuItem>
-                <Settings className="mr-2 h-4 w-4" />
-                Settings
-              </DropdownMenuItem>
+                {/* Profile and Settings menu options */}
+                <DropdownMenuItem onClick={() => navigate(`/users/${user.id}`)}>
+                  <User className="mr-2 h-4 w-4" />
+                  Profile
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/settings')}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  Settings
+                </DropdownMenuItem>
 
-              <DropdownMenuSeparator />
+                <DropdownMenuSeparator />
 
-              {/* Sign out button */}
-              <DropdownMenuItem onClick={handleSignOut}>
-                <LogOut className="mr-2 h-4 w-4" />
-                Sign out
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+                {/* Sign out button */}
+                <DropdownMenuItem onClick={handleSignOut}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { ADMIN_ACTIONS, adminActionLabel } from '@/lib/moderation';
+
+interface AdminAction {
+  id: string;
+  action: string | null;
+  admin_id: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  reason: string | null;
+  expires_at: string | null;
+  created_at: string | null;
+  admin: { full_name: string | null; username: string | null } | null;
+}
+
+interface NamedProfile {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+}
+
+const profileName = (profile?: { full_name: string | null; username: string | null } | null) =>
+  profile?.full_name || profile?.username || '—';
+
+// The admin_actions audit trail, newest first, filtered by action, admin and
+// date; the search box matches the target's name and the reason
+export const AdminActionLog = () => {
+  const [actions, setActions] = useState<AdminAction[]>([]);
+  const [admins, setAdmins] = useState<NamedProfile[]>([]);
+  // Names of the users actions were taken on, by id
+  const [targets, setTargets] = useState<Record<string, NamedProfile>>({});
+  const [loading, setLoading] = useState(true);
+  const [actionFilter, setActionFilter] = useState('all');
+  const [adminFilter, setAdminFilter] = useState('all');
+  const [since, setSince] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const fetchAdmins = async () => {
+      const { data } = await supabase
+        .from('profiles')
+        .select('id, full_name, username')
+        .eq('role', 'admin')
+        .order('full_name');
+      setAdmins(data || []);
+    };
+
+    fetchAdmins();
+  }, []);
+
+  useEffect(() => {
+    fetchActions();
+  }, [actionFilter, adminFilter, since]);
+
+  const fetchActions = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('admin_actions')
+        .select('id, action, admin_id, target_type, target_id, reason, expires_at, created_at, admin:profiles!admin_actions_admin_id_fkey(full_name, username)')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (actionFilter !== 'all') query = query.eq('action', actionFilter);
+      if (adminFilter !== 'all') query = query.eq('admin_id', adminFilter);
+      if (since) query = query.gte('created_at', new Date(since).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const userIds = [...new Set(
+        (data || [])
+          .filter((row) => row.target_type === 'user' && row.target_id)
+          .map((row) => row.target_id as string)
+      )];
+      const { data: targetData } = userIds.length
+        ? await supabase.from('profiles').select('id, full_name, username').in('id', userIds)
+        : { data: [] };
+
+      setActions(data || []);
+      setTargets(Object.fromEntries((targetData || []).map((profile) => [profile.id, profile])));
+    } catch (error) {
+      console.error('Error fetching admin actions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const visible = term
+    ? actions.filter((item) =>
+        [profileName(item.target_id ? targets[item.target_id] : null), item.reason]
+          .some((text) => text?.toLowerCase().includes(term))
+      )
+    : actions;
+
+  return (
+    <div className="space-y-4">
+      {/* Header with refresh */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Audit Log</h3>
+          <p className="text-sm text-muted-foreground">Bans and role changes made by admins</p>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchActions} aria-label="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        <Select value={actionFilter} onValueChange={setActionFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {Object.entries(ADMIN_ACTIONS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={adminFilter} onValueChange={setAdminFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All admins</SelectItem>
+            {admins.map((admin) => (
+              <SelectItem key={admin.id} value={admin.id}>{profileName(admin)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="w-40"
+          value={since}
+          onChange={(e) => setSince(e.target.value)}
+          aria-label="Since"
+        />
+        <Input
+          className="w-64"
+          placeholder="Search user or reason..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Expires</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && actions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4">Loading audit log...</TableCell>
+                </TableRow>
+              ) : visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                    No admin actions match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {item.created_at ? new Date(item.created_at).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">{profileName(item.admin)}</TableCell>
+                    <TableCell className="text-sm">{adminActionLabel(item.action)}</TableCell>
+                    <TableCell className="text-sm">
+                      {item.target_type === 'user' && item.target_id ? (
+                        <Link to={`/users/${item.target_id}`} className="underline">
+                          {profileName(targets[item.target_id])}
+                        </Link>
+                      ) : (
+                        item.target_type || '—'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">{item.reason || '—'}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {item.expires_at
+                        ? new Date(item.expires_at).toLocaleString()
+                        : item.action === 'ban' ? 'Never' : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { ACTIVE_STATUS_CATEGORIES } from '@/lib/ticketStatuses';
+import { useToast } from '@/hooks/use-toast';
+
+interface AgentRow {
+  id: string;
+  name: string;
+  role: string;
+  isAvailable: boolean;
+  maxOpenTickets: number | null;
+  openTickets: number;
+}
+
+// Availability and ticket limits used by automatic assignment
+export const AgentAvailabilityManager = () => {
+  const { toast } = useToast();
+  const [agents, setAgents] = useState<AgentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAgents();
+  }, []);
+
+  const fetchAgents = async () => {
+    try {
+      const [{ data: profiles, error }, { data: availability, error: availabilityError }, { data: tickets, error: ticketsError }] =
+        await Promise.all([
+          supabase
+            .from('profiles')
+            .select('id, full_name, username, role')
+            .in('role', ['agent', 'admin'])
+            .order('full_name'),
+          supabase
+            .from('agent_availability')
+            .select('user_id, is_available, max_open_tickets'),
+          supabase
+            .from('tickets')
+            .select('assigned_to, status_info:ticket_statuses!inner(category)')
+            .in('status_info.category', ACTIVE_STATUS_CATEGORIES)
+            .not('assigned_to', 'is', null)
+        ]);
+
+      if (error) throw error;
+      if (availabilityError) throw availabilityError;
+      if (ticketsError) throw ticketsError;
+
+      const openCounts = (tickets || []).reduce<Record<string, number>>((acc, ticket) => {
+        if (ticket.assigned_to) acc[ticket.assigned_to] = (acc[ticket.assigned_to] || 0) + 1;
+        return acc;
+      }, {});
+
+      setAgents((profiles || []).map((profile) => {
+        const settings = availability?.find((row) => row.user_id === profile.id);
+        return {
+          id: profile.id,
+          name: profile.full_name || profile.username || 'Unknown',
+          role: profile.role || 'agent',
+          isAvailable: settings?.is_available ?? true,
+          maxOpenTickets: settings?.max_open_tickets ?? null,
+          openTickets: openCounts[profile.id] || 0
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching agent availability:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveAgent = async (agent: AgentRow, changes: Partial<Pick<AgentRow, 'isAvailable' | 'maxOpenTickets'>>) => {
+    const updated = { ...agent, ...changes };
+    setAgents((current) => current.map((row) => (row.id === agent.id ? updated : row)));
+
+    try {
+      const { error } = await supabase
+        .from('agent_availability')
+        .upsert({
+          user_id: agent.id,
+          is_available: updated.isAvailable,
+          max_open_tickets: updated.maxOpenTickets
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      setAgents((current) => current.map((row) => (row.id === agent.id ? agent : row)));
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update agent',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Blank means no limit
+  const handleLimitChange = (agent: AgentRow, value: string) => {
+    const limit = value.trim() === '' ? null : Math.max(1, Math.floor(Number(value)));
+    if (limit !== null && Number.isNaN(limit)) return;
+    if (limit === agent.maxOpenTickets) return;
+    saveAgent(agent, { maxOpenTickets: limit });
+  };
+
+  if (loading && agents.length === 0) {
+    return <div className="text-center py-4">Loading agents...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Agent Availability</h3>
+        <p className="text-sm text-muted-foreground">
+          Who automatic assignment may pick, and how many open tickets they can hold
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Agent</TableHead>
+                <TableHead>Open tickets</TableHead>
+                <TableHead>Ticket limit</TableHead>
+                <TableHead className="text-right">Available</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {agents.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                    No agents found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                agents.map((agent) => (
+                  <TableRow key={agent.id}>
+                    <TableCell>
+                      <div className="font-medium">{agent.name}</div>
+                      <div className="text-xs text-muted-foreground capitalize">{agent.role}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{agent.openTickets}</TableCell>
+                    <TableCell>
+                      <Input
+                        key={`${agent.id}-${agent.maxOpenTickets}`}
+                        type="number"
+                        min={1}
+                        defaultValue={agent.maxOpenTickets ?? ''}
+                        placeholder="No limit"
+                        className="w-28"
+                        onBlur={(e) => handleLimitChange(agent, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={agent.isAvailable}
+                        onCheckedChange={(checked) => saveAgent(agent, { isAvailable: checked })}
+                        aria-label={`${agent.name} available`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+interface PendingArticle {
+  id: string;
+  title: string;
+  source_ticket_id: string | null;
+  created_at: string | null;
+  author: { full_name: string | null; username: string | null } | null;
+}
+
+// Articles drafted from tickets that are waiting for an admin's approval,
+// oldest first. Reviewing happens on the article page.
+export const ArticleReviewQueue = () => {
+  const [articles, setArticles] = useState<PendingArticle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchArticles();
+  }, []);
+
+  const fetchArticles = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('kb_articles')
+        .select('id, title, source_ticket_id, created_at, author:profiles!kb_articles_author_id_fkey(full_name, username)')
+        .eq('status', 'pending_review')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setArticles(data || []);
+    } catch (error) {
+      console.error('Error fetching articles for review:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header with refresh */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Articles Awaiting Review</h3>
+          <p className="text-sm text-muted-foreground">
+            Drafts from solved tickets go live once an admin other than the author approves them
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchArticles} aria-label="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Article</TableHead>
+                <TableHead>Drafted by</TableHead>
+                <TableHead>Ticket</TableHead>
+                <TableHead>Drafted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && articles.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-4">Loading articles...</TableCell>
+                </TableRow>
+              ) : articles.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                    No articles are waiting for review.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                articles.map((article) => (
+                  <TableRow key={article.id}>
+                    <TableCell>
+                      <Link to={`/kb/articles/${article.id}`} className="text-sm font-medium underline">
+                        {article.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {article.author?.full_name || article.author?.username || '—'}
+                    </TableCell>
+                    <TableCell>
+                      {article.source_ticket_id && (
+                        <Link to={`/tickets/${article.source_ticket_id}`} className="text-sm underline">
+                          #{article.source_ticket_id.slice(-8)}
+                        </Link>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {article.created_at ? new Date(article.created_at).toLocaleString() : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
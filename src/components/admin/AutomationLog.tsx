@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AUTOMATION_EVENTS, AutomationEvent } from '@/lib/automation';
+
+interface AutomationRun {
+  id: string;
+  rule_name: string;
+  ticket_id: string | null;
+  event: string;
+  status: string;
+  results: string[];
+  error: string | null;
+  created_at: string | null;
+  actor: { full_name: string | null; username: string | null } | null;
+}
+
+interface WebhookDelivery {
+  id: string;
+  url: string;
+  ticket_id: string | null;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string | null;
+  sent_at: string | null;
+}
+
+const statusColors: Record<string, string> = {
+  applied: 'bg-green-100 text-green-800 border-green-200',
+  pending: 'bg-blue-100 text-blue-800 border-blue-200',
+  sending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  sent: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200'
+};
+
+// What the automation rules did, and the webhooks they queued, newest first
+export const AutomationLog = () => {
+  const { toast } = useToast();
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchLog();
+  }, []);
+
+  const fetchLog = async () => {
+    setLoading(true);
+    try {
+      const [{ data: runData, error: runError }, { data: deliveryData, error: deliveryError }] = await Promise.all([
+        supabase
+          .from('automation_runs')
+          .select('*, actor:profiles!automation_runs_actor_id_fkey(full_name, username)')
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase
+          .from('webhook_deliveries')
+          .select('id, url, ticket_id, status, attempts, response_status, last_error, created_at, sent_at')
+          .order('created_at', { ascending: false })
+          .limit(50)
+      ]);
+
+      if (runError) throw runError;
+      if (deliveryError) throw deliveryError;
+
+      setRuns((runData || []).map((run) => ({
+        ...run,
+        results: Array.isArray(run.results) ? run.results.map(String) : []
+      })));
+      setDeliveries(deliveryData || []);
+    } catch (error) {
+      console.error('Error fetching automation log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Puts a failed delivery back in the queue for the next run
+  const retryDelivery = async (deliveryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+        .eq('id', deliveryId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Webhook Requeued',
+        description: 'The webhook will be called on the next run.'
+      });
+      fetchLog();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to requeue webhook',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const formatDate = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleString() : '—';
+
+  const ticketLink = (ticketId: string | null) =>
+    ticketId && (
+      <Link to={`/tickets/${ticketId}`} className="text-sm underline">
+        #{ticketId.slice(-8)}
+      </Link>
+    );
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        {/* Header with refresh */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium">Rule Runs</h3>
+            <p className="text-sm text-muted-foreground">
+              Every time a rule matched a ticket, and what it changed
+            </p>
+          </div>
+          <Button variant="outline" size="icon" onClick={fetchLog} aria-label="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Ticket</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && runs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-4">Loading runs...</TableCell>
+                  </TableRow>
+                ) : runs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                      No rules have run yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm">{formatDate(run.created_at)}</TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{run.rule_name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {AUTOMATION_EVENTS[run.event as AutomationEvent] || run.event}
+                          {run.actor && ` by ${run.actor.full_name || run.actor.username}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{ticketLink(run.ticket_id)}</TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[run.status]}>{run.status}</Badge>
+                        {run.results.map((result, i) => (
+                          <div key={i} className="text-xs text-muted-foreground">{result}</div>
+                        ))}
+                        {run.error && (
+                          <div className="text-xs text-destructive line-clamp-2" title={run.error}>
+                            {run.error}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Webhook Deliveries</h3>
+          <p className="text-sm text-muted-foreground">
+            Calls queued by webhook actions and their delivery status
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Ticket</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                      No webhooks found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-sm">{formatDate(delivery.created_at)}</TableCell>
+                      <TableCell className="text-sm max-w-xs truncate" title={delivery.url}>{delivery.url}</TableCell>
+                      <TableCell>{ticketLink(delivery.ticket_id)}</TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[delivery.status]}>{delivery.status}</Badge>
+                        {delivery.status === 'sent' ? (
+                          <div className="text-xs text-muted-foreground">{formatDate(delivery.sent_at)}</div>
+                        ) : delivery.last_error && (
+                          <div className="text-xs text-muted-foreground line-clamp-2" title={delivery.last_error}>
+                            {delivery.response_status ? `HTTP ${delivery.response_status}: ` : ''}{delivery.last_error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-right">
+                        {delivery.status === 'failed' && (
+                          <Button variant="ghost" size="sm" onClick={() => retryDelivery(delivery.id)}>
+                            <RotateCcw className="mr-1 h-4 w-4" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,876 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, X, OctagonX } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketStatuses } from '@/hooks/useTicketStatuses';
+import { TICKET_PRIORITIES } from '@/lib/ticketFilters';
+import {
+  AUTOMATION_ACTIONS,
+  AUTOMATION_EVENTS,
+  AutomationAction,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationEvent,
+  AutomationRule,
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  ConditionOperator,
+  ConditionValueKind,
+  DURATION_UNITS,
+  VALUELESS_OPERATORS,
+  formatDuration,
+  operatorsFor,
+  splitDuration,
+  validateAction,
+  validateCondition
+} from '@/lib/automation';
+import type { Json } from '@/integrations/supabase/types';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  event: 'ticket_created' as AutomationEvent,
+  match_type: 'all' as 'all' | 'any',
+  conditions: [] as AutomationCondition[],
+  actions: [] as AutomationAction[],
+  stop_processing: false,
+  is_active: true
+};
+
+interface AutomationRuleManagerProps {
+  onRulesUpdated?: () => void;
+}
+
+// Admin-defined rules that act on tickets when they are created, updated
+// or commented on. Rules run top to bottom.
+export const AutomationRuleManager = ({ onRulesUpdated }: AutomationRuleManagerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { statuses } = useTicketStatuses();
+
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [agents, setAgents] = useState<Option[]>([]);
+  const [teams, setTeams] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const [
+        { data, error },
+        { data: categoryData, error: categoryError },
+        { data: profiles, error: profilesError },
+        { data: teamData, error: teamError }
+      ] = await Promise.all([
+        supabase
+          .from('automation_rules')
+          .select('*')
+          .order('position')
+          .order('created_at'),
+        supabase.from('categories').select('id, name').order('name'),
+        supabase
+          .from('profiles')
+          .select('id, full_name, username')
+          .in('role', ['agent', 'admin'])
+          .order('full_name'),
+        supabase.from('teams').select('id, name').order('name')
+      ]);
+
+      if (error) throw error;
+      if (categoryError) throw categoryError;
+      if (profilesError) throw profilesError;
+      if (teamError) throw teamError;
+
+      setRules((data || []) as unknown as AutomationRule[]);
+      setCategories(categoryData || []);
+      setAgents((profiles || []).map((p) => ({ id: p.id, name: p.full_name || p.username || 'Unknown' })));
+      setTeams(teamData || []);
+    } catch (error) {
+      console.error('Error fetching automation rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const problem =
+      (formData.actions.length === 0 ? 'Add at least one action' : null) ||
+      formData.conditions.map((condition) => validateCondition(condition, formData.event)).find(Boolean) ||
+      formData.actions.map(validateAction).find(Boolean);
+    if (problem) {
+      toast({ title: 'Rule not saved', description: problem, variant: 'destructive' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const rule = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        event: formData.event,
+        match_type: formData.match_type,
+        conditions: formData.conditions as unknown as Json,
+        actions: formData.actions as unknown as Json,
+        stop_processing: formData.stop_processing,
+        is_active: formData.is_active
+      };
+
+      if (editingRule) {
+        const { error } = await supabase
+          .from('automation_rules')
+          .update(rule)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+      } else {
+        const position = rules.reduce((max, r) => Math.max(max, r.position), -1) + 1;
+        const { error } = await supabase
+          .from('automation_rules')
+          .insert({ ...rule, position, created_by: user.id });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: editingRule ? 'Rule Updated' : 'Rule Created',
+        description: editingRule ? 'The rule has been updated successfully.' : 'The new rule has been created successfully.'
+      });
+
+      setShowDialog(false);
+      setEditingRule(null);
+      setFormData(emptyForm);
+      await fetchRules();
+      onRulesUpdated?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save rule',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (rule: AutomationRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      description: rule.description || '',
+      event: rule.event,
+      match_type: rule.match_type,
+      conditions: rule.conditions,
+      actions: rule.actions,
+      stop_processing: rule.stop_processing,
+      is_active: rule.is_active
+    });
+    setShowDialog(true);
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    if (!confirm('Are you sure you want to delete this rule? Its run history is kept.')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('automation_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Rule Deleted',
+        description: 'The rule has been deleted successfully.'
+      });
+
+      await fetchRules();
+      onRulesUpdated?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete rule',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRule = async (ruleId: string, changes: { is_active?: boolean; position?: number }) => {
+    const { error } = await supabase
+      .from('automation_rules')
+      .update(changes)
+      .eq('id', ruleId);
+
+    if (error) throw error;
+  };
+
+  const handleToggleActive = async (rule: AutomationRule, isActive: boolean) => {
+    try {
+      await updateRule(rule.id, { is_active: isActive });
+      await fetchRules();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update rule',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Swaps a rule with its neighbour; positions are renumbered so ties
+  // between old rules don't make the swap a no-op
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    setLoading(true);
+    try {
+      await Promise.all(
+        reordered
+          .map((rule, position) => ({ rule, position }))
+          .filter(({ rule, position }) => rule.position !== position)
+          .map(({ rule, position }) => updateRule(rule.id, { position }))
+      );
+      await fetchRules();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to reorder rules',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  // Condition and action list editing
+  const setCondition = (index: number, changes: Partial<AutomationCondition>) => {
+    setFormData({
+      ...formData,
+      conditions: formData.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const setAction = (index: number, action: AutomationAction) => {
+    setFormData({ ...formData, actions: formData.actions.map((a, i) => (i === index ? action : a)) });
+  };
+
+  const optionName = (options: Option[], id: string | undefined) => options.find((o) => o.id === id)?.name;
+
+  // Durations are stored in minutes; the unit picked is kept alongside so
+  // the editor shows the value the way it was entered
+  const renderDurationInput = (condition: AutomationCondition, index: number) => {
+    const minutes = Number(condition.value) || 0;
+    const unit = DURATION_UNITS.find((u) => u.value === condition.unit) || DURATION_UNITS.find((u) => u.value === splitDuration(minutes).unit)!;
+
+    return (
+      <div className="flex flex-1 gap-2">
+        <Input
+          type="number"
+          min={1}
+          value={condition.value ? minutes / unit.minutes : ''}
+          onChange={(e) => setCondition(index, {
+            value: e.target.value ? String(Math.round(Number(e.target.value) * unit.minutes)) : undefined,
+            unit: unit.value
+          })}
+          placeholder="Amount"
+          className="w-24"
+        />
+        <Select
+          value={unit.value}
+          onValueChange={(value) => {
+            const newUnit = DURATION_UNITS.find((u) => u.value === value)!;
+            setCondition(index, {
+              value: String(Math.round((minutes / unit.minutes || 1) * newUnit.minutes)),
+              unit: newUnit.value
+            });
+          }}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURATION_UNITS.map((u) => (
+              <SelectItem key={u.value} value={u.value}>{u.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  // Value picker for a condition, depending on what the field holds
+  const renderValueInput = (kind: ConditionValueKind, value: string | undefined, onChange: (value: string) => void) => {
+    const choices: Option[] | null =
+      kind === 'status' ? statuses.map((s) => ({ id: s.key, name: s.name })) :
+      kind === 'priority' ? TICKET_PRIORITIES.map((p) => ({ id: p, name: p })) :
+      kind === 'category' ? categories :
+      kind === 'agent' ? agents :
+      kind === 'boolean' ? [{ id: 'true', name: 'Yes' }, { id: 'false', name: 'No' }] :
+      kind === 'role' ? [{ id: 'user', name: 'Requester' }, { id: 'agent', name: 'Agent' }, { id: 'admin', name: 'Admin' }] :
+      null;
+
+    if (!choices) {
+      return <Input value={value || ''} onChange={(e) => onChange(e.target.value)} placeholder="Value" className="flex-1" />;
+    }
+
+    return (
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder="Choose..." />
+        </SelectTrigger>
+        <SelectContent>
+          {choices.map((choice) => (
+            <SelectItem key={choice.id} value={choice.id} className="capitalize">
+              {choice.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const renderActionFields = (action: AutomationAction, index: number) => {
+    const update = (changes: Partial<AutomationAction>) => setAction(index, { ...action, ...changes });
+
+    switch (action.type) {
+      case 'set_status':
+        return renderValueInput('status', action.value, (value) => update({ value }));
+      case 'set_priority':
+        return renderValueInput('priority', action.value, (value) => update({ value }));
+      case 'set_category':
+        return renderValueInput('category', action.value, (value) => update({ value }));
+      case 'assign':
+        return (
+          <Select value={action.value || undefined} onValueChange={(value) => update({ value })}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Choose agent..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'assign_team':
+        return (
+          <Select value={action.team_id || undefined} onValueChange={(teamId) => update({ team_id: teamId })}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Choose team..." />
+            </SelectTrigger>
+            <SelectContent>
+              {teams.map((team) => (
+                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'add_comment':
+        return (
+          <div className="flex-1 space-y-2">
+            <Textarea
+              value={action.content || ''}
+              onChange={(e) => update({ content: e.target.value })}
+              placeholder="Comment text"
+              rows={2}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`action-${index}-internal`}
+                checked={action.is_internal ?? true}
+                onCheckedChange={(checked) => update({ is_internal: checked })}
+              />
+              <Label htmlFor={`action-${index}-internal`} className="font-normal">Internal note</Label>
+            </div>
+          </div>
+        );
+      case 'notify':
+        return (
+          <div className="flex-1 space-y-2">
+            <Select value={action.recipient || undefined} onValueChange={(recipient) => update({ recipient })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Notify..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="requester">The requester</SelectItem>
+                <SelectItem value="assignee">The assignee</SelectItem>
+                <SelectItem value="admins">All admins</SelectItem>
+                {agents.map((agent) => (
+                  <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={action.message || ''}
+              onChange={(e) => update({ message: e.target.value })}
+              placeholder="Message (defaults to the rule name and ticket title)"
+            />
+          </div>
+        );
+      case 'webhook':
+        return (
+          <Input
+            value={action.url || ''}
+            onChange={(e) => update({ url: e.target.value })}
+            placeholder="https://example.com/hooks/quickdesk"
+            className="flex-1"
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Short summaries for the rules table
+  const describeCondition = (condition: AutomationCondition) => {
+    const field = CONDITION_FIELDS[condition.field];
+    const kind = field?.kind;
+    const value =
+      kind === 'status' ? statuses.find((s) => s.key === condition.value)?.name || condition.value :
+      kind === 'category' ? optionName(categories, condition.value) :
+      kind === 'agent' ? optionName(agents, condition.value) :
+      kind === 'duration' ? formatDuration(Number(condition.value)) :
+      condition.value?.replace('_', ' ');
+    return [field?.label || condition.field, CONDITION_OPERATORS[condition.operator], VALUELESS_OPERATORS.includes(condition.operator) ? '' : value]
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  const describeAction = (action: AutomationAction) => {
+    const label = AUTOMATION_ACTIONS[action.type];
+    switch (action.type) {
+      case 'set_category':
+        return `${label}: ${optionName(categories, action.value) || 'unknown'}`;
+      case 'assign':
+        return `${label}: ${action.value === 'none' ? 'nobody' : optionName(agents, action.value) || 'unknown'}`;
+      case 'assign_team':
+        return `${label}: ${optionName(teams, action.team_id) || 'unknown'}`;
+      case 'set_status':
+        return `${label}: ${statuses.find((s) => s.key === action.value)?.name || action.value}`;
+      case 'set_priority':
+        return `${label}: ${action.value}`;
+      case 'add_comment':
+        return action.is_internal ?? true ? 'Add internal note' : 'Add public reply';
+      case 'notify':
+        return `Notify ${['requester', 'assignee', 'admins'].includes(action.recipient || '') ? action.recipient : optionName(agents, action.recipient) || 'agent'}`;
+      default:
+        return label;
+    }
+  };
+
+  if (loading && rules.length === 0) {
+    return <div className="text-center py-4">Loading rules...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header with title and add button */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Automation Rules</h3>
+          <p className="text-sm text-muted-foreground">
+            Act on tickets automatically. Rules run in order, top to bottom.
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      {/* Rules table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Order</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Then</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                    No rules found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule, index) => (
+                  <TableRow key={rule.id} className={rule.is_active ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          disabled={loading || index === 0}
+                          onClick={() => handleMove(index, -1)}
+                          aria-label="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          disabled={loading || index === rules.length - 1}
+                          onClick={() => handleMove(index, 1)}
+                          aria-label="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {rule.name}
+                        {rule.stop_processing && (
+                          <Badge variant="outline" className="text-xs">
+                            <OctagonX className="mr-1 h-3 w-3" />
+                            Stops
+                          </Badge>
+                        )}
+                      </div>
+                      {rule.description && (
+                        <div className="text-sm text-muted-foreground">{rule.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div className="font-medium">{AUTOMATION_EVENTS[rule.event]}</div>
+                      {rule.conditions.map((condition, i) => (
+                        <div key={i} className="text-muted-foreground">
+                          {i > 0 && (rule.match_type === 'any' ? 'or ' : 'and ')}
+                          {describeCondition(condition)}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {rule.actions.map((action, i) => (
+                          <Badge key={i} variant="secondary">{describeAction(action)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                        aria-label={`${rule.name} active`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(rule.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Rule' : 'Create New Rule'}</DialogTitle>
+            <DialogDescription>
+              When the event happens and the conditions hold, the actions run in order.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Urgent billing to Finance"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>When</Label>
+                <Select
+                  value={formData.event}
+                  onValueChange={(value: AutomationEvent) => setFormData({ ...formData, event: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AUTOMATION_EVENTS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-description">Description</Label>
+              <Input
+                id="rule-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="What the rule is for (optional)"
+              />
+            </div>
+
+            {/* Conditions */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Label>If</Label>
+                  <Select
+                    value={formData.match_type}
+                    onValueChange={(value: 'all' | 'any') => setFormData({ ...formData, match_type: value })}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">all</SelectItem>
+                      <SelectItem value="any">any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm">of these hold</span>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({
+                    ...formData,
+                    conditions: [...formData.conditions, { field: 'status', operator: 'is', value: 'open' }]
+                  })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Condition
+                </Button>
+              </div>
+              {formData.event === 'scheduled' && (
+                <p className="text-sm text-muted-foreground">
+                  Checked every few minutes against tickets that aren't closed. The rule acts on a ticket once,
+                  then again only after the ticket changes.
+                </p>
+              )}
+              {formData.conditions.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {formData.event === 'scheduled'
+                    ? 'No conditions: the rule acts on every ticket that isn\'t closed.'
+                    : `No conditions: the rule runs on every ${AUTOMATION_EVENTS[formData.event].toLowerCase()} event.`}
+                </p>
+              )}
+              {formData.conditions.map((condition, index) => {
+                const field = CONDITION_FIELDS[condition.field];
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={condition.field}
+                      onValueChange={(value) => setCondition(index, {
+                        field: value,
+                        operator: operatorsFor(CONDITION_FIELDS[value], formData.event)[0],
+                        value: undefined,
+                        unit: undefined
+                      })}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CONDITION_FIELDS)
+                          .filter(([, f]) => !f.events || f.events.includes(formData.event))
+                          .map(([value, f]) => (
+                            <SelectItem key={value} value={value}>{f.label}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={condition.operator}
+                      onValueChange={(value: ConditionOperator) => setCondition(index, { operator: value })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(field ? operatorsFor(field, formData.event) : []).map((operator) => (
+                          <SelectItem key={operator} value={operator}>{CONDITION_OPERATORS[operator]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {VALUELESS_OPERATORS.includes(condition.operator) ? (
+                      <div className="flex-1" />
+                    ) : field?.kind === 'duration' ? (
+                      renderDurationInput(condition, index)
+                    ) : (
+                      renderValueInput(field?.kind || 'text', condition.value, (value) => setCondition(index, { value }))
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFormData({ ...formData, conditions: formData.conditions.filter((_, i) => i !== index) })}
+                      aria-label="Remove condition"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Actions */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Then</Label>
+                <Select
+                  value=""
+                  onValueChange={(type: AutomationActionType) => setFormData({
+                    ...formData,
+                    actions: [...formData.actions, { type }]
+                  })}
+                >
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue placeholder="Add action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AUTOMATION_ACTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.actions.length === 0 && (
+                <p className="text-sm text-muted-foreground">Add at least one action.</p>
+              )}
+              {formData.actions.map((action, index) => (
+                <div key={index} className="flex items-start gap-2">
+                  <div className="w-44 pt-2 text-sm font-medium">{AUTOMATION_ACTIONS[action.type]}</div>
+                  {renderActionFields(action, index)}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData({ ...formData, actions: formData.actions.filter((_, i) => i !== index) })}
+                    aria-label="Remove action"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="rule-stop"
+                  checked={formData.stop_processing}
+                  onCheckedChange={(checked) => setFormData({ ...formData, stop_processing: checked })}
+                />
+                <Label htmlFor="rule-stop">Stop processing later rules when this one matches</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="rule-active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                />
+                <Label htmlFor="rule-active">Active</Label>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : editingRule ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, FlaskConical, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AUTOMATION_EVENTS,
+  AutomationCondition,
+  AutomationEvent,
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  VALUELESS_OPERATORS,
+  formatDuration
+} from '@/lib/automation';
+
+interface TestResult {
+  rule_id: string;
+  rule_name: string;
+  matched: boolean;
+  conditions: (AutomationCondition & { holds: boolean })[];
+  actions: string[];
+  error: string | null;
+  stops: boolean;
+}
+
+interface TicketOption {
+  id: string;
+  title: string;
+}
+
+interface AutomationTesterProps {
+  // Bumped by the rule manager so the rule list stays current
+  refreshKey?: number;
+}
+
+// Dry run of the rules against an existing ticket; nothing is changed
+export const AutomationTester = ({ refreshKey }: AutomationTesterProps) => {
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<TicketOption[]>([]);
+  const [rules, setRules] = useState<{ id: string; name: string; event: string }[]>([]);
+  const [ticketId, setTicketId] = useState('');
+  const [event, setEvent] = useState<AutomationEvent>('ticket_created');
+  const [ruleId, setRuleId] = useState('all');
+  // Scheduled rules can be tried at another time, as a local datetime
+  const [pretendNow, setPretendNow] = useState('');
+  const [results, setResults] = useState<TestResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    fetchOptions();
+  }, [refreshKey]);
+
+  const fetchOptions = async () => {
+    try {
+      const [{ data: ticketData, error: ticketError }, { data: ruleData, error: ruleError }] = await Promise.all([
+        supabase
+          .from('tickets')
+          .select('id, title')
+          .order('created_at', { ascending: false })
+          .limit(50),
+        supabase
+          .from('automation_rules')
+          .select('id, name, event')
+          .order('position')
+      ]);
+
+      if (ticketError) throw ticketError;
+      if (ruleError) throw ruleError;
+
+      setTickets(ticketData || []);
+      setRules(ruleData || []);
+    } catch (error) {
+      console.error('Error fetching tester options:', error);
+    }
+  };
+
+  const runTest = async () => {
+    if (!ticketId) return;
+
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.rpc('test_automation_rules', {
+        _ticket_id: ticketId,
+        _event: event,
+        ...(ruleId !== 'all' ? { _rule_id: ruleId } : {}),
+        ...(event === 'scheduled' && pretendNow ? { _now: new Date(pretendNow).toISOString() } : {})
+      });
+
+      if (error) throw error;
+      setResults((data || []) as unknown as TestResult[]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to test rules',
+        variant: 'destructive'
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const describeCondition = (condition: AutomationCondition) =>
+    [
+      CONDITION_FIELDS[condition.field]?.label || condition.field,
+      CONDITION_OPERATORS[condition.operator],
+      VALUELESS_OPERATORS.includes(condition.operator) ? '' :
+      CONDITION_FIELDS[condition.field]?.kind === 'duration' ? formatDuration(Number(condition.value)) :
+      `"${condition.value}"`
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+  const eventRules = rules.filter((rule) => rule.event === event);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Test Rules
+        </CardTitle>
+        <CardDescription>
+          See which rules would match a ticket and what they would do. Nothing is changed.
+          Comment events use the ticket's latest comment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Ticket</Label>
+            <Select value={ticketId || undefined} onValueChange={setTicketId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a recent ticket..." />
+              </SelectTrigger>
+              <SelectContent>
+                {tickets.map((ticket) => (
+                  <SelectItem key={ticket.id} value={ticket.id}>
+                    #{ticket.id.slice(-8)} {ticket.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Event</Label>
+            <Select
+              value={event}
+              onValueChange={(value: AutomationEvent) => {
+                setEvent(value);
+                setRuleId('all');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(AUTOMATION_EVENTS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Rule</Label>
+            <Select value={ruleId} onValueChange={setRuleId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All active rules</SelectItem>
+                {eventRules.map((rule) => (
+                  <SelectItem key={rule.id} value={rule.id}>{rule.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {event === 'scheduled' && (
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="tester-now">Pretend it is</Label>
+            <Input
+              id="tester-now"
+              type="datetime-local"
+              value={pretendNow}
+              onChange={(e) => setPretendNow(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave blank to use the current time.</p>
+          </div>
+        )}
+
+        <Button onClick={runTest} disabled={!ticketId || running}>
+          {running ? 'Testing...' : 'Run Test'}
+        </Button>
+
+        {results && (
+          <div className="space-y-3">
+            {results.length === 0 && (
+              <p className="text-sm text-muted-foreground">No rules for this event.</p>
+            )}
+            {results.map((result) => (
+              <div key={result.rule_id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{result.rule_name}</span>
+                  <Badge variant={result.matched ? 'default' : 'secondary'}>
+                    {result.matched ? 'Matches' : 'No match'}
+                  </Badge>
+                  {result.stops && <Badge variant="outline">Stops later rules</Badge>}
+                </div>
+                {result.conditions.map((condition, i) => (
+                  <div key={i} className="flex items-center gap-2 text-sm">
+                    {condition.holds ? (
+                      <Check className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <X className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    {describeCondition(condition)}
+                  </div>
+                ))}
+                {result.actions.length > 0 && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Would:</span>
+                    <ul className="list-disc pl-6">
+                      {result.actions.map((action, i) => (
+                        <li key={i}>{action}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {result.error && <div className="text-sm text-destructive">{result.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
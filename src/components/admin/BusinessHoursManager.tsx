@@ -0,0 +1,542 @@
+// Importing required hooks, components, and icons
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+// Define the schedule interface, with its weekly hours and holidays
+interface Schedule {
+  id: string;
+  name: string;
+  timezone: string;
+  is_default: boolean;
+  business_hours: { day_of_week: number; start_time: string; end_time: string }[];
+  business_holidays: { holiday_date: string; name: string | null }[];
+}
+
+interface DayHours {
+  enabled: boolean;
+  start_time: string;
+  end_time: string;
+}
+
+interface Holiday {
+  holiday_date: string;
+  name: string;
+}
+
+// Listed Monday first; values are Postgres DOW numbers (0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' }
+];
+
+const defaultWeek = (): DayHours[] =>
+  Array.from({ length: 7 }, (_, dow) => ({
+    enabled: dow >= 1 && dow <= 5,
+    start_time: '09:00',
+    end_time: '17:00'
+  }));
+
+const emptyForm = () => ({
+  name: '',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  is_default: false,
+  week: defaultWeek(),
+  holidays: [] as Holiday[]
+});
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "Mon 09:00-17:00 · Tue 09:00-17:00" summary of a schedule's weekly hours
+const summarizeHours = (schedule: Schedule) => {
+  if (schedule.business_hours.length === 0) return 'No hours';
+  return WEEKDAYS
+    .filter((day) => schedule.business_hours.some((h) => h.day_of_week === day.value))
+    .map((day) => {
+      const hours = schedule.business_hours.filter((h) => h.day_of_week === day.value);
+      return `${day.label.slice(0, 3)} ${hours.map((h) => `${h.start_time.slice(0, 5)}-${h.end_time.slice(0, 5)}`).join(', ')}`;
+    })
+    .join(' · ');
+};
+
+// Main Business Hours Manager Component
+export const BusinessHoursManager = () => {
+  const { toast } = useToast();
+
+  // Local state for schedules, form, and UI control
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [newHoliday, setNewHoliday] = useState<Holiday>({ holiday_date: '', name: '' });
+
+  // Fetch schedules when component mounts
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  // Fetch schedules with their hours and holidays from Supabase
+  const fetchSchedules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('business_schedules')
+        .select('*, business_hours(day_of_week, start_time, end_time), business_holidays(holiday_date, name)')
+        .order('name');
+
+      if (error) throw error;
+      setSchedules(data || []);
+    } catch (error) {
+      console.error('Error fetching business schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDay = (dow: number, changes: Partial<DayHours>) => {
+    setFormData({
+      ...formData,
+      week: formData.week.map((day, index) => (index === dow ? { ...day, ...changes } : day))
+    });
+  };
+
+  const addHoliday = () => {
+    if (!newHoliday.holiday_date || formData.holidays.some((h) => h.holiday_date === newHoliday.holiday_date)) {
+      return;
+    }
+    setFormData({
+      ...formData,
+      holidays: [...formData.holidays, newHoliday].sort((a, b) => a.holiday_date.localeCompare(b.holiday_date))
+    });
+    setNewHoliday({ holiday_date: '', name: '' });
+  };
+
+  const removeHoliday = (date: string) => {
+    setFormData({ ...formData, holidays: formData.holidays.filter((h) => h.holiday_date !== date) });
+  };
+
+  // Submit handler for form (create or update). Hours and holidays are
+  // replaced wholesale, since the dialog always edits the full calendar.
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidTimezone(formData.timezone)) {
+      toast({
+        title: 'Invalid timezone',
+        description: 'Use an IANA timezone name such as "Europe/Berlin" or "America/New_York".',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (formData.week.some((day) => day.enabled && day.end_time <= day.start_time)) {
+      toast({
+        title: 'Invalid hours',
+        description: 'Each working day must end after it starts.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Only one schedule can be the default
+      if (formData.is_default) {
+        let query = supabase
+          .from('business_schedules')
+          .update({ is_default: false })
+          .eq('is_default', true);
+        if (editingSchedule) query = query.neq('id', editingSchedule.id);
+
+        const { error } = await query;
+        if (error) throw error;
+      }
+
+      const payload = {
+        name: formData.name,
+        timezone: formData.timezone,
+        is_default: formData.is_default
+      };
+
+      let scheduleId = editingSchedule?.id;
+      if (scheduleId) {
+        const { error } = await supabase
+          .from('business_schedules')
+          .update(payload)
+          .eq('id', scheduleId);
+
+        if (error) throw error;
+
+        const { error: hoursError } = await supabase.from('business_hours').delete().eq('schedule_id', scheduleId);
+        if (hoursError) throw hoursError;
+
+        const { error: holidaysError } = await supabase.from('business_holidays').delete().eq('schedule_id', scheduleId);
+        if (holidaysError) throw holidaysError;
+      } else {
+        const { data, error } = await supabase
+          .from('business_schedules')
+          .insert(payload)
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        scheduleId = data.id;
+      }
+
+      const hours = formData.week
+        .map((day, dow) => ({ ...day, dow }))
+        .filter((day) => day.enabled)
+        .map((day) => ({
+          schedule_id: scheduleId as string,
+          day_of_week: day.dow,
+          start_time: day.start_time,
+          end_time: day.end_time
+        }));
+
+      if (hours.length > 0) {
+        const { error } = await supabase.from('business_hours').insert(hours);
+        if (error) throw error;
+      }
+
+      if (formData.holidays.length > 0) {
+        const { error } = await supabase.from('business_holidays').insert(
+          formData.holidays.map((holiday) => ({
+            schedule_id: scheduleId as string,
+            holiday_date: holiday.holiday_date,
+            name: holiday.name || null
+          }))
+        );
+        if (error) throw error;
+      }
+
+      toast({
+        title: editingSchedule ? 'Schedule Updated' : 'Schedule Created',
+        description: 'SLA due dates use the new hours for tickets created or re-prioritized from now on.'
+      });
+
+      // Reset state and refresh schedules
+      setShowDialog(false);
+      setEditingSchedule(null);
+      setFormData(emptyForm());
+      await fetchSchedules();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save schedule',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Set editing state and open dialog. The form edits one window per day;
+  // extra windows on a day collapse to their overall span.
+  const handleEdit = (schedule: Schedule) => {
+    const week = defaultWeek().map((day, dow) => {
+      const hours = schedule.business_hours.filter((h) => h.day_of_week === dow);
+      if (hours.length === 0) return { ...day, enabled: false };
+      return {
+        enabled: true,
+        start_time: hours.map((h) => h.start_time.slice(0, 5)).sort()[0],
+        end_time: hours.map((h) => h.end_time.slice(0, 5)).sort().reverse()[0]
+      };
+    });
+
+    setEditingSchedule(schedule);
+    setFormData({
+      name: schedule.name,
+      timezone: schedule.timezone,
+      is_default: schedule.is_default,
+      week,
+      holidays: schedule.business_holidays
+        .map((h) => ({ holiday_date: h.holiday_date, name: h.name || '' }))
+        .sort((a, b) => a.holiday_date.localeCompare(b.holiday_date))
+    });
+    setNewHoliday({ holiday_date: '', name: '' });
+    setShowDialog(true);
+  };
+
+  // Delete a schedule after confirmation
+  const handleDelete = async (scheduleId: string) => {
+    if (!confirm('Are you sure you want to delete this schedule? SLA policies using it will fall back to 24/7 clocks.')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('business_schedules')
+        .delete()
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Schedule Deleted',
+        description: 'The schedule has been deleted successfully.'
+      });
+
+      await fetchSchedules();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete schedule',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reset form and open create dialog
+  const openCreateDialog = () => {
+    setEditingSchedule(null);
+    setFormData(emptyForm());
+    setNewHoliday({ holiday_date: '', name: '' });
+    setShowDialog(true);
+  };
+
+  // Loading state if schedules are still being fetched
+  if (loading && schedules.length === 0) {
+    return <div className="text-center py-4">Loading business hours...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header with title and add button */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Business Hours</h3>
+          <p className="text-sm text-muted-foreground">
+            Weekly hours and holidays used to count SLA and ticket age in business time
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Schedule
+        </Button>
+      </div>
+
+      {/* Table listing all schedules */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Timezone</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Holidays</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                    No schedules found. SLA clocks run 24/7.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                schedules.map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{schedule.name}</span>
+                        {schedule.is_default && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{schedule.timezone}</TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">{summarizeHours(schedule)}</span>
+                    </TableCell>
+                    <TableCell>{schedule.business_holidays.length}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(schedule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(schedule.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Dialog for creating or editing a schedule */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? 'Edit Schedule' : 'Create Schedule'}</DialogTitle>
+            <DialogDescription>
+              Hours are local to the schedule's timezone, so daylight saving changes are handled automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. EU support desk"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-timezone">Timezone</Label>
+                <Input
+                  id="schedule-timezone"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                  placeholder="Europe/Berlin"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-default"
+                checked={formData.is_default}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_default: checked })}
+              />
+              <Label htmlFor="schedule-default">Default schedule (used for ticket age)</Label>
+            </div>
+
+            {/* Weekly hours, one row per day */}
+            <div className="space-y-2">
+              <Label>Weekly hours</Label>
+              {WEEKDAYS.map(({ value, label }) => {
+                const day = formData.week[value];
+                return (
+                  <div key={value} className="flex items-center gap-3">
+                    <Switch
+                      checked={day.enabled}
+                      onCheckedChange={(checked) => updateDay(value, { enabled: checked })}
+                    />
+                    <span className="w-24 text-sm">{label}</span>
+                    <Input
+                      type="time"
+                      value={day.start_time}
+                      onChange={(e) => updateDay(value, { start_time: e.target.value })}
+                      disabled={!day.enabled}
+                      className="w-32"
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={day.end_time}
+                      onChange={(e) => updateDay(value, { end_time: e.target.value })}
+                      disabled={!day.enabled}
+                      className="w-32"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Holiday calendar */}
+            <div className="space-y-2">
+              <Label>Holidays</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={newHoliday.holiday_date}
+                  onChange={(e) => setNewHoliday({ ...newHoliday, holiday_date: e.target.value })}
+                  className="w-44"
+                />
+                <Input
+                  value={newHoliday.name}
+                  onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                  placeholder="Name (optional)"
+                  className="flex-1"
+                />
+                <Button type="button" variant="outline" onClick={addHoliday} disabled={!newHoliday.holiday_date}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {formData.holidays.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No holidays.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {formData.holidays.map((holiday) => (
+                    <Badge key={holiday.holiday_date} variant="outline" className="gap-1">
+                      {holiday.holiday_date}{holiday.name && ` · ${holiday.name}`}
+                      <button
+                        type="button"
+                        onClick={() => removeHoliday(holiday.holiday_date)}
+                        className="ml-1 text-muted-foreground hover:text-foreground"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Form buttons */}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : editingSchedule ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -22,6 +22,13 @@ import {
 } from '@/components/ui/table';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Plus, Edit, Trash2, Tag } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -32,9 +39,29 @@ interface Category {
   name: string;
   description: string;
   color: string;
+  assignment_strategy: string;
+  assignment_team_id: string | null;
   created_at: string;
 }
 
+// How new tickets in a category are assigned (see choose_ticket_assignee)
+const ASSIGNMENT_STRATEGIES: Record<string, { label: string; description: string }> = {
+  manual: { label: 'Manual', description: 'Tickets stay unassigned until an agent picks them up' },
+  round_robin: { label: 'Round-robin', description: 'Agents take turns, one ticket each' },
+  least_open: { label: 'Least open tickets', description: 'The agent with the fewest open tickets' }
+};
+
+// Radix Select can't use an empty value for "no team"
+const ALL_AGENTS = 'all';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  color: '#3B82F6',
+  assignment_strategy: 'manual',
+  assignment_team_id: ALL_AGENTS
+};
+
 // Props for the CategoryManager component
 interface CategoryManagerProps {
   onCategoryUpdated: () => void;
@@ -46,14 +73,11 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
 
   // Local state for categories, form, and UI control
   const [categories, setCategories] = useState<Category[]>([]);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [showDialog, setShowDialog] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    color: '#3B82F6'
-  });
+  const [formData, setFormData] = useState(emptyForm);
 
   // Fetch categories when component mounts
   useEffect(() => {
@@ -63,13 +87,21 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
   // Fetch categories from Supabase
   const fetchCategories = async () => {
     try {
-      const { data, error } = await supabase
-        .from('categories')
-        .select('*')
-        .order('name');
+      const [{ data, error }, { data: teamData, error: teamError }] = await Promise.all([
+        supabase
+          .from('categories')
+          .select('*')
+          .order('name'),
+        supabase
+          .from('teams')
+          .select('id, name')
+          .order('name')
+      ]);
 
       if (error) throw error;
+      if (teamError) throw teamError;
       setCategories(data || []);
+      setTeams(teamData || []);
     } catch (error) {
       console.error('Error fetching categories:', error);
     } finally {
@@ -83,11 +115,16 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
     setLoading(true);
 
     try {
+      const category = {
+        ...formData,
+        assignment_team_id: formData.assignment_team_id === ALL_AGENTS ? null : formData.assignment_team_id
+      };
+
       if (editingCategory) {
         // Update existing category
         const { error } = await supabase
           .from('categories')
-          .update(formData)
+          .update(category)
           .eq('id', editingCategory.id);
 
         if (error) throw error;
@@ -100,7 +137,7 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
         // Insert new category
         const { error } = await supabase
           .from('categories')
-          .insert(formData);
+          .insert(category);
 
         if (error) throw error;
 
@@ -113,7 +150,7 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
       // Reset state and refresh categories
       setShowDialog(false);
       setEditingCategory(null);
-      setFormData({ name: '', description: '', color: '#3B82F6' });
+      setFormData(emptyForm);
       await fetchCategories();
       onCategoryUpdated();
     } catch (error: any) {
@@ -133,7 +170,9 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
     setFormData({
       name: category.name,
       description: category.description,
-      color: category.color
+      color: category.color,
+      assignment_strategy: category.assignment_strategy,
+      assignment_team_id: category.assignment_team_id || ALL_AGENTS
     });
     setShowDialog(true);
   };
@@ -174,7 +213,7 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
   // Reset form and open create dialog
   const openCreateDialog = () => {
     setEditingCategory(null);
-    setFormData({ name: '', description: '', color: '#3B82F6' });
+    setFormData(emptyForm);
     setShowDialog(true);
   };
 
@@ -208,6 +247,7 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
                 <TableHead>Name</TableHead>
                 <TableHead>Description</TableHead>
                 <TableHead>Color</TableHead>
+                <TableHead>Assignment</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -216,7 +256,7 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
               {/* Show message if no categories */}
               {categories.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                  <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
                     No categories found.
                   </TableCell>
                 </TableRow>
@@ -249,6 +289,17 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
                         {category.color}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {/* Strategy, and the team it draws agents from */}
+                      <div className="text-sm">
+                        {ASSIGNMENT_STRATEGIES[category.assignment_strategy]?.label || category.assignment_strategy}
+                      </div>
+                      {category.assignment_strategy !== 'manual' && (
+                        <div className="text-xs text-muted-foreground">
+                          {teams.find((team) => team.id === category.assignment_team_id)?.name || 'All agents'}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {/* Format creation date */}
                       {new Date(category.created_at).toLocaleDateString()}
@@ -341,6 +392,54 @@ export const CategoryManager = ({ onCategoryUpdated }: CategoryManagerProps) =>
               </div>
             </div>
 
+            {/* Automatic assignment of new tickets */}
+            <div className="space-y-2">
+              <Label>Assignment</Label>
+              <Select
+                value={formData.assignment_strategy}
+                onValueChange={(value) => setFormData({ ...formData, assignment_strategy: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ASSIGNMENT_STRATEGIES).map(([value, strategy]) => (
+                    <SelectItem key={value} value={value}>
+                      {strategy.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {ASSIGNMENT_STRATEGIES[formData.assignment_strategy]?.description}
+              </p>
+            </div>
+
+            {formData.assignment_strategy !== 'manual' && (
+              <div className="space-y-2">
+                <Label>Assign to</Label>
+                <Select
+                  value={formData.assignment_team_id}
+                  onValueChange={(value) => setFormData({ ...formData, assignment_team_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_AGENTS}>All agents</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name} team
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Only available agents below their ticket limit are picked.
+                </p>
+              </div>
+            )}
+
             {/* Form buttons */}
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
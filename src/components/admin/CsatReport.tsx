@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { CsatResult, CsatSummary, CsatRating, csatBreakdown, summarizeCsat, weeklyCsat } from '@/lib/csat';
+
+// Breakdowns compare the last PERIOD_DAYS days with the ones before; the
+// trend covers TREND_WEEKS weeks
+const PERIOD_DAYS = 30;
+const TREND_WEEKS = 12;
+
+const chartConfig = {
+  score: { label: 'CSAT %', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const formatScore = (summary: CsatSummary) => (summary.score === null ? '—' : `${summary.score}%`);
+
+// Change in score against the previous period, in percentage points
+const Delta = ({ current, previous }: { current: CsatSummary; previous: CsatSummary }) => {
+  if (current.score === null || previous.score === null) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  const delta = current.score - previous.score;
+  if (delta === 0) return <span className="text-xs text-muted-foreground">±0</span>;
+
+  const Icon = delta > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={`flex items-center gap-1 text-xs ${delta > 0 ? 'text-green-700' : 'text-red-700'}`}>
+      <Icon className="h-3 w-3" />
+      {delta > 0 ? '+' : ''}{delta} pts
+    </span>
+  );
+};
+
+// Customer satisfaction: overall score, weekly trend, and by agent and
+// category against the previous period
+export const CsatReport = () => {
+  const [results, setResults] = useState<CsatResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchResults();
+  }, []);
+
+  const fetchResults = async () => {
+    setLoading(true);
+    try {
+      const since = new Date(Math.min(daysAgo(PERIOD_DAYS * 2).getTime(), daysAgo(TREND_WEEKS * 7).getTime()));
+      const { data, error } = await supabase
+        .from('csat_surveys')
+        .select(`
+          rating, rated_at,
+          agent:profiles!csat_surveys_agent_id_fkey(id, full_name, username),
+          category:categories(id, name, color)
+        `)
+        .not('rating', 'is', null)
+        .gte('rated_at', since.toISOString());
+
+      if (error) throw error;
+
+      setResults((data || []).map((survey) => ({
+        rating: survey.rating as CsatRating,
+        rated_at: survey.rated_at,
+        agent: survey.agent
+          ? { id: survey.agent.id, name: survey.agent.full_name || survey.agent.username || 'Unknown agent' }
+          : null,
+        category: survey.category
+      })));
+    } catch (error) {
+      console.error('Error fetching satisfaction ratings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const period = { start: daysAgo(PERIOD_DAYS), previousStart: daysAgo(PERIOD_DAYS * 2) };
+  const current = summarizeCsat(results.filter((result) => new Date(result.rated_at) >= period.start));
+  const previous = summarizeCsat(results.filter((result) => {
+    const ratedAt = new Date(result.rated_at);
+    return ratedAt >= period.previousStart && ratedAt < period.start;
+  }));
+
+  const trend = weeklyCsat(results, TREND_WEEKS).map((week) => ({
+    week: week.week.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    score: week.score,
+    ratings: week.good + week.bad
+  }));
+
+  const byAgent = csatBreakdown(results, (result) => result.agent, period, 'Unassigned');
+  const byCategory = csatBreakdown(results, (result) => result.category, period, 'Uncategorized');
+
+  const renderBreakdown = (title: string, label: string, rows: ReturnType<typeof csatBreakdown>) => (
+    <div className="space-y-2">
+      <h4 className="font-medium">{title}</h4>
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{label}</TableHead>
+                <TableHead>Ratings</TableHead>
+                <TableHead>CSAT</TableHead>
+                <TableHead>Previous</TableHead>
+                <TableHead>Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                    {loading ? 'Loading ratings...' : `No ratings in the last ${PERIOD_DAYS} days.`}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.id || 'none'}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {row.current.good} good / {row.current.bad} bad
+                    </TableCell>
+                    <TableCell>{formatScore(row.current)}</TableCell>
+                    <TableCell className="text-muted-foreground">{formatScore(row.previous)}</TableCell>
+                    <TableCell><Delta current={row.current} previous={row.previous} /></TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header with refresh */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Customer Satisfaction</h3>
+          <p className="text-sm text-muted-foreground">
+            Share of good ratings requesters gave solved tickets
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchResults} aria-label="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>CSAT, last {PERIOD_DAYS} days</CardDescription>
+            <CardTitle className="text-3xl">{formatScore(current)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Delta current={current} previous={previous} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Good ratings</CardDescription>
+            <CardTitle className="text-3xl text-green-700">{current.good}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Bad ratings</CardDescription>
+            <CardTitle className="text-3xl text-red-700">{current.bad}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Weekly trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <LineChart data={trend} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line
+                dataKey="score"
+                type="monotone"
+                stroke="var(--color-score)"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+              />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {renderBreakdown('By agent', 'Agent', byAgent)}
+      {renderBreakdown('By category', 'Category', byCategory)}
+    </div>
+  );
+};
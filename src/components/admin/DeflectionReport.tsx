@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { KbSuggestion, suggestionUrl } from '@/lib/kb';
+
+const PERIOD_DAYS = 30;
+
+interface Deflection {
+  viewed_kind: string | null;
+  viewed_id: string | null;
+  viewed_title: string | null;
+  ticket_id: string | null;
+}
+
+interface ContentRow {
+  kind: KbSuggestion['kind'];
+  id: string;
+  title: string;
+  views: number;
+  deflected: number;
+}
+
+const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : '—');
+
+// How often knowledge base suggestions in the ticket form stopped a ticket
+// from being created, and which content did it
+export const DeflectionReport = () => {
+  const [rows, setRows] = useState<Deflection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDeflections();
+  }, []);
+
+  const fetchDeflections = async () => {
+    setLoading(true);
+    try {
+      const since = new Date(Date.now() - PERIOD_DAYS * 24 * 60 * 60 * 1000);
+      const { data, error } = await supabase
+        .from('ticket_deflections')
+        .select('viewed_kind, viewed_id, viewed_title, ticket_id')
+        .gte('created_at', since.toISOString());
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching deflections:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const viewed = rows.filter((row) => row.viewed_id);
+  const deflected = viewed.filter((row) => !row.ticket_id);
+
+  const content = new Map<string, ContentRow>();
+  viewed.forEach((row) => {
+    const key = `${row.viewed_kind}-${row.viewed_id}`;
+    const entry = content.get(key) ?? {
+      kind: row.viewed_kind as KbSuggestion['kind'],
+      id: row.viewed_id,
+      title: row.viewed_title || 'Untitled',
+      views: 0,
+      deflected: 0
+    };
+    entry.views += 1;
+    if (!row.ticket_id) entry.deflected += 1;
+    content.set(key, entry);
+  });
+  const topContent = [...content.values()].sort((a, b) => b.deflected - a.deflected || b.views - a.views).slice(0, 10);
+
+  const stats = [
+    { label: 'Forms with suggestions', value: String(rows.length) },
+    { label: 'Opened a suggestion', value: percent(viewed.length, rows.length) },
+    { label: 'Deflection rate', value: percent(deflected.length, rows.length) },
+    { label: 'Deflected after opening', value: percent(deflected.length, viewed.length) }
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Header with refresh */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Ticket Deflection</h3>
+          <p className="text-sm text-muted-foreground">
+            Ticket forms in the last {PERIOD_DAYS} days that showed knowledge base suggestions. A form is deflected
+            when the user opened a suggestion and didn't create the ticket.
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchDeflections} aria-label="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{stat.label}</CardDescription>
+              <CardTitle className="text-3xl">{loading ? '…' : stat.value}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Most deflecting content</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Deflected</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {topContent.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-4 text-muted-foreground">
+                    {loading ? 'Loading...' : 'No suggestions have been opened yet.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                topContent.map((row) => (
+                  <TableRow key={`${row.kind}-${row.id}`}>
+                    <TableCell>
+                      <Link to={suggestionUrl(row)} className="text-sm underline">{row.title}</Link>
+                      <div className="text-xs text-muted-foreground">
+                        {row.kind === 'article' ? 'Article' : 'Accepted answer'}
+                      </div>
+                    </TableCell>
+                    <TableCell>{row.views}</TableCell>
+                    <TableCell>{row.deflected}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface EmailMessage {
+  id: string;
+  template: string;
+  status: string;
+  ticket_id: string | null;
+  to_address: string | null;
+  subject: string | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: string | null;
+  sent_at: string | null;
+  recipient: { full_name: string | null; username: string | null; email: string | null } | null;
+}
+
+const STATUSES = ['pending', 'sending', 'sent', 'failed', 'skipped'];
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-blue-100 text-blue-800 border-blue-200',
+  sending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  sent: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  skipped: 'bg-gray-100 text-gray-800 border-gray-200'
+};
+
+const templateLabels: Record<string, string> = {
+  ticket_created: 'Ticket received',
+  agent_reply: 'Agent reply',
+  status_changed: 'Status changed',
+  assignment: 'Assignment',
+  csat_request: 'Satisfaction survey'
+};
+
+// Delivery log for outbound email, newest first
+export const EmailLog = () => {
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<EmailMessage[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [statusFilter]);
+
+  const fetchMessages = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('email_messages')
+        .select('*, recipient:profiles!email_messages_recipient_id_fkey(full_name, username, email)')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setMessages(data || []);
+    } catch (error) {
+      console.error('Error fetching email log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Puts a failed message back in the queue for the next send run
+  const retryMessage = async (messageId: string) => {
+    try {
+      const { error } = await supabase
+        .from('email_messages')
+        .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+        .eq('id', messageId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Email Requeued',
+        description: 'The email will be sent on the next run.'
+      });
+      fetchMessages();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to requeue email',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const formatDate = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleString() : '—';
+
+  return (
+    <div className="space-y-4">
+      {/* Header with status filter */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Email Delivery</h3>
+          <p className="text-sm text-muted-foreground">
+            Outbound ticket emails and their delivery status
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={fetchMessages} aria-label="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Ticket</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && messages.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-4">Loading emails...</TableCell>
+                </TableRow>
+              ) : messages.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-4 text-muted-foreground">
+                    No emails found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                messages.map((message) => (
+                  <TableRow key={message.id}>
+                    <TableCell className="text-sm">{formatDate(message.created_at)}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {message.recipient?.full_name || message.recipient?.username || 'Unknown'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {message.to_address || message.recipient?.email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{templateLabels[message.template] || message.template}</div>
+                      {message.subject && (
+                        <div className="text-xs text-muted-foreground line-clamp-1">{message.subject}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {message.ticket_id && (
+                        <Link to={`/tickets/${message.ticket_id}`} className="text-sm underline">
+                          #{message.ticket_id.slice(-8)}
+                        </Link>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={statusColors[message.status]}>{message.status}</Badge>
+                      {message.status === 'sent' ? (
+                        <div className="text-xs text-muted-foreground">{formatDate(message.sent_at)}</div>
+                      ) : message.last_error && (
+                        <div className="text-xs text-muted-foreground line-clamp-2" title={message.last_error}>
+                          {message.last_error}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{message.attempts}</TableCell>
+                    <TableCell className="text-right">
+                      {message.status === 'failed' && (
+                        <Button variant="ghost" size="sm" onClick={() => retryMessage(message.id)}>
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
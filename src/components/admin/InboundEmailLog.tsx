@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+interface InboundEmail {
+  id: string;
+  from_address: string;
+  subject: string | null;
+  status: string;
+  reason: string | null;
+  ticket_id: string | null;
+  attachments_stored: number;
+  attachments_skipped: number;
+  received_at: string | null;
+}
+
+const statusColors: Record<string, string> = {
+  ticket_created: 'bg-green-100 text-green-800 border-green-200',
+  comment_added: 'bg-blue-100 text-blue-800 border-blue-200',
+  ignored: 'bg-gray-100 text-gray-800 border-gray-200',
+  rejected: 'bg-red-100 text-red-800 border-red-200'
+};
+
+// Messages received by the inbound-email function and what became of them
+export const InboundEmailLog = () => {
+  const [emails, setEmails] = useState<InboundEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEmails();
+  }, []);
+
+  const fetchEmails = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('inbound_emails')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setEmails(data || []);
+    } catch (error) {
+      console.error('Error fetching inbound emails:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Inbound Email</h3>
+          <p className="text-sm text-muted-foreground">
+            Emails turned into tickets and comments
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchEmails} aria-label="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Ticket</TableHead>
+                <TableHead>Attachments</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && emails.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4">Loading emails...</TableCell>
+                </TableRow>
+              ) : emails.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                    No inbound emails yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                emails.map((email) => (
+                  <TableRow key={email.id}>
+                    <TableCell className="text-sm">
+                      {email.received_at ? new Date(email.received_at).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">{email.from_address}</TableCell>
+                    <TableCell className="text-sm max-w-xs truncate" title={email.subject || undefined}>
+                      {email.subject || '(no subject)'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={statusColors[email.status]}>{email.status.replace('_', ' ')}</Badge>
+                      {email.reason && (
+                        <div className="text-xs text-muted-foreground">{email.reason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {email.ticket_id && (
+                        <Link to={`/tickets/${email.ticket_id}`} className="text-sm underline">
+                          #{email.ticket_id.slice(-8)}
+                        </Link>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {email.attachments_stored}
+                      {email.attachments_skipped > 0 && (
+                        <span className="text-muted-foreground"> ({email.attachments_skipped} skipped)</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
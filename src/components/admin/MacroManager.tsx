@@ -0,0 +1,499 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, Lock } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Macro, MACRO_PLACEHOLDERS, describeMacroChanges, unknownPlaceholders } from '@/lib/macros';
+import { useTicketStatuses } from '@/hooks/useTicketStatuses';
+import { TICKET_PRIORITIES, TicketPriority } from '@/lib/ticketFilters';
+
+interface MacroRow extends Macro {
+  owner: { full_name: string | null; username: string | null } | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+// Radix Select can't use an empty value, so "keep" stands for "no change"
+const KEEP = 'keep';
+
+const emptyForm = {
+  name: '',
+  content: '',
+  isInternal: false,
+  isShared: false,
+  status: KEEP,
+  priority: KEEP,
+  categoryId: KEEP,
+  assignee: KEEP
+};
+
+interface MacroManagerProps {
+  // Only the current user's personal macros (the settings page); otherwise
+  // every macro, for admins
+  personalOnly?: boolean;
+}
+
+// Canned replies with optional ticket field changes, picked from the
+// comment box. Admins manage shared macros; everyone manages their own.
+export const MacroManager = ({ personalOnly = false }: MacroManagerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { statuses } = useTicketStatuses();
+
+  const [macros, setMacros] = useState<MacroRow[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [agents, setAgents] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingMacro, setEditingMacro] = useState<MacroRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchMacros();
+  }, [user]);
+
+  const fetchMacros = async () => {
+    if (!user) return;
+
+    try {
+      let query = supabase
+        .from('macros')
+        .select('*, owner:profiles!macros_owner_id_fkey(full_name, username)')
+        .order('is_shared', { ascending: false })
+        .order('name');
+      if (personalOnly) query = query.eq('owner_id', user.id).eq('is_shared', false);
+
+      const [{ data, error }, { data: categoryData, error: categoryError }, { data: profiles, error: profilesError }] =
+        await Promise.all([
+          query,
+          supabase.from('categories').select('id, name').order('name'),
+          supabase
+            .from('profiles')
+            .select('id, full_name, username')
+            .in('role', ['agent', 'admin'])
+            .order('full_name')
+        ]);
+
+      if (error) throw error;
+      if (categoryError) throw categoryError;
+      if (profilesError) throw profilesError;
+
+      setMacros((data || []) as MacroRow[]);
+      setCategories(categoryData || []);
+      setAgents((profiles || []).map((p) => ({ id: p.id, name: p.full_name || p.username || 'Unknown' })));
+    } catch (error) {
+      console.error('Error fetching macros:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!formData.content.trim() && [formData.status, formData.priority, formData.categoryId, formData.assignee].every((v) => v === KEEP)) {
+      toast({
+        title: 'Nothing to do',
+        description: 'A macro needs a comment or at least one field change.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const macro = {
+        name: formData.name.trim(),
+        content: formData.content.trim(),
+        is_internal: formData.isInternal,
+        is_shared: !personalOnly && formData.isShared,
+        set_status: formData.status === KEEP ? null : formData.status,
+        set_priority: formData.priority === KEEP ? null : (formData.priority as TicketPriority),
+        set_category_id: formData.categoryId === KEEP ? null : formData.categoryId,
+        set_assignee: formData.assignee === KEEP ? null : formData.assignee
+      };
+
+      if (editingMacro) {
+        const { error } = await supabase
+          .from('macros')
+          .update(macro)
+          .eq('id', editingMacro.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('macros')
+          .insert({ ...macro, owner_id: user.id });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: editingMacro ? 'Macro Updated' : 'Macro Created',
+        description: editingMacro ? 'The macro has been updated successfully.' : 'The new macro has been created successfully.'
+      });
+
+      setShowDialog(false);
+      setEditingMacro(null);
+      setFormData(emptyForm);
+      await fetchMacros();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save macro',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (macro: MacroRow) => {
+    setEditingMacro(macro);
+    setFormData({
+      name: macro.name,
+      content: macro.content,
+      isInternal: macro.is_internal,
+      isShared: macro.is_shared,
+      status: macro.set_status || KEEP,
+      priority: macro.set_priority || KEEP,
+      categoryId: macro.set_category_id || KEEP,
+      assignee: macro.set_assignee || KEEP
+    });
+    setShowDialog(true);
+  };
+
+  const handleDelete = async (macroId: string) => {
+    if (!confirm('Are you sure you want to delete this macro?')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('macros')
+        .delete()
+        .eq('id', macroId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Macro Deleted',
+        description: 'The macro has been deleted successfully.'
+      });
+
+      await fetchMacros();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete macro',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingMacro(null);
+    setFormData({ ...emptyForm, isShared: !personalOnly });
+    setShowDialog(true);
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const separator = formData.content && !/\s$/.test(formData.content) ? ' ' : '';
+    setFormData({ ...formData, content: `${formData.content}${separator}{{${key}}}` });
+  };
+
+  const unknown = unknownPlaceholders(formData.content);
+
+  if (loading && macros.length === 0) {
+    return <div className="text-center py-4">Loading macros...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header with title and add button */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">{personalOnly ? 'My Macros' : 'Macros'}</h3>
+          <p className="text-sm text-muted-foreground">
+            {personalOnly
+              ? 'Canned replies only you can use'
+              : 'Canned replies agents insert from the comment box'}
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Macro
+        </Button>
+      </div>
+
+      {/* Macros table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                {!personalOnly && <TableHead>Owner</TableHead>}
+                <TableHead>Field changes</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {macros.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={personalOnly ? 4 : 5} className="text-center py-4 text-muted-foreground">
+                    No macros found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                macros.map((macro) => (
+                  <TableRow key={macro.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {macro.name}
+                        {macro.is_internal && <Lock className="h-3 w-3 text-amber-600" />}
+                      </div>
+                      <div className="max-w-xs truncate text-sm text-muted-foreground">
+                        {macro.content || 'No comment'}
+                      </div>
+                    </TableCell>
+                    {!personalOnly && (
+                      <TableCell>
+                        {macro.is_shared ? (
+                          <Badge>Shared</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {macro.owner?.full_name || macro.owner?.username || 'Unknown'}
+                          </span>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {describeMacroChanges(macro, { categories, agents, statuses }).map((change) => (
+                          <Badge key={change} variant="outline">{change}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{macro.usage_count}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(macro)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(macro.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingMacro ? 'Edit Macro' : 'Create New Macro'}</DialogTitle>
+            <DialogDescription>
+              The comment is inserted into the comment box; field changes apply when it is posted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="macro-name">Name</Label>
+              <Input
+                id="macro-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Clear browser cache"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="macro-content">Comment</Label>
+              <Textarea
+                id="macro-content"
+                value={formData.content}
+                onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                placeholder="Hi {{requester.first_name}}, ..."
+                rows={6}
+              />
+              {/* Clicking a placeholder appends it to the comment */}
+              <div className="flex flex-wrap gap-1">
+                {MACRO_PLACEHOLDERS.map((placeholder) => (
+                  <Badge
+                    key={placeholder.key}
+                    variant="secondary"
+                    className="cursor-pointer font-mono text-xs"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.key)}
+                  >
+                    {`{{${placeholder.key}}}`}
+                  </Badge>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Unknown placeholders: {unknown.map((key) => `{{${key}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="macro-internal"
+                  checked={formData.isInternal}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isInternal: checked })}
+                />
+                <Label htmlFor="macro-internal">Post as internal note</Label>
+              </div>
+              {!personalOnly && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="macro-shared"
+                    checked={formData.isShared}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isShared: checked })}
+                  />
+                  <Label htmlFor="macro-shared">Shared with all agents</Label>
+                </div>
+              )}
+            </div>
+
+            {/* Field changes; "No change" leaves the field alone */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Set status</Label>
+                <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={KEEP}>No change</SelectItem>
+                    {statuses.map((status) => (
+                      <SelectItem key={status.key} value={status.key}>
+                        {status.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Set priority</Label>
+                <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={KEEP}>No change</SelectItem>
+                    {TICKET_PRIORITIES.map((priority) => (
+                      <SelectItem key={priority} value={priority} className="capitalize">
+                        {priority}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Set category</Label>
+                <Select value={formData.categoryId} onValueChange={(value) => setFormData({ ...formData, categoryId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={KEEP}>No change</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Set assignee</Label>
+                <Select value={formData.assignee} onValueChange={(value) => setFormData({ ...formData, assignee: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={KEEP}>No change</SelectItem>
+                    <SelectItem value="me">Whoever applies it</SelectItem>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : editingMacro ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
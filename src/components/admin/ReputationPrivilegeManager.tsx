@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useReputationPrivileges } from '@/hooks/useReputationPrivileges';
+
+// Reputation needed for each community privilege. Staff always have them.
+export const ReputationPrivilegeManager = () => {
+  const { privileges, loading, refetch } = useReputationPrivileges();
+  const { toast } = useToast();
+  // Edited thresholds, by privilege key
+  const [thresholds, setThresholds] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    setThresholds(Object.fromEntries(privileges.map((privilege) => [privilege.key, String(privilege.min_reputation)])));
+  }, [privileges]);
+
+  const save = async (key: string) => {
+    const value = Number(thresholds[key]);
+    if (!Number.isInteger(value) || value < 0) {
+      toast({
+        title: 'Error',
+        description: 'Reputation must be a whole number of zero or more',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setSaving(key);
+    try {
+      const { error } = await supabase
+        .from('reputation_privileges')
+        .update({ min_reputation: value })
+        .eq('key', key);
+
+      if (error) throw error;
+
+      toast({ title: 'Saved', description: 'Privilege threshold updated.' });
+      refetch();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update privilege',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header with refresh */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Reputation Privileges</h3>
+          <p className="text-sm text-muted-foreground">
+            Community members unlock these by earning reputation; agents and admins always have them
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={refetch} aria-label="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Privilege</TableHead>
+                <TableHead className="w-40">Reputation needed</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && privileges.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-4">Loading privileges...</TableCell>
+                </TableRow>
+              ) : (
+                privileges.map((privilege) => (
+                  <TableRow key={privilege.key}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{privilege.name}</p>
+                      {privilege.description && (
+                        <p className="text-xs text-muted-foreground">{privilege.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={thresholds[privilege.key] ?? ''}
+                        onChange={(e) => setThresholds({ ...thresholds, [privilege.key]: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={saving === privilege.key || thresholds[privilege.key] === String(privilege.min_reputation)}
+                        onClick={() => save(privilege.key)}
+                      >
+                        Save
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,486 @@
+// Importing required hooks, components, and icons
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+type Priority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Define the SLA policy interface
+interface SlaPolicy {
+  id: string;
+  name: string;
+  priority: Priority | null;
+  category_id: string | null;
+  first_response_minutes: number;
+  resolution_minutes: number;
+  is_active: boolean;
+  schedule_id: string | null;
+  categories: { name: string; color: string } | null;
+  business_schedules: { name: string } | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface Schedule {
+  id: string;
+  name: string;
+}
+
+// Select values can't be empty, so "any" stands in for NULL scopes
+const ANY = 'any';
+// ...and "24/7" stands in for a policy without a business-hours schedule
+const ALWAYS = 'always';
+
+const emptyForm = {
+  name: '',
+  priority: ANY,
+  category_id: ANY,
+  schedule_id: ALWAYS,
+  first_response_hours: '4',
+  resolution_hours: '24',
+  is_active: true
+};
+
+// "90" minutes -> "1.5h", "2880" -> "2d"
+const formatTarget = (minutes: number) => {
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${(minutes / 60).toFixed(2).replace(/\.?0+$/, '')}h`;
+};
+
+// Main SLA Policy Manager Component
+export const SlaPolicyManager = () => {
+  const { toast } = useToast();
+
+  // Local state for policies, form, and UI control
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Fetch policies and categories when component mounts
+  useEffect(() => {
+    fetchPolicies();
+    fetchCategories();
+    fetchSchedules();
+  }, []);
+
+  // Fetch SLA policies from Supabase
+  const fetchPolicies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sla_policies')
+        .select('*, categories(name, color), business_schedules(name)')
+        .order('resolution_minutes');
+
+      if (error) throw error;
+      setPolicies(data || []);
+    } catch (error) {
+      console.error('Error fetching SLA policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const fetchSchedules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('business_schedules')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setSchedules(data || []);
+    } catch (error) {
+      console.error('Error fetching business schedules:', error);
+    }
+  };
+
+  // Submit handler for form (create or update)
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const firstResponseMinutes = Math.round(parseFloat(formData.first_response_hours) * 60);
+    const resolutionMinutes = Math.round(parseFloat(formData.resolution_hours) * 60);
+
+    if (!(firstResponseMinutes > 0) || !(resolutionMinutes >= firstResponseMinutes)) {
+      toast({
+        title: 'Invalid targets',
+        description: 'Targets must be positive and resolution must not be shorter than first response.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const payload = {
+      name: formData.name,
+      priority: formData.priority === ANY ? null : (formData.priority as Priority),
+      category_id: formData.category_id === ANY ? null : formData.category_id,
+      schedule_id: formData.schedule_id === ALWAYS ? null : formData.schedule_id,
+      first_response_minutes: firstResponseMinutes,
+      resolution_minutes: resolutionMinutes,
+      is_active: formData.is_active
+    };
+
+    setLoading(true);
+    try {
+      if (editingPolicy) {
+        const { error } = await supabase
+          .from('sla_policies')
+          .update(payload)
+          .eq('id', editingPolicy.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'SLA Policy Updated',
+          description: 'The policy applies to tickets created or re-prioritized from now on.'
+        });
+      } else {
+        const { error } = await supabase
+          .from('sla_policies')
+          .insert(payload);
+
+        if (error) throw error;
+
+        toast({
+          title: 'SLA Policy Created',
+          description: 'The new SLA policy has been created successfully.'
+        });
+      }
+
+      // Reset state and refresh policies
+      setShowDialog(false);
+      setEditingPolicy(null);
+      setFormData(emptyForm);
+      await fetchPolicies();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save SLA policy',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Set editing state and open dialog
+  const handleEdit = (policy: SlaPolicy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      name: policy.name,
+      priority: policy.priority || ANY,
+      category_id: policy.category_id || ANY,
+      schedule_id: policy.schedule_id || ALWAYS,
+      first_response_hours: String(policy.first_response_minutes / 60),
+      resolution_hours: String(policy.resolution_minutes / 60),
+      is_active: policy.is_active
+    });
+    setShowDialog(true);
+  };
+
+  // Delete a policy after confirmation
+  const handleDelete = async (policyId: string) => {
+    if (!confirm('Are you sure you want to delete this SLA policy? Tickets using it will no longer be tracked.')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .delete()
+        .eq('id', policyId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'SLA Policy Deleted',
+        description: 'The SLA policy has been deleted successfully.'
+      });
+
+      await fetchPolicies();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete SLA policy',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reset form and open create dialog
+  const openCreateDialog = () => {
+    setEditingPolicy(null);
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  // Loading state if policies are still being fetched
+  if (loading && policies.length === 0) {
+    return <div className="text-center py-4">Loading SLA policies...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header with title and add button */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">SLA Policies</h3>
+          <p className="text-sm text-muted-foreground">
+            First-response and resolution targets by priority and category
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Policy
+        </Button>
+      </div>
+
+      {/* Table listing all policies */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>First Response</TableHead>
+                <TableHead>Resolution</TableHead>
+                <TableHead>Clock</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-4 text-muted-foreground">
+                    No SLA policies found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="font-medium">{policy.name}</TableCell>
+                    <TableCell>{policy.priority || 'Any'}</TableCell>
+                    <TableCell>{policy.categories?.name || 'Any'}</TableCell>
+                    <TableCell>{formatTarget(policy.first_response_minutes)}</TableCell>
+                    <TableCell>{formatTarget(policy.resolution_minutes)}</TableCell>
+                    <TableCell>{policy.business_schedules?.name || '24/7'}</TableCell>
+                    <TableCell>
+                      <Badge variant={policy.is_active ? 'default' : 'outline'}>
+                        {policy.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(policy)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(policy.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Dialog for creating or editing a policy */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? 'Edit SLA Policy' : 'Create SLA Policy'}</DialogTitle>
+            <DialogDescription>
+              The most specific active policy (category and priority, then category, then priority) applies to each ticket.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sla-name">Name</Label>
+              <Input
+                id="sla-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Urgent billing"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={formData.priority}
+                  onValueChange={(value) => setFormData({ ...formData, priority: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any priority</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="urgent">Urgent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any category</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-first-response">First response (hours)</Label>
+                <Input
+                  id="sla-first-response"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={formData.first_response_hours}
+                  onChange={(e) => setFormData({ ...formData, first_response_hours: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-resolution">Resolution (hours)</Label>
+                <Input
+                  id="sla-resolution"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={formData.resolution_hours}
+                  onChange={(e) => setFormData({ ...formData, resolution_hours: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Clock</Label>
+              <Select
+                value={formData.schedule_id}
+                onValueChange={(value) => setFormData({ ...formData, schedule_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALWAYS}>24/7 (wall-clock time)</SelectItem>
+                  {schedules.map((schedule) => (
+                    <SelectItem key={schedule.id} value={schedule.id}>
+                      {schedule.name} (business hours)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="sla-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="sla-active">Active</Label>
+            </div>
+
+            {/* Form buttons */}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : editingPolicy ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,525 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, Star } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { reloadTicketStatuses, useTicketStatuses } from '@/hooks/useTicketStatuses';
+import {
+  STATUS_CATEGORIES,
+  STATUS_COLORS,
+  STATUS_KEY,
+  StatusCategory,
+  StatusColor,
+  TicketStatusDefinition,
+  statusBadgeClass,
+  statusKeyFromName
+} from '@/lib/ticketStatuses';
+import { cn } from '@/lib/utils';
+
+// What each category means to the rest of the system
+const CATEGORY_HINTS: Record<StatusCategory, string> = {
+  new: 'Not yet picked up',
+  open: 'Being worked on',
+  pending: 'Waiting on someone else',
+  solved: 'Done, the requester can still reopen it',
+  closed: 'Finished for good'
+};
+
+const emptyForm = {
+  key: '',
+  name: '',
+  category: 'open' as StatusCategory,
+  color: 'gray' as StatusColor,
+  is_default: false,
+  // Statuses this one may move to
+  next: [] as string[]
+};
+
+// Admin screen for ticket statuses and the transitions allowed between them.
+// The database enforces the transitions; this only edits them.
+export const StatusManager = () => {
+  const { toast } = useToast();
+  const { statuses, transitions, loading: statusesLoading, nextStatuses } = useTicketStatuses();
+  const [loading, setLoading] = useState(false);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingStatus, setEditingStatus] = useState<TicketStatusDefinition | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message || fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const key = editingStatus ? editingStatus.key : formData.key;
+    if (!STATUS_KEY.test(key)) {
+      toast({
+        title: 'Invalid key',
+        description: 'Use lowercase letters, digits and underscores, starting with a letter.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Only one status can be the default; clear the old one first
+      if (formData.is_default) {
+        const { error } = await supabase
+          .from('ticket_statuses')
+          .update({ is_default: false })
+          .eq('is_default', true)
+          .neq('key', key);
+
+        if (error) throw error;
+      }
+
+      const status = {
+        name: formData.name.trim(),
+        category: formData.category,
+        color: formData.color,
+        is_default: formData.is_default
+      };
+
+      if (editingStatus) {
+        const { error } = await supabase
+          .from('ticket_statuses')
+          .update(status)
+          .eq('key', key);
+
+        if (error) throw error;
+      } else {
+        const position = statuses.reduce((max, s) => Math.max(max, s.position), -1) + 1;
+        const { error } = await supabase
+          .from('ticket_statuses')
+          .insert({ ...status, key, position });
+
+        if (error) throw error;
+      }
+
+      // Replace the outgoing transitions with the ones ticked
+      const current = transitions.filter((t) => t.from_status === key).map((t) => t.to_status);
+      const removed = current.filter((to) => !formData.next.includes(to));
+      const added = formData.next.filter((to) => !current.includes(to));
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('ticket_status_transitions')
+          .delete()
+          .eq('from_status', key)
+          .in('to_status', removed);
+
+        if (error) throw error;
+      }
+
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('ticket_status_transitions')
+          .insert(added.map((to) => ({ from_status: key, to_status: to })));
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: editingStatus ? 'Status Updated' : 'Status Created',
+        description: `"${status.name}" has been saved.`
+      });
+
+      setShowDialog(false);
+      setEditingStatus(null);
+      setFormData(emptyForm);
+      await reloadTicketStatuses();
+    } catch (error) {
+      showError(error, 'Failed to save status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (status: TicketStatusDefinition) => {
+    setEditingStatus(status);
+    setFormData({
+      key: status.key,
+      name: status.name,
+      category: status.category,
+      color: status.color,
+      is_default: status.is_default,
+      next: nextStatuses(status.key).map((s) => s.key)
+    });
+    setShowDialog(true);
+  };
+
+  // Statuses still used by tickets can't be deleted, so the history and
+  // reports keep meaning something
+  const handleDelete = async (status: TicketStatusDefinition) => {
+    if (status.is_default) {
+      toast({
+        title: 'Cannot delete',
+        description: 'Make another status the default first.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { count, error: countError } = await supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status.key);
+
+      if (countError) throw countError;
+      if (count) {
+        toast({
+          title: 'Cannot delete',
+          description: `${count} ticket${count === 1 ? ' is' : 's are'} still "${status.name}".`,
+          variant: 'destructive'
+        });
+        return;
+      }
+
+      if (!confirm(`Delete the "${status.name}" status and its transitions? This action cannot be undone.`)) {
+        return;
+      }
+
+      const { error } = await supabase
+        .from('ticket_statuses')
+        .delete()
+        .eq('key', status.key);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Status Deleted',
+        description: `"${status.name}" has been deleted.`
+      });
+
+      await reloadTicketStatuses();
+    } catch (error) {
+      showError(error, 'Failed to delete status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Swaps a status with its neighbour, renumbering like the rule manager
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= statuses.length) return;
+
+    const reordered = [...statuses];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    setLoading(true);
+    try {
+      const results = await Promise.all(
+        reordered
+          .map((status, position) => ({ status, position }))
+          .filter(({ status, position }) => status.position !== position)
+          .map(({ status, position }) =>
+            supabase.from('ticket_statuses').update({ position }).eq('key', status.key)
+          )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw failed.error;
+
+      await reloadTicketStatuses();
+    } catch (error) {
+      showError(error, 'Failed to reorder statuses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingStatus(null);
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  const toggleNext = (key: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      next: checked ? [...formData.next, key] : formData.next.filter((k) => k !== key)
+    });
+  };
+
+  if (statusesLoading && statuses.length === 0) {
+    return <div className="text-center py-4">Loading statuses...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Ticket Statuses</h3>
+          <p className="text-sm text-muted-foreground">
+            Statuses in workflow order, and the moves allowed between them. Solved and closed
+            tickets can always be reopened into the default status.
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Status
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Order</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Can move to</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statuses.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                    No statuses found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statuses.map((status, index) => (
+                  <TableRow key={status.key}>
+                    <TableCell>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          disabled={loading || index === 0}
+                          onClick={() => handleMove(index, -1)}
+                          aria-label="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          disabled={loading || index === statuses.length - 1}
+                          onClick={() => handleMove(index, 1)}
+                          aria-label="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge className={statusBadgeClass(status)}>{status.name}</Badge>
+                        {status.is_default && (
+                          <Badge variant="outline" className="text-xs">
+                            <Star className="mr-1 h-3 w-3" />
+                            Default
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1 font-mono">{status.key}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{STATUS_CATEGORIES[status.category]}</div>
+                      <div className="text-xs text-muted-foreground">{CATEGORY_HINTS[status.category]}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {nextStatuses(status.key).map((next) => (
+                          <Badge key={next.key} variant="secondary">{next.name}</Badge>
+                        ))}
+                        {nextStatuses(status.key).length === 0 && (
+                          <span className="text-sm text-muted-foreground">Nowhere</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(status)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(status)}
+                          disabled={loading}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingStatus ? 'Edit Status' : 'Create New Status'}</DialogTitle>
+            <DialogDescription>
+              {editingStatus
+                ? 'Update the status and where tickets may go from it.'
+                : 'Add a status to the ticket workflow.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="status-name">Name</Label>
+                <Input
+                  id="status-name"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      name: e.target.value,
+                      // The key follows the name until the status exists
+                      key: editingStatus ? formData.key : statusKeyFromName(e.target.value)
+                    })
+                  }
+                  placeholder="e.g. Waiting on vendor"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="status-key">Key</Label>
+                <Input
+                  id="status-key"
+                  value={formData.key}
+                  onChange={(e) => setFormData({ ...formData, key: e.target.value })}
+                  className="font-mono"
+                  disabled={!!editingStatus}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value: StatusCategory) =>
+                    setFormData({
+                      ...formData,
+                      category: value,
+                      is_default: formData.is_default && (value === 'new' || value === 'open')
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_CATEGORIES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{CATEGORY_HINTS[formData.category]}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Color</Label>
+                <Select value={formData.color} onValueChange={(value: StatusColor) => setFormData({ ...formData, color: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_COLORS).map(([value, classes]) => (
+                      <SelectItem key={value} value={value}>
+                        <span className={cn('inline-block rounded px-2 text-xs border capitalize', classes)}>{value}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="status-default">Default for new tickets</Label>
+                <p className="text-xs text-muted-foreground">Only New and Open statuses can be the default.</p>
+              </div>
+              <Switch
+                id="status-default"
+                checked={formData.is_default}
+                disabled={formData.category !== 'new' && formData.category !== 'open'}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_default: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Can move to</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {statuses
+                  .filter((status) => status.key !== (editingStatus?.key ?? formData.key))
+                  .map((status) => (
+                    <label key={status.key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.next.includes(status.key)}
+                        onCheckedChange={(checked) => toggleNext(status.key, checked === true)}
+                      />
+                      {status.name}
+                    </label>
+                  ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : editingStatus ? 'Update Status' : 'Create Status'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
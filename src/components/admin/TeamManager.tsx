@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  team_members: { user_id: string }[];
+}
+
+interface Agent {
+  id: string;
+  name: string;
+}
+
+const emptyForm = { name: '', description: '', memberIds: [] as string[] };
+
+// Teams group agents so ticket views can be shared with them
+export const TeamManager = () => {
+  const { toast } = useToast();
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchTeams();
+  }, []);
+
+  const fetchTeams = async () => {
+    try {
+      const [{ data, error }, { data: profiles, error: profilesError }] = await Promise.all([
+        supabase
+          .from('teams')
+          .select('id, name, description, team_members(user_id)')
+          .order('name'),
+        supabase
+          .from('profiles')
+          .select('id, full_name, username')
+          .in('role', ['agent', 'admin'])
+          .order('full_name')
+      ]);
+
+      if (error) throw error;
+      if (profilesError) throw profilesError;
+
+      setTeams(data || []);
+      setAgents((profiles || []).map((p) => ({ id: p.id, name: p.full_name || p.username || 'Unknown' })));
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const team = { name: formData.name.trim(), description: formData.description || null };
+      let teamId = editingTeam?.id;
+
+      if (teamId) {
+        const { error } = await supabase
+          .from('teams')
+          .update(team)
+          .eq('id', teamId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('teams')
+          .insert(team)
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        teamId = data.id;
+      }
+
+      // Replace the member list with the selection
+      const { error: deleteError } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('team_id', teamId);
+
+      if (deleteError) throw deleteError;
+
+      if (formData.memberIds.length > 0) {
+        const { error: membersError } = await supabase
+          .from('team_members')
+          .insert(formData.memberIds.map((userId) => ({ team_id: teamId as string, user_id: userId })));
+
+        if (membersError) throw membersError;
+      }
+
+      toast({
+        title: editingTeam ? 'Team Updated' : 'Team Created',
+        description: editingTeam ? 'The team has been updated successfully.' : 'The new team has been created successfully.'
+      });
+
+      setShowDialog(false);
+      setEditingTeam(null);
+      setFormData(emptyForm);
+      await fetchTeams();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save team',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (team: Team) => {
+    setEditingTeam(team);
+    setFormData({
+      name: team.name,
+      description: team.description || '',
+      memberIds: team.team_members.map((member) => member.user_id)
+    });
+    setShowDialog(true);
+  };
+
+  const handleDelete = async (teamId: string) => {
+    if (!confirm('Are you sure you want to delete this team? Views shared with it will be deleted too.')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .delete()
+        .eq('id', teamId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Team Deleted',
+        description: 'The team has been deleted successfully.'
+      });
+
+      await fetchTeams();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete team',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingTeam(null);
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      memberIds: checked
+        ? [...formData.memberIds, userId]
+        : formData.memberIds.filter((id) => id !== userId)
+    });
+  };
+
+  const agentName = (userId: string) => agents.find((agent) => agent.id === userId)?.name || 'Unknown';
+
+  if (loading && teams.length === 0) {
+    return <div className="text-center py-4">Loading teams...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header with title and add button */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Teams</h3>
+          <p className="text-sm text-muted-foreground">
+            Group agents so they can share ticket views
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Team
+        </Button>
+      </div>
+
+      {/* Teams table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                    No teams found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                teams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell className="font-medium">{team.name}</TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {team.description || 'No description'}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {team.team_members.length === 0 ? (
+                          <span className="text-sm text-muted-foreground">No members</span>
+                        ) : (
+                          team.team_members.map((member) => (
+                            <Badge key={member.user_id} variant="outline">{agentName(member.user_id)}</Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(team)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(team.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTeam ? 'Edit Team' : 'Create New Team'}</DialogTitle>
+            <DialogDescription>
+              Members can see and share views shared with this team.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name</Label>
+              <Input
+                id="team-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Team name"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="team-description">Description</Label>
+              <Textarea
+                id="team-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Team description (optional)"
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <div className="max-h-48 overflow-y-auto space-y-2 rounded-md border p-3">
+                {agents.map((agent) => (
+                  <div key={agent.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`member-${agent.id}`}
+                      checked={formData.memberIds.includes(agent.id)}
+                      onCheckedChange={(checked) => toggleMember(agent.id, checked === true)}
+                    />
+                    <Label htmlFor={`member-${agent.id}`} className="font-normal">{agent.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : editingTeam ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
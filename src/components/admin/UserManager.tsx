@@ -21,15 +21,30 @@ import {
 } from '@/components/ui/table';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 
 // Icons for different user roles
-import { Shield, User, Crown } from 'lucide-react';
+import { Shield, User, Crown, Ban } from 'lucide-react';
 
 // Supabase client for data interaction
 import { supabase } from '@/integrations/supabase/client';
 
 // Custom toast hook for notifications
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+// Bans lapse on their own once banned_until passes
+import { isSuspended } from '@/lib/moderation';
 
 // Type definition for user profile
 interface UserProfile {
@@ -39,6 +54,8 @@ interface UserProfile {
   email: string | null;
   role: 'user' | 'agent' | 'admin';
   avatar_url: string | null;
+  is_banned: boolean;
+  banned_until: string | null;
   created_at: string;
 }
 
@@ -66,6 +83,12 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
   const { toast } = useToast(); // Toast for showing alerts
   const [users, setUsers] = useState<UserProfile[]>([]); // State to store user list
   const [loading, setLoading] = useState(true); // Loading state
+  const { user: currentUser } = useAuth();
+  // User being banned or unbanned, with the reason and optional expiry
+  const [moderating, setModerating] = useState<UserProfile | null>(null);
+  const [reason, setReason] = useState('');
+  const [bannedUntil, setBannedUntil] = useState('');
+  const [saving, setSaving] = useState(false);
 
   // Fetch users on component mount
   useEffect(() => {
@@ -89,14 +112,12 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
     }
   };
 
-  // Handler for changing the user's role
+  // Handler for changing the user's role; the RPC also records it in the
+  // admin_actions audit log
   const handleRoleChange = async (userId: string, newRole: 'user' | 'agent' | 'admin') => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ role: newRole })
-        .eq('id', userId);
+      const { error } = await supabase.rpc('set_user_role', { _user_id: userId, _role: newRole });
 
       if (error) throw error;
 
@@ -118,6 +139,50 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
     }
   };
 
+  const openModeration = (user: UserProfile) => {
+    setModerating(user);
+    setReason('');
+    setBannedUntil('');
+  };
+
+  // Bans and unbans go through RPCs that also write the admin_actions audit log
+  const handleModeration = async () => {
+    if (!moderating || !reason.trim()) return;
+
+    const banning = !isSuspended(moderating);
+    setSaving(true);
+    try {
+      const { error } = banning
+        ? await supabase.rpc('ban_user', {
+            _user_id: moderating.id,
+            _reason: reason.trim(),
+            _until: bannedUntil ? new Date(bannedUntil).toISOString() : undefined
+          })
+        : await supabase.rpc('unban_user', { _user_id: moderating.id, _reason: reason.trim() });
+
+      if (error) throw error;
+
+      toast({
+        title: banning ? 'User Banned' : 'User Unbanned',
+        description: banning
+          ? 'The user can no longer create tickets, comments or posts.'
+          : 'The user can use QuickDesk again.'
+      });
+
+      setModerating(null);
+      await fetchUsers();
+      onUserUpdated();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update ban',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Format date string to a readable format
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -138,7 +203,7 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
       <div>
         <h3 className="text-lg font-medium">User Management</h3>
         <p className="text-sm text-muted-foreground">
-          Manage user roles and permissions
+          Manage user roles, permissions and bans
         </p>
       </div>
 
@@ -151,6 +216,7 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
                 <TableHead>User</TableHead>
                 <TableHead>Email</TableHead>
                 <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead>Joined</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -159,7 +225,7 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
               {/* No users fallback */}
               {users.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                  <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
                     No users found.
                   </TableCell>
                 </TableRow>
@@ -203,6 +269,17 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
                       </Badge>
                     </TableCell>
 
+                    {/* Ban status */}
+                    <TableCell>
+                      {isSuspended(user) ? (
+                        <Badge variant="destructive">
+                          {user.banned_until ? `Banned until ${formatDate(user.banned_until)}` : 'Banned'}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Active</span>
+                      )}
+                    </TableCell>
+
                     {/* Account creation date */}
                     <TableCell>
                       <span className="text-sm text-muted-foreground">
@@ -210,39 +287,52 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
                       </span>
                     </TableCell>
 
-                    {/* Role change dropdown */}
+                    {/* Role change dropdown and ban toggle */}
                     <TableCell className="text-right">
-                      <Select
-                        value={user.role}
-                        onValueChange={(value: 'user' | 'agent' | 'admin') =>
-                          handleRoleChange(user.id, value)
-                        }
-                        disabled={loading}
-                      >
-                        <SelectTrigger className="w-32">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="user">
-                            <span className="flex items-center gap-2">
-                              <User className="h-4 w-4" />
-                              User
-                            </span>
-                          </SelectItem>
-                          <SelectItem value="agent">
-                            <span className="flex items-center gap-2">
-                              <Shield className="h-4 w-4" />
-                              Agent
-                            </span>
-                          </SelectItem>
-                          <SelectItem value="admin">
-                            <span className="flex items-center gap-2">
-                              <Crown className="h-4 w-4" />
-                              Admin
-                            </span>
-                          </SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <div className="flex items-center justify-end gap-2">
+                        <Select
+                          value={user.role}
+                          onValueChange={(value: 'user' | 'agent' | 'admin') =>
+                            handleRoleChange(user.id, value)
+                          }
+                          disabled={loading}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="user">
+                              <span className="flex items-center gap-2">
+                                <User className="h-4 w-4" />
+                                User
+                              </span>
+                            </SelectItem>
+                            <SelectItem value="agent">
+                              <span className="flex items-center gap-2">
+                                <Shield className="h-4 w-4" />
+                                Agent
+                              </span>
+                            </SelectItem>
+                            <SelectItem value="admin">
+                              <span className="flex items-center gap-2">
+                                <Crown className="h-4 w-4" />
+                                Admin
+                              </span>
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {user.id !== currentUser?.id && (
+                          <Button
+                            variant={isSuspended(user) ? 'outline' : 'ghost'}
+                            size="sm"
+                            disabled={loading}
+                            onClick={() => openModeration(user)}
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            {isSuspended(user) ? 'Unban' : 'Ban'}
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))
@@ -251,6 +341,59 @@ export const UserManager = ({ onUserUpdated }: UserManagerProps) => {
           </Table>
         </CardContent>
       </Card>
+
+      {/* Ban / unban dialog */}
+      <Dialog open={!!moderating} onOpenChange={(open) => !open && setModerating(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {isSuspended(moderating) ? 'Unban' : 'Ban'}{' '}
+              {moderating?.full_name || moderating?.username || 'user'}
+            </DialogTitle>
+            <DialogDescription>
+              {isSuspended(moderating)
+                ? 'The user will be able to create tickets, comments and posts again.'
+                : "Banned users can still sign in, but can't create tickets, comments or posts."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="moderation-reason">Reason *</Label>
+              <Textarea
+                id="moderation-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Recorded in the audit log"
+                rows={3}
+              />
+            </div>
+            {!isSuspended(moderating) && (
+              <div className="space-y-2">
+                <Label htmlFor="moderation-until">Banned until</Label>
+                <Input
+                  id="moderation-until"
+                  type="datetime-local"
+                  value={bannedUntil}
+                  onChange={(e) => setBannedUntil(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Leave empty to ban until an admin lifts it.</p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setModerating(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={isSuspended(moderating) ? 'default' : 'destructive'}
+              onClick={handleModeration}
+              disabled={saving || !reason.trim()}
+            >
+              {saving ? 'Saving...' : isSuspended(moderating) ? 'Unban' : 'Ban'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
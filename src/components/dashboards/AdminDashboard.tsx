@@ -9,12 +9,30 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Ticket, Clock, CheckCircle, Users, Tag, Shield } from 'lucide-react';
 
 // Custom components for ticket listing and admin management
-import { TicketList } from '@/components/tickets/TicketList';
+import { TicketViewTabs } from '@/components/tickets/TicketViewTabs';
 import { CategoryManager } from '@/components/admin/CategoryManager';
+import { StatusManager } from '@/components/admin/StatusManager';
 import { UserManager } from '@/components/admin/UserManager';
+import { AdminActionLog } from '@/components/admin/AdminActionLog';
+import { SlaPolicyManager } from '@/components/admin/SlaPolicyManager';
+import { BusinessHoursManager } from '@/components/admin/BusinessHoursManager';
+import { TeamManager } from '@/components/admin/TeamManager';
+import { AgentAvailabilityManager } from '@/components/admin/AgentAvailabilityManager';
+import { MacroManager } from '@/components/admin/MacroManager';
+import { AutomationRuleManager } from '@/components/admin/AutomationRuleManager';
+import { AutomationTester } from '@/components/admin/AutomationTester';
+import { AutomationLog } from '@/components/admin/AutomationLog';
+import { EmailLog } from '@/components/admin/EmailLog';
+import { InboundEmailLog } from '@/components/admin/InboundEmailLog';
+import { CsatReport } from '@/components/admin/CsatReport';
+import { DeflectionReport } from '@/components/admin/DeflectionReport';
+import { ReputationPrivilegeManager } from '@/components/admin/ReputationPrivilegeManager';
+import { ArticleReviewQueue } from '@/components/admin/ArticleReviewQueue';
 
 // Supabase client for backend data
 import { supabase } from '@/integrations/supabase/client';
+import { countByCategory } from '@/lib/ticketStatuses';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 // Interface to type-check admin statistics structure
 interface AdminStats {
@@ -46,13 +64,16 @@ export const AdminDashboard = () => {
     fetchStats();
   }, [refreshKey]);
 
+  // Recount as tickets are created and updated by others
+  useRealtimeChanges({ table: 'tickets', onChange: () => fetchStats() });
+
   // Function to fetch data from Supabase and update stats
   const fetchStats = async () => {
     try {
       // Fetch all ticket statuses
       const { data: tickets, error: ticketsError } = await supabase
         .from('tickets')
-        .select('status');
+        .select('status, status_info:ticket_statuses(category)');
 
       if (ticketsError) throw ticketsError;
 
@@ -70,12 +91,13 @@ export const AdminDashboard = () => {
 
       if (categoriesError) throw categoriesError;
 
-      // Build admin statistics object
+      // Build admin statistics object; cards count by status category
+      const counts = countByCategory(tickets);
       const stats: AdminStats = {
         total_tickets: tickets.length,
-        open_tickets: tickets.filter(t => t.status === 'open').length,
-        in_progress_tickets: tickets.filter(t => t.status === 'in_progress').length,
-        resolved_tickets: tickets.filter(t => t.status === 'resolved').length,
+        open_tickets: counts.new,
+        in_progress_tickets: counts.open + counts.pending,
+        resolved_tickets: counts.solved,
         total_users: users.length,
         total_categories: categories.length
       };
@@ -175,28 +197,90 @@ export const AdminDashboard = () => {
         <CardContent>
           <Tabs defaultValue="tickets" className="w-full">
             {/* Tabs list */}
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="tickets">All Tickets</TabsTrigger>
+            <TabsList className="grid w-full grid-cols-12">
+              <TabsTrigger value="tickets">Tickets</TabsTrigger>
               <TabsTrigger value="users">User Management</TabsTrigger>
+              <TabsTrigger value="teams">Teams</TabsTrigger>
+              <TabsTrigger value="macros">Macros</TabsTrigger>
               <TabsTrigger value="categories">Categories</TabsTrigger>
+              <TabsTrigger value="statuses">Statuses</TabsTrigger>
+              <TabsTrigger value="automation">Automation</TabsTrigger>
+              <TabsTrigger value="hours">Business Hours</TabsTrigger>
+              <TabsTrigger value="sla">SLA Policies</TabsTrigger>
+              <TabsTrigger value="email">Email</TabsTrigger>
+              <TabsTrigger value="csat">CSAT</TabsTrigger>
+              <TabsTrigger value="kb">Knowledge Base</TabsTrigger>
             </TabsList>
             
             {/* Tickets tab */}
             <TabsContent value="tickets" className="space-y-4">
-              <TicketList refreshKey={refreshKey} userRole="admin" />
+              <TicketViewTabs refreshKey={refreshKey} userRole="admin" />
             </TabsContent>
             
             {/* Users tab */}
-            <TabsContent value="users" className="space-y-4">
-              {/* RefreshKey is incremented to trigger data re-fetch in UserManager */}
+            <TabsContent value="users" className="space-y-8">
+              {/* RefreshKey is incremented to trigger data re-fetch in UserManager and the audit log */}
               <UserManager onUserUpdated={() => setRefreshKey(prev => prev + 1)} />
+              <AdminActionLog key={refreshKey} />
             </TabsContent>
             
+            {/* Teams tab */}
+            <TabsContent value="teams" className="space-y-8">
+              <TeamManager />
+              <AgentAvailabilityManager />
+            </TabsContent>
+
+            {/* Macros tab */}
+            <TabsContent value="macros" className="space-y-4">
+              <MacroManager />
+            </TabsContent>
+
             {/* Categories tab */}
             <TabsContent value="categories" className="space-y-4">
               {/* RefreshKey is incremented to trigger data re-fetch in CategoryManager */}
               <CategoryManager onCategoryUpdated={() => setRefreshKey(prev => prev + 1)} />
             </TabsContent>
+
+            {/* Statuses tab */}
+            <TabsContent value="statuses" className="space-y-4">
+              <StatusManager />
+            </TabsContent>
+
+            {/* Automation tab */}
+            <TabsContent value="automation" className="space-y-8">
+              {/* RefreshKey is incremented so the tester picks up rule changes */}
+              <AutomationRuleManager onRulesUpdated={() => setRefreshKey(prev => prev + 1)} />
+              <AutomationTester refreshKey={refreshKey} />
+              <AutomationLog />
+            </TabsContent>
+
+            {/* Business hours tab */}
+            <TabsContent value="hours" className="space-y-4">
+              <BusinessHoursManager />
+            </TabsContent>
+
+            {/* SLA policies tab */}
+            <TabsContent value="sla" className="space-y-4">
+              <SlaPolicyManager />
+            </TabsContent>
+
+            {/* Email delivery tab */}
+            <TabsContent value="email" className="space-y-8">
+              <EmailLog />
+              <InboundEmailLog />
+            </TabsContent>
+
+            {/* Customer satisfaction tab */}
+            <TabsContent value="csat" className="space-y-4">
+              <CsatReport />
+            </TabsContent>
+
+            {/* Knowledge base tab */}
+            <TabsContent value="kb" className="space-y-8">
+              <ArticleReviewQueue />
+              <DeflectionReport />
+              <ReputationPrivilegeManager />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
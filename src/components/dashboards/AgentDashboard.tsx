@@ -4,25 +4,28 @@ import { useState, useEffect } from 'react';
 // UI components
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 // Icon components for display
-import { Ticket, Clock, CheckCircle, Users } from 'lucide-react';
+import { Ticket, Clock, CheckCircle, Users, Hourglass } from 'lucide-react';
 
-// Component to list tickets
-import { TicketList } from '@/components/tickets/TicketList';
+// Saved views as ticket tabs
+import { TicketViewTabs } from '@/components/tickets/TicketViewTabs';
+import { PendingTicketList } from '@/components/tickets/PendingTicketList';
 
 // Supabase client for backend interaction
 import { supabase } from '@/integrations/supabase/client';
+import { countByCategory } from '@/lib/ticketStatuses';
 
 // Custom hook to get authenticated user
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 // Type definition for agent-specific ticket stats
 interface AgentStats {
   total: number;           // Total tickets in system
   open: number;            // Open tickets
   in_progress: number;     // Tickets currently in progress
+  pending: number;         // Tickets waiting on the requester
   resolved: number;        // Resolved tickets
   assigned_to_me: number;  // Tickets assigned to this agent
 }
@@ -34,6 +37,7 @@ export const AgentDashboard = () => {
     total: 0,
     open: 0,
     in_progress: 0,
+    pending: 0,
     resolved: 0,
     assigned_to_me: 0
   });
@@ -48,6 +52,9 @@ export const AgentDashboard = () => {
     }
   }, [user, refreshKey]);
 
+  // Recount as tickets are created and updated by others
+  useRealtimeChanges({ table: 'tickets', enabled: !!user, onChange: () => fetchStats() });
+
   // Fetch ticket statistics for the agent
   const fetchStats = async () => {
     if (!user) return;
@@ -56,7 +63,7 @@ export const AgentDashboard = () => {
       // Get all tickets to compute general stats
       const { data: allTickets, error: allError } = await supabase
         .from('tickets')
-        .select('status, assigned_to');
+        .select('status, assigned_to, status_info:ticket_statuses(category)');
 
       if (allError) throw allError;
 
@@ -68,12 +75,14 @@ export const AgentDashboard = () => {
 
       if (myError) throw myError;
 
-      // Calculate the agent's ticket stats
+      // Calculate the agent's ticket stats by status category
+      const counts = countByCategory(allTickets);
       const stats: AgentStats = {
         total: allTickets.length,
-        open: allTickets.filter(t => t.status === 'open').length,
-        in_progress: allTickets.filter(t => t.status === 'in_progress').length,
-        resolved: allTickets.filter(t => t.status === 'resolved').length,
+        open: counts.new,
+        in_progress: counts.open,
+        pending: counts.pending,
+        resolved: counts.solved,
         assigned_to_me: myTickets.length
       };
 
@@ -95,7 +104,7 @@ export const AgentDashboard = () => {
       </div>
 
       {/* Ticket statistics cards */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
         {/* Total Tickets Card */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -129,6 +138,17 @@ export const AgentDashboard = () => {
           </CardContent>
         </Card>
 
+        {/* Pending Tickets Card */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pending</CardTitle>
+            <Hourglass className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-purple-600">{stats.pending}</div>
+          </CardContent>
+        </Card>
+
         {/* Resolved Tickets Card */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -152,6 +172,17 @@ export const AgentDashboard = () => {
         </Card>
       </div>
 
+      {/* My tickets waiting on the requester; their SLA clocks are paused */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting on Customer</CardTitle>
+          <CardDescription>Your tickets parked until the requester replies</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PendingTicketList />
+        </CardContent>
+      </Card>
+
       {/* Ticket Tabs Section */}
       <Card>
         <CardHeader>
@@ -159,35 +190,8 @@ export const AgentDashboard = () => {
           <CardDescription>Manage customer support requests</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="all" className="w-full">
-            {/* Tab buttons */}
-            <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="all">All Tickets</TabsTrigger>
-              <TabsTrigger value="open">Open</TabsTrigger>
-              <TabsTrigger value="assigned">Assigned to Me</TabsTrigger>
-              <TabsTrigger value="resolved">Resolved</TabsTrigger>
-            </TabsList>
-
-            {/* All Tickets */}
-            <TabsContent value="all" className="space-y-4">
-              <TicketList refreshKey={refreshKey} userRole="agent" />
-            </TabsContent>
-
-            {/* Open Tickets */}
-            <TabsContent value="open" className="space-y-4">
-              <TicketList refreshKey={refreshKey} userRole="agent" statusFilter="open" />
-            </TabsContent>
-
-            {/* Tickets assigned to current agent */}
-            <TabsContent value="assigned" className="space-y-4">
-              <TicketList refreshKey={refreshKey} userRole="agent" assignedToMe={true} />
-            </TabsContent>
-
-            {/* Resolved Tickets */}
-            <TabsContent value="resolved" className="space-y-4">
-              <TicketList refreshKey={refreshKey} userRole="agent" statusFilter="resolved" />
-            </TabsContent>
-          </Tabs>
+          {/* One tab per pinned view, with live counts */}
+          <TicketViewTabs refreshKey={refreshKey} userRole="agent" />
         </CardContent>
       </Card>
     </div>
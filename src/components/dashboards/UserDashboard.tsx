@@ -6,7 +6,9 @@ import { Plus, Ticket, Clock, CheckCircle } from 'lucide-react';
 import { CreateTicketDialog } from '@/components/tickets/CreateTicketDialog';
 import { TicketList } from '@/components/tickets/TicketList';
 import { supabase } from '@/integrations/supabase/client';
+import { countByCategory } from '@/lib/ticketStatuses';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 interface TicketStats {
   total: number;
@@ -32,22 +34,31 @@ export const UserDashboard = () => {
     }
   }, [user, refreshKey]);
 
+  // Keep the counters current when agents update tickets
+  useRealtimeChanges({
+    table: 'tickets',
+    filter: user ? `created_by=eq.${user.id}` : undefined,
+    enabled: !!user,
+    onChange: () => fetchStats()
+  });
+
   const fetchStats = async () => {
     if (!user) return;
 
     try {
       const { data, error } = await supabase
         .from('tickets')
-        .select('status')
+        .select('status, status_info:ticket_statuses(category)')
         .eq('created_by', user.id);
 
       if (error) throw error;
 
+      const counts = countByCategory(data);
       const stats: TicketStats = {
         total: data.length,
-        open: data.filter(t => t.status === 'open').length,
-        in_progress: data.filter(t => t.status === 'in_progress').length,
-        resolved: data.filter(t => t.status === 'resolved').length
+        open: counts.new,
+        in_progress: counts.open + counts.pending,
+        resolved: counts.solved
       };
 
       setStats(stats);
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { KbComment, authorName } from '@/lib/kb';
+
+interface AnswerCommentsProps {
+  answerId: string;
+  comments: KbComment[];
+  onCommentAdded: () => void;
+}
+
+// The comment thread under an answer, oldest first
+export const AnswerComments = ({ answerId, comments, onCommentAdded }: AnswerCommentsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const addComment = async () => {
+    if (!user || !content.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .insert({ answer_id: answerId, user_id: user.id, content: content.trim() });
+
+      if (error) throw error;
+
+      setContent('');
+      setOpen(false);
+      onCommentAdded();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to add comment',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sorted = [...comments].sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+
+  return (
+    <div className="space-y-2 border-t pt-2">
+      {sorted.map((comment) => (
+        <p key={comment.id} className="text-sm">
+          <span className="whitespace-pre-wrap">{comment.content}</span>
+          <span className="text-xs text-muted-foreground">
+            {' '}– {authorName(comment.author)}
+            {comment.created_at && `, ${formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}`}
+          </span>
+        </p>
+      ))}
+
+      {open ? (
+        <div className="space-y-2">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Add a comment..."
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={addComment} disabled={saving || !content.trim()}>
+              {saving ? 'Adding...' : 'Add Comment'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setOpen(true)}>
+          Add a comment
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen, Check, ChevronDown, ChevronUp, Pencil } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { KbAnswer, userVote, voteScore } from '@/lib/kb';
+import { cn } from '@/lib/utils';
+import { AnswerComments } from './AnswerComments';
+import { UserReputation } from './UserReputation';
+
+interface AnswerItemProps {
+  answer: KbAnswer;
+  questionTitle: string;
+  // The question's author or staff
+  canAccept: boolean;
+  isStaff: boolean;
+  // The answer's author, or anyone with the edit_posts privilege
+  canEdit: boolean;
+  canDownvote: boolean;
+  // Article this answer was promoted to, if any
+  articleId?: string;
+  onChanged: () => void;
+}
+
+export const AnswerItem = ({
+  answer,
+  questionTitle,
+  canAccept,
+  isStaff,
+  canEdit,
+  canDownvote,
+  articleId,
+  onChanged
+}: AnswerItemProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [saving, setSaving] = useState(false);
+  const [promoteOpen, setPromoteOpen] = useState(false);
+  const [articleTitle, setArticleTitle] = useState(questionTitle);
+  const [editing, setEditing] = useState(false);
+  const [content, setContent] = useState(answer.content || '');
+
+  const myVote = userVote(answer.votes, user?.id);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setSaving(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || failure,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Clicking the current vote again retracts it
+  const vote = (voteType: 1 | -1) =>
+    run(async () => {
+      if (!user) return;
+
+      const { error } = myVote === voteType
+        ? await supabase.from('votes').delete().eq('answer_id', answer.id).eq('user_id', user.id)
+        : await supabase
+            .from('votes')
+            .upsert({ answer_id: answer.id, user_id: user.id, vote_type: voteType }, { onConflict: 'answer_id,user_id' });
+
+      if (error) throw error;
+    }, 'Failed to save vote');
+
+  const saveEdit = () =>
+    run(async () => {
+      const { error } = await supabase
+        .from('answers')
+        .update({ content: content.trim() })
+        .eq('id', answer.id);
+
+      if (error) throw error;
+      setEditing(false);
+    }, 'Failed to save answer');
+
+  const toggleAccepted = () =>
+    run(async () => {
+      const { error } = await supabase.rpc('accept_answer', { _answer_id: answer.id });
+      if (error) throw error;
+    }, 'Failed to accept answer');
+
+  const promote = async () => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('promote_answer_to_article', {
+        _answer_id: answer.id,
+        _title: articleTitle
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Article Published',
+        description: 'The answer is now an official knowledge base article.'
+      });
+      setPromoteOpen(false);
+      navigate(`/kb/articles/${data}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to publish article',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={cn(answer.is_accepted && 'border-green-300')}>
+      <CardContent className="p-4 flex gap-4">
+        {/* Voting */}
+        <div className="flex flex-col items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-7 w-7', myVote === 1 && 'text-primary')}
+            disabled={saving}
+            onClick={() => vote(1)}
+            aria-label="Upvote"
+          >
+            <ChevronUp className="h-5 w-5" />
+          </Button>
+          <span className="text-sm font-medium">{voteScore(answer.votes)}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-7 w-7', myVote === -1 && 'text-primary')}
+            disabled={saving || (!canDownvote && myVote !== -1)}
+            onClick={() => vote(-1)}
+            aria-label="Downvote"
+            title={canDownvote ? undefined : 'You need more reputation to downvote'}
+          >
+            <ChevronDown className="h-5 w-5" />
+          </Button>
+          {answer.is_accepted && <Check className="h-5 w-5 text-green-600 mt-1" aria-label="Accepted answer" />}
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-3">
+          {editing ? (
+            <div className="space-y-2">
+              <Textarea value={content} onChange={(e) => setContent(e.target.value)} rows={5} />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={saveEdit} disabled={saving || !content.trim()}>
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setEditing(false);
+                    setContent(answer.content || '');
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm whitespace-pre-wrap">{answer.content}</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground mr-auto">
+              Answered by <UserReputation author={answer.author} />
+              {answer.created_at && ` ${formatDistanceToNow(new Date(answer.created_at), { addSuffix: true })}`}
+            </span>
+            {canEdit && !editing && (
+              <Button size="sm" variant="ghost" disabled={saving} onClick={() => setEditing(true)}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+            )}
+            {canAccept && (
+              <Button size="sm" variant={answer.is_accepted ? 'secondary' : 'outline'} disabled={saving} onClick={toggleAccepted}>
+                <Check className="h-4 w-4 mr-1" />
+                {answer.is_accepted ? 'Unaccept' : 'Accept'}
+              </Button>
+            )}
+            {articleId ? (
+              <Button asChild size="sm" variant="ghost">
+                <Link to={`/kb/articles/${articleId}`}>
+                  <BookOpen className="h-4 w-4 mr-1" />
+                  View article
+                </Link>
+              </Button>
+            ) : (
+              isStaff && answer.is_accepted && (
+                <Button size="sm" variant="outline" disabled={saving} onClick={() => setPromoteOpen(true)}>
+                  <BookOpen className="h-4 w-4 mr-1" />
+                  Promote to article
+                </Button>
+              )
+            )}
+          </div>
+
+          <AnswerComments answerId={answer.id} comments={answer.comments} onCommentAdded={onChanged} />
+        </div>
+      </CardContent>
+
+      <Dialog open={promoteOpen} onOpenChange={setPromoteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Promote to Article</DialogTitle>
+            <DialogDescription>
+              Publishes this answer as an official article, tagged like the question.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="article-title">Article title</Label>
+            <Input id="article-title" value={articleTitle} onChange={(e) => setArticleTitle(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPromoteOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={promote} disabled={saving || !articleTitle.trim()}>
+              {saving ? 'Publishing...' : 'Publish'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
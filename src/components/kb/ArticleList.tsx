@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { BookOpen } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { KbArticle } from '@/lib/kb';
+import { TagList } from './TagList';
+
+interface ArticleListProps {
+  search: string;
+  tag?: string;
+}
+
+// Official articles, most recently updated first
+export const ArticleList = ({ search, tag }: ArticleListProps) => {
+  const [articles, setArticles] = useState<KbArticle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchArticles();
+  }, [search, tag]);
+
+  const fetchArticles = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('kb_articles')
+        .select('*')
+        .eq('status', 'published')
+        .order('updated_at', { ascending: false })
+        .limit(50);
+
+      if (search) query = query.ilike('title', `%${search}%`);
+      if (tag) query = query.contains('tags', [tag]);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setArticles((data || []) as KbArticle[]);
+    } catch (error) {
+      console.error('Error fetching articles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading articles...</div>;
+  }
+
+  if (articles.length === 0) {
+    return (
+      <p className="text-center py-8 text-muted-foreground">
+        {search || tag ? 'No articles match your search.' : 'No articles have been published yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {articles.map((article) => (
+        <Card key={article.id}>
+          <CardContent className="p-4 space-y-2">
+            <Link to={`/kb/articles/${article.id}`} className="flex items-center gap-2 font-medium hover:underline">
+              <BookOpen className="h-4 w-4 text-primary" />
+              {article.title}
+            </Link>
+            <p className="text-sm text-muted-foreground line-clamp-2">{article.content}</p>
+            <TagList tags={article.tags} />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { CheckCircle, MessageSquare } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { KbQuestion } from '@/lib/kb';
+import { TagList } from './TagList';
+import { UserReputation } from './UserReputation';
+
+interface QuestionListProps {
+  search: string;
+  tag?: string;
+}
+
+type QuestionRow = KbQuestion & { answers: { id: string; is_accepted: boolean | null }[] };
+
+// Community questions, newest first, filtered by title and tag
+export const QuestionList = ({ search, tag }: QuestionListProps) => {
+  const [questions, setQuestions] = useState<QuestionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [search, tag]);
+
+  const fetchQuestions = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('questions')
+        .select(`
+          id, title, description, tags, created_at, user_id,
+          author:profiles!questions_user_id_fkey(id, full_name, username, reputation),
+          answers(id, is_accepted)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (search) query = query.ilike('title', `%${search}%`);
+      if (tag) query = query.contains('tags', [tag]);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setQuestions(data || []);
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading questions...</div>;
+  }
+
+  if (questions.length === 0) {
+    return (
+      <p className="text-center py-8 text-muted-foreground">
+        {search || tag ? 'No questions match your search.' : 'No questions have been asked yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question) => {
+        const answered = question.answers.some((answer) => answer.is_accepted);
+        return (
+          <Card key={question.id}>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <Link to={`/kb/questions/${question.id}`} className="font-medium hover:underline">
+                  {question.title}
+                </Link>
+                <span
+                  className={`flex items-center gap-1 text-xs whitespace-nowrap ${answered ? 'text-green-700' : 'text-muted-foreground'}`}
+                >
+                  {answered ? <CheckCircle className="h-3 w-3" /> : <MessageSquare className="h-3 w-3" />}
+                  {question.answers.length} {question.answers.length === 1 ? 'answer' : 'answers'}
+                </span>
+              </div>
+              <TagList tags={question.tags} />
+              <p className="text-xs text-muted-foreground">
+                Asked by <UserReputation author={question.author} />
+                {question.created_at && ` ${formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}`}
+              </p>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import { Link } from 'react-router-dom';
+import { badgeVariants } from '@/components/ui/badge';
+
+interface TagListProps {
+  tags: string[] | null;
+}
+
+// Tags as badges that filter the knowledge base by that tag
+export const TagList = ({ tags }: TagListProps) => {
+  if (!tags?.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Link key={tag} to={`/kb?tag=${encodeURIComponent(tag)}`} className={badgeVariants({ variant: 'secondary' })}>
+          {tag}
+        </Link>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { KbAuthor, authorName } from '@/lib/kb';
+import { earnedBadges } from '@/lib/reputation';
+
+interface UserReputationProps {
+  author: KbAuthor | null;
+}
+
+// An author's name linking to their profile, with reputation and badges
+export const UserReputation = ({ author }: UserReputationProps) => {
+  if (!author) return <span>{authorName(author)}</span>;
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Link to={`/users/${author.id}`} className="hover:underline">{authorName(author)}</Link>
+      <span className="font-medium" title="Reputation">{author.reputation ?? 0}</span>
+      {/* Only the highest badge, to keep bylines short */}
+      {earnedBadges(author.reputation).slice(-1).map((badge) => (
+        <Badge key={badge.key} className={`px-1.5 py-0 text-[10px] ${badge.className}`} title={badge.description}>
+          {badge.name}
+        </Badge>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,79 @@
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Notification, useNotifications } from '@/hooks/useNotifications';
+import { NotificationItem } from './NotificationItem';
+
+// Header bell with the unread count and the latest notifications
+export const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications({
+    limit: 8,
+    onReceived: (notification) => {
+      toast({
+        title: 'New notification',
+        description: notification.message
+      });
+    }
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.is_read) markRead(notification.id);
+    if (notification.ticket_id) navigate(`/tickets/${notification.ticket_id}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="my-0" />
+
+        <div className="max-h-96 overflow-y-auto p-1">
+          {notifications.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+          ) : (
+            notifications.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onClick={openNotification}
+              />
+            ))
+          )}
+        </div>
+
+        <DropdownMenuSeparator className="my-0" />
+        <Button variant="ghost" className="w-full rounded-t-none" onClick={() => navigate('/notifications')}>
+          View all notifications
+        </Button>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,46 @@
+import { formatDistanceToNow } from 'date-fns';
+import { AtSign, MessageSquare, RefreshCw, ThumbsUp, UserCheck, Zap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Notification, NotificationType } from '@/hooks/useNotifications';
+
+const typeIcons: Record<NotificationType, typeof AtSign> = {
+  assignment: UserCheck,
+  comment: MessageSquare,
+  status_change: RefreshCw,
+  mention: AtSign,
+  automation: Zap,
+  csat: ThumbsUp
+};
+
+interface NotificationItemProps {
+  notification: Notification;
+  onClick: (notification: Notification) => void;
+}
+
+// One notification row, shared by the header dropdown and the full page
+export const NotificationItem = ({ notification, onClick }: NotificationItemProps) => {
+  const Icon = typeIcons[notification.type] ?? MessageSquare;
+  const unread = !notification.is_read;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick(notification)}
+      className={cn(
+        'flex w-full items-start gap-3 rounded-md p-3 text-left text-sm transition-colors hover:bg-accent',
+        unread && 'bg-accent/50'
+      )}
+    >
+      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className={cn('line-clamp-2', unread && 'font-medium')}>{notification.message}</p>
+        {notification.created_at && (
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+      {unread && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+    </button>
+  );
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { Attachment, formatFileSize, getAttachmentUrls, isImageAttachment } from '@/lib/attachments';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+}
+
+// Renders thumbnails for images and download links for everything else
+export const AttachmentList = ({ attachments }: AttachmentListProps) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    getAttachmentUrls(attachments)
+      .then(setUrls)
+      .catch((error) => console.error('Error signing attachment URLs:', error));
+  }, [attachments]);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => {
+        const url = urls[attachment.file_path];
+
+        return isImageAttachment(attachment.mime_type) ? (
+          <a
+            key={attachment.id}
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            title={attachment.file_name}
+            className="block h-20 w-20 overflow-hidden rounded border bg-muted"
+          >
+            {url && (
+              <img src={url} alt={attachment.file_name} className="h-full w-full object-cover" />
+            )}
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={url}
+            download={attachment.file_name}
+            className="flex items-center gap-2 rounded border px-2 py-1 text-sm hover:bg-muted"
+          >
+            <FileText className="h-4 w-4" />
+            <span className="max-w-[12rem] truncate">{attachment.file_name}</span>
+            <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+            <Download className="h-3 w-3" />
+          </a>
+        );
+      })}
+    </div>
+  );
+};
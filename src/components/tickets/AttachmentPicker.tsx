@@ -0,0 +1,94 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Paperclip, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  formatFileSize,
+  validateAttachment,
+} from '@/lib/attachments';
+
+interface AttachmentPickerProps {
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+// File chooser with a removable list of pending files; rejects files that
+// break the size/type limits before they ever reach storage
+export const AttachmentPicker = ({ files, onFilesChange, disabled }: AttachmentPickerProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const errors = selected.map(validateAttachment).filter(Boolean);
+    const valid = selected.filter((file) => !validateAttachment(file));
+    const next = [...files, ...valid];
+
+    if (next.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      errors.push(`You can attach up to ${MAX_ATTACHMENTS_PER_UPLOAD} files at once`);
+    }
+
+    if (errors.length > 0) {
+      toast({
+        title: 'Some files were not attached',
+        description: errors.join('\n'),
+        variant: 'destructive'
+      });
+    }
+
+    onFilesChange(next.slice(0, MAX_ATTACHMENTS_PER_UPLOAD));
+  };
+
+  const handleRemove = (index: number) => {
+    onFilesChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+        onChange={handleSelect}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_UPLOAD}
+      >
+        <Paperclip className="mr-2 h-4 w-4" />
+        Attach files
+      </Button>
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm bg-muted/50 rounded px-2 py-1">
+              <span className="truncate">
+                {file.name} <span className="text-muted-foreground">({formatFileSize(file.size)})</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
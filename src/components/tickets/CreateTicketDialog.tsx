@@ -21,6 +21,10 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketDeflection } from '@/hooks/useTicketDeflection';
+import { uploadAttachments } from '@/lib/attachments';
+import { AttachmentPicker } from './AttachmentPicker';
+import { TicketSuggestions } from './TicketSuggestions';
 
 interface Category {
   id: string;
@@ -39,10 +43,18 @@ export const CreateTicketDialog = ({ open, onOpenChange, onTicketCreated }: Crea
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  // Watched for knowledge base suggestions
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const deflection = useTicketDeflection();
 
   useEffect(() => {
     if (open) {
       fetchCategories();
+      setTitle('');
+      setDescription('');
+      deflection.reset();
     }
   }, [open]);
 
@@ -67,13 +79,11 @@ export const CreateTicketDialog = ({ open, onOpenChange, onTicketCreated }: Crea
     setLoading(true);
 
     const formData = new FormData(e.currentTarget);
-    const title = formData.get('title') as string;
-    const description = formData.get('description') as string;
     const categoryId = formData.get('category') as string;
     const priority = formData.get('priority') as string;
 
     try {
-      const { error } = await supabase
+      const { data: ticket, error } = await supabase
         .from('tickets')
         .insert({
           title,
@@ -81,10 +91,19 @@ export const CreateTicketDialog = ({ open, onOpenChange, onTicketCreated }: Crea
           category_id: categoryId || null,
           priority: priority as 'low' | 'medium' | 'high' | 'urgent',
           created_by: user.id
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      deflection.trackTicket(ticket.id);
+
+      if (files.length > 0) {
+        await uploadAttachments(files, { ticketId: ticket.id, userId: user.id });
+        setFiles([]);
+      }
+
       toast({
         title: 'Ticket Created',
         description: 'Your support ticket has been created successfully.'
@@ -104,7 +123,7 @@ export const CreateTicketDialog = ({ open, onOpenChange, onTicketCreated }: Crea
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create Support Ticket</DialogTitle>
           <DialogDescription>
@@ -118,6 +137,8 @@ export const CreateTicketDialog = ({ open, onOpenChange, onTicketCreated }: Crea
             <Input
               id="title"
               name="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
               placeholder="Brief description of your issue"
               required
             />
@@ -159,12 +180,26 @@ export const CreateTicketDialog = ({ open, onOpenChange, onTicketCreated }: Crea
             <Textarea
               id="description"
               name="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
               placeholder="Detailed description of your issue..."
               rows={4}
               required
             />
           </div>
 
+          <TicketSuggestions
+            title={title}
+            description={description}
+            onShown={deflection.trackShown}
+            onView={deflection.trackView}
+          />
+
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            <AttachmentPicker files={files} onFilesChange={setFiles} disabled={loading} />
+          </div>
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CSAT_RATINGS, CsatRating, CsatSurvey } from '@/lib/csat';
+import { cn } from '@/lib/utils';
+
+interface CsatPanelProps {
+  ticketId: string;
+  // The requester answers the survey; staff see the result
+  isRequester: boolean;
+  isStaff: boolean;
+  // Bumped when the ticket changes, since solving it creates a survey
+  refreshKey?: unknown;
+}
+
+export const RatingBadge = ({ rating }: { rating: CsatRating }) => (
+  <Badge
+    className={cn(
+      rating === 'good'
+        ? 'bg-green-100 text-green-800 border-green-200'
+        : 'bg-red-100 text-red-800 border-red-200'
+    )}
+  >
+    {rating === 'good' ? <ThumbsUp className="w-3 h-3 mr-1" /> : <ThumbsDown className="w-3 h-3 mr-1" />}
+    {CSAT_RATINGS[rating]}
+  </Badge>
+);
+
+// Satisfaction survey for the ticket's latest resolution
+export const CsatPanel = ({ ticketId, isRequester, isStaff, refreshKey }: CsatPanelProps) => {
+  const { toast } = useToast();
+  const [survey, setSurvey] = useState<CsatSurvey | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSurvey();
+  }, [ticketId, refreshKey]);
+
+  const fetchSurvey = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('csat_surveys')
+        .select('id, ticket_id, rating, comment, rated_at, created_at')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSurvey(data as CsatSurvey | null);
+    } catch (error) {
+      console.error('Error fetching satisfaction survey:', error);
+    }
+  };
+
+  const submit = async (rating: CsatRating, withComment?: string) => {
+    if (!survey) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('rate_csat_survey', {
+        _survey_id: survey.id,
+        _rating: rating,
+        ...(withComment?.trim() ? { _comment: withComment.trim() } : {})
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Thanks for your feedback',
+        description: withComment ? 'Your comment has been added.' : 'Your rating has been recorded.'
+      });
+      setComment('');
+      await fetchSurvey();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save rating',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!survey || (!isRequester && !isStaff)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Satisfaction</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isRequester ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {survey.rating ? 'Your rating of the resolution. You can change it.' : 'How did we do?'}
+            </p>
+            <div className="flex gap-2">
+              {(['good', 'bad'] as CsatRating[]).map((rating) => (
+                <Button
+                  key={rating}
+                  variant={survey.rating === rating ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={saving}
+                  onClick={() => submit(rating)}
+                >
+                  {rating === 'good' ? <ThumbsUp className="h-4 w-4 mr-1" /> : <ThumbsDown className="h-4 w-4 mr-1" />}
+                  {CSAT_RATINGS[rating]}
+                </Button>
+              ))}
+            </div>
+            {survey.comment && <p className="text-sm italic">"{survey.comment}"</p>}
+            {survey.rating && (
+              <div className="space-y-2">
+                <Textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder={survey.comment ? 'Replace your comment (optional)' : 'Tell us more (optional)'}
+                  rows={2}
+                />
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={saving || !comment.trim()}
+                  onClick={() => submit(survey.rating as CsatRating, comment)}
+                >
+                  Send comment
+                </Button>
+              </div>
+            )}
+          </>
+        ) : survey.rating ? (
+          <>
+            <RatingBadge rating={survey.rating} />
+            {survey.comment && <p className="text-sm italic">"{survey.comment}"</p>}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Survey sent; the requester hasn't rated yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
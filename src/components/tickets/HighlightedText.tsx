@@ -0,0 +1,25 @@
+interface HighlightedTextProps {
+  // Text with matches wrapped in <mark></mark>, as returned by search_tickets
+  text: string;
+  className?: string;
+}
+
+// Renders search snippets without injecting HTML: the markers are split out
+// and everything else stays plain text
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Zap, Lock } from 'lucide-react';
+import { Macro, macroHasChanges } from '@/lib/macros';
+
+interface MacroPickerProps {
+  macros: Macro[];
+  onSelect: (macro: Macro) => void;
+  disabled?: boolean;
+}
+
+// Searchable macro list shown next to the comment box
+export const MacroPicker = ({ macros, onSelect, disabled }: MacroPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const shared = macros.filter((macro) => macro.is_shared);
+  const personal = macros.filter((macro) => !macro.is_shared);
+
+  const renderItem = (macro: Macro) => (
+    <CommandItem
+      key={macro.id}
+      value={macro.id}
+      keywords={[macro.name, macro.content]}
+      onSelect={() => {
+        onSelect(macro);
+        setOpen(false);
+      }}
+      className="flex-col items-start gap-1"
+    >
+      <div className="flex w-full items-center gap-2">
+        <span className="font-medium">{macro.name}</span>
+        {macro.is_internal && <Lock className="h-3 w-3 text-amber-600" />}
+        {macroHasChanges(macro) && (
+          <Badge variant="outline" className="ml-auto text-xs">Updates ticket</Badge>
+        )}
+      </div>
+      {macro.content && (
+        <span className="line-clamp-2 text-xs text-muted-foreground">{macro.content}</span>
+      )}
+    </CommandItem>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={disabled}>
+          <Zap className="mr-2 h-4 w-4" />
+          Macros
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search macros..." />
+          <CommandList>
+            <CommandEmpty>No macros found.</CommandEmpty>
+            {shared.length > 0 && <CommandGroup heading="Shared">{shared.map(renderItem)}</CommandGroup>}
+            {personal.length > 0 && <CommandGroup heading="My macros">{personal.map(renderItem)}</CommandGroup>}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Eye, Hourglass } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { TicketStatusBadge } from './TicketStatusBadge';
+
+interface PendingTicket {
+  id: string;
+  title: string;
+  status: string;
+  pending_since: string | null;
+  creator: { full_name: string | null; username: string | null } | null;
+}
+
+// The viewer's tickets that are waiting on the requester, longest first.
+// Opening one uses the ticket dialog of the list on the same page (?ticket=).
+export const PendingTicketList = () => {
+  const { user } = useAuth();
+  const [, setSearchParams] = useSearchParams();
+  const [tickets, setTickets] = useState<PendingTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) fetchTickets();
+  }, [user]);
+
+  // Requester replies move tickets out of pending at any time
+  useRealtimeChanges({ table: 'tickets', enabled: !!user, onChange: () => fetchTickets() });
+
+  const fetchTickets = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select(`
+          id, title, status, pending_since,
+          creator:profiles!tickets_created_by_fkey(full_name, username),
+          status_info:ticket_statuses!inner(category)
+        `)
+        .eq('assigned_to', user.id)
+        .eq('status_info.category', 'pending')
+        .order('pending_since', { ascending: true });
+
+      if (error) throw error;
+      setTickets(data || []);
+    } catch (error) {
+      console.error('Error fetching pending tickets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTicket = (ticketId: string) => {
+    setSearchParams((params) => {
+      const next = new URLSearchParams(params);
+      next.set('ticket', ticketId);
+      return next;
+    });
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading pending tickets...</div>;
+  }
+
+  if (tickets.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing is waiting on a requester.</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      {tickets.map((ticket) => (
+        <div key={ticket.id} className="flex items-center gap-3 py-2">
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{ticket.title}</p>
+            <p className="text-xs text-muted-foreground">
+              {ticket.creator?.full_name || ticket.creator?.username || 'Unknown requester'}
+            </p>
+          </div>
+          <TicketStatusBadge status={ticket.status} />
+          {ticket.pending_since && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+              <Hourglass className="h-3 w-3" />
+              {formatDistanceToNow(new Date(ticket.pending_since))}
+            </span>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => openTicket(ticket.id)} aria-label="Open ticket">
+            <Eye className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
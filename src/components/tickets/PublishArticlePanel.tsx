@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ARTICLE_STATUSES, KbArticleStatus } from '@/lib/kb';
+
+interface PublicComment {
+  id: string;
+  content: string;
+  created_at: string;
+  user_id: string;
+  user: { full_name: string | null; username: string | null; role: string } | null;
+}
+
+interface PublishArticlePanelProps {
+  ticketId: string;
+  requesterId: string;
+  // Only solved tickets can be published
+  solved: boolean;
+  comments: PublicComment[];
+}
+
+// Staff only: drafts a knowledge base article from the ticket and lists the
+// articles already drafted from it
+export const PublishArticlePanel = ({ ticketId, requesterId, solved, comments }: PublishArticlePanelProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [articles, setArticles] = useState<{ id: string; title: string; status: KbArticleStatus }[]>([]);
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchArticles();
+  }, [ticketId]);
+
+  const fetchArticles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('kb_articles')
+        .select('id, title, status')
+        .eq('source_ticket_id', ticketId)
+        .order('created_at');
+
+      if (error) throw error;
+      setArticles((data || []) as { id: string; title: string; status: KbArticleStatus }[]);
+    } catch (error) {
+      console.error('Error fetching ticket articles:', error);
+    }
+  };
+
+  // Staff replies usually hold the solution, so they start selected
+  const openDialog = () => {
+    setSelected(comments.filter((comment) => comment.user_id !== requesterId).map((comment) => comment.id));
+    setOpen(true);
+  };
+
+  const toggle = (commentId: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, commentId] : current.filter((id) => id !== commentId)));
+  };
+
+  const draftArticle = async () => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('draft_article_from_ticket', {
+        _ticket_id: ticketId,
+        _comment_ids: selected
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Article Drafted',
+        description: 'Review the draft; it goes live once an admin approves it.'
+      });
+      setOpen(false);
+      navigate(`/kb/articles/${data}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to draft article',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!solved && articles.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Knowledge Base</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {articles.map((article) => (
+          <div key={article.id} className="flex items-center justify-between gap-2">
+            <Link to={`/kb/articles/${article.id}`} className="text-sm underline truncate">
+              {article.title}
+            </Link>
+            <Badge className={ARTICLE_STATUSES[article.status].className}>
+              {ARTICLE_STATUSES[article.status].label}
+            </Badge>
+          </div>
+        ))}
+        {solved && (
+          <Button variant="outline" size="sm" className="w-full" onClick={openDialog}>
+            <BookOpen className="h-4 w-4 mr-2" />
+            Publish as Article
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Publish as Article</DialogTitle>
+            <DialogDescription>
+              Drafts an article from the ticket's title and description and the replies you choose. The
+              requester's name and contact details are removed, and the draft goes live after an admin approves it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Replies to include as the solution</p>
+            {comments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This ticket has no public replies.</p>
+            ) : (
+              comments.map((comment) => (
+                <label key={comment.id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                  <Checkbox
+                    checked={selected.includes(comment.id)}
+                    onCheckedChange={(checked) => toggle(comment.id, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-xs text-muted-foreground">
+                      {comment.user_id === requesterId
+                        ? 'Requester'
+                        : comment.user?.full_name || comment.user?.username || 'Agent'}
+                      {' · '}
+                      {new Date(comment.created_at).toLocaleDateString()}
+                    </span>
+                    <span className="line-clamp-3 whitespace-pre-wrap">{comment.content}</span>
+                  </span>
+                </label>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={draftArticle} disabled={saving}>
+              {saving ? 'Drafting...' : 'Draft Article'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
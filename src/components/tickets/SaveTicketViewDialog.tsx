@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useToast } from '@/hooks/use-toast';
+import type { TicketViewVisibility } from '@/hooks/useTicketViews';
+import { TicketFilters, TicketSort, TICKET_SORTS } from '@/lib/ticketFilters';
+
+interface SaveTicketViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: TicketFilters;
+  sort: TicketSort;
+  onSaved: () => void;
+}
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+// Saves the current filters and sort as a named view
+export const SaveTicketViewDialog = ({ open, onOpenChange, filters, sort, onSaved }: SaveTicketViewDialogProps) => {
+  const { user } = useAuth();
+  const { profile } = useUserProfile();
+  const { toast } = useToast();
+  const isAdmin = profile?.role === 'admin';
+
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<TicketViewVisibility>('private');
+  const [teamId, setTeamId] = useState('');
+  const [pinned, setPinned] = useState(true);
+  const [isDefault, setIsDefault] = useState(false);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setVisibility('private');
+      setTeamId('');
+      setPinned(true);
+      setIsDefault(false);
+      fetchTeams();
+    }
+  }, [open]);
+
+  // Views can be shared with teams the user belongs to (admins: any team)
+  const fetchTeams = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('id, name, team_members(user_id)')
+        .order('name');
+
+      if (error) throw error;
+      setTeams(
+        (data || [])
+          .filter((team) => isAdmin || team.team_members.some((member) => member.user_id === user.id))
+          .map(({ id, name }) => ({ id, name }))
+      );
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (visibility === 'team' && !teamId) {
+      toast({
+        title: 'Choose a team',
+        description: 'Pick the team to share this view with.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Drop empty filters so the stored JSON only holds what was chosen
+      const storedFilters = Object.fromEntries(Object.entries(filters).filter(([, value]) => !!value));
+
+      const { data: view, error } = await supabase
+        .from('ticket_views')
+        .insert({
+          name: name.trim(),
+          owner_id: user.id,
+          visibility: isDefault ? 'everyone' : visibility,
+          team_id: !isDefault && visibility === 'team' ? teamId : null,
+          filters: storedFilters,
+          sort,
+          is_default: isDefault,
+          position: 100
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      if (pinned && !isDefault) {
+        const { error: pinError } = await supabase
+          .from('ticket_view_pins')
+          .insert({ user_id: user.id, view_id: view.id, pinned: true, position: 100 });
+
+        if (pinError) throw pinError;
+      }
+
+      toast({
+        title: 'View Saved',
+        description: pinned || isDefault ? 'The view is now a dashboard tab.' : 'The view has been saved.'
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save view',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>
+            Saves the current filters and sort ({TICKET_SORTS[sort].label.toLowerCase()}). "Me" filters follow whoever opens the view.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Urgent billing"
+              required
+            />
+          </div>
+
+          {!isDefault && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Shared with</Label>
+                <Select value={visibility} onValueChange={(value) => setVisibility(value as TicketViewVisibility)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="private">Only me</SelectItem>
+                    <SelectItem value="team" disabled={teams.length === 0}>A team</SelectItem>
+                    <SelectItem value="everyone">All agents</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {visibility === 'team' && (
+                <div className="space-y-2">
+                  <Label>Team</Label>
+                  <Select value={teamId} onValueChange={setTeamId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teams.map((team) => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch id="view-pinned" checked={pinned || isDefault} disabled={isDefault} onCheckedChange={setPinned} />
+            <Label htmlFor="view-pinned">Pin as a dashboard tab</Label>
+          </div>
+
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <Switch id="view-default" checked={isDefault} onCheckedChange={setIsDefault} />
+              <Label htmlFor="view-default">Default tab for all agents</Label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !name.trim()}>
+              {loading ? 'Saving...' : 'Save View'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AlarmClock } from 'lucide-react';
+import type { SlaState, TicketSla } from '@/hooks/useTicketSla';
+import { formatDuration } from '@/lib/businessTime';
+
+const slaColors: Record<SlaState, string> = {
+  on_track: 'bg-green-100 text-green-800 border-green-200',
+  at_risk: 'bg-amber-100 text-amber-800 border-amber-200',
+  breached: 'bg-red-100 text-red-800 border-red-200',
+  met: 'bg-gray-100 text-gray-800 border-gray-200',
+  paused: 'bg-purple-100 text-purple-800 border-purple-200'
+};
+
+const slaLabels: Record<SlaState, string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  breached: 'Breached',
+  met: 'SLA met',
+  paused: 'SLA paused'
+};
+
+// The next unmet target for the countdown: first response, then resolution.
+// A paused resolution target has no countdown.
+const nextTarget = (sla: TicketSla) => {
+  if (!sla.first_responded_at && sla.first_response_due_at) {
+    return { label: 'Response', dueAt: sla.first_response_due_at };
+  }
+  if (!sla.resolved_at && sla.resolution_due_at && sla.resolution_state !== 'paused') {
+    return { label: 'Resolution', dueAt: sla.resolution_due_at };
+  }
+  return null;
+};
+
+interface SlaBadgeProps {
+  sla: TicketSla | undefined;
+  showCountdown?: boolean;
+}
+
+// Badge for the database-computed SLA state, with an optional live countdown
+// to the next due timestamp
+export const SlaBadge = ({ sla, showCountdown = true }: SlaBadgeProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!sla?.sla_state) return null;
+
+  const target = nextTarget(sla);
+  const remaining = target ? new Date(target.dueAt).getTime() - now : 0;
+
+  return (
+    <Badge className={slaColors[sla.sla_state]}>
+      <AlarmClock className="w-3 h-3 mr-1" />
+      {slaLabels[sla.sla_state]}
+      {showCountdown && target && (
+        <span className="ml-1 font-normal">
+          · {target.label} {remaining >= 0 ? `due in ${formatDuration(remaining)}` : `overdue ${formatDuration(remaining)}`}
+        </span>
+      )}
+    </Badge>
+  );
+};
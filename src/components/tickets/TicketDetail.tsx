@@ -0,0 +1,819 @@
+// Import necessary hooks, components, and icons
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Calendar, User, Tag, MessageSquare, Lock, Hourglass, Zap, X, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useMacros } from '@/hooks/useMacros';
+import type { Ticket } from '@/hooks/useTicket';
+import { useTicketSla } from '@/hooks/useTicketSla';
+import { useTicketStatuses } from '@/hooks/useTicketStatuses';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { useDefaultBusinessSchedule } from '@/hooks/useBusinessSchedule';
+import { businessMillisBetween, formatDuration } from '@/lib/businessTime';
+import { Attachment, uploadAttachments } from '@/lib/attachments';
+import { Macro, renderMacro, macroHasChanges, macroTicketUpdate, describeMacroChanges } from '@/lib/macros';
+import { humanizeStatus, isReopenable } from '@/lib/ticketStatuses';
+import { AttachmentList } from './AttachmentList';
+import { AttachmentPicker } from './AttachmentPicker';
+import { CsatPanel } from './CsatPanel';
+import { MacroPicker } from './MacroPicker';
+import { PublishArticlePanel } from './PublishArticlePanel';
+import { SlaBadge } from './SlaBadge';
+import { TicketEvent, TicketEventItem } from './TicketEventItem';
+import { TicketStatusBadge } from './TicketStatusBadge';
+
+interface Comment {
+  id: string;
+  content: string;
+  created_at: string;
+  is_internal: boolean;
+  user_id: string;
+  user: { full_name: string | null; username: string | null; role: string } | null;
+}
+
+// Props for TicketDetail component
+interface TicketDetailProps {
+  ticket: Ticket;
+  userRole: 'user' | 'agent' | 'admin';
+  onTicketUpdated: () => void;
+}
+
+// Full ticket view (description, comments, metadata and actions), shared by
+// the ticket dialog and the standalone /tickets/:id page
+export const TicketDetail = ({ ticket, userRole, onTicketUpdated }: TicketDetailProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [events, setEvents] = useState<TicketEvent[]>([]);
+  const [pauses, setPauses] = useState<{ started_at: string; ended_at: string }[]>([]);
+  const { slaByTicket } = useTicketSla([ticket.id], ticket.updated_at);
+  const sla = slaByTicket[ticket.id];
+  const { schedule } = useDefaultBusinessSchedule();
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [isInternal, setIsInternal] = useState(false);
+  // Move the ticket to pending once the reply is posted
+  const [awaitReply, setAwaitReply] = useState(false);
+  const [newStatus, setNewStatus] = useState(ticket.status);
+  const { statuses, getStatus, nextStatuses } = useTicketStatuses();
+  const currentStatus = getStatus(ticket.status);
+  const [loading, setLoading] = useState(false);
+  const [agents, setAgents] = useState<any[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+
+  // Agents and admins can write internal notes; RLS hides them from users
+  const isStaff = userRole === 'agent' || userRole === 'admin';
+
+  // Determine whether the user can update ticket details
+  const canManageTicket = userRole === 'admin' || 
+    (userRole === 'agent' && (ticket.assigned_to === user?.id || !ticket.assigned_to));
+
+  // Solved and closed tickets only come back through reopen_ticket, which
+  // staff and the requester may use
+  const canReopen = isReopenable(currentStatus) && (isStaff || ticket.created_by === user?.id);
+
+  const { profile } = useUserProfile();
+  const { macros, recordUse } = useMacros(isStaff);
+  // Macro picked for the comment being written; its field changes are
+  // applied when the comment is posted
+  const [appliedMacro, setAppliedMacro] = useState<Macro | null>(null);
+
+  // Fetch comments and agent list whenever a different ticket is shown
+  useEffect(() => {
+    fetchComments();
+    fetchAttachments();
+    setAppliedMacro(null);
+    if (userRole === 'agent' || userRole === 'admin') {
+      fetchAgents();
+      fetchCategories();
+    }
+  }, [ticket.id]);
+
+  // Keep the status picker in sync when the ticket is refetched
+  useEffect(() => {
+    setNewStatus(ticket.status);
+  }, [ticket.status]);
+
+  // Any change to the ticket row produces new history entries (and may end
+  // a pause)
+  useEffect(() => {
+    fetchEvents();
+    fetchPauses();
+  }, [ticket.id, ticket.updated_at]);
+
+  // Replies and notes from other people appear without a reload. Attachments
+  // are uploaded after their comment is saved, so they are watched separately.
+  useRealtimeChanges({
+    table: 'ticket_comments',
+    filter: `ticket_id=eq.${ticket.id}`,
+    onChange: () => fetchComments()
+  });
+  useRealtimeChanges({
+    table: 'ticket_attachments',
+    filter: `ticket_id=eq.${ticket.id}`,
+    onChange: () => fetchAttachments()
+  });
+
+  // Retrieve ticket comments from Supabase
+  const fetchComments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ticket_comments')
+        .select(`
+          *,
+          user:profiles(full_name, username, role)
+        `)
+        .eq('ticket_id', ticket.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    }
+  };
+
+  // Retrieve attachments for the ticket and all of its comments
+  const fetchAttachments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ticket_attachments')
+        .select('*')
+        .eq('ticket_id', ticket.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setAttachments(data || []);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+    }
+  };
+
+  // Retrieve the ticket's activity history
+  const fetchEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ticket_events')
+        .select(`
+          *,
+          actor:profiles!ticket_events_actor_id_fkey(full_name, username)
+        `)
+        .eq('ticket_id', ticket.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setEvents((data || []) as TicketEvent[]);
+    } catch (error) {
+      console.error('Error fetching ticket history:', error);
+    }
+  };
+
+  // Finished pending periods, left out of the ticket's age
+  const fetchPauses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ticket_pauses')
+        .select('started_at, ended_at')
+        .eq('ticket_id', ticket.id);
+
+      if (error) throw error;
+      setPauses(data || []);
+    } catch (error) {
+      console.error('Error fetching ticket pauses:', error);
+    }
+  };
+
+  // Retrieve list of agents and admins
+  const fetchAgents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, username')
+        .in('role', ['agent', 'admin']);
+
+      if (error) throw error;
+      setAgents(data || []);
+    } catch (error) {
+      console.error('Error fetching agents:', error);
+    }
+  };
+
+  // Retrieve categories, to name the ones macros move tickets to
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  // Insert a macro's rendered text into the comment box and remember its
+  // field changes for when the comment is posted
+  const handleApplyMacro = (macro: Macro) => {
+    const text = renderMacro(macro.content, {
+      ticket,
+      requester: ticket.creator,
+      agent: profile,
+      categoryName: ticket.categories?.name,
+      statusName: currentStatus?.name
+    });
+    setNewComment((current) => (current.trim() && text ? `${current.trimEnd()}\n\n${text}` : current.trim() ? current : text));
+    setIsInternal(macro.is_internal);
+    setAppliedMacro(macro);
+  };
+
+  // The pending status a public reply can park the ticket in
+  const pendingStatus = nextStatuses(ticket.status).find((status) => status.category === 'pending');
+  const canAwaitReply = canManageTicket && !isInternal && !!pendingStatus;
+
+  // Field changes are only applied by people who may manage the ticket
+  const applyMacroChanges = !!appliedMacro && macroHasChanges(appliedMacro) && canManageTicket;
+
+  // Handle comment submission
+  // Files alone make a reply too, stored like attachment-only inbound email
+  const hasReply = !!newComment.trim() || commentFiles.length > 0;
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || (!hasReply && !applyMacroChanges)) return;
+
+    setLoading(true);
+    try {
+      if (hasReply) {
+        const { data: comment, error } = await supabase
+          .from('ticket_comments')
+          .insert({
+            ticket_id: ticket.id,
+            user_id: user.id,
+            content: newComment.trim() || '(attachments only)',
+            is_internal: isStaff && isInternal
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        if (commentFiles.length > 0) {
+          await uploadAttachments(commentFiles, { ticketId: ticket.id, commentId: comment.id, userId: user.id });
+          setCommentFiles([]);
+        }
+      }
+
+      if (appliedMacro) {
+        if (applyMacroChanges) {
+          const { error } = await supabase
+            .from('tickets')
+            .update(macroTicketUpdate(appliedMacro, user.id))
+            .eq('id', ticket.id);
+
+          if (error) throw error;
+          onTicketUpdated();
+        }
+        recordUse(appliedMacro.id);
+      }
+
+      // Applied after the macro so the reply decides where the ticket ends up
+      if (hasReply && awaitReply && canAwaitReply && pendingStatus) {
+        const { error } = await supabase
+          .from('tickets')
+          .update({ status: pendingStatus.key })
+          .eq('id', ticket.id);
+
+        if (error) throw error;
+        onTicketUpdated();
+      }
+
+      const hadComment = hasReply;
+      setNewComment('');
+      setAppliedMacro(null);
+      setAwaitReply(false);
+      await Promise.all([fetchComments(), fetchAttachments(), fetchEvents()]); // Refresh comments
+
+      toast({
+        title: !hadComment ? 'Macro Applied' : isInternal ? 'Internal Note Added' : 'Comment Added',
+        description: !hadComment
+          ? `The ticket was updated by "${appliedMacro?.name}".`
+          : isInternal
+            ? 'Your note is visible to agents and admins only.'
+            : 'Your comment has been added successfully.'
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add comment',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Handle status updates
+  const handleStatusUpdate = async () => {
+    if (!user || newStatus === ticket.status) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('tickets')
+        .update({ status: newStatus })
+        .eq('id', ticket.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Status Updated',
+        description: `Ticket status changed to ${getStatus(newStatus)?.name ?? humanizeStatus(newStatus)}`
+      });
+
+      onTicketUpdated(); // Refresh ticket state
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update status',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reopen a solved or closed ticket into the default status
+  const handleReopen = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc('reopen_ticket', { _ticket_id: ticket.id });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Ticket Reopened',
+        description: 'The ticket is open again'
+      });
+
+      onTicketUpdated();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to reopen ticket',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Handle agent assignment
+  const handleAssignTicket = async (agentId: string) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('tickets')
+        .update({ assigned_to: agentId || null })
+        .eq('id', ticket.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Assignment Updated',
+        description: agentId ? 'Ticket assigned successfully' : 'Ticket unassigned'
+      });
+
+      onTicketUpdated(); // Refresh ticket state
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update assignment',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Format timestamps into a readable format
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // Split attachments between the ticket itself and individual comments
+  const ticketAttachments = attachments.filter((a) => !a.comment_id);
+  const attachmentsByComment = attachments.reduce<Record<string, Attachment[]>>((acc, a) => {
+    if (a.comment_id) (acc[a.comment_id] ||= []).push(a);
+    return acc;
+  }, {});
+
+  // The ticket's age stops counting once it is resolved, and leaves out the
+  // time spent waiting on the requester
+  const ticketEnd = ticket.resolved_at ? new Date(ticket.resolved_at) : new Date();
+  const allPauses = [
+    ...pauses.map((pause) => ({ start: new Date(pause.started_at), end: new Date(pause.ended_at) })),
+    ...(ticket.pending_since ? [{ start: new Date(ticket.pending_since), end: ticketEnd }] : [])
+  ];
+  const ticketAge = (between: (start: Date, end: Date) => number) =>
+    Math.max(
+      0,
+      between(new Date(ticket.created_at), ticketEnd) -
+        allPauses.reduce((total, pause) => total + between(pause.start, pause.end), 0)
+    );
+
+  // Comments and history merged into one chronological timeline; comment
+  // events are skipped because the comments themselves are shown
+  const timeline = [
+    ...comments.map((comment) => ({ kind: 'comment' as const, created_at: comment.created_at, comment })),
+    ...events
+      .filter((event) => event.event_type !== 'comment_added')
+      .map((event) => ({ kind: 'event' as const, created_at: event.created_at, event }))
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Main ticket details and comments */}
+      <div className="lg:col-span-2 space-y-6">
+        {/* Ticket description card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Description</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="whitespace-pre-wrap">{ticket.description}</p>
+            <AttachmentList attachments={ticketAttachments} />
+            {/* Legacy single-file attachment from before ticket_attachments */}
+            {ticket.attachment_url && (
+              <a
+                href={ticket.attachment_url}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm text-primary underline"
+              >
+                View original attachment
+              </a>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Activity section: comments interleaved with ticket history */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Activity ({comments.length} {comments.length === 1 ? 'comment' : 'comments'})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Existing comments and history */}
+            {timeline.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">No comments yet.</p>
+            ) : (
+              timeline.map((item) => item.kind === 'event' ? (
+                <TicketEventItem key={item.event.id} event={item.event} formatDate={formatDate} />
+              ) : (
+                <div
+                  key={item.comment.id}
+                  className={`flex gap-3 p-3 rounded-lg ${
+                    item.comment.is_internal ? 'bg-amber-50 border border-amber-200' : 'bg-muted/50'
+                  }`}
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback>
+                      {item.comment.user?.full_name?.charAt(0) || item.comment.user?.username?.charAt(0) || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">
+                        {item.comment.user?.full_name || item.comment.user?.username}
+                      </span>
+                      <Badge variant="outline" className="text-xs">
+                        {item.comment.user?.role}
+                      </Badge>
+                      {item.comment.is_internal && (
+                        <Badge className="text-xs bg-amber-100 text-amber-800 border-amber-200">
+                          <Lock className="w-3 h-3 mr-1" />
+                          Internal note
+                        </Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(item.comment.created_at)}
+                      </span>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{item.comment.content}</p>
+                    <AttachmentList attachments={attachmentsByComment[item.comment.id] || []} />
+                  </div>
+                </div>
+              ))
+            )}
+
+            {/* Add comment form */}
+            <form onSubmit={handleAddComment} className="space-y-3">
+              {/* Reply / internal note switch and macros for agents and admins */}
+              {isStaff && (
+                <div className="flex items-center justify-between gap-2">
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={isInternal ? 'internal' : 'reply'}
+                    onValueChange={(value) => value && setIsInternal(value === 'internal')}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="reply">
+                      <MessageSquare className="mr-2 h-4 w-4" />
+                      Reply
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="internal">
+                      <Lock className="mr-2 h-4 w-4" />
+                      Internal note
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                  <MacroPicker macros={macros} onSelect={handleApplyMacro} disabled={loading} />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="comment">{isInternal ? 'Add an internal note' : 'Add a comment'}</Label>
+                <Textarea
+                  id="comment"
+                  value={newComment}
+                  onChange={(e) => setNewComment(e.target.value)}
+                  placeholder={isInternal ? 'Only agents and admins will see this. Use @username to notify a teammate...' : 'Type your comment here...'}
+                  rows={3}
+                  className={isInternal ? 'bg-amber-50 border-amber-200' : undefined}
+                />
+              </div>
+              {/* Field changes the picked macro will make */}
+              {appliedMacro && macroHasChanges(appliedMacro) && (
+                <div className="flex items-start gap-2 rounded-md border border-dashed p-2 text-sm">
+                  <Zap className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                  <div className="flex-1">
+                    <span className="font-medium">{appliedMacro.name}</span>
+                    {canManageTicket ? (
+                      <span className="text-muted-foreground">
+                        {' will also: '}
+                        {describeMacroChanges(appliedMacro, {
+                          categories,
+                          agents: agents.map((agent) => ({ id: agent.id, name: agent.full_name || agent.username })),
+                          statuses
+                        }).join(', ')}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {' '}changes ticket fields, which only the assignee or an admin can do. Only the comment will be posted.
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => setAppliedMacro(null)}
+                    aria-label="Don't apply macro changes"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <AttachmentPicker files={commentFiles} onFilesChange={setCommentFiles} disabled={loading} />
+              {canAwaitReply && pendingStatus && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={awaitReply} onCheckedChange={(checked) => setAwaitReply(checked === true)} />
+                  Set to "{pendingStatus.name}" until the requester replies
+                </label>
+              )}
+              <Button type="submit" disabled={loading || (!hasReply && !applyMacroChanges)}>
+                {loading ? 'Adding...' : !hasReply && applyMacroChanges ? 'Apply Macro' : isInternal ? 'Add Internal Note' : 'Add Comment'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Sidebar with ticket metadata and actions */}
+      <div className="space-y-4">
+        {/* Ticket info */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Ticket Information</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Status badge */}
+            <div>
+              <Label className="text-sm font-medium">Status</Label>
+              <div className="mt-1 flex items-center gap-2">
+                <TicketStatusBadge status={ticket.status} />
+                {canReopen && (
+                  <Button variant="outline" size="sm" onClick={handleReopen} disabled={loading}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Priority display */}
+            <div>
+              <Label className="text-sm font-medium">Priority</Label>
+              <div className="mt-1">
+                <Badge variant="outline">{ticket.priority}</Badge>
+              </div>
+            </div>
+
+            {/* SLA state and due dates */}
+            {sla?.sla_state && (
+              <div>
+                <Label className="text-sm font-medium">SLA</Label>
+                <div className="mt-1 space-y-1">
+                  <SlaBadge sla={sla} />
+                  {sla.first_response_due_at && (
+                    <p className="text-xs text-muted-foreground">
+                      First response {sla.first_responded_at
+                        ? `at ${formatDate(sla.first_responded_at)}`
+                        : `due ${formatDate(sla.first_response_due_at)}`}
+                    </p>
+                  )}
+                  {sla.resolution_due_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Resolution {sla.resolved_at
+                        ? `at ${formatDate(sla.resolved_at)}`
+                        : sla.resolution_state === 'paused'
+                          ? `clock paused since ${formatDate(sla.pending_since as string)}`
+                          : `due ${formatDate(sla.resolution_due_at)}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Category */}
+            {ticket.categories && (
+              <div>
+                <Label className="text-sm font-medium">Category</Label>
+                <div className="mt-1">
+                  <Badge variant="outline" style={{ borderColor: ticket.categories.color }}>
+                    <Tag className="w-3 h-3 mr-1" />
+                    {ticket.categories.name}
+                  </Badge>
+                </div>
+              </div>
+            )}
+
+            {/* Creation date */}
+            <div>
+              <Label className="text-sm font-medium">Created</Label>
+              <div className="mt-1 flex items-center gap-1 text-sm text-muted-foreground">
+                <Calendar className="w-3 h-3" />
+                {formatDate(ticket.created_at)}
+              </div>
+            </div>
+
+            {/* Age, counted in business hours when a default schedule exists;
+                pending time is left out */}
+            <div>
+              <Label className="text-sm font-medium">Age</Label>
+              <div className="mt-1 flex items-center gap-1 text-sm text-muted-foreground">
+                <Hourglass className="w-3 h-3" />
+                {schedule
+                  ? `${formatDuration(ticketAge((start, end) => businessMillisBetween(schedule, start, end)))} business time`
+                  : formatDuration(ticketAge((start, end) => Math.max(0, end.getTime() - start.getTime())))}
+              </div>
+            </div>
+
+            {/* Last updated */}
+            <div>
+              <Label className="text-sm font-medium">Last Updated</Label>
+              <div className="mt-1 flex items-center gap-1 text-sm text-muted-foreground">
+                <Calendar className="w-3 h-3" />
+                {formatDate(ticket.updated_at)}
+              </div>
+            </div>
+
+            {/* Assignee */}
+            {ticket.assignee && (
+              <div>
+                <Label className="text-sm font-medium">Assigned To</Label>
+                <div className="mt-1 flex items-center gap-1 text-sm text-muted-foreground">
+                  <User className="w-3 h-3" />
+                  {ticket.assignee.full_name || ticket.assignee.username}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Satisfaction rating for the latest resolution */}
+        <CsatPanel
+          ticketId={ticket.id}
+          isRequester={ticket.created_by === user?.id}
+          isStaff={isStaff}
+          refreshKey={ticket.updated_at}
+        />
+
+        {/* Knowledge base articles drafted from this ticket */}
+        {isStaff && (
+          <PublishArticlePanel
+            ticketId={ticket.id}
+            requesterId={ticket.created_by}
+            solved={isReopenable(currentStatus)}
+            comments={comments.filter((comment) => !comment.is_internal)}
+          />
+        )}
+
+        {/* Management actions (status update, assignment) */}
+        {canManageTicket && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Actions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Status change dropdown */}
+              <div>
+                <Label htmlFor="status">Update Status</Label>
+                <div className="flex gap-2 mt-1">
+                  {/* Only the moves the workflow allows from the current status */}
+                  <Select value={newStatus} onValueChange={setNewStatus}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ticket.status}>
+                        {currentStatus?.name ?? humanizeStatus(ticket.status)}
+                      </SelectItem>
+                      {nextStatuses(ticket.status).map((status) => (
+                        <SelectItem key={status.key} value={status.key}>{status.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button 
+                    onClick={handleStatusUpdate}
+                    disabled={loading || newStatus === ticket.status}
+                    size="sm"
+                  >
+                    Update
+                  </Button>
+                </div>
+              </div>
+
+              {/* Agent assignment dropdown */}
+              {(userRole === 'agent' || userRole === 'admin') && (
+                <div>
+                  <Label htmlFor="assign">Assign To</Label>
+                  <div className="mt-1">
+                    <Select 
+                      value={ticket.assigned_to || ''} 
+                      onValueChange={handleAssignTicket}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select agent" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="">Unassigned</SelectItem>
+                        {agents.map((agent) => (
+                          <SelectItem key={agent.id} value={agent.id}>
+                            {agent.full_name || agent.username}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
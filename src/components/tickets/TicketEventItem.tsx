@@ -0,0 +1,78 @@
+import { History } from 'lucide-react';
+import { useTicketStatuses } from '@/hooks/useTicketStatuses';
+
+export interface TicketEvent {
+  id: string;
+  ticket_id: string;
+  actor_id: string | null;
+  event_type: string;
+  old_value: string | null;
+  new_value: string | null;
+  metadata: { old_label?: string | null; new_label?: string | null; [key: string]: unknown };
+  is_internal: boolean;
+  created_at: string;
+  actor: { full_name: string | null; username: string | null } | null;
+}
+
+interface TicketEventItemProps {
+  event: TicketEvent;
+  formatDate: (dateString: string) => string;
+}
+
+const humanize = (value: string | null) => (value ? value.replace('_', ' ') : 'none');
+
+// One-line sentence for an event, e.g. "changed status from Open to Resolved"
+const describeEvent = (event: TicketEvent, statusName: (key: string | null) => string) => {
+  const { old_label, new_label } = event.metadata || {};
+
+  switch (event.event_type) {
+    case 'created':
+      return 'created the ticket';
+    case 'status_changed':
+      return `changed status from ${statusName(event.old_value)} to ${statusName(event.new_value)}`;
+    case 'priority_changed':
+      return `changed priority from ${humanize(event.old_value)} to ${humanize(event.new_value)}`;
+    case 'assignee_changed':
+      return event.new_value
+        ? `assigned the ticket to ${new_label || 'an agent'}`
+        : `unassigned ${old_label || 'the ticket'}`;
+    case 'auto_assigned': {
+      const how = [event.metadata?.strategy && humanize(String(event.metadata.strategy)), event.metadata?.reason]
+        .filter(Boolean)
+        .join(', ');
+      return event.new_value
+        ? `automatically assigned the ticket to ${new_label || 'an agent'}${how ? ` (${how})` : ''}`
+        : `could not assign the ticket automatically${how ? ` (${how})` : ''}`;
+    }
+    case 'category_changed':
+      return `changed category from ${old_label || 'none'} to ${new_label || 'none'}`;
+    case 'title_changed':
+      return `renamed the ticket to "${event.new_value}"`;
+    case 'description_changed':
+      return 'updated the description';
+    default:
+      return event.event_type.replace(/_/g, ' ');
+  }
+};
+
+// Compact timeline row for a ticket_events entry
+export const TicketEventItem = ({ event, formatDate }: TicketEventItemProps) => {
+  const { getStatus } = useTicketStatuses();
+  // Statuses are shown by their current name; deleted ones fall back to the key
+  const statusName = (key: string | null) => getStatus(key)?.name ?? humanize(key);
+
+  // Changes made by an automation rule are credited to the rule
+  const actorName = event.metadata?.rule
+    ? `Rule "${event.metadata.rule}"`
+    : event.actor?.full_name || event.actor?.username || 'System';
+
+  return (
+    <div className="flex items-center gap-2 px-3 text-xs text-muted-foreground">
+      <History className="h-3 w-3 shrink-0" />
+      <span>
+        <span className="font-medium text-foreground">{actorName}</span> {describeEvent(event, statusName)}
+      </span>
+      <span className="ml-auto shrink-0">{formatDate(event.created_at)}</span>
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  TicketFilters,
+  TicketSort,
+  TICKET_PRIORITIES,
+  TICKET_SORTS,
+  hasTicketFilters
+} from '@/lib/ticketFilters';
+import { useTicketStatuses } from '@/hooks/useTicketStatuses';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface TicketFilterBarProps {
+  filters: TicketFilters;
+  sort: TicketSort;
+  onFiltersChange: (filters: TicketFilters) => void;
+  onSortChange: (sort: TicketSort) => void;
+  // Filters fixed by the surrounding view are hidden from the bar
+  lockedFilters?: (keyof TicketFilters)[];
+  showPeopleFilters?: boolean;
+  // Extra controls shown next to the sort select
+  actions?: React.ReactNode;
+}
+
+// Select values can't be empty, so "all" stands in for "no filter"
+const ALL = 'all';
+
+const profileName = (profile: { full_name: string | null; username: string | null }) =>
+  profile.full_name || profile.username || 'Unknown';
+
+export const TicketFilterBar = ({
+  filters,
+  sort,
+  onFiltersChange,
+  onSortChange,
+  lockedFilters = [],
+  showPeopleFilters = false,
+  actions
+}: TicketFilterBarProps) => {
+  const [search, setSearch] = useState(filters.search || '');
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [agents, setAgents] = useState<Option[]>([]);
+  const [people, setPeople] = useState<Option[]>([]);
+  const { statuses } = useTicketStatuses();
+
+  useEffect(() => {
+    fetchOptions();
+  }, [showPeopleFilters]);
+
+  // Follow the URL when it changes underneath us (back button, saved links)
+  useEffect(() => {
+    setSearch(filters.search || '');
+  }, [filters.search]);
+
+  // Debounce search so typing doesn't fire a query per keystroke
+  useEffect(() => {
+    if (search === (filters.search || '')) return;
+    const timeout = setTimeout(() => onFiltersChange({ ...filters, search: search || undefined }), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchOptions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+
+      if (showPeopleFilters) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, full_name, username, role')
+          .order('full_name');
+
+        if (profilesError) throw profilesError;
+        setPeople((profiles || []).map((p) => ({ id: p.id, name: profileName(p) })));
+        setAgents(
+          (profiles || [])
+            .filter((p) => p.role === 'agent' || p.role === 'admin')
+            .map((p) => ({ id: p.id, name: profileName(p) }))
+        );
+      }
+    } catch (error) {
+      console.error('Error fetching filter options:', error);
+    }
+  };
+
+  const setFilter = (key: keyof TicketFilters, value: string) => {
+    onFiltersChange({ ...filters, [key]: value === ALL || value === '' ? undefined : value });
+  };
+
+  const isShown = (key: keyof TicketFilters) => !lockedFilters.includes(key);
+
+  return (
+    <div className="space-y-3">
+      {/* Search and sort */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Input
+          placeholder='Search, e.g. refund status:open priority:urgent assignee:me "exact phrase"'
+          title='Operators: status: priority: category:"Name" assignee: creator: created:>YYYY-MM-DD (or <, >=, <=, a date, or from..to)'
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="flex-1"
+        />
+        <Select value={sort} onValueChange={(value) => onSortChange(value as TicketSort)}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TICKET_SORTS) as TicketSort[])
+              .filter((key) => key !== 'relevance' || !!filters.search)
+              .map((key) => (
+                <SelectItem key={key} value={key}>{TICKET_SORTS[key].label}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        {actions}
+      </div>
+
+      {/* Field filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        {isShown('status') && (
+          <Select value={filters.status || ALL} onValueChange={(value) => setFilter('status', value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any status</SelectItem>
+              {statuses.map((status) => (
+                <SelectItem key={status.key} value={status.key}>{status.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isShown('priority') && (
+          <Select value={filters.priority || ALL} onValueChange={(value) => setFilter('priority', value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any priority</SelectItem>
+              {TICKET_PRIORITIES.map((priority) => (
+                <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isShown('categoryId') && (
+          <Select value={filters.categoryId || ALL} onValueChange={(value) => setFilter('categoryId', value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any category</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {showPeopleFilters && isShown('assignee') && (
+          <Select value={filters.assignee || ALL} onValueChange={(value) => setFilter('assignee', value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any assignee</SelectItem>
+              <SelectItem value="me">Assigned to me</SelectItem>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {showPeopleFilters && isShown('creator') && (
+          <Select value={filters.creator || ALL} onValueChange={(value) => setFilter('creator', value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any requester</SelectItem>
+              {people.map((person) => (
+                <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {/* Created date range */}
+        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Input
+            type="date"
+            aria-label="Created from"
+            value={filters.createdFrom || ''}
+            max={filters.createdTo}
+            onChange={(e) => setFilter('createdFrom', e.target.value)}
+            className="w-40"
+          />
+          <span>to</span>
+          <Input
+            type="date"
+            aria-label="Created to"
+            value={filters.createdTo || ''}
+            min={filters.createdFrom}
+            onChange={(e) => setFilter('createdTo', e.target.value)}
+            className="w-40"
+          />
+        </div>
+
+        {hasTicketFilters(filters) && (
+          <Button variant="ghost" size="sm" onClick={() => onFiltersChange({})}>
+            <X className="mr-1 h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
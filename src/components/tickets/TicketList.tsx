@@ -1,50 +1,43 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
-import { Eye, Calendar, User, Tag } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Eye, Calendar, User, Tag, ArrowUp, ChevronLeft, ChevronRight, BookmarkPlus } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { Ticket, TICKET_SELECT } from '@/hooks/useTicket';
+import { useTicketSla } from '@/hooks/useTicketSla';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  TicketFilters,
+  TicketSort,
+  TICKET_PAGE_SIZE,
+  TICKET_SORTS,
+  parseTicketFilters,
+  parseTicketSort,
+  queryTickets,
+  ticketMatchesFilters,
+  writeTicketFilters
+} from '@/lib/ticketFilters';
+import { TicketSearchResult, searchTickets } from '@/lib/ticketSearch';
+import { SlaBadge } from './SlaBadge';
+import { TicketStatusBadge } from './TicketStatusBadge';
 import { TicketDetailDialog } from './TicketDetailDialog';
-
-interface Ticket {
-  id: string;
-  title: string;
-  description: string;
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  created_at: string;
-  updated_at: string;
-  category_id: string | null;
-  created_by: string;
-  assigned_to: string | null;
-  categories: { name: string; color: string } | null;
-  creator: { full_name: string | null; username: string | null } | null;
-  assignee: { full_name: string | null; username: string | null } | null;
-}
+import { TicketFilterBar } from './TicketFilterBar';
+import { HighlightedText } from './HighlightedText';
+import { SaveTicketViewDialog } from './SaveTicketViewDialog';
 
 interface TicketListProps {
   refreshKey: number;
   userRole: 'user' | 'agent' | 'admin';
-  statusFilter?: string;
-  assignedToMe?: boolean;
+  // Filters fixed by the surrounding view (e.g. a saved view tab)
+  baseFilters?: TicketFilters;
+  defaultSort?: TicketSort;
+  // Shows a "Save view" action for staff
+  onViewSaved?: () => void;
 }
 
-const statusColors = {
-  open: 'bg-red-100 text-red-800 border-red-200',
-  in_progress: 'bg-yellow-100 text-yellow-800 border-yellow-200',
-  resolved: 'bg-green-100 text-green-800 border-green-200',
-  closed: 'bg-gray-100 text-gray-800 border-gray-200'
-};
-
 const priorityColors = {
   low: 'bg-blue-100 text-blue-800 border-blue-200',
   medium: 'bg-orange-100 text-orange-800 border-orange-200',
@@ -52,52 +45,124 @@ const priorityColors = {
   urgent: 'bg-purple-100 text-purple-800 border-purple-200'
 };
 
-export const TicketList = ({ refreshKey, userRole, statusFilter, assignedToMe }: TicketListProps) => {
+export const TicketList = ({ refreshKey, userRole, baseFilters = {}, defaultSort, onViewSaved }: TicketListProps) => {
   const { user } = useAuth();
   const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState('created_at');
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
+  const [highlights, setHighlights] = useState<TicketSearchResult['highlights']>({});
+  const [searchErrors, setSearchErrors] = useState<string[]>([]);
+  // Tickets that arrived over Realtime but aren't shown yet, so the list
+  // doesn't reshuffle while someone is reading it
+  const [newTicketIds, setNewTicketIds] = useState<string[]>([]);
+  const [showSaveView, setShowSaveView] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { slaByTicket } = useTicketSla(tickets.map((ticket) => ticket.id), refreshKey);
+
+  // Filters, sort and page live in the URL so views can be bookmarked and
+  // shared. Filters fixed by the view are layered on top; a view's search
+  // text is combined with whatever is typed in the search box.
+  const lockedFilters: TicketFilters = {
+    ...baseFilters,
+    creator: userRole === 'user' ? 'me' : baseFilters.creator
+  };
+  const urlFilters = parseTicketFilters(searchParams);
+  const lockedKeys = (Object.keys(lockedFilters) as (keyof TicketFilters)[])
+    .filter((key) => lockedFilters[key] && key !== 'search');
+  const filters: TicketFilters = {
+    ...urlFilters,
+    ...Object.fromEntries(lockedKeys.map((key) => [key, lockedFilters[key]])),
+    search: [lockedFilters.search, urlFilters.search].filter(Boolean).join(' ') || undefined
+  };
+  const sort = parseTicketSort(searchParams, defaultSort);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const pageCount = Math.max(1, Math.ceil(totalCount / TICKET_PAGE_SIZE));
+  const queryKey = JSON.stringify({ filters, sort, page });
+
+  // The open ticket lives in the URL (?ticket=<id>) so it survives a refresh
+  // and the back button closes it
+  const selectedTicketId = searchParams.get('ticket');
+
+  const openTicket = (ticketId: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('ticket', ticketId);
+    setSearchParams(params);
+  };
+
+  const closeTicket = () => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('ticket');
+    setSearchParams(params);
+  };
+
+  // Filter and sort changes replace the history entry and go back to page 1
+  const updateFilters = (next: TicketFilters) => {
+    const params = writeTicketFilters(searchParams, next);
+    params.delete('page');
+    setSearchParams(params, { replace: true });
+  };
+
+  const updateSort = (next: TicketSort) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('sort', next);
+    params.delete('page');
+    setSearchParams(params, { replace: true });
+  };
+
+  const goToPage = (next: number) => {
+    const params = new URLSearchParams(searchParams);
+    if (next > 1) params.set('page', String(next));
+    else params.delete('page');
+    setSearchParams(params);
+  };
 
   useEffect(() => {
     fetchTickets();
-  }, [refreshKey, statusFilter, assignedToMe, user]);
+  }, [refreshKey, queryKey, user]);
 
   const fetchTickets = async () => {
     if (!user) return;
 
     setLoading(true);
     try {
-      let query = supabase
-        .from('tickets')
-        .select(`
-          *,
-          categories(name, color),
-          creator:profiles!tickets_created_by_fkey(full_name, username),
-          assignee:profiles!tickets_assigned_to_fkey(full_name, username)
-        `)
-        .order(sortBy, { ascending: false });
-
-      // Apply role-based filtering
-      if (userRole === 'user') {
-        query = query.eq('created_by', user.id);
-      }
+      const from = (page - 1) * TICKET_PAGE_SIZE;
 
-      // Apply status filter
-      if (statusFilter && ['open', 'in_progress', 'resolved', 'closed'].includes(statusFilter)) {
-        query = query.eq('status', statusFilter as 'open' | 'in_progress' | 'resolved' | 'closed');
-      }
+      if (filters.search?.trim()) {
+        // Full-text search ranks and pages on the server, then the page of
+        // tickets is loaded with the usual joins in the same order
+        const result = await searchTickets(filters, lockedKeys, sort, TICKET_PAGE_SIZE, from);
+        let pageTickets: Ticket[] = [];
 
-      // Apply assigned to me filter
-      if (assignedToMe) {
-        query = query.eq('assigned_to', user.id);
-      }
+        if (result.ticketIds.length > 0) {
+          const { data, error } = await supabase
+            .from('tickets')
+            .select(TICKET_SELECT)
+            .in('id', result.ticketIds);
+
+          if (error) throw error;
+          const byId = new Map((data as Ticket[]).map((ticket) => [ticket.id, ticket]));
+          pageTickets = result.ticketIds.flatMap((id) => byId.get(id) ?? []);
+        }
 
-      const { data, error } = await query;
+        setTickets(pageTickets);
+        setTotalCount(result.totalCount);
+        setHighlights(result.highlights);
+        setSearchErrors(result.errors);
+      } else {
+        const { column, ascending } = TICKET_SORTS[sort];
+        const { data, error, count } = await queryTickets(filters, user.id, TICKET_SELECT, { count: 'exact' })
+          .order(column, { ascending })
+          // Stable tie-break so pages don't overlap when sort values repeat
+          .order('id')
+          .range(from, from + TICKET_PAGE_SIZE - 1);
 
-      if (error) throw error;
-      setTickets(data || []);
+        if (error) throw error;
+        setTickets((data || []) as unknown as Ticket[]);
+        setTotalCount(count || 0);
+        setHighlights({});
+        setSearchErrors([]);
+      }
+      setNewTicketIds([]);
     } catch (error) {
       console.error('Error fetching tickets:', error);
     } finally {
@@ -105,10 +170,44 @@ export const TicketList = ({ refreshKey, userRole, statusFilter, assignedToMe }:
     }
   };
 
-  const filteredTickets = tickets.filter(ticket =>
-    ticket.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    ticket.description.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Refresh a single ticket in place, keeping its position in the list
+  const refreshTicket = async (ticketId: string) => {
+    const { data, error } = await supabase
+      .from('tickets')
+      .select(TICKET_SELECT)
+      .eq('id', ticketId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error refreshing ticket:', error);
+      return;
+    }
+    if (data) {
+      setTickets((current) => current.map((ticket) => (ticket.id === ticketId ? data as Ticket : ticket)));
+    }
+  };
+
+  useRealtimeChanges({
+    table: 'tickets',
+    filter: userRole === 'user' && user ? `created_by=eq.${user.id}` : undefined,
+    enabled: !!user,
+    onChange: (payload) => {
+      if (payload.eventType === 'DELETE' || !user) return;
+
+      const row = payload.new;
+      if (tickets.some((ticket) => ticket.id === row.id)) {
+        refreshTicket(row.id);
+      } else if (ticketMatchesFilters(row, filters, user.id)) {
+        setNewTicketIds((current) => (current.includes(row.id) ? current : [...current, row.id]));
+      }
+    }
+  });
+
+  // New tickets show up at the top of the first page
+  const showNewTickets = () => {
+    if (page === 1) fetchTickets();
+    else goToPage(1);
+  };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -120,64 +219,72 @@ export const TicketList = ({ refreshKey, userRole, statusFilter, assignedToMe }:
     });
   };
 
-  if (loading) {
-    return <div className="text-center py-4">Loading tickets...</div>;
-  }
-
   return (
     <div className="space-y-4">
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <Input
-          placeholder="Search tickets..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="flex-1"
-        />
-        <Select value={sortBy} onValueChange={(value: string) => setSortBy(value)}>
-          <SelectTrigger className="w-full sm:w-48">
-            <SelectValue placeholder="Sort by" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="created_at">Created Date</SelectItem>
-            <SelectItem value="updated_at">Last Updated</SelectItem>
-            <SelectItem value="priority">Priority</SelectItem>
-            <SelectItem value="status">Status</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
+      <TicketFilterBar
+        filters={urlFilters}
+        sort={sort}
+        onFiltersChange={updateFilters}
+        onSortChange={updateSort}
+        lockedFilters={lockedKeys}
+        showPeopleFilters={userRole !== 'user'}
+        actions={onViewSaved && userRole !== 'user' && (
+          <Button variant="outline" onClick={() => setShowSaveView(true)}>
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+            Save view
+          </Button>
+        )}
+      />
+
+      {/* Problems with search operators */}
+      {searchErrors.length > 0 && (
+        <p className="text-sm text-destructive">{searchErrors.join('. ')}</p>
+      )}
+
+      {/* New tickets banner */}
+      {newTicketIds.length > 0 && (
+        <Button variant="secondary" className="w-full" onClick={showNewTickets}>
+          <ArrowUp className="mr-2 h-4 w-4" />
+          {newTicketIds.length === 1 ? '1 new ticket' : `${newTicketIds.length} new tickets`} · Show
+        </Button>
+      )}
 
       {/* Tickets Grid */}
-      {filteredTickets.length === 0 ? (
+      {loading ? (
+        <div className="text-center py-4">Loading tickets...</div>
+      ) : tickets.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           No tickets found.
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredTickets.map((ticket) => (
+          {tickets.map((ticket) => (
             <Card key={ticket.id} className="hover:shadow-md transition-shadow">
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <CardTitle className="text-sm font-medium line-clamp-2">
-                    {ticket.title}
+                    {highlights[ticket.id]
+                      ? <HighlightedText text={highlights[ticket.id].title} />
+                      : ticket.title}
                   </CardTitle>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setSelectedTicket(ticket)}
+                    onClick={() => openTicket(ticket.id)}
                   >
                     <Eye className="h-4 w-4" />
                   </Button>
                 </div>
                 <CardDescription className="line-clamp-2">
-                  {ticket.description}
+                  {highlights[ticket.id]?.snippet
+                    ? <HighlightedText text={highlights[ticket.id].snippet as string} />
+                    : ticket.description}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="flex flex-wrap gap-2">
-                  <Badge className={statusColors[ticket.status]}>
-                    {ticket.status.replace('_', ' ')}
-                  </Badge>
+                  <TicketStatusBadge status={ticket.status} />
                   <Badge className={priorityColors[ticket.priority]}>
                     {ticket.priority}
                   </Badge>
@@ -190,6 +297,7 @@ export const TicketList = ({ refreshKey, userRole, statusFilter, assignedToMe }:
                       {ticket.categories.name}
                     </Badge>
                   )}
+                  <SlaBadge sla={slaByTicket[ticket.id]} />
                 </div>
 
                 <div className="space-y-1 text-xs text-muted-foreground">
@@ -218,12 +326,43 @@ export const TicketList = ({ refreshKey, userRole, statusFilter, assignedToMe }:
         </div>
       )}
 
+      {/* Pagination */}
+      {totalCount > 0 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {(page - 1) * TICKET_PAGE_SIZE + 1}–{Math.min(page * TICKET_PAGE_SIZE, totalCount)} of {totalCount} tickets
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <span>Page {page} of {pageCount}</span>
+            <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Save view dialog */}
+      {onViewSaved && (
+        <SaveTicketViewDialog
+          open={showSaveView}
+          onOpenChange={setShowSaveView}
+          filters={filters}
+          sort={sort}
+          onSaved={onViewSaved}
+        />
+      )}
+
       {/* Ticket Detail Dialog */}
-      {selectedTicket && (
+      {selectedTicketId && (
         <TicketDetailDialog
-          ticket={selectedTicket}
-          open={!!selectedTicket}
-          onOpenChange={(open) => !open && setSelectedTicket(null)}
+          ticketId={selectedTicketId}
+          open={!!selectedTicketId}
+          onOpenChange={(open) => !open && closeTicket()}
           userRole={userRole}
           onTicketUpdated={fetchTickets}
         />
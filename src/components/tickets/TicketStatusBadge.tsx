@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { useTicketStatuses } from '@/hooks/useTicketStatuses';
+import { humanizeStatus, statusBadgeClass } from '@/lib/ticketStatuses';
+import { cn } from '@/lib/utils';
+
+interface TicketStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+// Status badge in the admin-configured name and color
+export const TicketStatusBadge = ({ status, className }: TicketStatusBadgeProps) => {
+  const { getStatus } = useTicketStatuses();
+  const definition = getStatus(status);
+
+  return (
+    <Badge className={cn(statusBadgeClass(definition), className)}>
+      {definition?.name ?? humanizeStatus(status)}
+    </Badge>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { BookOpen, CheckCircle, ExternalLink } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { KbSuggestion, suggestionUrl } from '@/lib/kb';
+
+// Below this many characters there isn't enough to match on
+const MIN_QUERY_LENGTH = 8;
+
+interface TicketSuggestionsProps {
+  title: string;
+  description: string;
+  onShown: (query: string, count: number) => void;
+  onView: (suggestion: KbSuggestion) => void;
+}
+
+// Knowledge base content matching the ticket being written. Suggestions
+// open in a new tab so the half-written ticket is kept.
+export const TicketSuggestions = ({ title, description, onShown, onView }: TicketSuggestionsProps) => {
+  const [suggestions, setSuggestions] = useState<KbSuggestion[]>([]);
+
+  const text = `${title} ${description}`.trim();
+
+  // Debounce so typing doesn't fire a query per keystroke
+  useEffect(() => {
+    if (text.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+    const timeout = setTimeout(() => fetchSuggestions(text), 400);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  const fetchSuggestions = async (query: string) => {
+    try {
+      const { data, error } = await supabase.rpc('suggest_kb_content', { _text: query, _limit: 5 });
+      if (error) throw error;
+
+      const results = (data || []) as KbSuggestion[];
+      setSuggestions(results);
+      onShown(title || query, results.length);
+    } catch (error) {
+      console.error('Error fetching suggestions:', error);
+    }
+  };
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="rounded-md border bg-muted/40 p-3 space-y-2">
+      <p className="text-sm font-medium">These might answer your question</p>
+      <ul className="space-y-2">
+        {suggestions.map((suggestion) => (
+          <li key={`${suggestion.kind}-${suggestion.id}`}>
+            <a
+              href={suggestionUrl(suggestion)}
+              target="_blank"
+              rel="noreferrer"
+              onClick={() => onView(suggestion)}
+              className="group block"
+            >
+              <span className="flex items-center gap-1 text-sm text-primary group-hover:underline">
+                {suggestion.kind === 'article'
+                  ? <BookOpen className="h-3 w-3 shrink-0" />
+                  : <CheckCircle className="h-3 w-3 shrink-0" />}
+                {suggestion.title}
+                <ExternalLink className="h-3 w-3 shrink-0" />
+              </span>
+              <span className="block text-xs text-muted-foreground line-clamp-2">{suggestion.snippet}</span>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Settings2, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { TicketView, useTicketViews, useTicketViewCounts } from '@/hooks/useTicketViews';
+import { TicketList } from './TicketList';
+
+interface TicketViewTabsProps {
+  refreshKey: number;
+  userRole: 'agent' | 'admin';
+}
+
+const visibilityLabel = (view: TicketView) => {
+  if (view.visibility === 'team') return view.teams ? `Team: ${view.teams.name}` : 'Team';
+  return view.visibility === 'everyone' ? 'All agents' : 'Only me';
+};
+
+// Pinned saved views as tabs with live counts. The active view is kept in
+// the URL (?view=<id>) next to the list's own filter params.
+export const TicketViewTabs = ({ refreshKey, userRole }: TicketViewTabsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { views, pinnedViews, loading, refetch, setPinned } = useTicketViews();
+  const counts = useTicketViewCounts(pinnedViews, refreshKey);
+  const [showManage, setShowManage] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const requestedView = searchParams.get('view');
+  const activeView = pinnedViews.find((view) => view.id === requestedView) ?? pinnedViews[0];
+
+  // Switching views starts from the view's own filters
+  const selectView = (viewId: string) => {
+    setSearchParams({ view: viewId });
+  };
+
+  const togglePinned = async (view: TicketView, pinned: boolean) => {
+    try {
+      await setPinned(view, pinned);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update view',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const deleteView = async (view: TicketView) => {
+    if (!confirm(`Delete the view "${view.name}"? It will disappear for everyone it is shared with.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('ticket_views')
+        .delete()
+        .eq('id', view.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'View Deleted',
+        description: 'The view has been deleted.'
+      });
+      refetch();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete view',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading views...</div>;
+  }
+
+  return (
+    <>
+      {activeView ? (
+        <Tabs value={activeView.id} onValueChange={selectView} className="w-full">
+          <div className="flex items-center gap-2">
+            <TabsList className="flex-1 justify-start overflow-x-auto">
+              {pinnedViews.map((view) => (
+                <TabsTrigger key={view.id} value={view.id} className="gap-2">
+                  {view.name}
+                  {counts[view.id] !== undefined && (
+                    <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+                      {counts[view.id]}
+                    </Badge>
+                  )}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            <Button variant="ghost" size="sm" onClick={() => setShowManage(true)}>
+              <Settings2 className="mr-1 h-4 w-4" />
+              Views
+            </Button>
+          </div>
+
+          {pinnedViews.map((view) => (
+            <TabsContent key={view.id} value={view.id} className="space-y-4">
+              <TicketList
+                refreshKey={refreshKey}
+                userRole={userRole}
+                baseFilters={view.filters}
+                defaultSort={view.sort}
+                onViewSaved={refetch}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>No views are pinned. Pin one to turn it into a tab.</span>
+            <Button variant="ghost" size="sm" onClick={() => setShowManage(true)}>
+              <Settings2 className="mr-1 h-4 w-4" />
+              Views
+            </Button>
+          </div>
+          <TicketList refreshKey={refreshKey} userRole={userRole} onViewSaved={refetch} />
+        </div>
+      )}
+
+      {/* Manage views */}
+      <Dialog open={showManage} onOpenChange={setShowManage}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Ticket Views</DialogTitle>
+            <DialogDescription>
+              Pinned views show up as tabs. Save new views from the ticket list.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {views.map((view) => (
+              <div key={view.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{view.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {visibilityLabel(view)}
+                    {view.is_default && ' · Default'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={view.pinned}
+                    onCheckedChange={(pinned) => togglePinned(view, pinned)}
+                    aria-label={`Pin ${view.name}`}
+                  />
+                  {(view.owner_id === user?.id || userRole === 'admin') && (
+                    <Button variant="ghost" size="sm" onClick={() => deleteView(view)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
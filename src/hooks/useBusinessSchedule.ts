@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { BusinessSchedule } from '@/lib/businessTime';
+
+// Loads the default business-hours schedule (with its weekly hours and
+// holidays) for business-time ages and durations. Null when none is set up.
+export const useDefaultBusinessSchedule = () => {
+  const [schedule, setSchedule] = useState<BusinessSchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('business_schedules')
+          .select('timezone, business_hours(day_of_week, start_time, end_time), business_holidays(holiday_date)')
+          .eq('is_default', true)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        setSchedule(data ? {
+          timezone: data.timezone,
+          hours: data.business_hours,
+          holidays: data.business_holidays.map((holiday) => holiday.holiday_date)
+        } : null);
+      } catch (error) {
+        console.error('Error fetching business schedule:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, []);
+
+  return { schedule, loading };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Macro } from '@/lib/macros';
+
+// Shared macros plus the current user's personal ones, most used first.
+// Admins can read everyone's personal macros, but the picker only offers
+// their own.
+export const useMacros = (enabled = true) => {
+  const { user } = useAuth();
+  const [macros, setMacros] = useState<Macro[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMacros = useCallback(async () => {
+    if (!user || !enabled) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('macros')
+        .select('*')
+        .or(`is_shared.eq.true,owner_id.eq.${user.id}`)
+        .order('usage_count', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      setMacros(data || []);
+    } catch (error) {
+      console.error('Error fetching macros:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, enabled]);
+
+  useEffect(() => {
+    fetchMacros();
+  }, [fetchMacros]);
+
+  const recordUse = useCallback(async (macroId: string) => {
+    const { error } = await supabase.rpc('record_macro_use', { _macro_id: macroId });
+    if (error) console.error('Error recording macro use:', error);
+  }, []);
+
+  return { macros, loading, refetch: fetchMacros, recordUse };
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+
+export type NotificationType = 'assignment' | 'comment' | 'status_change' | 'mention' | 'automation' | 'csat';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  message: string | null;
+  ticket_id: string | null;
+  is_read: boolean | null;
+  created_at: string | null;
+  sender: { full_name: string | null; username: string | null; avatar_url: string | null } | null;
+}
+
+interface NotificationOptions {
+  limit?: number;
+  unreadOnly?: boolean;
+  // Called for notifications that arrive while the component is mounted
+  onReceived?: (notification: Notification) => void;
+}
+
+const NOTIFICATION_SELECT = '*, sender:profiles!notifications_sender_id_fkey(full_name, username, avatar_url)';
+
+// The current user's notifications, newest first, with the unread count.
+// New notifications arrive over Realtime.
+export const useNotifications = ({ limit = 20, unreadOnly = false, onReceived }: NotificationOptions = {}) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const onReceivedRef = useRef(onReceived);
+  onReceivedRef.current = onReceived;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      let query = supabase
+        .from('notifications')
+        .select(NOTIFICATION_SELECT)
+        .eq('recipient_id', user.id)
+        .order('created_at', { ascending: false })
+        // One extra row tells us whether there is more to load
+        .limit(limit + 1);
+
+      if (unreadOnly) query = query.eq('is_read', false);
+
+      const [{ data, error }, { count, error: countError }] = await Promise.all([
+        query,
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('recipient_id', user.id)
+          .eq('is_read', false)
+      ]);
+
+      if (error) throw error;
+      if (countError) throw countError;
+
+      const rows = (data || []) as unknown as Notification[];
+      setNotifications(rows.slice(0, limit));
+      setHasMore(rows.length > limit);
+      setUnreadCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, limit, unreadOnly]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useRealtimeChanges({
+    table: 'notifications',
+    filter: user ? `recipient_id=eq.${user.id}` : undefined,
+    enabled: !!user,
+    onChange: async (payload) => {
+      if (payload.eventType === 'INSERT') {
+        // The payload has no sender join, so load the row properly
+        const { data } = await supabase
+          .from('notifications')
+          .select(NOTIFICATION_SELECT)
+          .eq('id', payload.new.id)
+          .maybeSingle();
+
+        if (data) onReceivedRef.current?.(data as unknown as Notification);
+      }
+      fetchNotifications();
+    }
+  });
+
+  const markRead = async (notificationId: string) => {
+    setNotifications((current) =>
+      current.map((n) => (n.id === notificationId ? { ...n, is_read: true } : n))
+    );
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('id', notificationId);
+
+    if (error) console.error('Error marking notification read:', error);
+    fetchNotifications();
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+
+    setNotifications((current) => current.map((n) => ({ ...n, is_read: true })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('recipient_id', user.id)
+      .eq('is_read', false);
+
+    if (error) console.error('Error marking notifications read:', error);
+    fetchNotifications();
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    hasMore,
+    loading,
+    markRead,
+    markAllRead,
+    refetch: fetchNotifications
+  };
+};
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type TableName = keyof Database['public']['Tables'];
+type Row<T extends TableName> = Database['public']['Tables'][T]['Row'];
+
+interface RealtimeOptions<T extends TableName> {
+  table: T;
+  // Postgres Changes filter, e.g. "ticket_id=eq.<id>"
+  filter?: string;
+  enabled?: boolean;
+  onChange: (payload: RealtimePostgresChangesPayload<Row<T>>) => void;
+}
+
+let channelCount = 0;
+
+// Subscribes to Supabase Realtime changes (inserts, updates and deletes; check
+// payload.eventType) on a table for the lifetime of the component. Realtime
+// applies the table's RLS SELECT policies, so viewers only receive rows they
+// could query themselves.
+export const useRealtimeChanges = <T extends TableName>({
+  table,
+  filter,
+  enabled = true,
+  onChange
+}: RealtimeOptions<T>) => {
+  // Keep the latest callback without resubscribing on every render
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`${table}-changes-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        (payload: RealtimePostgresChangesPayload<Row<T>>) => onChangeRef.current(payload)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled]);
+};
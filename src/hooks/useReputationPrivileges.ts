@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ReputationPrivilege } from '@/lib/reputation';
+
+// Privileges unlocked by reputation, lowest threshold first
+export const useReputationPrivileges = () => {
+  const [privileges, setPrivileges] = useState<ReputationPrivilege[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPrivileges = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('reputation_privileges')
+        .select('key, name, description, min_reputation')
+        .order('min_reputation');
+
+      if (error) throw error;
+      setPrivileges(data || []);
+    } catch (error) {
+      console.error('Error fetching reputation privileges:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrivileges();
+  }, [fetchPrivileges]);
+
+  return { privileges, loading, refetch: fetchPrivileges };
+};
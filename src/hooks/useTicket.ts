@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+
+export interface Ticket {
+  id: string;
+  title: string;
+  description: string;
+  // Key of a configured status, see useTicketStatuses
+  status: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  created_at: string;
+  updated_at: string;
+  resolved_at: string | null;
+  // Start of the current pause while the ticket is pending
+  pending_since: string | null;
+  category_id: string | null;
+  created_by: string;
+  assigned_to: string | null;
+  attachment_url: string | null;
+  categories: { name: string; color: string } | null;
+  creator: { full_name: string | null; username: string | null } | null;
+  assignee: { full_name: string | null; username: string | null } | null;
+}
+
+// Columns and joins shared by every ticket query that renders a Ticket
+export const TICKET_SELECT = `
+  *,
+  categories(name, color),
+  creator:profiles!tickets_created_by_fkey(full_name, username),
+  assignee:profiles!tickets_assigned_to_fkey(full_name, username)
+`;
+
+// Loads a single ticket by id. RLS on `tickets` decides visibility, so a
+// ticket the viewer may not see comes back exactly like a missing one.
+export const useTicket = (ticketId: string | undefined) => {
+  const [ticket, setTicket] = useState<Ticket | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTicket = useCallback(async () => {
+    if (!ticketId) {
+      setTicket(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select(TICKET_SELECT)
+        .eq('id', ticketId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTicket(data as Ticket | null);
+    } catch (error) {
+      console.error('Error fetching ticket:', error);
+      setTicket(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTicket();
+  }, [fetchTicket]);
+
+  // Pick up changes made by other people while the ticket is open
+  useRealtimeChanges({
+    table: 'tickets',
+    filter: `id=eq.${ticketId}`,
+    enabled: !!ticketId,
+    onChange: () => fetchTicket()
+  });
+
+  return {
+    ticket,
+    loading,
+    notFound: !loading && !ticket,
+    refetch: fetchTicket
+  };
+};
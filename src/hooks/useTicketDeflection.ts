@@ -0,0 +1,63 @@
+import { useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { KbSuggestion } from '@/lib/kb';
+
+// Records one ticket_deflections row per ticket form that showed knowledge
+// base suggestions: which suggestion was opened, and whether a ticket was
+// created anyway. Tracking is best effort and never blocks the form.
+export const useTicketDeflection = () => {
+  const { user } = useAuth();
+  const rowId = useRef<Promise<string | null> | null>(null);
+  const viewed = useRef(false);
+
+  // Starts a new form; the next shown suggestions open a new row
+  const reset = useCallback(() => {
+    rowId.current = null;
+    viewed.current = false;
+  }, []);
+
+  const trackShown = useCallback((query: string, count: number) => {
+    if (!user || rowId.current || count === 0) return;
+
+    rowId.current = (async () => {
+      const { data, error } = await supabase
+        .from('ticket_deflections')
+        .insert({ user_id: user.id, query, suggestion_count: count })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error recording suggestions:', error);
+        return null;
+      }
+      return data.id;
+    })();
+  }, [user]);
+
+  const update = async (changes: { viewed_kind?: string; viewed_id?: string; viewed_title?: string; viewed_at?: string; ticket_id?: string }) => {
+    const id = await rowId.current;
+    if (!id) return;
+
+    const { error } = await supabase.from('ticket_deflections').update(changes).eq('id', id);
+    if (error) console.error('Error recording deflection:', error);
+  };
+
+  // Only the first opened suggestion is recorded
+  const trackView = useCallback((suggestion: KbSuggestion) => {
+    if (viewed.current) return;
+    viewed.current = true;
+    update({
+      viewed_kind: suggestion.kind,
+      viewed_id: suggestion.id,
+      viewed_title: suggestion.title,
+      viewed_at: new Date().toISOString()
+    });
+  }, []);
+
+  const trackTicket = useCallback((ticketId: string) => {
+    update({ ticket_id: ticketId });
+  }, []);
+
+  return { reset, trackShown, trackView, trackTicket };
+};
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met' | 'paused';
+
+export interface TicketSla {
+  ticket_id: string;
+  first_response_due_at: string | null;
+  resolution_due_at: string | null;
+  first_responded_at: string | null;
+  resolved_at: string | null;
+  first_response_state: SlaState | null;
+  resolution_state: SlaState | null;
+  sla_state: SlaState | null;
+  // Set while the ticket is pending and its resolution clock is paused
+  pending_since: string | null;
+}
+
+// SLA state for a set of tickets, keyed by ticket id. The states come from the
+// ticket_sla_status view so breach logic lives in the database.
+export const useTicketSla = (ticketIds: string[], refreshKey?: unknown) => {
+  const [slaByTicket, setSlaByTicket] = useState<Record<string, TicketSla>>({});
+  const idsKey = ticketIds.join(',');
+
+  const fetchSla = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setSlaByTicket({});
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('ticket_sla_status')
+        .select('*')
+        .in('ticket_id', ids);
+
+      if (error) throw error;
+
+      const byTicket: Record<string, TicketSla> = {};
+      (data as TicketSla[]).forEach((row) => {
+        byTicket[row.ticket_id] = row;
+      });
+      setSlaByTicket(byTicket);
+    } catch (error) {
+      console.error('Error fetching SLA status:', error);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    fetchSla();
+
+    // States move from on_track to at_risk to breached as time passes
+    const interval = setInterval(fetchSla, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchSla, refreshKey]);
+
+  return { slaByTicket, refetch: fetchSla };
+};
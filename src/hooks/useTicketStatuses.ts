@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { StatusTransition, TicketStatusDefinition } from '@/lib/ticketStatuses';
+
+interface StatusConfig {
+  statuses: TicketStatusDefinition[];
+  transitions: StatusTransition[];
+}
+
+// Every badge on a page uses the same configuration, so it is loaded once
+// and shared; reloadTicketStatuses refreshes all mounted users after edits
+let cached: Promise<StatusConfig> | null = null;
+const listeners = new Set<(config: StatusConfig) => void>();
+
+const loadConfig = async (): Promise<StatusConfig> => {
+  const [{ data: statuses, error }, { data: transitions, error: transitionsError }] = await Promise.all([
+    supabase.from('ticket_statuses').select('key, name, category, color, position, is_default').order('position'),
+    supabase.from('ticket_status_transitions').select('from_status, to_status')
+  ]);
+
+  if (error) throw error;
+  if (transitionsError) throw transitionsError;
+
+  return {
+    statuses: (statuses || []) as TicketStatusDefinition[],
+    transitions: transitions || []
+  };
+};
+
+const fetchConfig = () => {
+  if (!cached) {
+    cached = loadConfig().catch((error) => {
+      cached = null;
+      throw error;
+    });
+  }
+  return cached;
+};
+
+export const reloadTicketStatuses = async () => {
+  cached = null;
+  const config = await fetchConfig();
+  listeners.forEach((listener) => listener(config));
+};
+
+export const useTicketStatuses = () => {
+  const [config, setConfig] = useState<StatusConfig>({ statuses: [], transitions: [] });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    const listener = (next: StatusConfig) => {
+      if (active) setConfig(next);
+    };
+    listeners.add(listener);
+
+    fetchConfig()
+      .then(listener)
+      .catch((error) => console.error('Error fetching ticket statuses:', error))
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const getStatus = useCallback(
+    (key: string | null | undefined) => config.statuses.find((status) => status.key === key),
+    [config.statuses]
+  );
+
+  // Statuses a ticket may move to from `from`, in workflow order
+  const nextStatuses = useCallback(
+    (from: string) =>
+      config.statuses.filter((status) =>
+        config.transitions.some((t) => t.from_status === from && t.to_status === status.key)
+      ),
+    [config]
+  );
+
+  return { statuses: config.statuses, transitions: config.transitions, loading, getStatus, nextStatuses };
+};
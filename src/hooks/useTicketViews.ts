@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { TicketFilters, TicketSort, TICKET_SORTS, DEFAULT_TICKET_SORT, queryTickets } from '@/lib/ticketFilters';
+import { searchTickets } from '@/lib/ticketSearch';
+
+export type TicketViewVisibility = 'private' | 'team' | 'everyone';
+
+export interface TicketView {
+  id: string;
+  name: string;
+  owner_id: string | null;
+  visibility: TicketViewVisibility;
+  team_id: string | null;
+  filters: TicketFilters;
+  sort: TicketSort;
+  is_default: boolean;
+  position: number;
+  teams: { name: string } | null;
+  // Pin state for the current user (falls back to is_default)
+  pinned: boolean;
+}
+
+// Saved ticket views the current user can see, with their pin state. Pinned
+// views become dashboard tabs.
+export const useTicketViews = () => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<TicketView[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [{ data, error }, { data: pins, error: pinsError }] = await Promise.all([
+        supabase
+          .from('ticket_views')
+          .select('*, teams(name)')
+          .order('position')
+          .order('name'),
+        supabase
+          .from('ticket_view_pins')
+          .select('view_id, pinned, position')
+          .eq('user_id', user.id)
+      ]);
+
+      if (error) throw error;
+      if (pinsError) throw pinsError;
+
+      const pinsByView = new Map((pins || []).map((pin) => [pin.view_id, pin]));
+      const loaded = (data || []).map((view) => {
+        const pin = pinsByView.get(view.id);
+        return {
+          ...view,
+          visibility: view.visibility as TicketViewVisibility,
+          filters: (view.filters || {}) as TicketFilters,
+          sort: view.sort in TICKET_SORTS ? (view.sort as TicketSort) : DEFAULT_TICKET_SORT,
+          pinned: pin ? pin.pinned : view.is_default,
+          position: pin?.position ?? view.position
+        };
+      });
+
+      setViews(loaded.sort((a, b) => a.position - b.position));
+    } catch (error) {
+      console.error('Error fetching ticket views:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  const setPinned = async (view: TicketView, pinned: boolean) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('ticket_view_pins')
+      .upsert({ user_id: user.id, view_id: view.id, pinned, position: view.position });
+
+    if (error) throw error;
+    await fetchViews();
+  };
+
+  return {
+    views,
+    pinnedViews: views.filter((view) => view.pinned),
+    loading,
+    refetch: fetchViews,
+    setPinned
+  };
+};
+
+// Live ticket counts for a set of views, refreshed (at most once a second)
+// whenever a visible ticket changes
+export const useTicketViewCounts = (views: TicketView[], refreshKey?: unknown) => {
+  const { user } = useAuth();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const timeout = useRef<ReturnType<typeof setTimeout>>();
+  const viewsKey = JSON.stringify(views.map((view) => [view.id, view.filters]));
+
+  const fetchCounts = useCallback(async () => {
+    if (!user) return;
+
+    const entries = await Promise.all(
+      views.map(async (view) => {
+        try {
+          if (view.filters.search?.trim()) {
+            const result = await searchTickets(view.filters, [], view.sort, 1, 0);
+            return [view.id, result.totalCount] as const;
+          }
+
+          const { count, error } = await queryTickets(view.filters, user.id, 'id', { count: 'exact', head: true });
+          if (error) throw error;
+          return [view.id, count || 0] as const;
+        } catch (error) {
+          console.error(`Error counting tickets for view ${view.name}:`, error);
+          return [view.id, 0] as const;
+        }
+      })
+    );
+
+    setCounts(Object.fromEntries(entries));
+  }, [viewsKey, user]);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts, refreshKey]);
+
+  useEffect(() => () => clearTimeout(timeout.current), []);
+
+  useRealtimeChanges({
+    table: 'tickets',
+    enabled: !!user && views.length > 0,
+    onChange: () => {
+      clearTimeout(timeout.current);
+      timeout.current = setTimeout(fetchCounts, 1000);
+    }
+  });
+
+  return counts;
+};
@@ -9,6 +9,9 @@ export interface UserProfile {
   email: string | null;
   role: 'user' | 'agent' | 'admin';
   avatar_url: string | null;
+  reputation: number | null;
+  is_banned: boolean;
+  banned_until: string | null;
   created_at: string;
 }
 
@@ -19,6 +19,7 @@ export type Database = {
           action: string | null
           admin_id: string | null
           created_at: string | null
+          expires_at: string | null
           id: string
           reason: string | null
           target_id: string | null
@@ -28,6 +29,7 @@ export type Database = {
           action?: string | null
           admin_id?: string | null
           created_at?: string | null
+          expires_at?: string | null
           id?: string
           reason?: string | null
           target_id?: string | null
@@ -37,6 +39,7 @@ export type Database = {
           action?: string | null
           admin_id?: string | null
           created_at?: string | null
+          expires_at?: string | null
           id?: string
           reason?: string | null
           target_id?: string | null
@@ -52,6 +55,35 @@ export type Database = {
           },
         ]
       }
+      agent_availability: {
+        Row: {
+          is_available: boolean
+          max_open_tickets: number | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          is_available?: boolean
+          max_open_tickets?: number | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          is_available?: boolean
+          max_open_tickets?: number | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_availability_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       answers: {
         Row: {
           content: string | null
@@ -94,226 +126,294 @@ export type Database = {
           },
         ]
       }
-      categories: {
+      automation_rules: {
         Row: {
-          color: string | null
+          actions: Json
+          conditions: Json
           created_at: string | null
+          created_by: string | null
           description: string | null
+          event: string
           id: string
+          is_active: boolean
+          match_type: string
           name: string
+          position: number
+          stop_processing: boolean
           updated_at: string | null
         }
         Insert: {
-          color?: string | null
+          actions?: Json
+          conditions?: Json
           created_at?: string | null
+          created_by?: string | null
           description?: string | null
+          event: string
           id?: string
+          is_active?: boolean
+          match_type?: string
           name: string
+          position?: number
+          stop_processing?: boolean
           updated_at?: string | null
         }
         Update: {
-          color?: string | null
+          actions?: Json
+          conditions?: Json
           created_at?: string | null
+          created_by?: string | null
           description?: string | null
+          event?: string
           id?: string
+          is_active?: boolean
+          match_type?: string
           name?: string
+          position?: number
+          stop_processing?: boolean
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "automation_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      comments: {
+      automation_runs: {
         Row: {
-          answer_id: string | null
-          content: string | null
+          actor_id: string | null
           created_at: string | null
+          error: string | null
+          event: string
           id: string
-          user_id: string | null
+          results: Json
+          rule_id: string | null
+          rule_name: string
+          status: string
+          ticket_id: string | null
         }
         Insert: {
-          answer_id?: string | null
-          content?: string | null
+          actor_id?: string | null
           created_at?: string | null
+          error?: string | null
+          event: string
           id?: string
-          user_id?: string | null
+          results?: Json
+          rule_id?: string | null
+          rule_name: string
+          status: string
+          ticket_id?: string | null
         }
         Update: {
-          answer_id?: string | null
-          content?: string | null
+          actor_id?: string | null
           created_at?: string | null
+          error?: string | null
+          event?: string
           id?: string
-          user_id?: string | null
+          results?: Json
+          rule_id?: string | null
+          rule_name?: string
+          status?: string
+          ticket_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "comments_answer_id_fkey"
-            columns: ["answer_id"]
+            foreignKeyName: "automation_runs_actor_id_fkey"
+            columns: ["actor_id"]
             isOneToOne: false
-            referencedRelation: "answers"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "comments_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "automation_runs_rule_id_fkey"
+            columns: ["rule_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "automation_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_runs_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
+      business_holidays: {
         Row: {
-          created_at: string | null
+          holiday_date: string
           id: string
-          is_read: boolean | null
-          message: string | null
-          recipient_id: string | null
-          sender_id: string | null
-          type: string | null
+          name: string | null
+          schedule_id: string
         }
         Insert: {
-          created_at?: string | null
+          holiday_date: string
           id?: string
-          is_read?: boolean | null
-          message?: string | null
-          recipient_id?: string | null
-          sender_id?: string | null
-          type?: string | null
+          name?: string | null
+          schedule_id: string
         }
         Update: {
-          created_at?: string | null
+          holiday_date?: string
           id?: string
-          is_read?: boolean | null
-          message?: string | null
-          recipient_id?: string | null
-          sender_id?: string | null
-          type?: string | null
+          name?: string | null
+          schedule_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_recipient_id_fkey"
-            columns: ["recipient_id"]
+            foreignKeyName: "business_holidays_schedule_id_fkey"
+            columns: ["schedule_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "business_schedules"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      business_hours: {
+        Row: {
+          day_of_week: number
+          end_time: string
+          id: string
+          schedule_id: string
+          start_time: string
+        }
+        Insert: {
+          day_of_week: number
+          end_time: string
+          id?: string
+          schedule_id: string
+          start_time: string
+        }
+        Update: {
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          schedule_id?: string
+          start_time?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "notifications_sender_id_fkey"
-            columns: ["sender_id"]
+            foreignKeyName: "business_hours_schedule_id_fkey"
+            columns: ["schedule_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "business_schedules"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      business_schedules: {
         Row: {
-          avatar_url: string | null
           created_at: string | null
-          email: string | null
-          full_name: string | null
           id: string
-          is_banned: boolean | null
-          reputation: number | null
-          role: Database["public"]["Enums"]["user_role"] | null
-          username: string | null
+          is_default: boolean
+          name: string
+          timezone: string
+          updated_at: string | null
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
-          id: string
-          is_banned?: boolean | null
-          reputation?: number | null
-          role?: Database["public"]["Enums"]["user_role"] | null
-          username?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          timezone?: string
+          updated_at?: string | null
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
           id?: string
-          is_banned?: boolean | null
-          reputation?: number | null
-          role?: Database["public"]["Enums"]["user_role"] | null
-          username?: string | null
+          is_default?: boolean
+          name?: string
+          timezone?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
-      questions: {
+      categories: {
         Row: {
+          assignment_strategy: string
+          assignment_team_id: string | null
+          color: string | null
           created_at: string | null
           description: string | null
           id: string
-          tags: string[] | null
-          title: string
-          user_id: string | null
+          last_assigned_to: string | null
+          name: string
+          updated_at: string | null
         }
         Insert: {
+          assignment_strategy?: string
+          assignment_team_id?: string | null
+          color?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
-          tags?: string[] | null
-          title: string
-          user_id?: string | null
+          last_assigned_to?: string | null
+          name: string
+          updated_at?: string | null
         }
         Update: {
+          assignment_strategy?: string
+          assignment_team_id?: string | null
+          color?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
-          tags?: string[] | null
-          title?: string
-          user_id?: string | null
+          last_assigned_to?: string | null
+          name?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "questions_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "categories_assignment_team_id_fkey"
+            columns: ["assignment_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_last_assigned_to_fkey"
+            columns: ["last_assigned_to"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      ticket_comments: {
+      comments: {
         Row: {
-          content: string
+          answer_id: string | null
+          content: string | null
           created_at: string | null
           id: string
-          is_internal: boolean | null
-          ticket_id: string
-          updated_at: string | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
-          content: string
+          answer_id?: string | null
+          content?: string | null
           created_at?: string | null
           id?: string
-          is_internal?: boolean | null
-          ticket_id: string
-          updated_at?: string | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
-          content?: string
+          answer_id?: string | null
+          content?: string | null
           created_at?: string | null
           id?: string
-          is_internal?: boolean | null
-          ticket_id?: string
-          updated_at?: string | null
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "ticket_comments_ticket_id_fkey"
-            columns: ["ticket_id"]
+            foreignKeyName: "comments_answer_id_fkey"
+            columns: ["answer_id"]
             isOneToOne: false
-            referencedRelation: "tickets"
+            referencedRelation: "answers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "ticket_comments_user_id_fkey"
+            foreignKeyName: "comments_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -321,146 +421,1734 @@ export type Database = {
           },
         ]
       }
-      tickets: {
+      csat_surveys: {
         Row: {
-          assigned_to: string | null
-          attachment_url: string | null
+          agent_id: string | null
           category_id: string | null
+          comment: string | null
           created_at: string | null
-          created_by: string
-          description: string
           id: string
-          priority: Database["public"]["Enums"]["ticket_priority"] | null
-          status: Database["public"]["Enums"]["ticket_status"] | null
-          title: string
+          rated_at: string | null
+          rating: string | null
+          requester_id: string
+          ticket_id: string
+          token: string
           updated_at: string | null
         }
         Insert: {
-          assigned_to?: string | null
-          attachment_url?: string | null
+          agent_id?: string | null
           category_id?: string | null
+          comment?: string | null
           created_at?: string | null
-          created_by: string
-          description: string
           id?: string
-          priority?: Database["public"]["Enums"]["ticket_priority"] | null
-          status?: Database["public"]["Enums"]["ticket_status"] | null
-          title: string
+          rated_at?: string | null
+          rating?: string | null
+          requester_id: string
+          ticket_id: string
+          token?: string
           updated_at?: string | null
         }
         Update: {
-          assigned_to?: string | null
-          attachment_url?: string | null
+          agent_id?: string | null
           category_id?: string | null
+          comment?: string | null
           created_at?: string | null
-          created_by?: string
-          description?: string
           id?: string
-          priority?: Database["public"]["Enums"]["ticket_priority"] | null
-          status?: Database["public"]["Enums"]["ticket_status"] | null
-          title?: string
+          rated_at?: string | null
+          rating?: string | null
+          requester_id?: string
+          ticket_id?: string
+          token?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "tickets_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "csat_surveys_agent_id_fkey"
+            columns: ["agent_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tickets_category_id_fkey"
+            foreignKeyName: "csat_surveys_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tickets_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "csat_surveys_requester_id_fkey"
+            columns: ["requester_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "csat_surveys_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      todos: {
-        Row: {
-          completed: boolean
-          created_at: string
-          id: string
-          title: string
-          updated_at: string
-        }
-        Insert: {
-          completed?: boolean
-          created_at?: string
-          id?: string
-          title: string
-          updated_at?: string
-        }
-        Update: {
-          completed?: boolean
-          created_at?: string
-          id?: string
-          title?: string
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      votes: {
+      email_messages: {
         Row: {
-          answer_id: string | null
+          attempts: number
           created_at: string | null
           id: string
-          user_id: string | null
-          vote_type: number | null
+          last_error: string | null
+          message_id: string | null
+          next_attempt_at: string
+          payload: Json
+          recipient_id: string
+          sent_at: string | null
+          status: string
+          subject: string | null
+          template: string
+          ticket_id: string | null
+          to_address: string | null
+          updated_at: string | null
         }
         Insert: {
-          answer_id?: string | null
+          attempts?: number
           created_at?: string | null
           id?: string
-          user_id?: string | null
-          vote_type?: number | null
+          last_error?: string | null
+          message_id?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          recipient_id: string
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          template: string
+          ticket_id?: string | null
+          to_address?: string | null
+          updated_at?: string | null
         }
         Update: {
-          answer_id?: string | null
+          attempts?: number
           created_at?: string | null
           id?: string
-          user_id?: string | null
-          vote_type?: number | null
+          last_error?: string | null
+          message_id?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          recipient_id?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          template?: string
+          ticket_id?: string | null
+          to_address?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "votes_answer_id_fkey"
-            columns: ["answer_id"]
+            foreignKeyName: "email_messages_recipient_id_fkey"
+            columns: ["recipient_id"]
             isOneToOne: false
-            referencedRelation: "answers"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "votes_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "email_messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_preferences: {
+        Row: {
+          agent_reply: boolean
+          assignment: boolean
+          created_at: string | null
+          csat_request: boolean
+          status_changed: boolean
+          ticket_created: boolean
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          agent_reply?: boolean
+          assignment?: boolean
+          created_at?: string | null
+          csat_request?: boolean
+          status_changed?: boolean
+          ticket_created?: boolean
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          agent_reply?: boolean
+          assignment?: boolean
+          created_at?: string | null
+          csat_request?: boolean
+          status_changed?: boolean
+          ticket_created?: boolean
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbound_emails: {
+        Row: {
+          attachments_skipped: number
+          attachments_stored: number
+          comment_id: string | null
+          from_address: string
+          id: string
+          message_id: string | null
+          reason: string | null
+          received_at: string | null
+          sender_id: string | null
+          status: string
+          subject: string | null
+          ticket_id: string | null
+        }
+        Insert: {
+          attachments_skipped?: number
+          attachments_stored?: number
+          comment_id?: string | null
+          from_address: string
+          id?: string
+          message_id?: string | null
+          reason?: string | null
+          received_at?: string | null
+          sender_id?: string | null
+          status: string
+          subject?: string | null
+          ticket_id?: string | null
+        }
+        Update: {
+          attachments_skipped?: number
+          attachments_stored?: number
+          comment_id?: string | null
+          from_address?: string
+          id?: string
+          message_id?: string | null
+          reason?: string | null
+          received_at?: string | null
+          sender_id?: string | null
+          status?: string
+          subject?: string | null
+          ticket_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_emails_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kb_articles: {
+        Row: {
+          author_id: string | null
+          category_id: string | null
+          content: string
+          created_at: string | null
+          id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_answer_id: string | null
+          source_ticket_id: string | null
+          status: string
+          tags: string[]
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          author_id?: string | null
+          category_id?: string | null
+          content: string
+          created_at?: string | null
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_answer_id?: string | null
+          source_ticket_id?: string | null
+          status?: string
+          tags?: string[]
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          author_id?: string | null
+          category_id?: string | null
+          content?: string
+          created_at?: string | null
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_answer_id?: string | null
+          source_ticket_id?: string | null
+          status?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_articles_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_articles_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_articles_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_articles_source_answer_id_fkey"
+            columns: ["source_answer_id"]
+            isOneToOne: true
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_articles_source_ticket_id_fkey"
+            columns: ["source_ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      macros: {
+        Row: {
+          content: string
+          created_at: string | null
+          id: string
+          is_internal: boolean
+          is_shared: boolean
+          name: string
+          owner_id: string | null
+          set_assignee: string | null
+          set_category_id: string | null
+          set_priority: Database["public"]["Enums"]["ticket_priority"] | null
+          set_status: string | null
+          updated_at: string | null
+          usage_count: number
+        }
+        Insert: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          is_internal?: boolean
+          is_shared?: boolean
+          name: string
+          owner_id?: string | null
+          set_assignee?: string | null
+          set_category_id?: string | null
+          set_priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          set_status?: string | null
+          updated_at?: string | null
+          usage_count?: number
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          is_internal?: boolean
+          is_shared?: boolean
+          name?: string
+          owner_id?: string | null
+          set_assignee?: string | null
+          set_category_id?: string | null
+          set_priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          set_status?: string | null
+          updated_at?: string | null
+          usage_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "macros_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "macros_set_category_id_fkey"
+            columns: ["set_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "macros_set_status_fkey"
+            columns: ["set_status"]
+            isOneToOne: false
+            referencedRelation: "ticket_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_read: boolean | null
+          message: string | null
+          recipient_id: string | null
+          sender_id: string | null
+          ticket_id: string | null
+          type: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          message?: string | null
+          recipient_id?: string | null
+          sender_id?: string | null
+          ticket_id?: string | null
+          type?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          message?: string | null
+          recipient_id?: string | null
+          sender_id?: string | null
+          ticket_id?: string | null
+          type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          banned_until: string | null
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          is_banned: boolean
+          reputation: number | null
+          role: Database["public"]["Enums"]["user_role"] | null
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          banned_until?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          is_banned?: boolean
+          reputation?: number | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          banned_until?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          is_banned?: boolean
+          reputation?: number | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      questions: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          tags: string[] | null
+          title: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          tags?: string[] | null
+          title: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          tags?: string[] | null
+          title?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reputation_events: {
+        Row: {
+          actor_id: string | null
+          amount: number
+          created_at: string | null
+          id: string
+          note: string | null
+          question_id: string | null
+          reason: string
+          reverses_id: string | null
+          source_id: string
+          source_type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          amount: number
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          question_id?: string | null
+          reason: string
+          reverses_id?: string | null
+          source_id: string
+          source_type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          amount?: number
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          question_id?: string | null
+          reason?: string
+          reverses_id?: string | null
+          source_id?: string
+          source_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reputation_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reputation_events_reverses_id_fkey"
+            columns: ["reverses_id"]
+            isOneToOne: true
+            referencedRelation: "reputation_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reputation_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reputation_privileges: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          key: string
+          min_reputation: number
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          key: string
+          min_reputation: number
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          key?: string
+          min_reputation?: number
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          category_id: string | null
+          created_at: string | null
+          first_response_minutes: number
+          id: string
+          is_active: boolean
+          name: string
+          priority: Database["public"]["Enums"]["ticket_priority"] | null
+          resolution_minutes: number
+          schedule_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string | null
+          first_response_minutes: number
+          id?: string
+          is_active?: boolean
+          name: string
+          priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          resolution_minutes: number
+          schedule_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string | null
+          first_response_minutes?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          resolution_minutes?: number
+          schedule_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_policies_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sla_policies_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "business_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string | null
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      ticket_attachments: {
+        Row: {
+          comment_id: string | null
+          created_at: string | null
+          file_name: string
+          file_path: string
+          id: string
+          mime_type: string
+          size_bytes: number
+          ticket_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          comment_id?: string | null
+          created_at?: string | null
+          file_name: string
+          file_path: string
+          id?: string
+          mime_type: string
+          size_bytes: number
+          ticket_id: string
+          uploaded_by: string
+        }
+        Update: {
+          comment_id?: string | null
+          created_at?: string | null
+          file_name?: string
+          file_path?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number
+          ticket_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_attachments_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_comments: {
+        Row: {
+          content: string
+          created_at: string | null
+          id: string
+          is_internal: boolean
+          ticket_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          id?: string
+          is_internal?: boolean
+          ticket_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          is_internal?: boolean
+          ticket_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_comments_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_deflections: {
+        Row: {
+          created_at: string | null
+          id: string
+          query: string
+          suggestion_count: number
+          ticket_id: string | null
+          updated_at: string | null
+          user_id: string
+          viewed_at: string | null
+          viewed_id: string | null
+          viewed_kind: string | null
+          viewed_title: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          query: string
+          suggestion_count?: number
+          ticket_id?: string | null
+          updated_at?: string | null
+          user_id: string
+          viewed_at?: string | null
+          viewed_id?: string | null
+          viewed_kind?: string | null
+          viewed_title?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          query?: string
+          suggestion_count?: number
+          ticket_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+          viewed_at?: string | null
+          viewed_id?: string | null
+          viewed_kind?: string | null
+          viewed_title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_deflections_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_deflections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string | null
+          event_type: string
+          id: string
+          is_internal: boolean
+          metadata: Json
+          new_value: string | null
+          old_value: string | null
+          ticket_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string | null
+          event_type: string
+          id?: string
+          is_internal?: boolean
+          metadata?: Json
+          new_value?: string | null
+          old_value?: string | null
+          ticket_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string | null
+          event_type?: string
+          id?: string
+          is_internal?: boolean
+          metadata?: Json
+          new_value?: string | null
+          old_value?: string | null
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_pauses: {
+        Row: {
+          ended_at: string
+          id: string
+          started_at: string
+          ticket_id: string
+        }
+        Insert: {
+          ended_at: string
+          id?: string
+          started_at: string
+          ticket_id: string
+        }
+        Update: {
+          ended_at?: string
+          id?: string
+          started_at?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_pauses_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_search: {
+        Row: {
+          document: unknown
+          ticket_id: string
+        }
+        Insert: {
+          document: unknown
+          ticket_id: string
+        }
+        Update: {
+          document?: unknown
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_search_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_status_transitions: {
+        Row: {
+          created_at: string | null
+          from_status: string
+          to_status: string
+        }
+        Insert: {
+          created_at?: string | null
+          from_status: string
+          to_status: string
+        }
+        Update: {
+          created_at?: string | null
+          from_status?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_status_transitions_from_status_fkey"
+            columns: ["from_status"]
+            isOneToOne: false
+            referencedRelation: "ticket_statuses"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "ticket_status_transitions_to_status_fkey"
+            columns: ["to_status"]
+            isOneToOne: false
+            referencedRelation: "ticket_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      ticket_statuses: {
+        Row: {
+          category: string
+          color: string
+          created_at: string | null
+          is_default: boolean
+          key: string
+          name: string
+          position: number
+          updated_at: string | null
+        }
+        Insert: {
+          category: string
+          color?: string
+          created_at?: string | null
+          is_default?: boolean
+          key: string
+          name: string
+          position?: number
+          updated_at?: string | null
+        }
+        Update: {
+          category?: string
+          color?: string
+          created_at?: string | null
+          is_default?: boolean
+          key?: string
+          name?: string
+          position?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      ticket_view_pins: {
+        Row: {
+          pinned: boolean
+          position: number | null
+          user_id: string
+          view_id: string
+        }
+        Insert: {
+          pinned?: boolean
+          position?: number | null
+          user_id: string
+          view_id: string
+        }
+        Update: {
+          pinned?: boolean
+          position?: number | null
+          user_id?: string
+          view_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_view_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_view_pins_view_id_fkey"
+            columns: ["view_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_views: {
+        Row: {
+          created_at: string | null
+          filters: Json
+          id: string
+          is_default: boolean
+          name: string
+          owner_id: string | null
+          position: number
+          sort: string
+          team_id: string | null
+          updated_at: string | null
+          visibility: string
+        }
+        Insert: {
+          created_at?: string | null
+          filters?: Json
+          id?: string
+          is_default?: boolean
+          name: string
+          owner_id?: string | null
+          position?: number
+          sort?: string
+          team_id?: string | null
+          updated_at?: string | null
+          visibility?: string
+        }
+        Update: {
+          created_at?: string | null
+          filters?: Json
+          id?: string
+          is_default?: boolean
+          name?: string
+          owner_id?: string | null
+          position?: number
+          sort?: string
+          team_id?: string | null
+          updated_at?: string | null
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_views_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_views_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tickets: {
+        Row: {
+          assigned_to: string | null
+          attachment_url: string | null
+          category_id: string | null
+          created_at: string | null
+          created_by: string
+          description: string
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string
+          pending_since: string | null
+          priority: Database["public"]["Enums"]["ticket_priority"] | null
+          resolution_due_at: string | null
+          resolved_at: string | null
+          sla_policy_id: string | null
+          status: string
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          attachment_url?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          created_by: string
+          description: string
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
+          id?: string
+          pending_since?: string | null
+          priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          resolution_due_at?: string | null
+          resolved_at?: string | null
+          sla_policy_id?: string | null
+          status?: string
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          attachment_url?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          created_by?: string
+          description?: string
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
+          id?: string
+          pending_since?: string | null
+          priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          resolution_due_at?: string | null
+          resolved_at?: string | null
+          sla_policy_id?: string | null
+          status?: string
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_sla_policy_id_fkey"
+            columns: ["sla_policy_id"]
+            isOneToOne: false
+            referencedRelation: "sla_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_status_fkey"
+            columns: ["status"]
+            isOneToOne: false
+            referencedRelation: "ticket_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      todos: {
+        Row: {
+          completed: boolean
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      votes: {
+        Row: {
+          answer_id: string | null
+          created_at: string | null
+          id: string
+          user_id: string | null
+          vote_type: number | null
+        }
+        Insert: {
+          answer_id?: string | null
+          created_at?: string | null
+          id?: string
+          user_id?: string | null
+          vote_type?: number | null
+        }
+        Update: {
+          answer_id?: string | null
+          created_at?: string | null
+          id?: string
+          user_id?: string | null
+          vote_type?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "votes_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "votes_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          response_status: number | null
+          rule_id: string | null
+          sent_at: string | null
+          status: string
+          ticket_id: string | null
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          response_status?: number | null
+          rule_id?: string | null
+          sent_at?: string | null
+          status?: string
+          ticket_id?: string | null
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          response_status?: number | null
+          rule_id?: string | null
+          sent_at?: string | null
+          status?: string
+          ticket_id?: string | null
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "automation_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      ticket_sla_status: {
+        Row: {
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          first_response_state: string | null
+          pending_since: string | null
+          resolution_due_at: string | null
+          resolution_state: string | null
+          resolved_at: string | null
+          sla_policy_id: string | null
+          sla_state: string | null
+          ticket_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_sla_policy_id_fkey"
+            columns: ["sla_policy_id"]
+            isOneToOne: false
+            referencedRelation: "sla_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      accept_answer: {
+        Args: { _answer_id: string }
+        Returns: undefined
+      }
+      assignment_candidates: {
+        Args: { _team_id: string }
+        Returns: {
+          id: string
+          open_count: number
+        }[]
+      }
+      automation_condition_holds: {
+        Args: { _condition: Json; _context: Json }
+        Returns: boolean
+      }
+      automation_context: {
+        Args: {
+          _ticket_id: string
+          _old: Json
+          _comment_id: string
+          _now?: string
+        }
+        Returns: Json
+      }
+      automation_elapsed: {
+        Args: { _ticket_id: string; _now: string }
+        Returns: Json
+      }
+      ban_user: {
+        Args: { _user_id: string; _reason: string; _until?: string }
+        Returns: undefined
+      }
+      business_minutes_between: {
+        Args: { _schedule_id: string; _start: string; _end: string }
+        Returns: number
+      }
+      business_time_add: {
+        Args: { _schedule_id: string; _start: string; _minutes: number }
+        Returns: string
+      }
+      can_view_ticket: {
+        Args: { _ticket_id: string }
+        Returns: boolean
+      }
+      choose_ticket_assignee: {
+        Args: { _category_id: string }
+        Returns: {
+          agent_id: string
+          reason: string
+          strategy: string
+        }[]
+      }
+      claim_email_messages: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          id: string
+          last_error: string | null
+          message_id: string | null
+          next_attempt_at: string
+          payload: Json
+          recipient_id: string
+          sent_at: string | null
+          status: string
+          subject: string | null
+          template: string
+          ticket_id: string | null
+          to_address: string | null
+          updated_at: string | null
+        }[]
+      }
+      claim_webhook_deliveries: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          response_status: number | null
+          rule_id: string | null
+          sent_at: string | null
+          status: string
+          ticket_id: string | null
+          updated_at: string | null
+          url: string
+        }[]
+      }
+      create_notification: {
+        Args: { _recipient_id: string; _type: string; _ticket_id: string; _message: string }
+        Returns: undefined
+      }
+      default_ticket_status: {
+        Args: never
+        Returns: string
+      }
+      draft_article_from_ticket: {
+        Args: { _ticket_id: string; _comment_ids?: string[] }
+        Returns: string
+      }
+      enqueue_email: {
+        Args: { _recipient_id: string; _template: string; _ticket_id: string; _payload?: Json }
+        Returns: undefined
+      }
+      find_ticket_by_ref: {
+        Args: { _ref: string }
+        Returns: string
+      }
+      get_csat_survey: {
+        Args: { _token: string }
+        Returns: {
+          ticket_id: string
+          ticket_title: string
+          agent_name: string
+          rating: string
+          comment: string
+          rated_at: string
+        }[]
+      }
       get_user_role: {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      has_privilege: {
+        Args: { _user_id: string; _key: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { _team_id: string }
+        Returns: boolean
+      }
+      is_user_banned: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      kb_search_document: {
+        Args: { _title: string; _body: string }
+        Returns: unknown
+      }
+      kb_suggestion_query: {
+        Args: { _text: string }
+        Returns: unknown
+      }
+      log_ticket_event: {
+        Args: { _ticket_id: string; _event_type: string; _old_value?: string; _new_value?: string; _metadata?: Json; _is_internal?: boolean }
+        Returns: undefined
+      }
+      match_sla_policy: {
+        Args: { _priority: Database["public"]["Enums"]["ticket_priority"]; _category_id: string }
+        Returns: string
+      }
+      notification_actor: {
+        Args: never
+        Returns: string
+      }
+      profile_display_name: {
+        Args: { _profile_id: string }
+        Returns: string
+      }
+      promote_answer_to_article: {
+        Args: { _answer_id: string; _title?: string }
+        Returns: string
+      }
+      rate_csat_survey: {
+        Args: { _survey_id: string; _rating: string; _comment?: string }
+        Returns: undefined
+      }
+      record_macro_use: {
+        Args: { _macro_id: string }
+        Returns: undefined
+      }
+      redact_requester: {
+        Args: { _text: string; _requester_id: string }
+        Returns: string
+      }
+      refresh_ticket_search: {
+        Args: { _ticket_id: string }
+        Returns: undefined
+      }
+      reopen_ticket: {
+        Args: { _ticket_id: string; _status?: string }
+        Returns: undefined
+      }
+      reverse_reputation: {
+        Args: { _source_type: string; _source_id: string }
+        Returns: undefined
+      }
+      review_kb_article: {
+        Args: { _article_id: string; _approve: boolean; _note?: string }
+        Returns: undefined
+      }
+      run_automation_rules: {
+        Args: { _event: string; _ticket_id: string; _old?: Json; _comment_id?: string }
+        Returns: undefined
+      }
+      run_scheduled_automations: {
+        Args: { _now?: string }
+        Returns: {
+          rule_name: string
+          status: string
+          ticket_id: string
+        }[]
+      }
+      search_tickets: {
+        Args: {
+          _text?: string
+          _status?: string
+          _priority?: Database["public"]["Enums"]["ticket_priority"]
+          _category_id?: string
+          _category_name?: string
+          _assignee?: string
+          _creator?: string
+          _created_from?: string
+          _created_before?: string
+          _sort?: string
+          _limit?: number
+          _offset?: number
+        }
+        Returns: {
+          ticket_id: string
+          rank: number
+          title_highlight: string
+          snippet: string
+          total_count: number
+        }[]
+      }
+      set_my_availability: {
+        Args: { _available: boolean }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: { _user_id: string; _role: Database["public"]["Enums"]["user_role"] }
+        Returns: undefined
+      }
+      sla_due_at: {
+        Args: { _start: string; _minutes: number; _schedule_id?: string }
+        Returns: string
+      }
+      sla_target_state: {
+        Args: { _started_at: string; _due_at: string; _completed_at: string }
+        Returns: string
+      }
+      status_position: {
+        Args: { "": Database["public"]["Tables"]["tickets"]["Row"] }
+        Returns: number
+      }
+      submit_csat_rating: {
+        Args: { _token: string; _rating: string; _comment?: string }
+        Returns: undefined
+      }
+      suggest_kb_content: {
+        Args: { _text: string; _limit?: number }
+        Returns: {
+          kind: string
+          id: string
+          title: string
+          snippet: string
+          rank: number
+        }[]
+      }
+      test_automation_rules: {
+        Args: {
+          _ticket_id: string
+          _event: string
+          _rule_id?: string
+          _now?: string
+        }
+        Returns: {
+          actions: Json
+          conditions: Json
+          error: string
+          matched: boolean
+          rule_id: string
+          rule_name: string
+          stops: boolean
+        }[]
+      }
+      ticket_business_age_minutes: {
+        Args: { _ticket_id: string }
+        Returns: number
+      }
+      ticket_last_activity_at: {
+        Args: { _ticket_id: string }
+        Returns: string
+      }
+      ticket_paused_minutes: {
+        Args: { _ticket_id: string; _schedule_id: string; _until?: string }
+        Returns: number
+      }
+      ticket_resume_status: {
+        Args: never
+        Returns: string
+      }
+      ticket_status_category: {
+        Args: { _status: string }
+        Returns: string
+      }
+      ticket_status_is_active: {
+        Args: { _status: string }
+        Returns: boolean
+      }
+      ticket_status_name: {
+        Args: { _status: string }
+        Returns: string
+      }
+      unban_user: {
+        Args: { _user_id: string; _reason: string }
+        Returns: undefined
+      }
+      vote_reputation: {
+        Args: { _voter_id: string; _recipient_id: string; _vote_type: number }
+        Returns: {
+          amount: number
+          note: string
+        }[]
+      }
     }
     Enums: {
       ticket_priority: "low" | "medium" | "high" | "urgent"
-      ticket_status: "open" | "in_progress" | "resolved" | "closed"
       user_role: "user" | "agent" | "admin"
     }
     CompositeTypes: {
@@ -590,7 +2278,6 @@ export const Constants = {
   public: {
     Enums: {
       ticket_priority: ["low", "medium", "high", "urgent"],
-      ticket_status: ["open", "in_progress", "resolved", "closed"],
       user_role: ["user", "agent", "admin"],
     },
   },
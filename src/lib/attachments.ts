@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const ATTACHMENTS_BUCKET = 'ticket-attachments';
+
+// Keep in sync with the ticket_attachments checks and the storage bucket limits
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip'
+];
+
+export interface Attachment {
+  id: string;
+  ticket_id: string;
+  comment_id: string | null;
+  uploaded_by: string;
+  file_name: string;
+  file_path: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export const isImageAttachment = (mimeType: string) => mimeType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns a user-facing reason the file can't be attached, or null if it can
+export const validateAttachment = (file: File): string | null => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: file type not allowed`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+};
+
+// Uploads files to storage and records them against a ticket (and optionally
+// one of its comments). Stops at the first failure.
+export const uploadAttachments = async (
+  files: File[],
+  { ticketId, commentId = null, userId }: { ticketId: string; commentId?: string | null; userId: string }
+) => {
+  for (const file of files) {
+    const filePath = `${ticketId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(filePath, file, { contentType: file.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase
+      .from('ticket_attachments')
+      .insert({
+        ticket_id: ticketId,
+        comment_id: commentId,
+        uploaded_by: userId,
+        file_name: file.name,
+        file_path: filePath,
+        mime_type: file.type,
+        size_bytes: file.size
+      });
+
+    if (error) throw error;
+  }
+};
+
+// Signed URLs for a batch of attachments, keyed by file path
+export const getAttachmentUrls = async (attachments: Attachment[]) => {
+  if (attachments.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(attachments.map((a) => a.file_path), 60 * 60);
+
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  data.forEach((entry) => {
+    if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+  });
+  return urls;
+};
@@ -0,0 +1,184 @@
+// Automation rule shapes, mirroring what run_automation_rules and
+// automation_condition_holds understand in the database
+
+export type AutomationEvent = 'ticket_created' | 'ticket_updated' | 'comment_added' | 'scheduled';
+
+export const AUTOMATION_EVENTS: Record<AutomationEvent, string> = {
+  ticket_created: 'Ticket created',
+  ticket_updated: 'Ticket updated',
+  comment_added: 'Comment added',
+  scheduled: 'Time passed (checked on a schedule)'
+};
+
+export type ConditionOperator =
+  | 'is'
+  | 'is_not'
+  | 'contains'
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'changed'
+  | 'changed_to'
+  | 'at_least'
+  | 'less_than';
+
+export const CONDITION_OPERATORS: Record<ConditionOperator, string> = {
+  is: 'is',
+  is_not: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+  changed: 'changed',
+  changed_to: 'changed to',
+  at_least: 'is at least',
+  less_than: 'is less than'
+};
+
+// Operators that don't compare against a value
+export const VALUELESS_OPERATORS: ConditionOperator[] = ['is_empty', 'is_not_empty', 'changed'];
+
+// What kind of value a field holds, which decides the value picker
+export type ConditionValueKind = 'status' | 'priority' | 'category' | 'agent' | 'text' | 'boolean' | 'role' | 'duration';
+
+export interface ConditionField {
+  label: string;
+  kind: ConditionValueKind;
+  operators: ConditionOperator[];
+  // Only meaningful for these events
+  events?: AutomationEvent[];
+}
+
+const CHOICE_OPERATORS: ConditionOperator[] = ['is', 'is_not', 'changed', 'changed_to'];
+const OPTIONAL_CHOICE_OPERATORS: ConditionOperator[] = ['is', 'is_not', 'is_empty', 'is_not_empty', 'changed', 'changed_to'];
+const TEXT_OPERATORS: ConditionOperator[] = ['contains', 'not_contains', 'is', 'is_empty', 'is_not_empty', 'changed'];
+const DURATION_OPERATORS: ConditionOperator[] = ['at_least', 'less_than'];
+
+export const CONDITION_FIELDS: Record<string, ConditionField> = {
+  status: { label: 'Status', kind: 'status', operators: CHOICE_OPERATORS },
+  priority: { label: 'Priority', kind: 'priority', operators: CHOICE_OPERATORS },
+  category_id: { label: 'Category', kind: 'category', operators: OPTIONAL_CHOICE_OPERATORS },
+  assigned_to: { label: 'Assignee', kind: 'agent', operators: OPTIONAL_CHOICE_OPERATORS },
+  title: { label: 'Title', kind: 'text', operators: TEXT_OPERATORS },
+  description: { label: 'Description', kind: 'text', operators: TEXT_OPERATORS },
+  comment_body: { label: 'Comment text', kind: 'text', operators: ['contains', 'not_contains'], events: ['comment_added'] },
+  comment_is_internal: { label: 'Comment is internal', kind: 'boolean', operators: ['is'], events: ['comment_added'] },
+  comment_author_role: { label: 'Comment author', kind: 'role', operators: ['is', 'is_not'], events: ['comment_added'] },
+  // Elapsed times, in minutes
+  minutes_since_created: { label: 'Time since created', kind: 'duration', operators: DURATION_OPERATORS, events: ['scheduled'] },
+  minutes_since_updated: { label: 'Time since last activity', kind: 'duration', operators: DURATION_OPERATORS, events: ['scheduled'] },
+  minutes_in_status: { label: 'Time in current status', kind: 'duration', operators: DURATION_OPERATORS, events: ['scheduled'] },
+  minutes_awaiting_requester: { label: 'Time waiting on requester', kind: 'duration', operators: DURATION_OPERATORS, events: ['scheduled'] },
+  minutes_since_requester_reply: { label: 'Time since requester replied', kind: 'duration', operators: DURATION_OPERATORS, events: ['scheduled'] }
+};
+
+// Operators a field offers for an event; nothing "changes" on a schedule
+export const operatorsFor = (field: ConditionField, event: AutomationEvent) =>
+  event === 'scheduled'
+    ? field.operators.filter((operator) => operator !== 'changed' && operator !== 'changed_to')
+    : field.operators;
+
+export const DURATION_UNITS = [
+  { value: 'minutes', label: 'minutes', minutes: 1 },
+  { value: 'hours', label: 'hours', minutes: 60 },
+  { value: 'days', label: 'days', minutes: 1440 }
+] as const;
+
+export type DurationUnit = (typeof DURATION_UNITS)[number]['value'];
+
+// Largest unit that divides the duration evenly, e.g. 4320 → 3 days
+export const splitDuration = (minutes: number) => {
+  const unit = [...DURATION_UNITS].reverse().find((u) => minutes > 0 && minutes % u.minutes === 0) || DURATION_UNITS[0];
+  return { amount: minutes / unit.minutes, unit: unit.value };
+};
+
+export const formatDuration = (minutes: number) => {
+  const { amount, unit } = splitDuration(minutes);
+  return `${amount} ${amount === 1 ? unit.slice(0, -1) : unit}`;
+};
+
+export interface AutomationCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string;
+  // Durations only: the unit the value was entered in, for display
+  unit?: DurationUnit;
+}
+
+export type AutomationActionType =
+  | 'set_status'
+  | 'set_priority'
+  | 'set_category'
+  | 'assign'
+  | 'assign_team'
+  | 'add_comment'
+  | 'notify'
+  | 'webhook';
+
+export const AUTOMATION_ACTIONS: Record<AutomationActionType, string> = {
+  set_status: 'Set status',
+  set_priority: 'Set priority',
+  set_category: 'Set category',
+  assign: 'Assign to agent',
+  assign_team: 'Assign to team',
+  add_comment: 'Add comment',
+  notify: 'Send notification',
+  webhook: 'Call webhook'
+};
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  // set_status, set_priority, set_category; assign takes a profile id or "none"
+  value?: string;
+  team_id?: string;
+  content?: string;
+  is_internal?: boolean;
+  // notify: "requester", "assignee", "admins" or a profile id
+  recipient?: string;
+  message?: string;
+  url?: string;
+}
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  description: string | null;
+  event: AutomationEvent;
+  conditions: AutomationCondition[];
+  match_type: 'all' | 'any';
+  actions: AutomationAction[];
+  position: number;
+  stop_processing: boolean;
+  is_active: boolean;
+}
+
+// Returns a problem with the action, or null if it can be saved
+export const validateAction = (action: AutomationAction): string | null => {
+  switch (action.type) {
+    case 'set_status':
+    case 'set_priority':
+    case 'set_category':
+    case 'assign':
+      return action.value ? null : `${AUTOMATION_ACTIONS[action.type]} needs a value`;
+    case 'assign_team':
+      return action.team_id ? null : 'Pick a team to assign to';
+    case 'add_comment':
+      return action.content?.trim() ? null : 'The comment is empty';
+    case 'notify':
+      return action.recipient ? null : 'Pick who to notify';
+    case 'webhook':
+      return /^https?:\/\/\S+$/.test(action.url || '') ? null : 'The webhook needs an http(s) URL';
+    default:
+      return 'Unknown action';
+  }
+};
+
+export const validateCondition = (condition: AutomationCondition, event: AutomationEvent): string | null => {
+  const field = CONDITION_FIELDS[condition.field];
+  if (!field) return 'Unknown condition field';
+  if (field.events && !field.events.includes(event)) return `${field.label} doesn't apply to "${AUTOMATION_EVENTS[event]}"`;
+  if (!operatorsFor(field, event).includes(condition.operator)) return `"${CONDITION_OPERATORS[condition.operator]}" doesn't apply to ${field.label}`;
+  if (!VALUELESS_OPERATORS.includes(condition.operator) && !condition.value) return `${field.label} condition needs a value`;
+  if (field.kind === 'duration' && !(Number(condition.value) > 0)) return `${field.label} needs a positive duration`;
+  return null;
+};
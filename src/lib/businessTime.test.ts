@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BusinessSchedule,
+  addBusinessMillis,
+  businessMillisBetween,
+  businessMinutesBetween,
+  formatDuration
+} from './businessTime';
+
+// Same fixtures as supabase/tests/database/business_time.test.sql, so the UI
+// and the SLA clocks in the database are held to the same answers.
+
+const HOUR = 60 * 60 * 1000;
+
+const allDay = (timezone: string, holidays: string[] = []): BusinessSchedule => ({
+  timezone,
+  hours: [0, 1, 2, 3, 4, 5, 6].map((day_of_week) => ({ day_of_week, start_time: '00:00', end_time: '24:00' })),
+  holidays
+});
+
+const weekdays = (timezone: string, holidays: string[] = []): BusinessSchedule => ({
+  timezone,
+  hours: [1, 2, 3, 4, 5].map((day_of_week) => ({ day_of_week, start_time: '09:00', end_time: '17:00' })),
+  holidays
+});
+
+const sundayOnly = (timezone: string, start_time: string, end_time: string): BusinessSchedule => ({
+  timezone,
+  hours: [{ day_of_week: 0, start_time, end_time }],
+  holidays: []
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe('DST transitions', () => {
+  // Europe/Berlin springs forward on 2026-03-29 and falls back on 2026-10-25
+  it('counts 23 hours on the spring-forward day', () => {
+    expect(businessMillisBetween(allDay('Europe/Berlin'), at('2026-03-28T23:00:00Z'), at('2026-03-29T22:00:00Z'))).toBe(
+      23 * HOUR
+    );
+  });
+
+  it('counts 25 hours on the fall-back day', () => {
+    expect(businessMillisBetween(allDay('Europe/Berlin'), at('2026-10-24T22:00:00Z'), at('2026-10-25T23:00:00Z'))).toBe(
+      25 * HOUR
+    );
+  });
+
+  it('keeps wall-clock hours across the change', () => {
+    // Friday 09:00 CET to Monday 09:00 CEST is one business day
+    expect(businessMillisBetween(weekdays('Europe/Berlin'), at('2026-03-27T08:00:00Z'), at('2026-03-30T07:00:00Z'))).toBe(
+      8 * HOUR
+    );
+  });
+
+  it('reads a start inside the spring-forward gap with the pre-jump offset', () => {
+    // 02:30 doesn't exist on 2026-03-29; like Postgres it becomes 03:30 CEST
+    const schedule = sundayOnly('Europe/Berlin', '02:30', '04:00');
+    expect(businessMinutesBetween(schedule, at('2026-03-28T12:00:00Z'), at('2026-03-30T00:00:00Z'))).toBe(30);
+    expect(addBusinessMillis(schedule, at('2026-03-28T12:00:00Z'), 0)).toEqual(at('2026-03-29T01:30:00Z'));
+  });
+
+  it('reads an end inside the spring-forward gap with the pre-jump offset', () => {
+    // 01:00 CET to 02:30 (= 03:30 CEST) is an hour and a half of real time
+    const schedule = sundayOnly('Europe/Berlin', '01:00', '02:30');
+    expect(businessMinutesBetween(schedule, at('2026-03-28T12:00:00Z'), at('2026-03-30T00:00:00Z'))).toBe(90);
+  });
+
+  it('reads an ambiguous fall-back time as standard time', () => {
+    // 02:30 happens twice on 2026-10-25; the second one (CET) counts
+    const schedule = sundayOnly('Europe/Berlin', '02:30', '04:00');
+    expect(addBusinessMillis(schedule, at('2026-10-24T12:00:00Z'), 0)).toEqual(at('2026-10-25T01:30:00Z'));
+    expect(businessMinutesBetween(schedule, at('2026-10-24T12:00:00Z'), at('2026-10-26T00:00:00Z'))).toBe(90);
+  });
+
+  it('adds across the spring-forward night by business time, not wall-clock time', () => {
+    // Saturday 22:00 CET plus 4 hours lands at 03:00 CEST
+    expect(addBusinessMillis(allDay('Europe/Berlin'), at('2026-03-28T21:00:00Z'), 4 * HOUR)).toEqual(
+      at('2026-03-29T01:00:00Z')
+    );
+  });
+});
+
+describe('holidays', () => {
+  // Thursday 2026-12-24, Friday 25 (holiday), weekend, Monday 28 (holiday)
+  const schedule = weekdays('UTC', ['2026-12-25', '2026-12-28']);
+
+  it('skips holidays when counting', () => {
+    expect(businessMillisBetween(schedule, at('2026-12-24T09:00:00Z'), at('2026-12-29T09:00:00Z'))).toBe(8 * HOUR);
+  });
+
+  it('skips holidays when adding', () => {
+    expect(addBusinessMillis(schedule, at('2026-12-24T16:00:00Z'), 2 * HOUR)).toEqual(at('2026-12-29T10:00:00Z'));
+  });
+
+  it('matches holidays on the local date', () => {
+    // Christmas in Los Angeles runs from 08:00 UTC on the 25th to 08:00 on the 26th
+    const losAngeles = allDay('America/Los_Angeles', ['2026-12-25']);
+    expect(businessMillisBetween(losAngeles, at('2026-12-25T08:00:00Z'), at('2026-12-26T08:00:00Z'))).toBe(0);
+    expect(businessMillisBetween(losAngeles, at('2026-12-25T07:00:00Z'), at('2026-12-26T09:00:00Z'))).toBe(2 * HOUR);
+  });
+});
+
+describe('edge cases', () => {
+  it('counts nothing for an empty or reversed range', () => {
+    expect(businessMillisBetween(allDay('UTC'), at('2026-01-02T00:00:00Z'), at('2026-01-01T00:00:00Z'))).toBe(0);
+  });
+
+  it('gives up on a schedule without hours', () => {
+    expect(addBusinessMillis({ timezone: 'UTC', hours: [], holidays: [] }, at('2026-01-01T00:00:00Z'), HOUR)).toBeNull();
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(5 * 60 * 1000)).toBe('5m');
+    expect(formatDuration(-(2 * HOUR + 5 * 60 * 1000))).toBe('2h 5m');
+    expect(formatDuration(26 * HOUR)).toBe('1d 2h');
+  });
+});
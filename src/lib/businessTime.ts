@@ -0,0 +1,170 @@
+// Business-time arithmetic shared by the UI. Mirrors the SQL functions
+// business_minutes_between / business_time_add so both sides agree.
+
+export interface BusinessHoursInterval {
+  day_of_week: number; // 0 = Sunday, matching Date#getDay and Postgres DOW
+  start_time: string; // "HH:MM" or "HH:MM:SS", local to the schedule
+  end_time: string; // exclusive; "24:00" means end of day
+}
+
+export interface BusinessSchedule {
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+  hours: BusinessHoursInterval[];
+  holidays: string[]; // local dates as "YYYY-MM-DD"
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+// Give up after two years of calendar days without finding enough hours
+const MAX_DAYS = 731;
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields of an instant in the given timezone
+const zonedParts = (instant: number, timezone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timezone)
+    .formatToParts(new Date(instant))
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+};
+
+// Offset of the timezone from UTC at the given instant, in ms
+const zoneOffset = (instant: number, timezone: string) => {
+  const p = zonedParts(instant, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+const parseTime = (time: string) => {
+  const [hours, minutes = '0', seconds = '0'] = time.split(':');
+  return (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+};
+
+// Instant of a local wall-clock time. Like Postgres' AT TIME ZONE, a time inside
+// a spring-forward gap is read with the pre-jump offset (02:30 becomes 03:30)
+// and an ambiguous fall-back time is read as standard time.
+const zonedToInstant = (date: CalendarDate, timeMs: number, timezone: string) => {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day) + timeMs;
+  const offset = zoneOffset(wallClock - zoneOffset(wallClock, timezone), timezone);
+  const check = zoneOffset(wallClock - offset, timezone);
+  if (check === offset) return wallClock - offset;
+
+  // In a gap the clock jumped forward, so the pre-jump offset is the smaller one
+  return wallClock - Math.min(offset, check);
+};
+
+const toCalendarDate = (instant: number, timezone: string): CalendarDate => {
+  const { year, month, day } = zonedParts(instant, timezone);
+  return { year, month, day };
+};
+
+const nextDay = ({ year, month, day }: CalendarDate): CalendarDate => {
+  const d = new Date(Date.UTC(year, month - 1, day) + DAY);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+const compareDates = (a: CalendarDate, b: CalendarDate) =>
+  Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+
+const isoDate = ({ year, month, day }: CalendarDate) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const dayOfWeek = ({ year, month, day }: CalendarDate) => new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+// Business windows ([start, end) instants) on one local calendar day
+const windowsOn = (schedule: BusinessSchedule, date: CalendarDate) => {
+  if (schedule.holidays.includes(isoDate(date))) return [];
+
+  const dow = dayOfWeek(date);
+  return schedule.hours
+    .filter((interval) => interval.day_of_week === dow)
+    .map((interval) => ({
+      start: zonedToInstant(date, parseTime(interval.start_time), schedule.timezone),
+      end: zonedToInstant(date, parseTime(interval.end_time), schedule.timezone)
+    }))
+    .filter((window) => window.end > window.start)
+    .sort((a, b) => a.start - b.start);
+};
+
+// Milliseconds of business time between two instants (0 if end <= start)
+export const businessMillisBetween = (schedule: BusinessSchedule, start: Date, end: Date) => {
+  const from = start.getTime();
+  const to = end.getTime();
+  if (to <= from) return 0;
+
+  const lastDay = toCalendarDate(to, schedule.timezone);
+  let date = toCalendarDate(from, schedule.timezone);
+  let total = 0;
+
+  while (compareDates(date, lastDay) <= 0) {
+    for (const window of windowsOn(schedule, date)) {
+      total += Math.max(0, Math.min(window.end, to) - Math.max(window.start, from));
+    }
+    date = nextDay(date);
+  }
+
+  return total;
+};
+
+// The instant reached after spending `ms` of business time from `start`, or
+// null if the schedule has no business hours at all
+export const addBusinessMillis = (schedule: BusinessSchedule, start: Date, ms: number) => {
+  let remaining = Math.max(0, ms);
+  let date = toCalendarDate(start.getTime(), schedule.timezone);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    for (const window of windowsOn(schedule, date)) {
+      const from = Math.max(window.start, start.getTime());
+      if (window.end <= from) continue;
+
+      const available = window.end - from;
+      if (remaining <= available) return new Date(from + remaining);
+      remaining -= available;
+    }
+    date = nextDay(date);
+  }
+
+  return null;
+};
+
+export const businessMinutesBetween = (schedule: BusinessSchedule, start: Date, end: Date) =>
+  businessMillisBetween(schedule, start, end) / MINUTE;
+
+// "2h 5m" style duration; the sign is dropped
+export const formatDuration = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.round(Math.abs(ms) / MINUTE));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
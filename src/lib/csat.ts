@@ -0,0 +1,96 @@
+// Customer satisfaction ratings (public.csat_surveys). Requesters rate a
+// solved ticket good or bad; CSAT is the share of good ratings.
+
+export type CsatRating = 'good' | 'bad';
+
+export const CSAT_RATINGS: Record<CsatRating, string> = {
+  good: 'Good',
+  bad: 'Bad'
+};
+
+export interface CsatSurvey {
+  id: string;
+  ticket_id: string;
+  rating: CsatRating | null;
+  comment: string | null;
+  rated_at: string | null;
+  created_at: string;
+}
+
+// A rated survey as the report loads it
+export interface CsatResult {
+  rating: CsatRating;
+  rated_at: string;
+  agent: { id: string; name: string } | null;
+  category: { id: string; name: string; color: string } | null;
+}
+
+export interface CsatSummary {
+  good: number;
+  bad: number;
+  // Share of good ratings, 0-100; null without ratings
+  score: number | null;
+}
+
+export const summarizeCsat = (results: Pick<CsatResult, 'rating'>[]): CsatSummary => {
+  const good = results.filter((result) => result.rating === 'good').length;
+  const bad = results.length - good;
+  return { good, bad, score: results.length ? Math.round((good / results.length) * 100) : null };
+};
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // Weeks start on Monday
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// Weekly CSAT for the `weeks` weeks up to `now`, oldest first; weeks without
+// ratings are kept with a null score so charts show the gap
+export const weeklyCsat = (results: CsatResult[], weeks: number, now = new Date()) => {
+  const current = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(current);
+    start.setDate(start.getDate() - (weeks - 1 - i) * 7);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+
+    const inWeek = results.filter((result) => {
+      const ratedAt = new Date(result.rated_at);
+      return ratedAt >= start && ratedAt < end;
+    });
+    return { week: start, ...summarizeCsat(inWeek) };
+  });
+};
+
+// Ratings per agent or category for `period` against the period before it,
+// best score first. Ratings without an agent/category are grouped under
+// `unknown`.
+export const csatBreakdown = (
+  results: CsatResult[],
+  groupOf: (result: CsatResult) => { id: string; name: string } | null,
+  period: { start: Date; previousStart: Date },
+  unknown: string
+) => {
+  const groups = new Map<string, { name: string; current: CsatResult[]; previous: CsatResult[] }>();
+
+  results.forEach((result) => {
+    const ratedAt = new Date(result.rated_at);
+    if (ratedAt < period.previousStart) return;
+
+    const group = groupOf(result) ?? { id: '', name: unknown };
+    const entry = groups.get(group.id) ?? { name: group.name, current: [], previous: [] };
+    (ratedAt >= period.start ? entry.current : entry.previous).push(result);
+    groups.set(group.id, entry);
+  });
+
+  return [...groups.entries()]
+    .map(([id, entry]) => ({
+      id,
+      name: entry.name,
+      current: summarizeCsat(entry.current),
+      previous: summarizeCsat(entry.previous)
+    }))
+    .filter((row) => row.current.good + row.current.bad > 0)
+    .sort((a, b) => (b.current.score ?? 0) - (a.current.score ?? 0) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,110 @@
+// Knowledge base: community questions and answers (public.questions,
+// answers, comments, votes) and official articles (public.kb_articles).
+
+export const MAX_TAGS = 5;
+
+export interface KbAuthor {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  reputation: number | null;
+}
+
+export interface KbQuestion {
+  id: string;
+  title: string;
+  description: string | null;
+  tags: string[] | null;
+  created_at: string | null;
+  user_id: string | null;
+  author: KbAuthor | null;
+}
+
+export interface KbVote {
+  user_id: string | null;
+  vote_type: number | null;
+}
+
+export interface KbComment {
+  id: string;
+  content: string | null;
+  created_at: string | null;
+  author: KbAuthor | null;
+}
+
+export interface KbAnswer {
+  id: string;
+  content: string | null;
+  is_accepted: boolean | null;
+  created_at: string | null;
+  user_id: string | null;
+  author: KbAuthor | null;
+  votes: KbVote[];
+  comments: KbComment[];
+}
+
+// Articles drafted from tickets wait for an admin's review before they go
+// live; the rest are published straight away
+export type KbArticleStatus = 'pending_review' | 'published' | 'rejected';
+
+export const ARTICLE_STATUSES: Record<KbArticleStatus, { label: string; className: string }> = {
+  pending_review: { label: 'Pending review', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  published: { label: 'Published', className: 'bg-green-100 text-green-800 border-green-200' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 border-red-200' }
+};
+
+export interface KbArticle {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  status: KbArticleStatus;
+  source_answer_id: string | null;
+  source_ticket_id: string | null;
+  category_id: string | null;
+  author_id: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export const authorName = (author: KbAuthor | null) =>
+  author?.full_name || author?.username || 'Unknown user';
+
+// Tags as typed in a form ("Password reset, login") to stored tags
+// ("password-reset", "login"): lowercase, hyphenated, unique, at most MAX_TAGS
+export const parseTags = (input: string) =>
+  [...new Set(
+    input
+      .split(/[,\n]/)
+      .map((tag) => tag.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''))
+      .filter(Boolean)
+  )].slice(0, MAX_TAGS);
+
+export const voteScore = (votes: KbVote[]) => votes.reduce((sum, vote) => sum + (vote.vote_type ?? 0), 0);
+
+export const userVote = (votes: KbVote[], userId: string | undefined) =>
+  votes.find((vote) => vote.user_id === userId)?.vote_type ?? 0;
+
+// Accepted answer first, then by score, then oldest first
+export const sortAnswers = (answers: KbAnswer[]) =>
+  [...answers].sort(
+    (a, b) =>
+      Number(!!b.is_accepted) - Number(!!a.is_accepted) ||
+      voteScore(b.votes) - voteScore(a.votes) ||
+      (a.created_at ?? '').localeCompare(b.created_at ?? '')
+  );
+
+// A match for a ticket being written: an article, or a question with an
+// accepted answer (id is the question's)
+export interface KbSuggestion {
+  kind: 'article' | 'answer';
+  id: string;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+export const suggestionUrl = (suggestion: Pick<KbSuggestion, 'kind' | 'id'>) =>
+  suggestion.kind === 'article' ? `/kb/articles/${suggestion.id}` : `/kb/questions/${suggestion.id}`;
@@ -0,0 +1,124 @@
+import type { Ticket } from '@/hooks/useTicket';
+import type { TicketPriority, TicketStatus } from '@/lib/ticketFilters';
+import { humanizeStatus } from '@/lib/ticketStatuses';
+
+export interface Macro {
+  id: string;
+  name: string;
+  content: string;
+  is_internal: boolean;
+  is_shared: boolean;
+  owner_id: string | null;
+  set_status: TicketStatus | null;
+  set_priority: TicketPriority | null;
+  set_category_id: string | null;
+  // A profile id, "me" or "none", like the assignee ticket filter
+  set_assignee: string | null;
+  usage_count: number;
+}
+
+interface Person {
+  full_name: string | null;
+  username: string | null;
+}
+
+export interface MacroContext {
+  ticket: Pick<Ticket, 'id' | 'title' | 'status' | 'priority'>;
+  requester: Person | null;
+  agent: Person | null;
+  categoryName?: string | null;
+  statusName?: string | null;
+}
+
+// Placeholders a macro can use, for the picker and admin screen help text
+export const MACRO_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'requester.first_name', description: "Requester's first name" },
+  { key: 'requester.name', description: "Requester's full name" },
+  { key: 'ticket.id', description: 'Ticket reference, e.g. 1a2b3c4d' },
+  { key: 'ticket.title', description: 'Ticket title' },
+  { key: 'ticket.status', description: 'Current status' },
+  { key: 'ticket.priority', description: 'Current priority' },
+  { key: 'ticket.category', description: 'Category name' },
+  { key: 'ticket.url', description: 'Link to the ticket' },
+  { key: 'agent.first_name', description: 'Your first name' },
+  { key: 'agent.name', description: 'Your full name' },
+];
+
+const displayName = (person: Person | null) => person?.full_name || person?.username || '';
+
+const firstName = (person: Person | null) => displayName(person).split(/\s+/)[0] || '';
+
+const placeholderValues = ({ ticket, requester, agent, categoryName, statusName }: MacroContext): Record<string, string> => ({
+  'requester.first_name': firstName(requester) || 'there',
+  'requester.name': displayName(requester),
+  'ticket.id': ticket.id.slice(-8),
+  'ticket.title': ticket.title,
+  'ticket.status': statusName || humanizeStatus(ticket.status),
+  'ticket.priority': ticket.priority,
+  'ticket.category': categoryName || '',
+  'ticket.url': `${window.location.origin}/tickets/${ticket.id}`,
+  'agent.first_name': firstName(agent),
+  'agent.name': displayName(agent),
+});
+
+// Fills in {{placeholders}}. Unknown ones are left as typed so the agent
+// notices them before posting.
+export const renderMacro = (content: string, context: MacroContext) => {
+  const values = placeholderValues(context);
+  return content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+// Placeholders in the content that renderMacro doesn't know
+export const unknownPlaceholders = (content: string) => {
+  const known = new Set(MACRO_PLACEHOLDERS.map((placeholder) => placeholder.key));
+  const found = [...content.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)].map((match) => match[1]);
+  return [...new Set(found)].filter((key) => !known.has(key));
+};
+
+export const macroHasChanges = (macro: Macro) =>
+  !!(macro.set_status || macro.set_priority || macro.set_category_id || macro.set_assignee);
+
+// The ticket update a macro makes when applied by userId
+export const macroTicketUpdate = (macro: Macro, userId: string) => {
+  const update: {
+    status?: TicketStatus;
+    priority?: TicketPriority;
+    category_id?: string;
+    assigned_to?: string | null;
+  } = {};
+  if (macro.set_status) update.status = macro.set_status;
+  if (macro.set_priority) update.priority = macro.set_priority;
+  if (macro.set_category_id) update.category_id = macro.set_category_id;
+  if (macro.set_assignee) {
+    update.assigned_to = macro.set_assignee === 'me' ? userId : macro.set_assignee === 'none' ? null : macro.set_assignee;
+  }
+  return update;
+};
+
+// Human-readable field changes, e.g. ["Status: resolved", "Assign to me"]
+export const describeMacroChanges = (
+  macro: Macro,
+  lookups: {
+    categories?: { id: string; name: string }[];
+    agents?: { id: string; name: string }[];
+    statuses?: { key: string; name: string }[];
+  } = {}
+) => {
+  const changes: string[] = [];
+  if (macro.set_status) {
+    const status = lookups.statuses?.find((s) => s.key === macro.set_status);
+    changes.push(`Status: ${status?.name || humanizeStatus(macro.set_status)}`);
+  }
+  if (macro.set_priority) changes.push(`Priority: ${macro.set_priority}`);
+  if (macro.set_category_id) {
+    const category = lookups.categories?.find((c) => c.id === macro.set_category_id);
+    changes.push(`Category: ${category?.name || 'unknown'}`);
+  }
+  if (macro.set_assignee === 'me') changes.push('Assign to me');
+  else if (macro.set_assignee === 'none') changes.push('Unassign');
+  else if (macro.set_assignee) {
+    const agent = lookups.agents?.find((a) => a.id === macro.set_assignee);
+    changes.push(`Assign to ${agent?.name || 'unknown agent'}`);
+  }
+  return changes;
+};
@@ -0,0 +1,15 @@
+// Account bans set by admins (ban_user / unban_user). isSuspended mirrors
+// public.is_user_banned: a ban with an expiry lapses on its own. Role changes
+// (set_user_role) are logged to admin_actions alongside bans.
+
+export const isSuspended = (profile: { is_banned: boolean | null; banned_until: string | null } | null) =>
+  !!profile?.is_banned && (!profile.banned_until || new Date(profile.banned_until) > new Date());
+
+export const ADMIN_ACTIONS: Record<string, string> = {
+  ban: 'Banned user',
+  unban: 'Unbanned user',
+  role_change: 'Changed role'
+};
+
+export const adminActionLabel = (action: string | null) =>
+  (action && ADMIN_ACTIONS[action]) || action || 'Unknown';
@@ -0,0 +1,68 @@
+// Reputation earned in the knowledge base (public.reputation_events). The
+// points and anti-abuse limits live in the database; see vote_reputation.
+
+export type ReputationReason = 'upvote' | 'downvote' | 'accepted_answer' | 'reversal';
+
+export const REPUTATION_REASONS: Record<ReputationReason, string> = {
+  upvote: 'Answer upvoted',
+  downvote: 'Answer downvoted',
+  accepted_answer: 'Answer accepted',
+  reversal: 'Reversed'
+};
+
+export interface ReputationEvent {
+  id: string;
+  amount: number;
+  reason: ReputationReason;
+  source_type: 'vote' | 'answer';
+  question_id: string | null;
+  reverses_id: string | null;
+  note: string | null;
+  created_at: string | null;
+}
+
+export interface ReputationPrivilege {
+  key: string;
+  name: string;
+  description: string | null;
+  min_reputation: number;
+}
+
+export interface Badge {
+  key: string;
+  name: string;
+  description: string;
+  // Earned at this much reputation, or this many accepted answers
+  minReputation?: number;
+  minAcceptedAnswers?: number;
+  className: string;
+}
+
+export const BADGES: Badge[] = [
+  { key: 'contributor', name: 'Contributor', description: 'Earned 10 reputation', minReputation: 10, className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  { key: 'helper', name: 'Helper', description: 'Earned 100 reputation', minReputation: 100, className: 'bg-slate-100 text-slate-800 border-slate-200' },
+  { key: 'expert', name: 'Expert', description: 'Earned 1,000 reputation', minReputation: 1000, className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  { key: 'solver', name: 'Problem Solver', description: 'Had an answer accepted', minAcceptedAnswers: 1, className: 'bg-green-100 text-green-800 border-green-200' },
+  { key: 'guru', name: 'Guru', description: 'Had 10 answers accepted', minAcceptedAnswers: 10, className: 'bg-blue-100 text-blue-800 border-blue-200' }
+];
+
+// Accepted answers are only counted where they're known (profile pages);
+// elsewhere only reputation badges show
+export const earnedBadges = (reputation: number | null, acceptedAnswers?: number) =>
+  BADGES.filter((badge) =>
+    badge.minReputation !== undefined
+      ? (reputation ?? 0) >= badge.minReputation
+      : acceptedAnswers !== undefined && acceptedAnswers >= (badge.minAcceptedAnswers ?? 0)
+  );
+
+export const hasPrivilege = (
+  privileges: ReputationPrivilege[],
+  key: string,
+  profile: { role: string; reputation: number | null } | null
+) => {
+  if (!profile) return false;
+  if (profile.role === 'agent' || profile.role === 'admin') return true;
+  // Locked until the thresholds have loaded
+  const privilege = privileges.find((item) => item.key === key);
+  return !!privilege && (profile.reputation ?? 0) >= privilege.min_reputation;
+};
@@ -0,0 +1,145 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Ticket } from '@/hooks/useTicket';
+import { STATUS_KEY } from './ticketStatuses';
+
+export type TicketStatus = Ticket['status'];
+export type TicketPriority = Ticket['priority'];
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Server-side ticket filters. Assignee accepts a profile id or the tokens
+// "me" and "none", resolved against the viewer when the query is built.
+export interface TicketFilters {
+  search?: string; // search box query, see parseTicketQuery
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  categoryId?: string;
+  assignee?: string;
+  creator?: string;
+  createdFrom?: string; // YYYY-MM-DD, inclusive
+  createdTo?: string; // YYYY-MM-DD, inclusive
+}
+
+// Priority is a Postgres enum, which sorts in declaration order (low <
+// medium < high < urgent); status sorts in its configured workflow order
+// through the status_position computed column
+export const TICKET_SORTS = {
+  // Only meaningful while searching; otherwise behaves like "newest"
+  relevance: { label: 'Best match', column: 'created_at', ascending: false },
+  newest: { label: 'Newest first', column: 'created_at', ascending: false },
+  oldest: { label: 'Oldest first', column: 'created_at', ascending: true },
+  updated: { label: 'Last updated', column: 'updated_at', ascending: false },
+  priority: { label: 'Priority (urgent first)', column: 'priority', ascending: false },
+  status: { label: 'Status (workflow order)', column: 'status_position', ascending: true }
+} as const;
+
+export type TicketSort = keyof typeof TICKET_SORTS;
+
+export const DEFAULT_TICKET_SORT: TicketSort = 'newest';
+export const TICKET_PAGE_SIZE = 24;
+
+// URL search param for each filter
+const FILTER_PARAMS: Record<keyof TicketFilters, string> = {
+  search: 'q',
+  status: 'status',
+  priority: 'priority',
+  categoryId: 'category',
+  assignee: 'assignee',
+  creator: 'creator',
+  createdFrom: 'from',
+  createdTo: 'to'
+};
+
+export const parseTicketFilters = (params: URLSearchParams): TicketFilters => {
+  const filters: TicketFilters = {};
+  (Object.keys(FILTER_PARAMS) as (keyof TicketFilters)[]).forEach((key) => {
+    const value = params.get(FILTER_PARAMS[key]);
+    if (value) (filters as Record<string, string>)[key] = value;
+  });
+
+  if (filters.status && !STATUS_KEY.test(filters.status)) delete filters.status;
+  if (filters.priority && !TICKET_PRIORITIES.includes(filters.priority)) delete filters.priority;
+  return filters;
+};
+
+// Writes the filters into a copy of `params`, leaving unrelated params alone
+export const writeTicketFilters = (params: URLSearchParams, filters: TicketFilters) => {
+  const next = new URLSearchParams(params);
+  (Object.keys(FILTER_PARAMS) as (keyof TicketFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value) next.set(FILTER_PARAMS[key], value);
+    else next.delete(FILTER_PARAMS[key]);
+  });
+  return next;
+};
+
+// Searches default to best match, everything else to `fallback`
+export const parseTicketSort = (params: URLSearchParams, fallback: TicketSort = DEFAULT_TICKET_SORT): TicketSort => {
+  const sort = params.get('sort');
+  if (sort && sort in TICKET_SORTS) return sort as TicketSort;
+  return params.get(FILTER_PARAMS.search) ? 'relevance' : fallback;
+};
+
+export const hasTicketFilters = (filters: TicketFilters) =>
+  Object.values(filters).some((value) => !!value);
+
+// Local calendar day boundaries as ISO instants
+export const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+export const endOfDayExclusive = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+// A tickets query with the field filters applied. The search text is not
+// handled here: searches go through searchTickets and the search_tickets RPC.
+// RLS still decides visibility; callers add ordering and ranges.
+export const queryTickets = (
+  filters: TicketFilters,
+  viewerId: string,
+  columns: string,
+  options?: { count?: 'exact'; head?: boolean }
+) => {
+  let query = supabase.from('tickets').select(columns, options);
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.priority) query = query.eq('priority', filters.priority);
+  if (filters.categoryId) query = query.eq('category_id', filters.categoryId);
+
+  if (filters.assignee === 'none') query = query.is('assigned_to', null);
+  else if (filters.assignee === 'me') query = query.eq('assigned_to', viewerId);
+  else if (filters.assignee) query = query.eq('assigned_to', filters.assignee);
+
+  if (filters.creator === 'me') query = query.eq('created_by', viewerId);
+  else if (filters.creator) query = query.eq('created_by', filters.creator);
+
+  if (filters.createdFrom) query = query.gte('created_at', startOfDay(filters.createdFrom));
+  if (filters.createdTo) query = query.lt('created_at', endOfDayExclusive(filters.createdTo));
+
+  return query;
+};
+
+// Whether a ticket row (e.g. from a Realtime payload) passes the filters.
+// Search is left to the server, so rows only count as matching without one.
+export const ticketMatchesFilters = (
+  row: { status: string; priority: string; category_id: string | null; assigned_to: string | null; created_by: string; created_at: string | null },
+  filters: TicketFilters,
+  viewerId: string
+) => {
+  if (filters.search?.trim()) return false;
+  if (filters.status && row.status !== filters.status) return false;
+  if (filters.priority && row.priority !== filters.priority) return false;
+  if (filters.categoryId && row.category_id !== filters.categoryId) return false;
+
+  const assignee = filters.assignee === 'me' ? viewerId : filters.assignee;
+  if (assignee === 'none' ? row.assigned_to !== null : assignee && row.assigned_to !== assignee) return false;
+
+  const creator = filters.creator === 'me' ? viewerId : filters.creator;
+  if (creator && row.created_by !== creator) return false;
+
+  const createdAt = row.created_at ? new Date(row.created_at).toISOString() : new Date().toISOString();
+  if (filters.createdFrom && createdAt < startOfDay(filters.createdFrom)) return false;
+  if (filters.createdTo && createdAt >= endOfDayExclusive(filters.createdTo)) return false;
+
+  return true;
+};
@@ -0,0 +1,185 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  TicketFilters,
+  TicketPriority,
+  TicketSort,
+  TicketStatus,
+  TICKET_PRIORITIES,
+  endOfDayExclusive,
+  startOfDay
+} from './ticketFilters';
+import { STATUS_KEY } from './ticketStatuses';
+
+// A search box query split into full-text terms and field operators, e.g.
+//   status:open priority:urgent assignee:me category:"Billing"
+//   created:>2026-01-01 "exact phrase" refund
+export interface ParsedTicketQuery {
+  // Free text in websearch_to_tsquery syntax (words, "phrases", OR, -word)
+  text: string;
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  category?: string; // category name, matched case-insensitively
+  assignee?: string; // "me", "none", or a username / full name
+  creator?: string; // "me", or a username / full name
+  createdFrom?: string; // YYYY-MM-DD, inclusive
+  createdTo?: string; // YYYY-MM-DD, inclusive
+  errors: string[];
+}
+
+const TOKEN = /(-?)([a-z_]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const FIELD_ALIASES: Record<string, keyof Omit<ParsedTicketQuery, 'text' | 'errors'> | 'created'> = {
+  status: 'status',
+  priority: 'priority',
+  category: 'category',
+  assignee: 'assignee',
+  assigned: 'assignee',
+  creator: 'creator',
+  requester: 'creator',
+  created: 'created'
+};
+
+const isValidDate = (value: string) => DATE.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+const shiftDate = (value: string, days: number) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// created:2026-01-01, created:>2026-01-01, created:<=2026-01-31,
+// created:2026-01-01..2026-01-31
+const parseCreated = (value: string, parsed: ParsedTicketQuery) => {
+  const range = value.split('..');
+  if (range.length === 2 && isValidDate(range[0]) && isValidDate(range[1])) {
+    parsed.createdFrom = range[0];
+    parsed.createdTo = range[1];
+    return;
+  }
+
+  const match = value.match(/^(>=|<=|>|<)?(.+)$/);
+  const operator = match?.[1];
+  const date = match?.[2] ?? '';
+  if (!isValidDate(date)) {
+    parsed.errors.push(`"${value}" is not a date; use YYYY-MM-DD`);
+    return;
+  }
+
+  if (operator === '>') parsed.createdFrom = shiftDate(date, 1);
+  else if (operator === '>=') parsed.createdFrom = date;
+  else if (operator === '<') parsed.createdTo = shiftDate(date, -1);
+  else if (operator === '<=') parsed.createdTo = date;
+  else {
+    parsed.createdFrom = date;
+    parsed.createdTo = date;
+  }
+};
+
+export const parseTicketQuery = (input: string): ParsedTicketQuery => {
+  const parsed: ParsedTicketQuery = { text: '', errors: [] };
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [token, negated, rawField, quotedValue, bareValue, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) text.push(`"${phrase.trim()}"`);
+      continue;
+    }
+    if (word !== undefined) {
+      text.push(word);
+      continue;
+    }
+
+    const field = FIELD_ALIASES[rawField.toLowerCase()];
+    const value = (quotedValue ?? bareValue ?? '').trim();
+
+    // Unknown operators (e.g. "re:invoice") are ordinary search text
+    if (!field) {
+      text.push(token);
+      continue;
+    }
+    if (negated) {
+      parsed.errors.push(`Excluding by ${rawField} isn't supported`);
+      continue;
+    }
+    if (!value) {
+      parsed.errors.push(`${rawField}: needs a value`);
+      continue;
+    }
+
+    if (field === 'status') {
+      // Configured status keys; names like "in progress" map onto them
+      const status = value.toLowerCase().replace(/[-\s]/g, '_') as TicketStatus;
+      if (STATUS_KEY.test(status)) parsed.status = status;
+      else parsed.errors.push(`Unknown status "${value}"`);
+    } else if (field === 'priority') {
+      const priority = value.toLowerCase() as TicketPriority;
+      if (TICKET_PRIORITIES.includes(priority)) parsed.priority = priority;
+      else parsed.errors.push(`Unknown priority "${value}"`);
+    } else if (field === 'created') {
+      parseCreated(value, parsed);
+    } else {
+      parsed[field] = value;
+    }
+  }
+
+  parsed.text = text.join(' ');
+  return parsed;
+};
+
+export interface TicketSearchResult {
+  ticketIds: string[];
+  highlights: Record<string, { title: string; snippet: string | null }>;
+  totalCount: number;
+  errors: string[];
+}
+
+// Runs the search_tickets RPC. Operators typed in the search box refine the
+// filter bar, except for filters the surrounding view has locked.
+export const searchTickets = async (
+  filters: TicketFilters,
+  lockedKeys: (keyof TicketFilters)[],
+  sort: TicketSort,
+  limit: number,
+  offset: number
+): Promise<TicketSearchResult> => {
+  const parsed = parseTicketQuery(filters.search || '');
+  const pick = <K extends 'status' | 'priority' | 'assignee' | 'creator' | 'createdFrom' | 'createdTo'>(key: K) =>
+    lockedKeys.includes(key) ? filters[key] : parsed[key] ?? filters[key];
+
+  // A category: operator replaces the filter bar's category unless it's locked
+  const category = lockedKeys.includes('categoryId') ? undefined : parsed.category;
+  const createdFrom = pick('createdFrom');
+  const createdTo = pick('createdTo');
+
+  const { data, error } = await supabase.rpc('search_tickets', {
+    _text: parsed.text || undefined,
+    _status: pick('status'),
+    _priority: pick('priority'),
+    _category_id: category ? undefined : filters.categoryId,
+    _category_name: category,
+    _assignee: pick('assignee'),
+    _creator: pick('creator'),
+    _created_from: createdFrom ? startOfDay(createdFrom) : undefined,
+    _created_before: createdTo ? endOfDayExclusive(createdTo) : undefined,
+    _sort: sort,
+    _limit: limit,
+    _offset: offset
+  });
+
+  if (error) throw error;
+
+  const highlights: TicketSearchResult['highlights'] = {};
+  (data || []).forEach((row) => {
+    highlights[row.ticket_id] = { title: row.title_highlight, snippet: row.snippet };
+  });
+
+  return {
+    ticketIds: (data || []).map((row) => row.ticket_id),
+    highlights,
+    totalCount: data?.[0]?.total_count ?? 0,
+    errors: parsed.errors
+  };
+};
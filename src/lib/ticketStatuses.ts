@@ -0,0 +1,69 @@
+// Ticket statuses are configured by admins (public.ticket_statuses). Each
+// belongs to a category, which is what the rest of the system reasons about.
+
+export type StatusCategory = 'new' | 'open' | 'pending' | 'solved' | 'closed';
+
+export const STATUS_CATEGORIES: Record<StatusCategory, string> = {
+  new: 'New',
+  open: 'Open',
+  pending: 'Pending',
+  solved: 'Solved',
+  closed: 'Closed'
+};
+
+// Categories that count towards an agent's workload; pending tickets are
+// waiting on the requester
+export const ACTIVE_STATUS_CATEGORIES: StatusCategory[] = ['new', 'open'];
+
+export type StatusColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+// Badge classes per palette color; spelled out so Tailwind keeps them
+export const STATUS_COLORS: Record<StatusColor, string> = {
+  gray: 'bg-gray-100 text-gray-800 border-gray-200',
+  red: 'bg-red-100 text-red-800 border-red-200',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200',
+  yellow: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  green: 'bg-green-100 text-green-800 border-green-200',
+  blue: 'bg-blue-100 text-blue-800 border-blue-200',
+  purple: 'bg-purple-100 text-purple-800 border-purple-200'
+};
+
+export interface TicketStatusDefinition {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color: StatusColor;
+  position: number;
+  is_default: boolean;
+}
+
+export interface StatusTransition {
+  from_status: string;
+  to_status: string;
+}
+
+// Status keys are lowercase slugs, e.g. "in_progress"
+export const STATUS_KEY = /^[a-z][a-z0-9_]*$/;
+
+export const statusKeyFromName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+
+// Label for a status that isn't (or isn't yet) loaded
+export const humanizeStatus = (key: string) => key.replace(/_/g, ' ');
+
+export const statusBadgeClass = (status: TicketStatusDefinition | undefined) =>
+  STATUS_COLORS[status?.color ?? 'gray'] ?? STATUS_COLORS.gray;
+
+export const isReopenable = (status: TicketStatusDefinition | undefined) =>
+  status?.category === 'solved' || status?.category === 'closed';
+
+// Tickets per category, for rows fetched with
+// `status_info:ticket_statuses(category)`
+export const countByCategory = (tickets: { status_info: { category: string } | null }[]) => {
+  const counts: Record<StatusCategory, number> = { new: 0, open: 0, pending: 0, solved: 0, closed: 0 };
+  tickets.forEach((ticket) => {
+    const category = ticket.status_info?.category as StatusCategory | undefined;
+    if (category && category in counts) counts[category]++;
+  });
+  return counts;
+};
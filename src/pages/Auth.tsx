@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,11 +12,12 @@ const Auth = () => {
   const { user, signIn, signUp } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const location = useLocation();
 
-  // Redirect if already authenticated
-
+  // Redirect if already authenticated, back to the page that sent us here
+  const from = location.state?.from;
   if (user) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={from ? `${from.pathname}${from.search}` : '/dashboard'} replace />;
   }
   
 
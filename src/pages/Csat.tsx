@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CSAT_RATINGS, CsatRating } from '@/lib/csat';
+
+interface PublicSurvey {
+  ticket_title: string;
+  agent_name: string | null;
+  rating: CsatRating | null;
+  comment: string | null;
+}
+
+const isRating = (value: string | null): value is CsatRating => value === 'good' || value === 'bad';
+
+// Rating page for the emailed survey link. The token in the URL is the only
+// credential, so this works without signing in. The email's buttons link
+// here with ?rating=good|bad, which is recorded straight away.
+const Csat = () => {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const [survey, setSurvey] = useState<PublicSurvey | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [comment, setComment] = useState('');
+  const [commentSent, setCommentSent] = useState(false);
+
+  useEffect(() => {
+    if (token) load();
+  }, [token]);
+
+  const fetchSurvey = async () => {
+    const { data, error } = await supabase.rpc('get_csat_survey', { _token: token });
+    if (error) throw error;
+    const row = data?.[0];
+    return row ? { ...row, rating: row.rating as CsatRating | null } : null;
+  };
+
+  const load = async () => {
+    try {
+      let current = await fetchSurvey();
+      const clicked = searchParams.get('rating');
+      if (current && isRating(clicked) && current.rating !== clicked) {
+        const { error } = await supabase.rpc('submit_csat_rating', { _token: token, _rating: clicked });
+        if (error) throw error;
+        current = await fetchSurvey();
+      }
+      setSurvey(current);
+    } catch (error) {
+      console.error('Error loading satisfaction survey:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (rating: CsatRating, withComment?: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('submit_csat_rating', {
+        _token: token,
+        _rating: rating,
+        ...(withComment?.trim() ? { _comment: withComment.trim() } : {})
+      });
+
+      if (error) throw error;
+
+      if (withComment) setCommentSent(true);
+      setSurvey(await fetchSurvey());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save rating',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <p className="text-center text-muted-foreground">Loading...</p>;
+    }
+
+    if (!survey) {
+      return <p className="text-center text-muted-foreground">This survey link is invalid or has expired.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-center gap-2">
+          {(['good', 'bad'] as CsatRating[]).map((rating) => (
+            <Button
+              key={rating}
+              variant={survey.rating === rating ? 'default' : 'outline'}
+              disabled={saving}
+              onClick={() => submit(rating)}
+            >
+              {rating === 'good' ? <ThumbsUp className="h-4 w-4 mr-2" /> : <ThumbsDown className="h-4 w-4 mr-2" />}
+              {CSAT_RATINGS[rating]}
+            </Button>
+          ))}
+        </div>
+
+        {survey.rating && (
+          commentSent ? (
+            <p className="text-center text-sm text-muted-foreground">Thanks, your comment has been sent.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-center text-sm text-muted-foreground">
+                Thanks for your rating. Anything you'd like to add?
+              </p>
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder={survey.comment ? 'Replace your comment (optional)' : 'Tell us more (optional)'}
+                rows={3}
+              />
+              <Button
+                className="w-full"
+                variant="secondary"
+                disabled={saving || !comment.trim()}
+                onClick={() => submit(survey.rating as CsatRating, comment)}
+              >
+                Send comment
+              </Button>
+            </div>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-primary">QuickDesk</CardTitle>
+          <CardDescription>
+            {survey
+              ? `How did we do on "${survey.ticket_title}"${survey.agent_name ? `, handled by ${survey.agent_name}` : ''}?`
+              : 'Rate your support experience'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Csat;
@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { TagList } from '@/components/kb/TagList';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Check, Pencil, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useToast } from '@/hooks/use-toast';
+import { ARTICLE_STATUSES, KbArticle as Article, MAX_TAGS, parseTags } from '@/lib/kb';
+
+const KbArticle = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { profile } = useUserProfile();
+  const { toast } = useToast();
+  const [article, setArticle] = useState<Article | null>(null);
+  // Question the article's source answer belongs to
+  const [questionId, setQuestionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ title: '', content: '', tags: '' });
+  const [reviewNote, setReviewNote] = useState('');
+
+  const isStaff = profile?.role === 'agent' || profile?.role === 'admin';
+  // Admins review drafts written by someone else
+  const canReview = profile?.role === 'admin' && article?.status === 'pending_review' && article.author_id !== user?.id;
+
+  useEffect(() => {
+    fetchArticle();
+  }, [id]);
+
+  const fetchArticle = async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('kb_articles')
+        .select('*, source:answers(question_id)')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setArticle(data as Article | null);
+      setQuestionId(data?.source?.question_id ?? null);
+    } catch (error) {
+      console.error('Error fetching article:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!article) return;
+    setDraft({ title: article.title, content: article.content, tags: article.tags.join(', ') });
+    setEditing(true);
+  };
+
+  const run = async (action: () => Promise<void>, success: { title: string; description: string }, failure: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast(success);
+      await fetchArticle();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || failure,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Saving a rejected draft sends it back for review
+  const saveDraft = () =>
+    run(async () => {
+      const { error } = await supabase
+        .from('kb_articles')
+        .update({
+          title: draft.title.trim(),
+          content: draft.content.trim(),
+          tags: parseTags(draft.tags),
+          ...(article?.status === 'rejected' ? { status: 'pending_review' } : {})
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+      setEditing(false);
+    }, { title: 'Article Saved', description: 'Your changes have been saved.' }, 'Failed to save article');
+
+  const review = (approve: boolean) =>
+    run(async () => {
+      const { error } = await supabase.rpc('review_kb_article', {
+        _article_id: id,
+        _approve: approve,
+        ...(reviewNote.trim() ? { _note: reviewNote.trim() } : {})
+      });
+
+      if (error) throw error;
+      setReviewNote('');
+    }, approve
+      ? { title: 'Article Published', description: 'The article is now live in the knowledge base.' }
+      : { title: 'Article Rejected', description: 'The author can revise and resubmit it.' },
+    'Failed to review article');
+
+  const back = (
+    <Button asChild variant="ghost" size="sm">
+      <Link to="/kb">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to knowledge base
+      </Link>
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-64" />
+          <Skeleton className="h-64" />
+        </div>
+      </Layout>
+    );
+  }
+
+  // RLS hides unpublished articles from non-staff
+  if (!article) {
+    return (
+      <Layout>
+        <div className="text-center py-16 space-y-4">
+          <h2 className="text-2xl font-bold">Article not found</h2>
+          {back}
+        </div>
+      </Layout>
+    );
+  }
+
+  const status = ARTICLE_STATUSES[article.status];
+
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-3xl">
+        <div className="space-y-2">
+          {back}
+          <div className="flex items-center gap-2">
+            <h2 className="text-3xl font-bold tracking-tight">{article.title}</h2>
+            {article.status !== 'published' && <Badge className={status.className}>{status.label}</Badge>}
+          </div>
+          {article.updated_at && (
+            <p className="text-muted-foreground">
+              Updated {new Date(article.updated_at).toLocaleDateString()}
+            </p>
+          )}
+          <TagList tags={article.tags} />
+        </div>
+
+        {isStaff && (article.source_ticket_id || article.review_note) && (
+          <Card>
+            <CardContent className="pt-6 space-y-1 text-sm">
+              {article.source_ticket_id && (
+                <p>
+                  Drafted from ticket{' '}
+                  <Link to={`/tickets/${article.source_ticket_id}`} className="underline">
+                    #{article.source_ticket_id.slice(-8)}
+                  </Link>
+                </p>
+              )}
+              {article.review_note && (
+                <p className="text-muted-foreground">Review note: {article.review_note}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {editing ? (
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="article-title">Title</Label>
+                <Input
+                  id="article-title"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="article-content">Content</Label>
+                <Textarea
+                  id="article-content"
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  rows={14}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="article-tags">Tags</Label>
+                <Input
+                  id="article-tags"
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Comma-separated, up to {MAX_TAGS}</p>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={saveDraft} disabled={saving || !draft.title.trim() || !draft.content.trim()}>
+                  {article.status === 'rejected' ? 'Save and Resubmit' : 'Save'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm whitespace-pre-wrap">{article.content}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {isStaff && !editing && (
+          <Button variant="outline" onClick={startEditing}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit Article
+          </Button>
+        )}
+
+        {canReview && !editing && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Review</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Check that the article reads well and that nothing identifies the customer before publishing it.
+              </p>
+              <Textarea
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder="Note for the author (optional)"
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button onClick={() => review(true)} disabled={saving}>
+                  <Check className="mr-2 h-4 w-4" />
+                  Approve and Publish
+                </Button>
+                <Button variant="outline" onClick={() => review(false)} disabled={saving}>
+                  <X className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {questionId && (
+          <p className="text-sm text-muted-foreground">
+            Based on an answer to a{' '}
+            <Link to={`/kb/questions/${questionId}`} className="underline">community question</Link>.
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default KbArticle;
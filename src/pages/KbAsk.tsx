@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_TAGS, parseTags } from '@/lib/kb';
+
+const KbAsk = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !title.trim()) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .insert({
+          title: title.trim(),
+          description: description.trim() || null,
+          tags: parseTags(tags),
+          user_id: user.id
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: 'Question Posted',
+        description: 'Your question is now visible in the knowledge base.'
+      });
+      navigate(`/kb/questions/${data.id}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to post question',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-2xl">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/kb">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to knowledge base
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold tracking-tight">Ask a Question</h2>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="question-title">Title *</Label>
+                <Input
+                  id="question-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="What do you want to know?"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="question-description">Details</Label>
+                <Textarea
+                  id="question-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What have you tried? What did you expect to happen?"
+                  rows={6}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="question-tags">Tags</Label>
+                <Input
+                  id="question-tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="e.g. password, login"
+                />
+                <p className="text-xs text-muted-foreground">Comma-separated, up to {MAX_TAGS}</p>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => navigate('/kb')}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || !title.trim()}>
+                  {saving ? 'Posting...' : 'Post Question'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default KbAsk;
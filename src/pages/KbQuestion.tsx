@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Layout } from '@/components/Layout';
+import { AnswerItem } from '@/components/kb/AnswerItem';
+import { TagList } from '@/components/kb/TagList';
+import { UserReputation } from '@/components/kb/UserReputation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Pencil } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useReputationPrivileges } from '@/hooks/useReputationPrivileges';
+import { useToast } from '@/hooks/use-toast';
+import { KbAnswer, KbQuestion as Question, MAX_TAGS, parseTags, sortAnswers } from '@/lib/kb';
+import { hasPrivilege } from '@/lib/reputation';
+
+const AUTHOR = '(id, full_name, username, reputation)';
+
+// A question with its answers, their votes and comment threads
+const KbQuestion = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { profile } = useUserProfile();
+  const { privileges } = useReputationPrivileges();
+  const { toast } = useToast();
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [answers, setAnswers] = useState<KbAnswer[]>([]);
+  // Promoted answers, by answer id
+  const [articles, setArticles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [answer, setAnswer] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ title: '', description: '', tags: '' });
+
+  const isStaff = profile?.role === 'agent' || profile?.role === 'admin';
+  const canEditPosts = hasPrivilege(privileges, 'edit_posts', profile);
+  const canDownvote = hasPrivilege(privileges, 'downvote', profile);
+
+  const fetchQuestion = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const [{ data: questionData, error: questionError }, { data: answerData, error: answerError }] = await Promise.all([
+        supabase
+          .from('questions')
+          .select(`id, title, description, tags, created_at, user_id, author:profiles!questions_user_id_fkey${AUTHOR}`)
+          .eq('id', id)
+          .maybeSingle(),
+        supabase
+          .from('answers')
+          .select(`
+            id, content, is_accepted, created_at, user_id,
+            author:profiles!answers_user_id_fkey${AUTHOR},
+            votes(user_id, vote_type),
+            comments(id, content, created_at, author:profiles!comments_user_id_fkey${AUTHOR})
+          `)
+          .eq('question_id', id)
+      ]);
+
+      if (questionError) throw questionError;
+      if (answerError) throw answerError;
+
+      const answerIds = (answerData || []).map((row) => row.id);
+      const { data: articleData } = answerIds.length
+        ? await supabase.from('kb_articles').select('id, source_answer_id').in('source_answer_id', answerIds)
+        : { data: [] };
+
+      setQuestion(questionData);
+      setAnswers(sortAnswers(answerData || []));
+      setArticles(Object.fromEntries((articleData || []).map((article) => [article.source_answer_id, article.id])));
+    } catch (error) {
+      console.error('Error fetching question:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchQuestion();
+  }, [fetchQuestion]);
+
+  const postAnswer = async () => {
+    if (!user || !id || !answer.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('answers')
+        .insert({ question_id: id, user_id: user.id, content: answer.trim() });
+
+      if (error) throw error;
+
+      setAnswer('');
+      fetchQuestion();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to post answer',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!question) return;
+    setDraft({
+      title: question.title,
+      description: question.description || '',
+      tags: (question.tags || []).join(', ')
+    });
+    setEditing(true);
+  };
+
+  const saveQuestion = async () => {
+    if (!id || !draft.title.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('questions')
+        .update({
+          title: draft.title.trim(),
+          description: draft.description.trim() || null,
+          tags: parseTags(draft.tags)
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setEditing(false);
+      fetchQuestion();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save question',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-64" />
+          <Skeleton className="h-48" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!question) {
+    return (
+      <Layout>
+        <div className="text-center py-16 space-y-4">
+          <h2 className="text-2xl font-bold">Question not found</h2>
+          <Button asChild variant="outline">
+            <Link to="/kb?tab=questions">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to knowledge base
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const canAccept = question.user_id === user?.id || isStaff;
+  const canEdit = (userId: string | null) => (!!user && userId === user.id) || canEditPosts;
+
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-3xl">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/kb?tab=questions">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to knowledge base
+            </Link>
+          </Button>
+          <div className="flex items-start justify-between gap-4">
+            <h2 className="text-3xl font-bold tracking-tight">{question.title}</h2>
+            {canEdit(question.user_id) && !editing && (
+              <Button variant="outline" size="sm" onClick={startEditing}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
+          </div>
+          <p className="text-muted-foreground">
+            Asked by <UserReputation author={question.author} />
+            {question.created_at && ` ${formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}`}
+          </p>
+          <TagList tags={question.tags} />
+        </div>
+
+        {editing && (
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-question-title">Title *</Label>
+                <Input
+                  id="edit-question-title"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-question-description">Details</Label>
+                <Textarea
+                  id="edit-question-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  rows={6}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-question-tags">Tags</Label>
+                <Input
+                  id="edit-question-tags"
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Comma separated, up to {MAX_TAGS}.</p>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={saveQuestion} disabled={saving || !draft.title.trim()}>
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+                <Button variant="outline" onClick={() => setEditing(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!editing && question.description && (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm whitespace-pre-wrap">{question.description}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium">
+            {answers.length} {answers.length === 1 ? 'Answer' : 'Answers'}
+          </h3>
+          {answers.map((item) => (
+            <AnswerItem
+              key={item.id}
+              answer={item}
+              questionTitle={question.title}
+              canAccept={canAccept}
+              isStaff={isStaff}
+              canEdit={canEdit(item.user_id)}
+              canDownvote={canDownvote}
+              articleId={articles[item.id]}
+              onChanged={fetchQuestion}
+            />
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Your Answer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Textarea
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              placeholder="Share what you know..."
+              rows={5}
+            />
+            <Button onClick={postAnswer} disabled={saving || !answer.trim()}>
+              {saving ? 'Posting...' : 'Post Answer'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default KbQuestion;
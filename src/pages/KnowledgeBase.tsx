@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { ArticleList } from '@/components/kb/ArticleList';
+import { QuestionList } from '@/components/kb/QuestionList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Plus, Search, X } from 'lucide-react';
+
+// Browse and search the knowledge base. The search text, tag and tab live in
+// the URL (?q=, ?tag=, ?tab=) so results can be linked to.
+const KnowledgeBase = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const tag = searchParams.get('tag') || undefined;
+  const tab = searchParams.get('tab') || 'articles';
+  const [search, setSearch] = useState(query);
+
+  const setParam = (key: string, value: string | undefined) => {
+    setSearchParams((params) => {
+      const next = new URLSearchParams(params);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      return next;
+    }, { replace: true });
+  };
+
+  useEffect(() => {
+    setSearch(query);
+  }, [query]);
+
+  // Debounce search so typing doesn't fire a query per keystroke
+  useEffect(() => {
+    if (search === query) return;
+    const timeout = setTimeout(() => setParam('q', search.trim() || undefined), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Knowledge Base</h2>
+            <p className="text-muted-foreground">Articles and answers from our team and community</p>
+          </div>
+          <Button asChild>
+            <Link to="/kb/ask">
+              <Plus className="mr-2 h-4 w-4" />
+              Ask a Question
+            </Link>
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by title..."
+              className="pl-8"
+            />
+          </div>
+          {tag && (
+            <Badge variant="secondary" className="gap-1">
+              {tag}
+              <button onClick={() => setParam('tag', undefined)} aria-label="Clear tag">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setParam('tab', value === 'articles' ? undefined : value)}>
+          <TabsList>
+            <TabsTrigger value="articles">Articles</TabsTrigger>
+            <TabsTrigger value="questions">Questions</TabsTrigger>
+          </TabsList>
+          <TabsContent value="articles">
+            <ArticleList search={query} tag={tag} />
+          </TabsContent>
+          <TabsContent value="questions">
+            <QuestionList search={query} tag={tag} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </Layout>
+  );
+};
+
+export default KnowledgeBase;
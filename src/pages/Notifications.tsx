@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { NotificationItem } from '@/components/notifications/NotificationItem';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, CheckCheck } from 'lucide-react';
+import { Notification, useNotifications } from '@/hooks/useNotifications';
+
+const PAGE_SIZE = 30;
+
+const Notifications = () => {
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const { notifications, unreadCount, hasMore, loading, markRead, markAllRead } = useNotifications({
+    limit,
+    unreadOnly: filter === 'unread'
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.is_read) markRead(notification.id);
+    if (notification.ticket_id) navigate(`/tickets/${notification.ticket_id}`);
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight">Notifications</h2>
+              <p className="text-muted-foreground">
+                {unreadCount === 0 ? 'No unread notifications' : `${unreadCount} unread`}
+              </p>
+            </div>
+            <Button variant="outline" onClick={markAllRead} disabled={unreadCount === 0}>
+              <CheckCheck className="mr-2 h-4 w-4" />
+              Mark all read
+            </Button>
+          </div>
+        </div>
+
+        <Tabs
+          value={filter}
+          onValueChange={(value) => {
+            setFilter(value as 'all' | 'unread');
+            setLimit(PAGE_SIZE);
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="unread">Unread</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Card>
+          <CardContent className="p-2">
+            {loading ? (
+              <div className="text-center py-4">Loading notifications...</div>
+            ) : notifications.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {filter === 'unread' ? "You're all caught up." : 'No notifications yet.'}
+              </div>
+            ) : (
+              <div className="divide-y">
+                {notifications.map((notification) => (
+                  <NotificationItem
+                    key={notification.id}
+                    notification={notification}
+                    onClick={openNotification}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {hasMore && (
+          <div className="text-center">
+            <Button variant="outline" onClick={() => setLimit((current) => current + PAGE_SIZE)}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Notifications;
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Layout } from '@/components/Layout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Lock, Unlock } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useReputationPrivileges } from '@/hooks/useReputationPrivileges';
+import { authorName } from '@/lib/kb';
+import { BADGES, REPUTATION_REASONS, ReputationEvent, earnedBadges, hasPrivilege } from '@/lib/reputation';
+import { cn } from '@/lib/utils';
+
+interface PublicProfile {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  role: string;
+  reputation: number | null;
+  created_at: string;
+}
+
+// A user's reputation, badges and privileges. The ledger behind the number
+// is only visible to the user themselves and to staff.
+const Profile = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { profile: viewer } = useUserProfile();
+  const { privileges } = useReputationPrivileges();
+  const [person, setPerson] = useState<PublicProfile | null>(null);
+  const [acceptedAnswers, setAcceptedAnswers] = useState(0);
+  const [events, setEvents] = useState<ReputationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const isStaff = viewer?.role === 'agent' || viewer?.role === 'admin';
+  const canSeeHistory = !!user && (user.id === id || isStaff);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchProfile = async () => {
+      setLoading(true);
+      try {
+        const [{ data: profileData, error: profileError }, { count }] = await Promise.all([
+          supabase
+            .from('profiles')
+            .select('id, full_name, username, role, reputation, created_at')
+            .eq('id', id)
+            .maybeSingle(),
+          supabase
+            .from('answers')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', id)
+            .eq('is_accepted', true)
+        ]);
+
+        if (profileError) throw profileError;
+
+        setPerson(profileData);
+        setAcceptedAnswers(count ?? 0);
+      } catch (error) {
+        console.error('Error fetching profile:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [id]);
+
+  useEffect(() => {
+    if (!id || !canSeeHistory) return;
+
+    const fetchHistory = async () => {
+      const { data, error } = await supabase
+        .from('reputation_events')
+        .select('id, amount, reason, source_type, question_id, reverses_id, note, created_at')
+        .eq('user_id', id)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) {
+        console.error('Error fetching reputation history:', error);
+        return;
+      }
+      setEvents((data || []) as ReputationEvent[]);
+    };
+
+    fetchHistory();
+  }, [id, canSeeHistory]);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-64" />
+          <Skeleton className="h-48" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!person) {
+    return (
+      <Layout>
+        <div className="text-center py-16 space-y-4">
+          <h2 className="text-2xl font-bold">User not found</h2>
+          <Button asChild variant="outline">
+            <Link to="/kb">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to knowledge base
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const earned = new Set(earnedBadges(person.reputation, acceptedAnswers).map((badge) => badge.key));
+
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-3xl">
+        <div className="space-y-1">
+          <h2 className="text-3xl font-bold tracking-tight">{authorName(person)}</h2>
+          <p className="text-muted-foreground">
+            <span className="capitalize">{person.role}</span> · Member since {format(new Date(person.created_at), 'MMM yyyy')}
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Reputation</CardDescription>
+              <CardTitle className="text-4xl">{person.reputation ?? 0}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Accepted answers</CardDescription>
+              <CardTitle className="text-4xl">{acceptedAnswers}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Badges</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {BADGES.map((badge) => (
+              <Badge
+                key={badge.key}
+                variant="outline"
+                className={cn(earned.has(badge.key) ? badge.className : 'opacity-40')}
+                title={badge.description}
+              >
+                {badge.name}
+              </Badge>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Privileges</CardTitle>
+            <CardDescription>Unlocked by earning reputation. Agents and admins have all of them.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {privileges.map((privilege) => {
+              const unlocked = hasPrivilege(privileges, privilege.key, person);
+              return (
+                <div key={privilege.key} className="flex items-start gap-3">
+                  {unlocked ? (
+                    <Unlock className="h-4 w-4 mt-0.5 text-green-600" />
+                  ) : (
+                    <Lock className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                  )}
+                  <div className="flex-1">
+                    <p className={cn('text-sm font-medium', !unlocked && 'text-muted-foreground')}>{privilege.name}</p>
+                    {privilege.description && <p className="text-xs text-muted-foreground">{privilege.description}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">{privilege.min_reputation} rep</span>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        {canSeeHistory && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Reputation History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {events.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reputation earned yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {event.created_at && format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}
+                        </TableCell>
+                        <TableCell>
+                          {event.question_id ? (
+                            <Link to={`/kb/questions/${event.question_id}`} className="hover:underline">
+                              {REPUTATION_REASONS[event.reason]}
+                            </Link>
+                          ) : (
+                            REPUTATION_REASONS[event.reason]
+                          )}
+                          {event.note && <p className="text-xs text-muted-foreground">{event.note}</p>}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            'text-right font-medium',
+                            event.amount > 0 && 'text-green-700',
+                            event.amount < 0 && 'text-red-700'
+                          )}
+                        >
+                          {event.amount > 0 ? `+${event.amount}` : event.amount}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Profile;
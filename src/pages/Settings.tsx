@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useToast } from '@/hooks/use-toast';
+import { MacroManager } from '@/components/admin/MacroManager';
+
+type EmailPreference = 'ticket_created' | 'agent_reply' | 'status_changed' | 'assignment' | 'csat_request';
+
+const EMAIL_OPTIONS: { key: EmailPreference; label: string; description: string; staffOnly?: boolean }[] = [
+  { key: 'ticket_created', label: 'Ticket received', description: 'A confirmation when you open a ticket' },
+  { key: 'agent_reply', label: 'Agent replies', description: 'When an agent replies to one of your tickets' },
+  { key: 'status_changed', label: 'Status changes', description: 'When one of your tickets is resolved, closed or reopened' },
+  { key: 'assignment', label: 'Assignments', description: 'When a ticket is assigned to you', staffOnly: true },
+  { key: 'csat_request', label: 'Satisfaction surveys', description: 'A request to rate how we solved your ticket' }
+];
+
+// No stored row means every email is on
+const ALL_ON: Record<EmailPreference, boolean> = {
+  ticket_created: true,
+  agent_reply: true,
+  status_changed: true,
+  assignment: true,
+  csat_request: true
+};
+
+const Settings = () => {
+  const { user } = useAuth();
+  const { profile } = useUserProfile();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState(ALL_ON);
+  const [loading, setLoading] = useState(true);
+  // Whether automatic assignment may pick this agent
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    fetchPreferences();
+    fetchAvailability();
+  }, [user]);
+
+  const fetchPreferences = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('email_preferences')
+        .select('ticket_created, agent_reply, status_changed, assignment, csat_request')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPreferences(data || ALL_ON);
+    } catch (error) {
+      console.error('Error fetching email preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAvailability = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('agent_availability')
+        .select('is_available')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setAvailable(data?.is_available ?? true);
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+    }
+  };
+
+  const updateAvailability = async (enabled: boolean) => {
+    setAvailable(enabled);
+
+    try {
+      const { error } = await supabase.rpc('set_my_availability', { _available: enabled });
+      if (error) throw error;
+    } catch (error) {
+      setAvailable(!enabled);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update availability',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const updatePreference = async (key: EmailPreference, enabled: boolean) => {
+    if (!user) return;
+
+    const previous = preferences;
+    const next = { ...preferences, [key]: enabled };
+    setPreferences(next);
+
+    try {
+      const { error } = await supabase
+        .from('email_preferences')
+        .upsert({ user_id: user.id, ...next });
+
+      if (error) throw error;
+    } catch (error) {
+      setPreferences(previous);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update email preferences',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const isStaff = profile?.role === 'agent' || profile?.role === 'admin';
+
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-2xl">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold tracking-tight">Settings</h2>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email notifications</CardTitle>
+            <CardDescription>Choose which emails QuickDesk sends to {user?.email}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="text-center py-4">Loading preferences...</div>
+            ) : (
+              EMAIL_OPTIONS.filter((option) => !option.staffOnly || isStaff).map((option) => (
+                <div key={option.key} className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`email-${option.key}`}>{option.label}</Label>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </div>
+                  <Switch
+                    id={`email-${option.key}`}
+                    checked={preferences[option.key]}
+                    onCheckedChange={(enabled) => updatePreference(option.key, enabled)}
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {isStaff && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Availability</CardTitle>
+              <CardDescription>New tickets are only assigned to you automatically while you are available</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="available">Available for new tickets</Label>
+                <Switch id="available" checked={available} onCheckedChange={updateAvailability} />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Personal macros; shared ones are managed in the admin dashboard */}
+        {isStaff && <MacroManager personalOnly />}
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,90 @@
+import { Link, useParams } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { TicketDetail } from '@/components/tickets/TicketDetail';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft } from 'lucide-react';
+import { useTicket } from '@/hooks/useTicket';
+import { useUserProfile } from '@/hooks/useUserProfile';
+
+const TicketPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile, loading: profileLoading } = useUserProfile();
+  const { ticket, loading, notFound, refetch } = useTicket(id);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading || profileLoading) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-64" />
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Skeleton className="h-64 lg:col-span-2" />
+            <Skeleton className="h-64" />
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  // RLS hides tickets the viewer can't access, so "missing" and "forbidden"
+  // are indistinguishable here on purpose
+  if (notFound || !ticket || !profile) {
+    return (
+      <Layout>
+        <div className="text-center py-16 space-y-4">
+          <h2 className="text-2xl font-bold">Ticket not found</h2>
+          <p className="text-muted-foreground">
+            This ticket does not exist or you do not have access to it.
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+          <div className="flex items-center gap-2">
+            <h2 className="text-3xl font-bold tracking-tight">{ticket.title}</h2>
+            <Badge variant="outline">#{ticket.id.slice(-8)}</Badge>
+          </div>
+          <p className="text-muted-foreground">
+            Created {formatDate(ticket.created_at)} by {ticket.creator?.full_name || ticket.creator?.username}
+          </p>
+        </div>
+
+        <TicketDetail
+          ticket={ticket}
+          userRole={profile.role}
+          onTicketUpdated={refetch}
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default TicketPage;
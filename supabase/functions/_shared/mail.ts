@@ -0,0 +1,25 @@
+// Email conventions shared by the outbound and inbound mail functions
+
+// Address part of "Name <address>"
+export const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// Replies to ticket emails go to a plus address carrying the ticket id:
+// support@example.com -> support+t-<ticket id>@example.com
+export const ticketReplyAddress = (replyTo: string, ticketId: string) => {
+  const [local, domain] = addressOf(replyTo).split('@');
+  return `${local}+t-${ticketId}@${domain}`;
+};
+
+// The ticket id from a plus address, or null
+export const parseTicketReplyAddress = (address: string) =>
+  addressOf(address).match(/\+t-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})@/i)?.[1].toLowerCase() ?? null;
+
+// Short ticket reference, the same one the app shows (#1a2b3c4d). Outbound
+// subjects carry it as "[QuickDesk #1a2b3c4d]".
+export const ticketRef = (ticketId: string) => `#${ticketId.slice(-8)}`;
+
+export const parseTicketRef = (subject: string) =>
+  subject.match(/\[QuickDesk #([0-9a-f]{8})\]/i)?.[1].toLowerCase() ?? null;
+
+// Replies are cut at this line when they come back in by email
+export const REPLY_MARKER = '-- Reply above this line to add a comment --';
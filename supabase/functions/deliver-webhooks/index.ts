@@ -0,0 +1,115 @@
+// Delivers webhook calls queued by automation rules (public.webhook_deliveries).
+//
+// Claims a batch of due deliveries and POSTs each payload as JSON. Any 2xx
+// response counts as delivered; anything else is retried with backoff.
+// Run it on a schedule, like send-email.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  provided by Supabase
+//   WEBHOOK_SECRET  optional; when set, each request carries an
+//                   X-QuickDesk-Signature header, "sha256=" followed by the
+//                   hex HMAC-SHA256 of the body
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+const TIMEOUT_MS = 10_000;
+
+interface WebhookDelivery {
+  id: string;
+  url: string;
+  payload: { event?: string; [key: string]: unknown };
+  attempts: number;
+}
+
+type Outcome = 'sent' | 'failed' | 'retry';
+
+const sign = async (secret: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const deliver = async (supabase: SupabaseClient, delivery: WebhookDelivery, secret?: string): Promise<Outcome> => {
+  const body = JSON.stringify(delivery.payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'QuickDesk-Webhooks',
+    'X-QuickDesk-Event': delivery.payload.event ?? 'unknown',
+    'X-QuickDesk-Delivery': delivery.id,
+  };
+  if (secret) headers['X-QuickDesk-Signature'] = `sha256=${await sign(secret, body)}`;
+
+  let responseStatus: number | null = null;
+  let failure: string;
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    // Drain the body so the connection is released
+    await response.body?.cancel();
+
+    if (response.ok) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          response_status: responseStatus,
+          last_error: null,
+        })
+        .eq('id', delivery.id);
+      return 'sent';
+    }
+    failure = `Unexpected response ${response.status} ${response.statusText}`.trim();
+  } catch (error) {
+    failure = (error as Error).message;
+  }
+
+  const giveUp = delivery.attempts >= MAX_ATTEMPTS;
+  // Back off 2, 4, 8, 16 minutes between attempts
+  const nextAttempt = new Date(Date.now() + 2 ** delivery.attempts * 60_000).toISOString();
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: giveUp ? 'failed' : 'pending',
+      next_attempt_at: nextAttempt,
+      response_status: responseStatus,
+      last_error: failure,
+    })
+    .eq('id', delivery.id);
+  return giveUp ? 'failed' : 'retry';
+};
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: deliveries, error } = await supabase.rpc('claim_webhook_deliveries', { _limit: BATCH_SIZE });
+  if (error) {
+    console.error('Error claiming webhook deliveries:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const secret = Deno.env.get('WEBHOOK_SECRET') || undefined;
+  const outcomes = await Promise.all(
+    (deliveries as WebhookDelivery[]).map((delivery) => deliver(supabase, delivery, secret))
+  );
+
+  const results: Record<Outcome, number> = { sent: 0, failed: 0, retry: 0 };
+  for (const outcome of outcomes) results[outcome] += 1;
+  return Response.json(results);
+});
@@ -0,0 +1,72 @@
+import { ParsedEmail } from './mime.ts';
+
+// Whether a message really comes from its From: address, going by the
+// Authentication-Results header (RFC 8601) our receiving mail server adds.
+// Anyone can write an Authentication-Results header into a message, so only
+// the topmost one from our own server's authserv-id counts.
+
+export interface SenderAuthentication {
+  authenticated: boolean;
+  reason: string;
+}
+
+interface AuthenticationResult {
+  method: string;
+  result: string;
+  props: Record<string, string>;
+}
+
+const domainOf = (value: string) => (value.split('@').pop() ?? '').trim().toLowerCase();
+
+// Relaxed alignment: the authenticated domain is the From: domain or a
+// parent or subdomain of it
+const aligned = (domain: string, fromDomain: string) =>
+  !!domain && (domain === fromDomain || fromDomain.endsWith(`.${domain}`) || domain.endsWith(`.${fromDomain}`));
+
+// "mx.example.com; dkim=pass header.d=example.org; spf=fail smtp.mailfrom=..."
+export const parseAuthenticationResults = (value: string) => {
+  const cleaned = value
+    .replace(/\([^)]*\)/g, ' ') // comments
+    .replace(/\breason="[^"]*"/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const [authserv, ...parts] = cleaned.split(';');
+
+  const results: AuthenticationResult[] = parts
+    .map((part) => {
+      const [methodResult = '', ...tokens] = part.trim().split(' ');
+      const [method = '', result = ''] = methodResult.toLowerCase().split('=');
+      const props: Record<string, string> = {};
+      for (const token of tokens) {
+        const index = token.indexOf('=');
+        if (index > 0) props[token.slice(0, index).toLowerCase()] = token.slice(index + 1).replace(/^"|"$/g, '').toLowerCase();
+      }
+      return { method, result, props };
+    })
+    .filter((item) => item.method && item.result);
+
+  return { authservId: authserv.trim().split(' ')[0].toLowerCase(), results };
+};
+
+export const authenticateSender = (email: ParsedEmail, authservId: string | undefined): SenderAuthentication => {
+  if (!email.from) return { authenticated: false, reason: 'No sender address' };
+  if (!authservId) return { authenticated: false, reason: 'INBOUND_AUTHSERV_ID is not set' };
+
+  const ours = (email.headers.get('authentication-results') ?? [])
+    .map(parseAuthenticationResults)
+    .find((header) => header.authservId === authservId.toLowerCase());
+  if (!ours) return { authenticated: false, reason: `No Authentication-Results from ${authservId}` };
+
+  const fromDomain = domainOf(email.from.address);
+  const passed = (method: string, ...props: string[]) =>
+    ours.results.some((item) =>
+      item.method === method && item.result === 'pass' && props.some((prop) => aligned(domainOf(item.props[prop] ?? ''), fromDomain))
+    );
+
+  if (passed('dmarc', 'header.from')) return { authenticated: true, reason: 'DMARC pass' };
+  if (passed('dkim', 'header.d', 'header.i')) return { authenticated: true, reason: 'DKIM pass' };
+  if (passed('spf', 'smtp.mailfrom')) return { authenticated: true, reason: 'SPF pass' };
+
+  const summary = ours.results.map((item) => `${item.method}=${item.result}`).join(' ');
+  return { authenticated: false, reason: summary ? `No aligned pass (${summary})` : 'No authentication results' };
+};
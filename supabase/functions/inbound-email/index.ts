@@ -0,0 +1,375 @@
+// Turns inbound email into tickets and comments.
+//
+// POST a raw RFC 822 message as the request body (most mail providers can
+// forward raw MIME to a webhook). New threads become tickets; replies are
+// matched to their ticket by the plus address our emails use as Reply-To,
+// then In-Reply-To/References, then the [QuickDesk #ref] subject tag, and
+// added as comments with the quoted original stripped. Attachments are
+// stored like uploads from the app. Every message is logged in
+// public.inbound_emails; a Message-ID that was already processed is skipped.
+//
+// Senders without an account get a placeholder requester: an auth user with
+// no password, who can claim the account later with a password reset.
+//
+// A From: address is easy to forge, so a message is only accepted when our
+// receiving mail server's Authentication-Results header shows an aligned
+// DMARC, DKIM or SPF pass for it (see authentication.ts). Anything else is
+// rejected and logged.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  provided by Supabase
+//   INBOUND_EMAIL_SECRET  required as "Authorization: Bearer <secret>"
+//   INBOUND_AUTHSERV_ID  the authserv-id our mail server writes in
+//     Authentication-Results (e.g. mx.quickdesk.example); required
+//   MAIL_FROM, MAIL_REPLY_TO  our own addresses, to avoid mail loops
+//
+// Try it locally with a fixture and INBOUND_AUTHSERV_ID=mx.quickdesk.example
+// (add ?dry_run=1 to see the parse without writing anything):
+//   curl -X POST --data-binary @supabase/functions/inbound-email/fixtures/new-ticket.eml \
+//     -H "Authorization: Bearer $INBOUND_EMAIL_SECRET" \
+//     http://localhost:54321/functions/v1/inbound-email
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+import { addressOf, parseTicketRef, parseTicketReplyAddress } from '../_shared/mail.ts';
+import { EmailAttachment, ParsedEmail, parseEmail } from './mime.ts';
+import { cleanSubject, stripQuotedText } from './quotes.ts';
+import { authenticateSender } from './authentication.ts';
+
+const ATTACHMENTS_BUCKET = 'ticket-attachments';
+// Keep in sync with the ticket_attachments checks and src/lib/attachments.ts
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+  'application/pdf', 'text/plain', 'text/csv', 'application/zip',
+];
+const TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'application/x-zip-compressed': 'application/zip',
+};
+
+type InboundStatus = 'ticket_created' | 'comment_added' | 'ignored' | 'rejected';
+
+interface InboundResult {
+  status: InboundStatus;
+  reason?: string;
+  senderId?: string;
+  ticketId?: string;
+  commentId?: string;
+  attachmentsStored?: number;
+  attachmentsSkipped?: number;
+}
+
+interface ThreadMatch {
+  ticketId: string;
+  via: 'reply_address' | 'message_id' | 'subject';
+}
+
+// Auto-replies, bulk mail and our own messages must not create tickets or
+// we end up in a loop with someone's vacation responder
+const ignoreReason = (email: ParsedEmail) => {
+  const autoSubmitted = email.headers.get('auto-submitted')?.[0]?.toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return `Auto-Submitted: ${autoSubmitted}`;
+
+  const precedence = email.headers.get('precedence')?.[0]?.toLowerCase();
+  if (precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return `Precedence: ${precedence}`;
+
+  if (email.headers.has('x-quickdesk-ticket')) return 'Sent by QuickDesk';
+
+  const ownAddresses = [Deno.env.get('MAIL_FROM'), Deno.env.get('MAIL_REPLY_TO')]
+    .filter((address): address is string => !!address)
+    .map((address) => addressOf(address).toLowerCase());
+  if (email.from && ownAddresses.includes(email.from.address)) return 'Sent from our own address';
+
+  return null;
+};
+
+const findThread = async (supabase: SupabaseClient, email: ParsedEmail): Promise<ThreadMatch | null> => {
+  // 1. Plus address from our Reply-To (survives clients that drop headers)
+  const recipients = [
+    ...email.to.map((mailbox) => mailbox.address),
+    ...email.cc.map((mailbox) => mailbox.address),
+    ...(email.headers.get('delivered-to') ?? []),
+    ...(email.headers.get('x-original-to') ?? []),
+  ];
+  for (const recipient of recipients) {
+    const ticketId = parseTicketReplyAddress(recipient);
+    if (!ticketId) continue;
+    const { data } = await supabase.from('tickets').select('id').eq('id', ticketId).maybeSingle();
+    if (data) return { ticketId: data.id, via: 'reply_address' };
+  }
+
+  // 2. In-Reply-To / References pointing at one of our emails or an earlier
+  // inbound message on the ticket
+  if (email.replyTo.length > 0) {
+    const [{ data: sent }, { data: received }] = await Promise.all([
+      supabase.from('email_messages').select('ticket_id, message_id').in('message_id', email.replyTo),
+      supabase.from('inbound_emails').select('ticket_id, message_id').in('message_id', email.replyTo),
+    ]);
+    const byMessageId = new Map(
+      [...(sent ?? []), ...(received ?? [])]
+        .filter((row) => row.ticket_id)
+        .map((row) => [row.message_id, row.ticket_id as string])
+    );
+    const ticketId = email.replyTo.map((id) => byMessageId.get(id)).find(Boolean);
+    if (ticketId) return { ticketId, via: 'message_id' };
+  }
+
+  // 3. [QuickDesk #ref] in the subject
+  const ref = parseTicketRef(email.subject);
+  if (ref) {
+    const { data } = await supabase.rpc('find_ticket_by_ref', { _ref: ref });
+    if (data) return { ticketId: data as string, via: 'subject' };
+  }
+
+  return null;
+};
+
+// The sender's profile, creating a placeholder requester if needed
+const resolveSender = async (supabase: SupabaseClient, email: ParsedEmail, createIfMissing: boolean) => {
+  const address = email.from?.address;
+  if (!address) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('email', address)
+    .maybeSingle();
+  if (profile || !createIfMissing) return profile;
+
+  const { data, error } = await supabase.auth.admin.createUser({
+    email: address,
+    email_confirm: true,
+    user_metadata: { full_name: email.from?.name ?? address.split('@')[0], placeholder: true },
+  });
+  if (error) throw error;
+
+  // handle_new_user creates the profile
+  return { id: data.user.id, role: 'user' };
+};
+
+// The service role bypasses the ban policies, so bans are checked here
+const isBanned = async (supabase: SupabaseClient, userId: string) => {
+  const { data } = await supabase.rpc('is_user_banned', { _user_id: userId });
+  return data === true;
+};
+
+const storeAttachments = async (
+  supabase: SupabaseClient,
+  attachments: EmailAttachment[],
+  { ticketId, commentId, userId }: { ticketId: string; commentId: string | null; userId: string }
+) => {
+  let stored = 0;
+  let skipped = 0;
+
+  for (const attachment of attachments) {
+    const mimeType = TYPE_ALIASES[attachment.contentType] ?? attachment.contentType;
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(mimeType) || attachment.content.length > MAX_ATTACHMENT_SIZE) {
+      skipped += 1;
+      continue;
+    }
+
+    const filePath = `${ticketId}/${crypto.randomUUID()}-${attachment.fileName.replace(/[^\w.-]+/g, '_')}`;
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(filePath, attachment.content, { contentType: mimeType });
+
+    if (uploadError) {
+      console.error(`Error storing attachment ${attachment.fileName}:`, uploadError);
+      skipped += 1;
+      continue;
+    }
+
+    const { error } = await supabase.from('ticket_attachments').insert({
+      ticket_id: ticketId,
+      comment_id: commentId,
+      uploaded_by: userId,
+      file_name: attachment.fileName,
+      file_path: filePath,
+      mime_type: mimeType,
+      size_bytes: attachment.content.length,
+    });
+
+    if (error) {
+      console.error(`Error recording attachment ${attachment.fileName}:`, error);
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([filePath]);
+      skipped += 1;
+    } else {
+      stored += 1;
+    }
+  }
+
+  return { stored, skipped };
+};
+
+const processEmail = async (supabase: SupabaseClient, email: ParsedEmail): Promise<InboundResult> => {
+  const ignored = ignoreReason(email);
+  if (ignored) return { status: 'ignored', reason: ignored };
+  if (!email.from) return { status: 'rejected', reason: 'No sender address' };
+
+  const authentication = authenticateSender(email, Deno.env.get('INBOUND_AUTHSERV_ID'));
+  if (!authentication.authenticated) {
+    return { status: 'rejected', reason: `Sender not authenticated: ${authentication.reason}` };
+  }
+
+  const thread = await findThread(supabase, email);
+
+  if (thread) {
+    const sender = await resolveSender(supabase, email, false);
+    const { data: ticket, error: ticketError } = await supabase
+      .from('tickets')
+      .select('id, created_by, status, status_info:ticket_statuses(category)')
+      .eq('id', thread.ticketId)
+      .single();
+    if (ticketError) throw ticketError;
+
+    // Only the requester and staff may add to a ticket by email
+    if (!sender || (sender.id !== ticket.created_by && !['agent', 'admin'].includes(sender.role))) {
+      return { status: 'rejected', reason: 'Sender is not part of this ticket', senderId: sender?.id, ticketId: ticket.id };
+    }
+
+    if (await isBanned(supabase, sender.id)) {
+      return { status: 'rejected', reason: 'Sender is banned', senderId: sender.id, ticketId: ticket.id };
+    }
+
+    const content = stripQuotedText(email.text);
+    if (!content && email.attachments.length === 0) {
+      return { status: 'rejected', reason: 'Empty reply', senderId: sender.id, ticketId: ticket.id };
+    }
+
+    const { data: comment, error } = await supabase
+      .from('ticket_comments')
+      .insert({ ticket_id: ticket.id, user_id: sender.id, content: content || '(attachments only)' })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    // A requester writing back reopens a solved ticket. Closed ones stay
+    // closed; the workflow only lets them back in through reopen_ticket.
+    if (sender.id === ticket.created_by && ticket.status_info?.category === 'solved') {
+      const { error: reopenError } = await supabase.rpc('reopen_ticket', { _ticket_id: ticket.id });
+      if (reopenError) console.error('Error reopening ticket:', reopenError);
+    }
+
+    const attachments = await storeAttachments(supabase, email.attachments, {
+      ticketId: ticket.id,
+      commentId: comment.id,
+      userId: sender.id,
+    });
+
+    return {
+      status: 'comment_added',
+      reason: `Matched by ${thread.via.replace('_', ' ')}`,
+      senderId: sender.id,
+      ticketId: ticket.id,
+      commentId: comment.id,
+      attachmentsStored: attachments.stored,
+      attachmentsSkipped: attachments.skipped,
+    };
+  }
+
+  const sender = await resolveSender(supabase, email, true);
+  if (!sender) return { status: 'rejected', reason: 'No sender address' };
+  if (await isBanned(supabase, sender.id)) return { status: 'rejected', reason: 'Sender is banned', senderId: sender.id };
+
+  const { data: ticket, error } = await supabase
+    .from('tickets')
+    .insert({
+      title: cleanSubject(email.subject).slice(0, 200) || '(no subject)',
+      description: email.text.trim() || '(no message text)',
+      created_by: sender.id,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const attachments = await storeAttachments(supabase, email.attachments, {
+    ticketId: ticket.id,
+    commentId: null,
+    userId: sender.id,
+  });
+
+  return {
+    status: 'ticket_created',
+    senderId: sender.id,
+    ticketId: ticket.id,
+    attachmentsStored: attachments.stored,
+    attachmentsSkipped: attachments.skipped,
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return Response.json({ error: 'POST a raw RFC 822 message' }, { status: 405 });
+  }
+
+  const secret = Deno.env.get('INBOUND_EMAIL_SECRET');
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const email = parseEmail(new Uint8Array(await req.arrayBuffer()));
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  if (new URL(req.url).searchParams.get('dry_run')) {
+    return Response.json({
+      messageId: email.messageId,
+      from: email.from,
+      subject: email.subject,
+      title: cleanSubject(email.subject),
+      replyTo: email.replyTo,
+      ignored: ignoreReason(email),
+      authentication: authenticateSender(email, Deno.env.get('INBOUND_AUTHSERV_ID')),
+      thread: await findThread(supabase, email),
+      text: email.text,
+      reply: stripQuotedText(email.text),
+      attachments: email.attachments.map(({ fileName, contentType, content }) => ({
+        fileName,
+        contentType,
+        size: content.length,
+      })),
+    });
+  }
+
+  if (email.messageId) {
+    const { data: existing } = await supabase
+      .from('inbound_emails')
+      .select('status, ticket_id, comment_id')
+      .eq('message_id', email.messageId)
+      .maybeSingle();
+    if (existing) return Response.json({ ...existing, duplicate: true });
+  }
+
+  let result: InboundResult;
+  try {
+    result = await processEmail(supabase, email);
+  } catch (error) {
+    console.error('Error processing inbound email:', error);
+    // Not logged, so the provider's retry gets a fresh attempt
+    return Response.json({ error: (error as Error).message }, { status: 500 });
+  }
+
+  const { error: logError } = await supabase.from('inbound_emails').insert({
+    message_id: email.messageId,
+    from_address: email.from?.address ?? 'unknown',
+    subject: email.subject,
+    status: result.status,
+    reason: result.reason ?? null,
+    sender_id: result.senderId ?? null,
+    ticket_id: result.ticketId ?? null,
+    comment_id: result.commentId ?? null,
+    attachments_stored: result.attachmentsStored ?? 0,
+    attachments_skipped: result.attachmentsSkipped ?? 0,
+  });
+  if (logError) console.error('Error logging inbound email:', logError);
+
+  return Response.json({
+    status: result.status,
+    reason: result.reason,
+    ticket_id: result.ticketId,
+    comment_id: result.commentId,
+    attachments: { stored: result.attachmentsStored ?? 0, skipped: result.attachmentsSkipped ?? 0 },
+  });
+});
@@ -0,0 +1,290 @@
+// A small RFC 5322 / MIME parser, enough for ticket email: headers with
+// encoded words, multipart bodies, base64 and quoted-printable, charsets and
+// attachment file names (including RFC 2231 parameters).
+
+export interface Mailbox {
+  name: string | null;
+  address: string;
+}
+
+export interface EmailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+  contentId: string | null;
+}
+
+export interface ParsedEmail {
+  headers: Map<string, string[]>;
+  messageId: string | null;
+  // Message-IDs this one replies to, In-Reply-To first, with angle brackets
+  replyTo: string[];
+  from: Mailbox | null;
+  to: Mailbox[];
+  cc: Mailbox[];
+  subject: string;
+  date: Date | null;
+  text: string;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string[]>;
+  // Raw body as a binary string (one char per byte)
+  body: string;
+}
+
+// Bytes <-> binary strings, so 8-bit bodies survive until their charset is known
+const toBinaryString = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+};
+
+const toBytes = (binary: string) => Uint8Array.from(binary, (char) => char.charCodeAt(0) & 0xff);
+
+const decodeCharset = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeBase64 = (text: string) => {
+  let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  // Restore padding; a lone trailing character can't be decoded
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  return atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '='));
+};
+
+const decodeQuotedPrintable = (text: string, underscoreIsSpace = false) =>
+  (underscoreIsSpace ? text.replace(/_/g, ' ') : text)
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// RFC 2047: =?charset?B|Q?text?= (whitespace between adjacent words is dropped)
+export const decodeEncodedWords = (value: string) =>
+  value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text, true);
+      // Language suffixes (RFC 2231) look like utf-8*en
+      return decodeCharset(toBytes(binary), charset.split('*')[0]);
+    });
+
+const parseHeaders = (block: string) => {
+  const headers = new Map<string, string[]>();
+  block
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const colon = line.indexOf(':');
+      if (colon <= 0) return;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+      headers.set(name, [...(headers.get(name) ?? []), value]);
+    });
+  return headers;
+};
+
+const splitPart = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return { headers: parseHeaders(raw), body: '' };
+  return {
+    headers: parseHeaders(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+};
+
+const header = (headers: Map<string, string[]>, name: string) => headers.get(name)?.[0] ?? null;
+
+// "text/plain; charset=utf-8; name*0*=..." -> value plus lower-cased params.
+// RFC 2231 continuations and charset-tagged values are reassembled.
+export const parseHeaderParams = (value: string) => {
+  const [main, ...rest] = value.match(/(?:[^;"]+|"(?:\\.|[^"\\])*")+/g) ?? [''];
+  const raw: Record<string, string> = {};
+  rest.forEach((param) => {
+    const eq = param.indexOf('=');
+    if (eq <= 0) return;
+    const name = param.slice(0, eq).trim().toLowerCase();
+    let paramValue = param.slice(eq + 1).trim();
+    if (paramValue.startsWith('"')) paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    raw[name] = paramValue;
+  });
+
+  const params: Record<string, string> = {};
+  const continued: Record<string, { index: number; value: string; encoded: boolean }[]> = {};
+  Object.entries(raw).forEach(([name, paramValue]) => {
+    const match = name.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+    if (!match) return;
+    const [, base, index, encoded] = match;
+    if (index === undefined && !encoded) {
+      params[base] = decodeEncodedWords(paramValue);
+      return;
+    }
+    (continued[base] ??= []).push({ index: Number(index ?? 0), value: paramValue, encoded: !!encoded });
+  });
+
+  Object.entries(continued).forEach(([base, pieces]) => {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const binary = pieces
+      .map((piece, i) => {
+        let pieceValue = piece.value;
+        if (piece.encoded && i === 0) {
+          const parts = pieceValue.split("'");
+          if (parts.length >= 3) {
+            charset = parts[0] || charset;
+            pieceValue = parts.slice(2).join("'");
+          }
+        }
+        return piece.encoded
+          ? pieceValue.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+          : pieceValue;
+      })
+      .join('');
+    params[base] = decodeCharset(toBytes(binary), charset);
+  });
+
+  return { value: main.trim().toLowerCase(), params };
+};
+
+const decodeBody = (part: MimePart) => {
+  const encoding = (header(part.headers, 'content-transfer-encoding') ?? '7bit').toLowerCase();
+  if (encoding === 'base64') return toBytes(decodeBase64(part.body));
+  if (encoding === 'quoted-printable') return toBytes(decodeQuotedPrintable(part.body));
+  return toBytes(part.body);
+};
+
+// Splits a mailbox list on commas outside quotes and angle brackets
+export const parseAddressList = (value: string | null): Mailbox[] => {
+  if (!value) return [];
+  const items: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of decodeEncodedWords(value)) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angle = true;
+    if (!quoted && char === '>') angle = false;
+    if (char === ',' && !quoted && !angle) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.flatMap((item) => {
+    const trimmed = item.trim();
+    if (!trimmed) return [];
+    const angled = trimmed.match(/^(.*)<([^>]+)>\s*$/);
+    if (angled) {
+      const name = angled[1].trim().replace(/^"(.*)"$/, '$1').trim();
+      return [{ name: name || null, address: angled[2].trim().toLowerCase() }];
+    }
+    // addr@example.com (Name)
+    const commented = trimmed.match(/^(\S+@\S+)\s*\((.*)\)$/);
+    if (commented) return [{ name: commented[2].trim() || null, address: commented[1].toLowerCase() }];
+    return trimmed.includes('@') ? [{ name: null, address: trimmed.toLowerCase() }] : [];
+  });
+};
+
+const messageIds = (value: string | null) => value?.match(/<[^<>\s]+>/g) ?? [];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Rough HTML to text for HTML-only messages
+export const htmlToText = (html: string) =>
+  html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+  'message/rfc822': 'eml',
+};
+
+export const parseEmail = (raw: Uint8Array | string): ParsedEmail => {
+  const root = splitPart(typeof raw === 'string' ? toBinaryString(new TextEncoder().encode(raw)) : toBinaryString(raw));
+  const result: ParsedEmail = {
+    headers: root.headers,
+    messageId: messageIds(header(root.headers, 'message-id'))[0] ?? null,
+    replyTo: [
+      ...messageIds(header(root.headers, 'in-reply-to')),
+      ...messageIds(header(root.headers, 'references')).reverse(),
+    ].filter((id, index, ids) => ids.indexOf(id) === index),
+    from: parseAddressList(header(root.headers, 'from'))[0] ?? null,
+    to: parseAddressList(root.headers.get('to')?.join(', ') ?? null),
+    cc: parseAddressList(root.headers.get('cc')?.join(', ') ?? null),
+    subject: decodeEncodedWords(header(root.headers, 'subject') ?? '').trim(),
+    date: null,
+    text: '',
+    html: null,
+    attachments: [],
+  };
+
+  const date = header(root.headers, 'date');
+  if (date && !Number.isNaN(Date.parse(date))) result.date = new Date(date);
+
+  let text: string | null = null;
+
+  const walk = (part: MimePart, depth: number) => {
+    const contentType = parseHeaderParams(header(part.headers, 'content-type') ?? 'text/plain');
+    const disposition = parseHeaderParams(header(part.headers, 'content-disposition') ?? '');
+    const fileName = disposition.params.filename ?? contentType.params.name ?? null;
+
+    if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < 10) {
+      const boundary = `--${contentType.params.boundary}`;
+      const sections = part.body.split(new RegExp(`\\r?\\n?${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*(?:\\r?\\n|$)`));
+      // Drop the preamble and the epilogue after the closing boundary
+      sections.slice(1, part.body.includes(`${boundary}--`) ? -1 : undefined).forEach((section) => {
+        walk(splitPart(section), depth + 1);
+      });
+      return;
+    }
+
+    const isBody = disposition.value !== 'attachment' && !fileName;
+    if (isBody && contentType.value === 'text/plain' && text === null) {
+      text = decodeCharset(decodeBody(part), contentType.params.charset);
+      return;
+    }
+    if (isBody && contentType.value === 'text/html' && result.html === null) {
+      result.html = decodeCharset(decodeBody(part), contentType.params.charset);
+      return;
+    }
+
+    const content = decodeBody(part);
+    if (content.length === 0) return;
+    result.attachments.push({
+      fileName: fileName || `attachment-${result.attachments.length + 1}.${EXTENSIONS[contentType.value] ?? 'bin'}`,
+      contentType: contentType.value,
+      content,
+      contentId: header(part.headers, 'content-id')?.replace(/^<|>$/g, '') ?? null,
+    });
+  };
+
+  walk(root, 0);
+  result.text = (text ?? (result.html ? htmlToText(result.html) : '')).replace(/\r\n/g, '\n');
+  return result;
+};
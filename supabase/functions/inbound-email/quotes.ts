@@ -0,0 +1,63 @@
+import { REPLY_MARKER } from '../_shared/mail.ts';
+
+// Lines that start the quoted original in common mail clients
+const QUOTE_HEADERS = [
+  /^On\s.+wrote:\s*$/i, // Gmail, Apple Mail, Thunderbird
+  /^Le\s.+a écrit\s?:\s*$/i,
+  /^Am\s.+schrieb.*:\s*$/i,
+  /^El\s.+escribió:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i, // Outlook (older)
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^_{20,}\s*$/, // Outlook separator before the From: block
+];
+
+// Outlook's "From: ... Sent: ... To: ... Subject: ..." block
+const isHeaderBlock = (lines: string[], index: number) =>
+  /^\*?From:\*?\s/i.test(lines[index]) &&
+  lines.slice(index + 1, index + 5).some((line) => /^\*?(Sent|Date):\*?\s/i.test(line));
+
+// Trailing lines that aren't part of the message
+const TRAILERS = [/^Sent from my \w+/i, /^Get Outlook for \w+/i];
+
+// Reduces an email reply to what the sender actually wrote: everything above
+// our reply marker or the quoted original, without "> " lines or signature.
+export const stripQuotedText = (text: string) => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let end = lines.length;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+
+    if (
+      line.includes(REPLY_MARKER) ||
+      QUOTE_HEADERS.some((pattern) => pattern.test(line)) ||
+      // "On <date>, <name>" wrapped onto two lines before "wrote:"
+      (/^On\s/i.test(line) && /wrote:\s*$/i.test(joined)) ||
+      isHeaderBlock(lines, i) ||
+      // Signature delimiter
+      lines[i] === '-- '
+    ) {
+      end = i;
+      break;
+    }
+  }
+
+  const kept = lines.slice(0, end);
+  // Drop trailing quoted lines, client trailers and blank lines
+  while (kept.length > 0) {
+    const last = kept[kept.length - 1].trim();
+    if (last === '' || last.startsWith('>') || TRAILERS.some((pattern) => pattern.test(last))) kept.pop();
+    else break;
+  }
+
+  return kept.join('\n').trim();
+};
+
+// "Re: Fwd: AW: Printer" -> "Printer", without our "[QuickDesk #ref]" tag
+export const cleanSubject = (subject: string) =>
+  subject
+    .replace(/\[QuickDesk #[0-9a-f]{8}\]/gi, '')
+    .replace(/^\s*((re|fwd?|aw|wg|sv|tr)\s*(\[\d+\])?\s*:\s*)+/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
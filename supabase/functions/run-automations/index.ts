@@ -0,0 +1,68 @@
+// Scheduler tick for time-based automation rules.
+//
+// Calls public.run_scheduled_automations, which checks every scheduled rule
+// against the open tickets and applies the ones that match. The tick is
+// idempotent, so it is safe to run as often as you like; every 5 minutes is
+// plenty. Use pg_cron (see the migration) or any cron hitting this URL with
+// "Authorization: Bearer <key>", where the key is the service role key or
+// AUTOMATION_CRON_SECRET. Anything else, the anon key included, gets a 401.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  provided by Supabase
+//   AUTOMATION_CRON_SECRET  optional; a bearer token for schedulers that
+//                           shouldn't hold the service role key
+//   AUTOMATION_FAKE_CLOCK  set to "true" to accept {"now": "<ISO time>"} in
+//                          the request body, for tests and staging only
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+
+const requestedNow = async (req: Request): Promise<string | undefined> => {
+  if (Deno.env.get('AUTOMATION_FAKE_CLOCK') !== 'true') return undefined;
+
+  const body = await req.json().catch(() => ({}));
+  if (typeof body?.now !== 'string') return undefined;
+
+  const now = new Date(body.now);
+  if (Number.isNaN(now.getTime())) throw new Error(`Invalid "now": ${body.now}`);
+  return now.toISOString();
+};
+
+const isAuthorized = (req: Request) => {
+  const tokens = [Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('AUTOMATION_CRON_SECRET')];
+  return tokens.some((token) => !!token && req.headers.get('Authorization') === `Bearer ${token}`);
+};
+
+Deno.serve(async (req) => {
+  // Checked before the body is read, so a faked "now" never gets past it
+  if (!isAuthorized(req)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  let now: string | undefined;
+  try {
+    now = await requestedNow(req);
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  const { data: runs, error } = await supabase.rpc('run_scheduled_automations', now ? { _now: now } : {});
+  if (error) {
+    console.error('Error running scheduled automations:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  for (const run of runs) {
+    console.log(`Rule "${run.rule_name}" ${run.status} on ticket ${run.ticket_id}`);
+  }
+
+  return Response.json({
+    now: now ?? new Date().toISOString(),
+    applied: runs.filter((run: { status: string }) => run.status === 'applied').length,
+    failed: runs.filter((run: { status: string }) => run.status === 'failed').length,
+    runs,
+  });
+});
@@ -0,0 +1,195 @@
+// Sends queued ticket emails (public.email_messages).
+//
+// Messages are queued by database triggers; this function claims a batch of
+// due messages, renders them and hands them to the configured transport,
+// then records the outcome on each row. Run it on a schedule (pg_cron +
+// pg_net, or any cron hitting the function URL) with
+// "Authorization: Bearer <key>", where the key is the service role key or
+// EMAIL_CRON_SECRET. Anything else, the anon key included, gets a 401.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  provided by Supabase
+//   EMAIL_CRON_SECRET  optional; a bearer token for schedulers that
+//                      shouldn't hold the service role key
+//   APP_URL        public URL of the app, for links
+//   MAIL_FROM      e.g. "QuickDesk <support@example.com>"
+//   MAIL_REPLY_TO  inbound address; replies go to a per-ticket plus address
+//   MAIL_TRANSPORT and its settings, see transport.ts
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+import { addressOf, ticketReplyAddress } from '../_shared/mail.ts';
+import { createTransportFromEnv, MailTransport } from './transport.ts';
+import { EmailTemplate, renderEmail } from './templates.ts';
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+
+interface EmailMessage {
+  id: string;
+  template: EmailTemplate;
+  recipient_id: string;
+  ticket_id: string | null;
+  payload: { actor_name?: string; comment_id?: string; old_status?: string; new_status?: string; csat_survey_id?: string };
+  attempts: number;
+}
+
+type Outcome = 'sent' | 'skipped' | 'failed' | 'retry';
+
+const displayName = (profile: { full_name: string | null; username: string | null; email: string | null }) =>
+  profile.full_name || profile.username || profile.email || 'there';
+
+const sendMessage = async (
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  message: EmailMessage
+): Promise<Outcome> => {
+  const skip = async (reason: string): Promise<Outcome> => {
+    await supabase
+      .from('email_messages')
+      .update({ status: 'skipped', last_error: reason })
+      .eq('id', message.id);
+    return 'skipped';
+  };
+
+  const [{ data: recipient }, { data: preferences }, { data: ticket }] = await Promise.all([
+    supabase.from('profiles').select('full_name, username, email').eq('id', message.recipient_id).maybeSingle(),
+    supabase.from('email_preferences').select('*').eq('user_id', message.recipient_id).maybeSingle(),
+    supabase.from('tickets').select('id, title, description, status').eq('id', message.ticket_id).maybeSingle(),
+  ]);
+
+  if (!recipient?.email) return skip('Recipient has no email address');
+  if (preferences && preferences[message.template] === false) return skip('Recipient opted out');
+  if (!ticket) return skip('Ticket no longer exists');
+
+  let comment;
+  if (message.template === 'agent_reply' && message.payload.comment_id) {
+    const { data } = await supabase
+      .from('ticket_comments')
+      .select('content, author:profiles!ticket_comments_user_id_fkey(full_name, username, email)')
+      .eq('id', message.payload.comment_id)
+      .maybeSingle();
+
+    if (!data) return skip('Comment no longer exists');
+    comment = { content: data.content, authorName: data.author ? displayName(data.author) : 'An agent' };
+  }
+
+  let csatToken: string | undefined;
+  if (message.template === 'csat_request') {
+    // The token is kept out of the queue, which admins can read
+    if (!message.payload.csat_survey_id) return skip('No survey to link to');
+    const { data } = await supabase
+      .from('csat_surveys')
+      .select('token')
+      .eq('id', message.payload.csat_survey_id)
+      .maybeSingle();
+
+    if (!data) return skip('Survey no longer exists');
+    csatToken = data.token;
+  }
+
+  let statusNames: Record<string, string> | undefined;
+  if (message.template === 'status_changed') {
+    const { data } = await supabase.from('ticket_statuses').select('key, name');
+    statusNames = Object.fromEntries((data ?? []).map((status) => [status.key, status.name]));
+  }
+
+  const from = Deno.env.get('MAIL_FROM') ?? 'QuickDesk <no-reply@localhost>';
+  const replyTo = Deno.env.get('MAIL_REPLY_TO');
+  const domain = addressOf(from).split('@')[1] ?? 'localhost';
+  const messageId = `<${message.id}@${domain}>`;
+
+  const rendered = renderEmail(message.template, {
+    appUrl: (Deno.env.get('APP_URL') ?? 'http://localhost:8080').replace(/\/$/, ''),
+    recipientName: displayName(recipient),
+    actorName: message.payload.actor_name ?? null,
+    ticket,
+    comment,
+    oldStatus: message.payload.old_status,
+    newStatus: message.payload.new_status,
+    statusNames,
+    csatToken,
+  });
+
+  try {
+    await transport.send({
+      from,
+      to: recipient.email,
+      replyTo: replyTo ? ticketReplyAddress(replyTo, ticket.id) : undefined,
+      ...rendered,
+      headers: {
+        'Message-ID': messageId,
+        // A shared root reference makes mail clients thread a ticket's emails
+        References: `<ticket-${ticket.id}@${domain}>`,
+        'X-QuickDesk-Ticket': ticket.id,
+        'Auto-Submitted': 'auto-generated',
+      },
+    });
+  } catch (error) {
+    const giveUp = message.attempts >= MAX_ATTEMPTS;
+    // Back off 2, 4, 8, 16 minutes between attempts
+    const nextAttempt = new Date(Date.now() + 2 ** message.attempts * 60_000).toISOString();
+
+    await supabase
+      .from('email_messages')
+      .update({
+        status: giveUp ? 'failed' : 'pending',
+        next_attempt_at: nextAttempt,
+        last_error: (error as Error).message,
+        to_address: recipient.email,
+        subject: rendered.subject,
+      })
+      .eq('id', message.id);
+    return giveUp ? 'failed' : 'retry';
+  }
+
+  await supabase
+    .from('email_messages')
+    .update({
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+      last_error: null,
+      to_address: recipient.email,
+      subject: rendered.subject,
+      message_id: messageId,
+    })
+    .eq('id', message.id);
+  return 'sent';
+};
+
+const isAuthorized = (req: Request) => {
+  const tokens = [Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('EMAIL_CRON_SECRET')];
+  return tokens.some((token) => !!token && req.headers.get('Authorization') === `Bearer ${token}`);
+};
+
+Deno.serve(async (req) => {
+  // Otherwise anyone could drain the queue early and skip the retry backoff
+  if (!isAuthorized(req)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: messages, error } = await supabase.rpc('claim_email_messages', { _limit: BATCH_SIZE });
+  if (error) {
+    console.error('Error claiming email messages:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const results: Record<Outcome, number> = { sent: 0, skipped: 0, failed: 0, retry: 0 };
+  if (messages.length === 0) return Response.json(results);
+
+  const transport = createTransportFromEnv();
+  try {
+    // One at a time: SMTP connections don't like being shared concurrently
+    for (const message of messages as EmailMessage[]) {
+      const outcome = await sendMessage(supabase, transport, message);
+      results[outcome] += 1;
+    }
+  } finally {
+    await transport.close?.();
+  }
+
+  return Response.json(results);
+});
@@ -0,0 +1,118 @@
+import { REPLY_MARKER, ticketRef } from '../_shared/mail.ts';
+
+export type EmailTemplate = 'ticket_created' | 'agent_reply' | 'status_changed' | 'assignment' | 'csat_request';
+
+export interface TemplateContext {
+  appUrl: string;
+  recipientName: string;
+  actorName: string | null;
+  ticket: { id: string; title: string; description: string; status: string };
+  // agent_reply only
+  comment?: { content: string; authorName: string };
+  // status_changed only
+  oldStatus?: string;
+  newStatus?: string;
+  // Configured status names by key
+  statusNames?: Record<string, string>;
+  // csat_request only
+  csatToken?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const statusLabel = (status: string, names: Record<string, string> = {}) => names[status] ?? status.replace(/_/g, ' ');
+
+interface Body {
+  subject: string;
+  intro: string;
+  // Quoted block under the intro (comment or description)
+  quote?: string;
+  // Buttons under the intro, e.g. the one-click survey ratings
+  links?: { label: string; url: string }[];
+  // Requesters can answer by email; assignment emails go to staff
+  replyable: boolean;
+}
+
+const bodies: Record<EmailTemplate, (context: TemplateContext) => Body> = {
+  ticket_created: ({ ticket }) => ({
+    subject: `We received your request: ${ticket.title}`,
+    intro: `Thanks for contacting us. Your ticket "${ticket.title}" has been created and our team will get back to you soon.`,
+    quote: ticket.description,
+    replyable: true,
+  }),
+  agent_reply: ({ ticket, comment }) => ({
+    subject: `New reply on: ${ticket.title}`,
+    intro: `${comment?.authorName ?? 'An agent'} replied to your ticket "${ticket.title}".`,
+    quote: comment?.content,
+    replyable: true,
+  }),
+  status_changed: ({ ticket, actorName, oldStatus, newStatus, statusNames }) => ({
+    subject: `Your ticket is now ${statusLabel(newStatus ?? ticket.status, statusNames)}: ${ticket.title}`,
+    intro: `${actorName ?? 'Our team'} changed the status of "${ticket.title}" from ${statusLabel(oldStatus ?? 'unknown', statusNames)} to ${statusLabel(newStatus ?? ticket.status, statusNames)}.`,
+    replyable: true,
+  }),
+  assignment: ({ ticket, actorName }) => ({
+    subject: `Assigned to you: ${ticket.title}`,
+    intro: `${actorName ?? 'QuickDesk'} assigned you the ticket "${ticket.title}".`,
+    quote: ticket.description,
+    replyable: false,
+  }),
+  csat_request: ({ appUrl, ticket, csatToken }) => {
+    const surveyUrl = `${appUrl}/csat/${csatToken}`;
+    return {
+      subject: `How did we do? ${ticket.title}`,
+      intro: `Your ticket "${ticket.title}" has been solved. Please let us know how we did; one click is enough.`,
+      links: [
+        { label: 'Good', url: `${surveyUrl}?rating=good` },
+        { label: 'Bad', url: `${surveyUrl}?rating=bad` },
+      ],
+      replyable: true,
+    };
+  },
+};
+
+export const renderEmail = (template: EmailTemplate, context: TemplateContext): RenderedEmail => {
+  const body = bodies[template](context);
+  const ticketUrl = `${context.appUrl}/tickets/${context.ticket.id}`;
+  const settingsUrl = `${context.appUrl}/settings`;
+  const subject = `[QuickDesk ${ticketRef(context.ticket.id)}] ${body.subject}`;
+
+  const text = [
+    ...(body.replyable ? [REPLY_MARKER, ''] : []),
+    `Hi ${context.recipientName},`,
+    '',
+    body.intro,
+    ...(body.quote ? ['', ...body.quote.split('\n').map((line) => `> ${line}`)] : []),
+    ...(body.links ? ['', ...body.links.map((link) => `${link.label}: ${link.url}`)] : []),
+    '',
+    `View the ticket: ${ticketUrl}`,
+    '',
+    '--',
+    `You can choose which emails you get at ${settingsUrl}`,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #111827; line-height: 1.5;">
+    ${body.replyable ? `<p style="color: #9ca3af; font-size: 12px;">${escapeHtml(REPLY_MARKER)}</p>` : ''}
+    <p>Hi ${escapeHtml(context.recipientName)},</p>
+    <p>${escapeHtml(body.intro)}</p>
+    ${body.quote ? `<blockquote style="margin: 0; padding: 8px 12px; border-left: 3px solid #e5e7eb; white-space: pre-wrap;">${escapeHtml(body.quote)}</blockquote>` : ''}
+    ${body.links ? `<p>${body.links.map((link) => `<a href="${escapeHtml(link.url)}" style="display: inline-block; margin-right: 8px; padding: 8px 14px; border: 1px solid #d1d5db; border-radius: 6px; color: #111827; text-decoration: none;">${escapeHtml(link.label)}</a>`).join('')}</p>` : ''}
+    <p><a href="${escapeHtml(ticketUrl)}">View ticket ${escapeHtml(ticketRef(context.ticket.id))}</a></p>
+    <p style="color: #6b7280; font-size: 12px;">
+      <a href="${escapeHtml(settingsUrl)}" style="color: #6b7280;">Choose which emails you get</a>
+    </p>
+  </body>
+</html>
+`;
+
+  return { subject, text, html };
+};
@@ -0,0 +1,134 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface OutgoingMail {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  // Extra headers such as Message-ID and In-Reply-To
+  headers: Record<string, string>;
+}
+
+// Anything that can deliver a rendered message. Implementations throw when
+// delivery fails; the caller records the error and retries later.
+export interface MailTransport {
+  send: (mail: OutgoingMail) => Promise<void>;
+  close?: () => Promise<void>;
+}
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+}
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => {
+  const client = new SMTPClient({
+    connection: {
+      hostname: config.hostname,
+      port: config.port,
+      tls: config.tls,
+      auth: config.username ? { username: config.username, password: config.password ?? '' } : undefined,
+    },
+  });
+
+  return {
+    send: async (mail) => {
+      await client.send({
+        from: mail.from,
+        to: mail.to,
+        replyTo: mail.replyTo,
+        subject: mail.subject,
+        content: mail.text,
+        html: mail.html,
+        headers: mail.headers,
+      });
+    },
+    close: () => client.close(),
+  };
+};
+
+const encodeBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  // 76-character lines, as MIME requires
+  return btoa(binary).replace(/.{76}(?=.)/g, '$&\r\n');
+};
+
+// Non-ASCII header values use RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}?=`;
+
+// Serializes a message as a multipart/alternative .eml file
+export const toEml = (mail: OutgoingMail, date = new Date()) => {
+  const boundary = `quickdesk-${crypto.randomUUID()}`;
+  const headers: Record<string, string> = {
+    From: mail.from,
+    To: mail.to,
+    ...(mail.replyTo ? { 'Reply-To': mail.replyTo } : {}),
+    Subject: encodeHeader(mail.subject),
+    Date: date.toUTCString(),
+    'MIME-Version': '1.0',
+    ...mail.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(mail.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(mail.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
+
+// Writes each message to `directory` as an .eml file instead of sending it.
+// Used locally and in tests; point an SMTP transport at a mail catcher such
+// as Mailpit to see rendered messages in a browser instead.
+export const createFileTransport = (directory: string): MailTransport => ({
+  send: async (mail) => {
+    await Deno.mkdir(directory, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+    await Deno.writeTextFile(`${directory}/${name}`, toEml(mail));
+  },
+});
+
+// Picks the transport from the environment:
+//   MAIL_TRANSPORT=smtp  SMTP_HOST, SMTP_PORT (587), SMTP_TLS, SMTP_USER, SMTP_PASSWORD
+//   MAIL_TRANSPORT=file  MAIL_OUTBOX_DIR (./outbox)
+export const createTransportFromEnv = (): MailTransport => {
+  const kind = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  if (kind === 'file') {
+    return createFileTransport(Deno.env.get('MAIL_OUTBOX_DIR') ?? './outbox');
+  }
+
+  if (kind === 'smtp') {
+    const hostname = Deno.env.get('SMTP_HOST');
+    if (!hostname) throw new Error('SMTP_HOST is not set');
+
+    return createSmtpTransport({
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+      tls: Deno.env.get('SMTP_TLS') === 'true',
+      username: Deno.env.get('SMTP_USER'),
+      password: Deno.env.get('SMTP_PASSWORD'),
+    });
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+};
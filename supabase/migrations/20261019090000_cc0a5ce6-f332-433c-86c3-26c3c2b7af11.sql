@@ -0,0 +1,101 @@
+-- Ticket and comment attachments
+
+-- Security definer helper mirroring the tickets SELECT policy, so other
+-- tables and storage can follow ticket visibility without repeating it
+CREATE OR REPLACE FUNCTION public.can_view_ticket(_ticket_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.tickets t
+        WHERE t.id = _ticket_id AND (
+            t.created_by = auth.uid() OR
+            t.assigned_to = auth.uid() OR
+            public.get_user_role(auth.uid()) IN ('agent', 'admin')
+        )
+    );
+$$;
+
+-- Create ticket_attachments table
+CREATE TABLE public.ticket_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+    comment_id UUID REFERENCES public.ticket_comments(id) ON DELETE CASCADE,
+    uploaded_by UUID REFERENCES public.profiles(id) NOT NULL,
+    file_name TEXT NOT NULL,
+    file_path TEXT NOT NULL UNIQUE,
+    mime_type TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Keep in sync with the bucket limits below and src/lib/attachments.ts
+    CONSTRAINT ticket_attachments_size_check CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+    CONSTRAINT ticket_attachments_mime_check CHECK (mime_type IN (
+        'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+        'application/pdf', 'text/plain', 'text/csv', 'application/zip'
+    ))
+);
+
+CREATE INDEX idx_ticket_attachments_ticket_id ON public.ticket_attachments(ticket_id);
+CREATE INDEX idx_ticket_attachments_comment_id ON public.ticket_attachments(comment_id);
+
+ALTER TABLE public.ticket_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ticket attachments
+CREATE POLICY "Users can view attachments on accessible tickets" ON public.ticket_attachments
+    FOR SELECT USING (public.can_view_ticket(ticket_id));
+
+CREATE POLICY "Users can add attachments to accessible tickets" ON public.ticket_attachments
+    FOR INSERT WITH CHECK (
+        uploaded_by = auth.uid() AND
+        public.can_view_ticket(ticket_id) AND
+        (comment_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.ticket_comments c
+            WHERE c.id = comment_id AND c.ticket_id = ticket_attachments.ticket_id
+        ))
+    );
+
+CREATE POLICY "Uploaders and admins can delete attachments" ON public.ticket_attachments
+    FOR DELETE USING (
+        uploaded_by = auth.uid() OR
+        public.get_user_role(auth.uid()) = 'admin'
+    );
+
+-- Private storage bucket; objects are stored as <ticket_id>/<uuid>-<file name>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'ticket-attachments',
+    'ticket-attachments',
+    false,
+    10485760,
+    ARRAY[
+        'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+        'application/pdf', 'text/plain', 'text/csv', 'application/zip'
+    ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies: uploads go under a ticket the user can see, and reads
+-- follow the visibility of the matching ticket_attachments row
+CREATE POLICY "Users can upload ticket attachments" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'ticket-attachments' AND
+        public.can_view_ticket(((storage.foldername(name))[1])::uuid)
+    );
+
+CREATE POLICY "Users can read ticket attachments" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'ticket-attachments' AND
+        EXISTS (
+            SELECT 1 FROM public.ticket_attachments a
+            WHERE a.file_path = name AND public.can_view_ticket(a.ticket_id)
+        )
+    );
+
+CREATE POLICY "Uploaders can delete ticket attachments" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'ticket-attachments' AND
+        owner = auth.uid()
+    );
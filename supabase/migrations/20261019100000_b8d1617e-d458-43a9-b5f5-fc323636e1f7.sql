@@ -0,0 +1,40 @@
+-- Internal notes: comments with is_internal = true are only visible to agents and admins
+
+UPDATE public.ticket_comments SET is_internal = false WHERE is_internal IS NULL;
+ALTER TABLE public.ticket_comments ALTER COLUMN is_internal SET NOT NULL;
+
+DROP POLICY IF EXISTS "Users can view comments on accessible tickets" ON public.ticket_comments;
+DROP POLICY IF EXISTS "Users can add comments to accessible tickets" ON public.ticket_comments;
+
+CREATE POLICY "Users can view comments on accessible tickets" ON public.ticket_comments
+    FOR SELECT USING (
+        public.can_view_ticket(ticket_id) AND (
+            is_internal = false OR
+            public.get_user_role(auth.uid()) IN ('agent', 'admin')
+        )
+    );
+
+CREATE POLICY "Users can add comments to accessible tickets" ON public.ticket_comments
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND
+        public.can_view_ticket(ticket_id) AND (
+            is_internal = false OR
+            public.get_user_role(auth.uid()) IN ('agent', 'admin')
+        )
+    );
+
+-- Attachments on internal notes are hidden the same way (storage reads go
+-- through this policy too)
+DROP POLICY IF EXISTS "Users can view attachments on accessible tickets" ON public.ticket_attachments;
+
+CREATE POLICY "Users can view attachments on accessible tickets" ON public.ticket_attachments
+    FOR SELECT USING (
+        public.can_view_ticket(ticket_id) AND (
+            comment_id IS NULL OR
+            public.get_user_role(auth.uid()) IN ('agent', 'admin') OR
+            NOT EXISTS (
+                SELECT 1 FROM public.ticket_comments c
+                WHERE c.id = comment_id AND c.is_internal
+            )
+        )
+    );
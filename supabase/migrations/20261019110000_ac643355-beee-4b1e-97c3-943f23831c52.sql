@@ -0,0 +1,146 @@
+-- Ticket activity history, filled by triggers so every change path is covered
+
+CREATE TABLE public.ticket_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+    -- NULL when the change was made by the system (service role, cron, etc.)
+    actor_id UUID REFERENCES public.profiles(id),
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'created',
+        'status_changed',
+        'priority_changed',
+        'assignee_changed',
+        'category_changed',
+        'title_changed',
+        'description_changed',
+        'comment_added'
+    )),
+    old_value TEXT,
+    new_value TEXT,
+    -- Display labels and extra context (e.g. assignee names, comment id)
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_internal BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ticket_events_ticket_id ON public.ticket_events(ticket_id, created_at);
+
+ALTER TABLE public.ticket_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written only by the triggers below, so there is no INSERT policy
+CREATE POLICY "Users can view events on accessible tickets" ON public.ticket_events
+    FOR SELECT USING (
+        public.can_view_ticket(ticket_id) AND (
+            is_internal = false OR
+            public.get_user_role(auth.uid()) IN ('agent', 'admin')
+        )
+    );
+
+-- Display name for a profile, used in event labels
+CREATE OR REPLACE FUNCTION public.profile_display_name(_profile_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(full_name, username, email) FROM public.profiles WHERE id = _profile_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_ticket_event(
+    _ticket_id UUID,
+    _event_type TEXT,
+    _old_value TEXT DEFAULT NULL,
+    _new_value TEXT DEFAULT NULL,
+    _metadata JSONB DEFAULT '{}'::jsonb,
+    _is_internal BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value, metadata, is_internal)
+    VALUES (_ticket_id, auth.uid(), _event_type, _old_value, _new_value, _metadata, _is_internal);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_ticket_event(UUID, TEXT, TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.track_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.log_ticket_event(NEW.id, 'created', NULL, NEW.status::text);
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        PERFORM public.log_ticket_event(NEW.id, 'status_changed', OLD.status::text, NEW.status::text);
+    END IF;
+
+    IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+        PERFORM public.log_ticket_event(NEW.id, 'priority_changed', OLD.priority::text, NEW.priority::text);
+    END IF;
+
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+        PERFORM public.log_ticket_event(
+            NEW.id, 'assignee_changed', OLD.assigned_to::text, NEW.assigned_to::text,
+            jsonb_build_object(
+                'old_label', public.profile_display_name(OLD.assigned_to),
+                'new_label', public.profile_display_name(NEW.assigned_to)
+            )
+        );
+    END IF;
+
+    IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        PERFORM public.log_ticket_event(
+            NEW.id, 'category_changed', OLD.category_id::text, NEW.category_id::text,
+            jsonb_build_object(
+                'old_label', (SELECT name FROM public.categories WHERE id = OLD.category_id),
+                'new_label', (SELECT name FROM public.categories WHERE id = NEW.category_id)
+            )
+        );
+    END IF;
+
+    IF NEW.title IS DISTINCT FROM OLD.title THEN
+        PERFORM public.log_ticket_event(NEW.id, 'title_changed', OLD.title, NEW.title);
+    END IF;
+
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+        PERFORM public.log_ticket_event(NEW.id, 'description_changed', OLD.description, NEW.description);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_ticket_comments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.log_ticket_event(
+        NEW.ticket_id, 'comment_added', NULL, NULL,
+        jsonb_build_object('comment_id', NEW.id),
+        NEW.is_internal
+    );
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_ticket_insert AFTER INSERT ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.track_ticket_changes();
+
+CREATE TRIGGER track_ticket_update AFTER UPDATE ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.track_ticket_changes();
+
+CREATE TRIGGER track_ticket_comment_insert AFTER INSERT ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.track_ticket_comments();
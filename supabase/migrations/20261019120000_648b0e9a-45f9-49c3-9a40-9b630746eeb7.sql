@@ -0,0 +1,218 @@
+-- SLA policies with first-response and resolution targets
+
+CREATE TABLE public.sla_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- NULL priority / category means "any"; the most specific match wins
+    priority ticket_priority,
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    first_response_minutes INTEGER NOT NULL CHECK (first_response_minutes > 0),
+    resolution_minutes INTEGER NOT NULL CHECK (resolution_minutes > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT sla_policies_target_order CHECK (first_response_minutes <= resolution_minutes)
+);
+
+-- At most one active policy per (priority, category) combination
+CREATE UNIQUE INDEX idx_sla_policies_scope ON public.sla_policies (
+    COALESCE(priority::text, '*'),
+    COALESCE(category_id::text, '*')
+) WHERE is_active;
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view SLA policies" ON public.sla_policies
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage SLA policies" ON public.sla_policies
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_sla_policies_updated_at BEFORE UPDATE ON public.sla_policies
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SLA tracking columns on tickets
+ALTER TABLE public.tickets ADD COLUMN sla_policy_id UUID REFERENCES public.sla_policies(id) ON DELETE SET NULL;
+ALTER TABLE public.tickets ADD COLUMN first_response_due_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.tickets ADD COLUMN resolution_due_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.tickets ADD COLUMN first_responded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.tickets ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE;
+
+-- Most specific active policy for a ticket: category + priority, then
+-- category only, then priority only, then the catch-all
+CREATE OR REPLACE FUNCTION public.match_sla_policy(_priority ticket_priority, _category_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.sla_policies
+    WHERE is_active
+      AND (priority IS NULL OR priority = _priority)
+      AND (category_id IS NULL OR category_id = _category_id)
+    ORDER BY (category_id IS NOT NULL) DESC, (priority IS NOT NULL) DESC
+    LIMIT 1;
+$$;
+
+-- Due timestamp for a target that starts counting at _start
+CREATE OR REPLACE FUNCTION public.sla_due_at(_start TIMESTAMP WITH TIME ZONE, _minutes INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT _start + make_interval(mins => _minutes);
+$$;
+
+-- State of a single SLA target: on_track, at_risk (last 25% of the window),
+-- breached, or met once completed in time
+CREATE OR REPLACE FUNCTION public.sla_target_state(
+    _started_at TIMESTAMP WITH TIME ZONE,
+    _due_at TIMESTAMP WITH TIME ZONE,
+    _completed_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN _due_at IS NULL THEN NULL
+        WHEN _completed_at IS NOT NULL THEN
+            CASE WHEN _completed_at <= _due_at THEN 'met' ELSE 'breached' END
+        WHEN NOW() > _due_at THEN 'breached'
+        WHEN NOW() > _due_at - (_due_at - _started_at) * 0.25 THEN 'at_risk'
+        ELSE 'on_track'
+    END;
+$$;
+
+-- Assign a policy and due dates on insert and whenever priority or category
+-- change; track resolution time from the status
+CREATE OR REPLACE FUNCTION public.apply_ticket_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _policy public.sla_policies%ROWTYPE;
+BEGIN
+    -- Requesters can update their own tickets, so the SLA columns, and the
+    -- created_at the due dates count from, are only ever set here or by
+    -- server code that sets quickdesk.updating_sla
+    IF current_setting('quickdesk.updating_sla', true) IS DISTINCT FROM NEW.id::text THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.created_at := NOW();
+            NEW.first_responded_at := NULL;
+            NEW.resolved_at := NULL;
+        ELSE
+            NEW.created_at := OLD.created_at;
+            NEW.sla_policy_id := OLD.sla_policy_id;
+            NEW.first_response_due_at := OLD.first_response_due_at;
+            NEW.resolution_due_at := OLD.resolution_due_at;
+            NEW.first_responded_at := OLD.first_responded_at;
+            NEW.resolved_at := OLD.resolved_at;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR NEW.priority IS DISTINCT FROM OLD.priority
+        OR NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        SELECT * INTO _policy FROM public.sla_policies
+        WHERE id = public.match_sla_policy(NEW.priority, NEW.category_id);
+
+        NEW.sla_policy_id := _policy.id;
+        NEW.first_response_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.first_response_minutes);
+        NEW.resolution_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.resolution_minutes);
+    END IF;
+
+    IF NEW.status IN ('resolved', 'closed') THEN
+        NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+    ELSE
+        NEW.resolved_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_ticket_sla BEFORE INSERT OR UPDATE ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.apply_ticket_sla();
+
+-- The first public reply from an agent or admin stops the first-response clock
+CREATE OR REPLACE FUNCTION public.track_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT NEW.is_internal AND public.get_user_role(NEW.user_id) IN ('agent', 'admin') THEN
+        PERFORM set_config('quickdesk.updating_sla', NEW.ticket_id::text, true);
+        UPDATE public.tickets
+        SET first_responded_at = NEW.created_at
+        WHERE id = NEW.ticket_id AND first_responded_at IS NULL;
+        PERFORM set_config('quickdesk.updating_sla', '', true);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_first_response AFTER INSERT ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.track_first_response();
+
+-- Breach state is computed here so every client sees the same answer;
+-- security_invoker keeps the tickets RLS policies in force
+CREATE VIEW public.ticket_sla_status WITH (security_invoker = on) AS
+SELECT
+    t.id AS ticket_id,
+    t.sla_policy_id,
+    t.first_response_due_at,
+    t.resolution_due_at,
+    t.first_responded_at,
+    t.resolved_at,
+    s.first_response_state,
+    s.resolution_state,
+    CASE
+        WHEN 'breached' IN (s.first_response_state, s.resolution_state) THEN 'breached'
+        WHEN 'at_risk' IN (s.first_response_state, s.resolution_state) THEN 'at_risk'
+        WHEN s.resolution_state = 'met' THEN 'met'
+        WHEN s.resolution_state IS NOT NULL THEN 'on_track'
+    END AS sla_state
+FROM public.tickets t
+CROSS JOIN LATERAL (
+    SELECT
+        public.sla_target_state(t.created_at, t.first_response_due_at, t.first_responded_at) AS first_response_state,
+        public.sla_target_state(t.created_at, t.resolution_due_at, t.resolved_at) AS resolution_state
+) s;
+
+-- Default targets per priority
+INSERT INTO public.sla_policies (name, priority, first_response_minutes, resolution_minutes) VALUES
+    ('Urgent', 'urgent', 60, 240),
+    ('High', 'high', 240, 1440),
+    ('Medium', 'medium', 480, 2880),
+    ('Low', 'low', 1440, 7200);
+
+-- Backfill existing tickets without touching their updated_at (or having
+-- apply_ticket_sla put the old, empty SLA columns back)
+ALTER TABLE public.tickets DISABLE TRIGGER update_tickets_updated_at;
+ALTER TABLE public.tickets DISABLE TRIGGER apply_ticket_sla;
+
+UPDATE public.tickets t SET
+    sla_policy_id = p.id,
+    first_response_due_at = public.sla_due_at(t.created_at, p.first_response_minutes),
+    resolution_due_at = public.sla_due_at(t.created_at, p.resolution_minutes),
+    first_responded_at = (
+        SELECT MIN(c.created_at) FROM public.ticket_comments c
+        WHERE c.ticket_id = t.id
+          AND NOT c.is_internal
+          AND public.get_user_role(c.user_id) IN ('agent', 'admin')
+    ),
+    resolved_at = CASE WHEN t.status IN ('resolved', 'closed') THEN t.updated_at END
+FROM public.tickets m
+LEFT JOIN public.sla_policies p ON p.id = public.match_sla_policy(m.priority, m.category_id)
+WHERE m.id = t.id;
+
+ALTER TABLE public.tickets ENABLE TRIGGER apply_ticket_sla;
+ALTER TABLE public.tickets ENABLE TRIGGER update_tickets_updated_at;
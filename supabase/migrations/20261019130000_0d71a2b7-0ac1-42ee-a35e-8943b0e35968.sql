@@ -0,0 +1,251 @@
+-- Business-hours schedules and holiday calendars for SLA clocks
+
+CREATE TABLE public.business_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    -- IANA timezone name, e.g. 'Europe/Berlin'
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one schedule can be the default used for ticket age and reports
+CREATE UNIQUE INDEX idx_business_schedules_default ON public.business_schedules (is_default) WHERE is_default;
+
+CREATE TABLE public.business_hours (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    schedule_id UUID REFERENCES public.business_schedules(id) ON DELETE CASCADE NOT NULL,
+    -- 0 = Sunday, as in EXTRACT(DOW ...)
+    day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    -- Local wall-clock times; end_time may be 24:00 for "until midnight"
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    CONSTRAINT business_hours_order CHECK (end_time > start_time)
+);
+
+CREATE INDEX idx_business_hours_schedule ON public.business_hours(schedule_id, day_of_week);
+
+CREATE TABLE public.business_holidays (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    schedule_id UUID REFERENCES public.business_schedules(id) ON DELETE CASCADE NOT NULL,
+    holiday_date DATE NOT NULL,
+    name TEXT,
+    UNIQUE (schedule_id, holiday_date)
+);
+
+ALTER TABLE public.business_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.business_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.business_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view business schedules" ON public.business_schedules
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage business schedules" ON public.business_schedules
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Anyone can view business hours" ON public.business_hours
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage business hours" ON public.business_hours
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Anyone can view business holidays" ON public.business_holidays
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage business holidays" ON public.business_holidays
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_business_schedules_updated_at BEFORE UPDATE ON public.business_schedules
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Business minutes between two instants. Each local calendar day's windows
+-- are converted with AT TIME ZONE, so DST transitions shorten or lengthen
+-- days exactly as the wall clock does. Mirrors src/lib/businessTime.ts; both
+-- are checked against the same fixtures in supabase/tests/database.
+CREATE OR REPLACE FUNCTION public.business_minutes_between(
+    _schedule_id UUID,
+    _start TIMESTAMP WITH TIME ZONE,
+    _end TIMESTAMP WITH TIME ZONE
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(SUM(
+        GREATEST(0, EXTRACT(EPOCH FROM (LEAST(w.window_end, _end) - GREATEST(w.window_start, _start))))
+    ) / 60, 0)
+    FROM public.business_schedules s
+    CROSS JOIN LATERAL generate_series(
+        (_start AT TIME ZONE s.timezone)::date,
+        (_end AT TIME ZONE s.timezone)::date,
+        INTERVAL '1 day'
+    ) AS d(day)
+    JOIN public.business_hours h
+        ON h.schedule_id = s.id AND h.day_of_week = EXTRACT(DOW FROM d.day)
+    CROSS JOIN LATERAL (
+        SELECT
+            (d.day::date + h.start_time) AT TIME ZONE s.timezone AS window_start,
+            (d.day::date + h.end_time) AT TIME ZONE s.timezone AS window_end
+    ) w
+    WHERE s.id = _schedule_id
+      AND _end > _start
+      AND NOT EXISTS (
+          SELECT 1 FROM public.business_holidays bh
+          WHERE bh.schedule_id = s.id AND bh.holiday_date = d.day::date
+      );
+$$;
+
+-- Instant reached after _minutes of business time from _start. Returns NULL
+-- if the schedule has no hours in the next two years.
+CREATE OR REPLACE FUNCTION public.business_time_add(
+    _schedule_id UUID,
+    _start TIMESTAMP WITH TIME ZONE,
+    _minutes INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _timezone TEXT;
+    _day DATE;
+    _remaining INTERVAL := make_interval(mins => GREATEST(_minutes, 0));
+    _window RECORD;
+    _from TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT timezone INTO _timezone FROM public.business_schedules WHERE id = _schedule_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    _day := (_start AT TIME ZONE _timezone)::date;
+
+    FOR i IN 0..730 LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM public.business_holidays
+            WHERE schedule_id = _schedule_id AND holiday_date = _day
+        ) THEN
+            FOR _window IN
+                SELECT
+                    (_day + start_time) AT TIME ZONE _timezone AS window_start,
+                    (_day + end_time) AT TIME ZONE _timezone AS window_end
+                FROM public.business_hours
+                WHERE schedule_id = _schedule_id AND day_of_week = EXTRACT(DOW FROM _day)
+                ORDER BY start_time
+            LOOP
+                _from := GREATEST(_window.window_start, _start);
+                CONTINUE WHEN _window.window_end <= _from;
+
+                IF _remaining <= _window.window_end - _from THEN
+                    RETURN _from + _remaining;
+                END IF;
+                _remaining := _remaining - (_window.window_end - _from);
+            END LOOP;
+        END IF;
+
+        _day := _day + 1;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+-- SLA policies can count business time on a schedule; NULL keeps 24/7 clocks
+ALTER TABLE public.sla_policies ADD COLUMN schedule_id UUID REFERENCES public.business_schedules(id) ON DELETE SET NULL;
+
+DROP FUNCTION IF EXISTS public.sla_due_at(TIMESTAMP WITH TIME ZONE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.sla_due_at(
+    _start TIMESTAMP WITH TIME ZONE,
+    _minutes INTEGER,
+    _schedule_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN _minutes IS NULL THEN NULL
+        WHEN _schedule_id IS NULL THEN _start + make_interval(mins => _minutes)
+        ELSE public.business_time_add(_schedule_id, _start, _minutes)
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_ticket_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _policy public.sla_policies%ROWTYPE;
+BEGIN
+    -- Requesters can update their own tickets, so the SLA columns, and the
+    -- created_at the due dates count from, are only ever set here or by
+    -- server code that sets quickdesk.updating_sla
+    IF current_setting('quickdesk.updating_sla', true) IS DISTINCT FROM NEW.id::text THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.created_at := NOW();
+            NEW.first_responded_at := NULL;
+            NEW.resolved_at := NULL;
+        ELSE
+            NEW.created_at := OLD.created_at;
+            NEW.sla_policy_id := OLD.sla_policy_id;
+            NEW.first_response_due_at := OLD.first_response_due_at;
+            NEW.resolution_due_at := OLD.resolution_due_at;
+            NEW.first_responded_at := OLD.first_responded_at;
+            NEW.resolved_at := OLD.resolved_at;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR NEW.priority IS DISTINCT FROM OLD.priority
+        OR NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        SELECT * INTO _policy FROM public.sla_policies
+        WHERE id = public.match_sla_policy(NEW.priority, NEW.category_id);
+
+        NEW.sla_policy_id := _policy.id;
+        NEW.first_response_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.first_response_minutes, _policy.schedule_id);
+        NEW.resolution_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.resolution_minutes, _policy.schedule_id);
+    END IF;
+
+    IF NEW.status IN ('resolved', 'closed') THEN
+        NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+    ELSE
+        NEW.resolved_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Age of a ticket in business minutes on the default schedule (wall-clock
+-- minutes if no default schedule exists); ends at resolution
+CREATE OR REPLACE FUNCTION public.ticket_business_age_minutes(_ticket_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN s.id IS NULL THEN EXTRACT(EPOCH FROM (COALESCE(t.resolved_at, NOW()) - t.created_at)) / 60
+        ELSE public.business_minutes_between(s.id, t.created_at, COALESCE(t.resolved_at, NOW()))
+    END
+    FROM public.tickets t
+    LEFT JOIN public.business_schedules s ON s.is_default
+    WHERE t.id = _ticket_id;
+$$;
+
+-- Default Monday-Friday 09:00-17:00 schedule
+WITH schedule AS (
+    INSERT INTO public.business_schedules (name, timezone, is_default)
+    VALUES ('Standard business hours', 'UTC', true)
+    RETURNING id
+)
+INSERT INTO public.business_hours (schedule_id, day_of_week, start_time, end_time)
+SELECT schedule.id, dow, '09:00', '17:00'
+FROM schedule, generate_series(1, 5) AS dow;
@@ -0,0 +1,6 @@
+-- Stream ticket, comment and attachment changes over Supabase Realtime.
+-- Realtime checks each change against the table's RLS SELECT policies, so
+-- users only hear about their own tickets and internal notes stay with staff.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tickets;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_attachments;
@@ -0,0 +1,188 @@
+-- Full-text ticket search over titles, descriptions and comments
+
+-- One search document per ticket, kept out of `tickets` so `SELECT *` stays
+-- small and comment activity doesn't rewrite ticket rows
+CREATE TABLE public.ticket_search (
+    ticket_id UUID PRIMARY KEY REFERENCES public.tickets(id) ON DELETE CASCADE,
+    document TSVECTOR NOT NULL
+);
+
+CREATE INDEX idx_ticket_search_document ON public.ticket_search USING GIN (document);
+
+-- Internal notes are left out of the shared document and matched directly,
+-- so their text never influences results for non-staff viewers
+CREATE INDEX idx_ticket_comments_internal_fts ON public.ticket_comments
+    USING GIN (to_tsvector('english', content)) WHERE is_internal;
+
+ALTER TABLE public.ticket_search ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can search accessible tickets" ON public.ticket_search
+    FOR SELECT USING (public.can_view_ticket(ticket_id));
+
+-- Title weighs most, then description, then public comments
+CREATE OR REPLACE FUNCTION public.refresh_ticket_search(_ticket_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.ticket_search (ticket_id, document)
+    SELECT
+        t.id,
+        setweight(to_tsvector('english', COALESCE(t.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(t.description, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE((
+            SELECT string_agg(c.content, ' ')
+            FROM public.ticket_comments c
+            WHERE c.ticket_id = t.id AND NOT c.is_internal
+        ), '')), 'C')
+    FROM public.tickets t
+    WHERE t.id = _ticket_id
+    ON CONFLICT (ticket_id) DO UPDATE SET document = EXCLUDED.document;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_ticket_search(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.track_ticket_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'tickets' THEN
+        PERFORM public.refresh_ticket_search(NEW.id);
+    ELSIF TG_OP = 'DELETE' THEN
+        PERFORM public.refresh_ticket_search(OLD.ticket_id);
+    ELSE
+        PERFORM public.refresh_ticket_search(NEW.ticket_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER track_ticket_search AFTER INSERT OR UPDATE OF title, description ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.track_ticket_search();
+
+CREATE TRIGGER track_ticket_comment_search AFTER INSERT OR UPDATE OR DELETE ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.track_ticket_search();
+
+SELECT public.refresh_ticket_search(id) FROM public.tickets;
+
+-- Search tickets with optional full-text terms (websearch syntax: words,
+-- "exact phrases", OR, -excluded) and field filters. Runs as the caller, so
+-- RLS on tickets and comments limits both matches and snippets. Assignee and
+-- creator accept 'me', 'none' (assignee only), a profile id, or a username or
+-- full name. Snippets wrap matches in <mark></mark>.
+CREATE OR REPLACE FUNCTION public.search_tickets(
+    _text TEXT DEFAULT NULL,
+    _status public.ticket_status DEFAULT NULL,
+    _priority public.ticket_priority DEFAULT NULL,
+    _category_id UUID DEFAULT NULL,
+    _category_name TEXT DEFAULT NULL,
+    _assignee TEXT DEFAULT NULL,
+    _creator TEXT DEFAULT NULL,
+    _created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _sort TEXT DEFAULT 'relevance',
+    _limit INTEGER DEFAULT 25,
+    _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    ticket_id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    WITH search AS (
+        SELECT CASE
+            WHEN COALESCE(trim(_text), '') = '' THEN NULL
+            ELSE websearch_to_tsquery('english', _text)
+        END AS query
+    ),
+    matches AS (
+        SELECT
+            t.id, t.title, t.description, t.status, t.priority, t.created_at, t.updated_at,
+            s.query,
+            CASE WHEN s.query IS NULL THEN 0 ELSE ts_rank(ts.document, s.query) END AS rank
+        FROM public.tickets t
+        CROSS JOIN search s
+        LEFT JOIN public.ticket_search ts ON ts.ticket_id = t.id
+        LEFT JOIN public.categories cat ON cat.id = t.category_id
+        WHERE (
+                s.query IS NULL
+                OR ts.document @@ s.query
+                OR EXISTS (
+                    SELECT 1 FROM public.ticket_comments ic
+                    WHERE ic.ticket_id = t.id AND ic.is_internal
+                      AND to_tsvector('english', ic.content) @@ s.query
+                )
+            )
+            AND (_status IS NULL OR t.status = _status)
+            AND (_priority IS NULL OR t.priority = _priority)
+            AND (_category_id IS NULL OR t.category_id = _category_id)
+            AND (_category_name IS NULL OR cat.name ILIKE _category_name)
+            AND (_assignee IS NULL OR CASE
+                WHEN _assignee = 'me' THEN t.assigned_to = auth.uid()
+                WHEN _assignee = 'none' THEN t.assigned_to IS NULL
+                ELSE EXISTS (
+                    SELECT 1 FROM public.profiles p
+                    WHERE p.id = t.assigned_to
+                      AND (p.id::text = _assignee OR p.username ILIKE _assignee OR p.full_name ILIKE _assignee)
+                )
+            END)
+            AND (_creator IS NULL OR CASE
+                WHEN _creator = 'me' THEN t.created_by = auth.uid()
+                ELSE EXISTS (
+                    SELECT 1 FROM public.profiles p
+                    WHERE p.id = t.created_by
+                      AND (p.id::text = _creator OR p.username ILIKE _creator OR p.full_name ILIKE _creator)
+                )
+            END)
+            AND (_created_from IS NULL OR t.created_at >= _created_from)
+            AND (_created_before IS NULL OR t.created_at < _created_before)
+    ),
+    ranked AS (
+        SELECT
+            m.*,
+            ROW_NUMBER() OVER (ORDER BY
+                CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+                CASE WHEN _sort = 'oldest' THEN m.created_at END ASC,
+                CASE WHEN _sort = 'updated' THEN m.updated_at END DESC,
+                CASE WHEN _sort = 'priority' THEN m.priority END DESC,
+                CASE WHEN _sort = 'status' THEN m.status END ASC,
+                m.created_at DESC,
+                m.id
+            ) AS position,
+            COUNT(*) OVER () AS total_count
+        FROM matches m
+    )
+    -- Headlines are built for the requested page only
+    SELECT
+        r.id,
+        r.rank,
+        CASE WHEN r.query IS NULL THEN r.title
+            ELSE ts_headline('english', r.title, r.query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')
+        END,
+        CASE WHEN r.query IS NULL THEN NULL
+            ELSE ts_headline(
+                'english',
+                concat_ws(' … ', r.description, (
+                    SELECT string_agg(c.content, ' … ' ORDER BY c.created_at)
+                    FROM public.ticket_comments c
+                    WHERE c.ticket_id = r.id AND to_tsvector('english', c.content) @@ r.query
+                )),
+                r.query,
+                'MaxFragments=2, MinWords=6, MaxWords=20, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>'
+            )
+        END,
+        r.total_count
+    FROM ranked r
+    WHERE r.position > _offset AND r.position <= _offset + _limit
+    ORDER BY r.position;
+$$;
@@ -0,0 +1,127 @@
+-- Teams, and saved ticket views that can be private, shared with a team or
+-- shared with all staff, and pinned as dashboard tabs
+
+CREATE TABLE public.teams (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.team_members (
+    team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user ON public.team_members(user_id);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view teams" ON public.teams
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage teams" ON public.teams
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Anyone can view team members" ON public.team_members
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage team members" ON public.team_members
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON public.teams
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.is_team_member(_team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.team_members
+        WHERE team_id = _team_id AND user_id = auth.uid()
+    );
+$$;
+
+-- A saved filter/sort combination. `filters` uses the client's TicketFilters
+-- shape, where "me" resolves to whoever is looking at the view.
+CREATE TABLE public.ticket_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- NULL for the built-in default views
+    owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'team', 'everyone')),
+    team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    sort TEXT NOT NULL DEFAULT 'newest',
+    -- Default views are pinned for everyone who hasn't unpinned them
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT ticket_views_team CHECK ((visibility = 'team') = (team_id IS NOT NULL)),
+    CONSTRAINT ticket_views_owner CHECK (owner_id IS NOT NULL OR visibility = 'everyone')
+);
+
+CREATE INDEX idx_ticket_views_owner ON public.ticket_views(owner_id);
+
+-- Per-user pin state; a missing row falls back to the view's is_default
+CREATE TABLE public.ticket_view_pins (
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    view_id UUID REFERENCES public.ticket_views(id) ON DELETE CASCADE NOT NULL,
+    pinned BOOLEAN NOT NULL DEFAULT TRUE,
+    position INTEGER,
+    PRIMARY KEY (user_id, view_id)
+);
+
+ALTER TABLE public.ticket_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_view_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view accessible ticket views" ON public.ticket_views
+    FOR SELECT USING (
+        public.get_user_role(auth.uid()) IN ('agent', 'admin') AND (
+            owner_id = auth.uid() OR
+            visibility = 'everyone' OR
+            (visibility = 'team' AND public.is_team_member(team_id)) OR
+            public.get_user_role(auth.uid()) = 'admin'
+        )
+    );
+
+CREATE POLICY "Staff can create their own ticket views" ON public.ticket_views
+    FOR INSERT WITH CHECK (
+        public.get_user_role(auth.uid()) IN ('agent', 'admin') AND
+        owner_id = auth.uid() AND
+        (NOT is_default OR public.get_user_role(auth.uid()) = 'admin') AND
+        (visibility <> 'team' OR public.is_team_member(team_id) OR public.get_user_role(auth.uid()) = 'admin')
+    );
+
+CREATE POLICY "Owners and admins can update ticket views" ON public.ticket_views
+    FOR UPDATE USING (
+        owner_id = auth.uid() OR public.get_user_role(auth.uid()) = 'admin'
+    ) WITH CHECK (
+        (owner_id = auth.uid() AND NOT is_default) OR public.get_user_role(auth.uid()) = 'admin'
+    );
+
+CREATE POLICY "Owners and admins can delete ticket views" ON public.ticket_views
+    FOR DELETE USING (
+        owner_id = auth.uid() OR public.get_user_role(auth.uid()) = 'admin'
+    );
+
+CREATE POLICY "Users can manage their own view pins" ON public.ticket_view_pins
+    FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_ticket_views_updated_at BEFORE UPDATE ON public.ticket_views
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The agent dashboard's former hardcoded tabs become default shared views
+INSERT INTO public.ticket_views (name, visibility, filters, sort, is_default, position) VALUES
+    ('All Tickets', 'everyone', '{}', 'newest', true, 0),
+    ('Open', 'everyone', '{"status": "open"}', 'newest', true, 1),
+    ('Assigned to Me', 'everyone', '{"assignee": "me"}', 'newest', true, 2),
+    ('Resolved', 'everyone', '{"status": "resolved"}', 'newest', true, 3);
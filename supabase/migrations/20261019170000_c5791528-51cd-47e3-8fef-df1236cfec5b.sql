@@ -0,0 +1,139 @@
+-- In-app notifications, written by triggers on tickets and comments and
+-- delivered to the recipient over Realtime
+
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications ALTER COLUMN is_read SET DEFAULT FALSE;
+ALTER TABLE public.notifications ALTER COLUMN created_at SET DEFAULT NOW();
+
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('assignment', 'comment', 'status_change', 'mention'));
+
+CREATE INDEX idx_notifications_recipient ON public.notifications(recipient_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(recipient_id) WHERE is_read = false;
+
+-- Notifications are written only by the triggers below, so there is no
+-- INSERT policy. Recipients may clear out their own list.
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+    FOR DELETE USING (recipient_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Nobody is notified about their own actions
+CREATE OR REPLACE FUNCTION public.create_notification(
+    _recipient_id UUID,
+    _type TEXT,
+    _ticket_id UUID,
+    _message TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF _recipient_id IS NULL OR _recipient_id = auth.uid() THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.notifications (recipient_id, sender_id, type, ticket_id, message)
+    VALUES (_recipient_id, auth.uid(), _type, _ticket_id, _message);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Who did something, for notification messages
+CREATE OR REPLACE FUNCTION public.notification_actor()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(public.profile_display_name(auth.uid()), 'QuickDesk');
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.assigned_to IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+        PERFORM public.create_notification(
+            NEW.assigned_to, 'assignment', NEW.id,
+            format('%s assigned you "%s"', public.notification_actor(), NEW.title)
+        );
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        PERFORM public.create_notification(
+            NEW.created_by, 'status_change', NEW.id,
+            format('Your ticket "%s" is now %s', NEW.title, replace(NEW.status::text, '_', ' '))
+        );
+
+        -- The assignee hears about status changes made by someone else too
+        IF NEW.assigned_to IS DISTINCT FROM NEW.created_by AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+            PERFORM public.create_notification(
+                NEW.assigned_to, 'status_change', NEW.id,
+                format('%s marked "%s" as %s', public.notification_actor(), NEW.title, replace(NEW.status::text, '_', ' '))
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Comments notify the requester (public comments only) and anyone
+-- @mentioned by username. Mentions in internal notes only reach staff, and
+-- mentions in public comments only reach people who can see the ticket.
+CREATE OR REPLACE FUNCTION public.notify_ticket_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket public.tickets%ROWTYPE;
+    _mentioned UUID[];
+    _recipient UUID;
+BEGIN
+    SELECT * INTO _ticket FROM public.tickets WHERE id = NEW.ticket_id;
+
+    SELECT COALESCE(array_agg(DISTINCT p.id), '{}') INTO _mentioned
+    FROM regexp_matches(NEW.content, '(?:^|[^[:alnum:]_.])@([[:alnum:]_.-]+)', 'g') AS m(captures)
+    JOIN public.profiles p ON lower(p.username) = lower(rtrim(m.captures[1], '.'))
+    WHERE p.role IN ('agent', 'admin')
+       OR (NOT COALESCE(NEW.is_internal, false) AND p.id = _ticket.created_by);
+
+    FOREACH _recipient IN ARRAY _mentioned LOOP
+        PERFORM public.create_notification(
+            _recipient, 'mention', NEW.ticket_id,
+            format('%s mentioned you on "%s"', public.notification_actor(), _ticket.title)
+        );
+    END LOOP;
+
+    IF NOT COALESCE(NEW.is_internal, false) AND NOT (_ticket.created_by = ANY(_mentioned)) THEN
+        PERFORM public.create_notification(
+            _ticket.created_by, 'comment', NEW.ticket_id,
+            format('%s commented on your ticket "%s"', public.notification_actor(), _ticket.title)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_ticket_insert AFTER INSERT ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.notify_ticket_changes();
+
+CREATE TRIGGER notify_ticket_update AFTER UPDATE OF assigned_to, status ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.notify_ticket_changes();
+
+CREATE TRIGGER notify_ticket_comment_insert AFTER INSERT ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.notify_ticket_comment();
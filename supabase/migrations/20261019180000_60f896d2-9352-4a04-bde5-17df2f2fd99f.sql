@@ -0,0 +1,185 @@
+-- Outbound email: triggers queue messages in email_messages and the
+-- send-email edge function renders and delivers them, recording the outcome
+-- on each row. Users can opt out per message type in email_preferences.
+
+CREATE TABLE public.email_preferences (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    ticket_created BOOLEAN NOT NULL DEFAULT TRUE,
+    agent_reply BOOLEAN NOT NULL DEFAULT TRUE,
+    status_changed BOOLEAN NOT NULL DEFAULT TRUE,
+    assignment BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.email_preferences ENABLE ROW LEVEL SECURITY;
+
+-- No row means every email is wanted
+CREATE POLICY "Users can view own email preferences" ON public.email_preferences
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own email preferences" ON public.email_preferences
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own email preferences" ON public.email_preferences
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_email_preferences_updated_at BEFORE UPDATE ON public.email_preferences
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.email_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template TEXT NOT NULL CHECK (template IN ('ticket_created', 'agent_reply', 'status_changed', 'assignment')),
+    recipient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE,
+    -- Template inputs captured when the event happened (actor, comment id, old status)
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+    -- Filled in by the sender
+    to_address TEXT,
+    subject TEXT,
+    -- RFC 5322 Message-ID, so replies can be threaded back to the ticket
+    message_id TEXT UNIQUE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_messages_pending ON public.email_messages(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX idx_email_messages_ticket ON public.email_messages(ticket_id);
+CREATE INDEX idx_email_messages_created ON public.email_messages(created_at DESC);
+
+ALTER TABLE public.email_messages ENABLE ROW LEVEL SECURITY;
+
+-- Messages are queued by triggers and sent with the service role
+CREATE POLICY "Users can view own email messages" ON public.email_messages
+    FOR SELECT USING (recipient_id = auth.uid());
+
+CREATE POLICY "Admins can view all email messages" ON public.email_messages
+    FOR SELECT USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Lets admins requeue failed messages
+CREATE POLICY "Admins can update email messages" ON public.email_messages
+    FOR UPDATE USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_email_messages_updated_at BEFORE UPDATE ON public.email_messages
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.enqueue_email(
+    _recipient_id UUID,
+    _template TEXT,
+    _ticket_id UUID,
+    _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF _recipient_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.email_messages (recipient_id, template, ticket_id, payload)
+    VALUES (
+        _recipient_id, _template, _ticket_id,
+        _payload || jsonb_build_object('actor_name', public.profile_display_name(auth.uid()))
+    );
+END;
+$$;
+
+-- Claims a batch of due messages for the sender. SKIP LOCKED keeps two
+-- concurrent runs from sending the same message; rows stuck in "sending"
+-- (a run that died) are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_messages(_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.email_messages
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.email_messages
+    SET status = 'sending', attempts = attempts + 1
+    WHERE id IN (
+        SELECT id FROM public.email_messages
+        WHERE (status = 'pending' AND next_attempt_at <= NOW())
+           OR (status = 'sending' AND updated_at < NOW() - INTERVAL '10 minutes')
+        ORDER BY next_attempt_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$;
+
+-- Only the service role sends mail
+REVOKE EXECUTE ON FUNCTION public.claim_email_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_email(UUID, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Requesters hear about their own tickets; assignees about assignments.
+-- Changes people make themselves don't email them.
+CREATE OR REPLACE FUNCTION public.queue_ticket_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.enqueue_email(NEW.created_by, 'ticket_created', NEW.id);
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status
+       AND NEW.created_by IS DISTINCT FROM auth.uid() THEN
+        PERFORM public.enqueue_email(
+            NEW.created_by, 'status_changed', NEW.id,
+            jsonb_build_object('old_status', OLD.status, 'new_status', NEW.status)
+        );
+    END IF;
+
+    IF NEW.assigned_to IS NOT NULL AND NEW.assigned_to IS DISTINCT FROM auth.uid()
+       AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+        PERFORM public.enqueue_email(NEW.assigned_to, 'assignment', NEW.id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Public replies from staff are emailed to the requester
+CREATE OR REPLACE FUNCTION public.queue_comment_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _created_by UUID;
+BEGIN
+    IF COALESCE(NEW.is_internal, false) OR public.get_user_role(NEW.user_id) NOT IN ('agent', 'admin') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT created_by INTO _created_by FROM public.tickets WHERE id = NEW.ticket_id;
+
+    IF _created_by IS DISTINCT FROM NEW.user_id THEN
+        PERFORM public.enqueue_email(
+            _created_by, 'agent_reply', NEW.ticket_id,
+            jsonb_build_object('comment_id', NEW.id)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_ticket_insert_emails AFTER INSERT ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.queue_ticket_emails();
+
+CREATE TRIGGER queue_ticket_update_emails AFTER UPDATE OF status, assigned_to ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.queue_ticket_emails();
+
+CREATE TRIGGER queue_comment_emails AFTER INSERT ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.queue_comment_emails();
@@ -0,0 +1,47 @@
+-- Inbound email: the inbound-email edge function turns messages into
+-- tickets and comments and logs every message it receives here
+
+CREATE TABLE public.inbound_emails (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- RFC 5322 Message-ID; a message posted twice is only processed once
+    message_id TEXT UNIQUE,
+    from_address TEXT NOT NULL,
+    subject TEXT,
+    status TEXT NOT NULL CHECK (status IN ('ticket_created', 'comment_added', 'ignored', 'rejected')),
+    -- Why a message was ignored or rejected
+    reason TEXT,
+    sender_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE SET NULL,
+    comment_id UUID REFERENCES public.ticket_comments(id) ON DELETE SET NULL,
+    attachments_stored INTEGER NOT NULL DEFAULT 0,
+    attachments_skipped INTEGER NOT NULL DEFAULT 0,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_inbound_emails_ticket ON public.inbound_emails(ticket_id);
+CREATE INDEX idx_inbound_emails_received ON public.inbound_emails(received_at DESC);
+
+ALTER TABLE public.inbound_emails ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role
+CREATE POLICY "Admins can view inbound emails" ON public.inbound_emails
+    FOR SELECT USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Short references (#1a2b3c4d, the last 8 characters of the id) are what
+-- subjects carry, so they need to be looked up
+CREATE INDEX idx_tickets_ref ON public.tickets(right(id::text, 8));
+
+-- The ticket with this short reference, or NULL if none or ambiguous
+CREATE OR REPLACE FUNCTION public.find_ticket_by_ref(_ref TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE WHEN COUNT(*) = 1 THEN MIN(id::text)::uuid END
+    FROM public.tickets
+    WHERE right(id::text, 8) = lower(_ref);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_ticket_by_ref(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,77 @@
+-- Macros: canned replies agents insert into the comment box. A macro can
+-- also change ticket fields when the comment is posted.
+
+CREATE TABLE public.macros (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- Comment text; {{requester.first_name}}-style placeholders are filled in
+    -- by the client when the macro is picked
+    content TEXT NOT NULL DEFAULT '',
+    is_internal BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Shared macros are visible to all staff and managed by admins
+    is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+    owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- Field changes; NULL leaves the field alone
+    set_status ticket_status,
+    set_priority ticket_priority,
+    set_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    -- A profile id, or "me" (whoever applies the macro) or "none" (unassign)
+    set_assignee TEXT CHECK (
+        set_assignee IN ('me', 'none') OR
+        set_assignee ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    ),
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT macros_owner CHECK (is_shared OR owner_id IS NOT NULL)
+);
+
+CREATE INDEX idx_macros_owner ON public.macros(owner_id);
+
+ALTER TABLE public.macros ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view shared and their own macros" ON public.macros
+    FOR SELECT USING (
+        public.get_user_role(auth.uid()) IN ('agent', 'admin') AND (
+            is_shared OR
+            owner_id = auth.uid() OR
+            public.get_user_role(auth.uid()) = 'admin'
+        )
+    );
+
+CREATE POLICY "Staff can create their own macros" ON public.macros
+    FOR INSERT WITH CHECK (
+        public.get_user_role(auth.uid()) IN ('agent', 'admin') AND
+        owner_id = auth.uid() AND
+        (NOT is_shared OR public.get_user_role(auth.uid()) = 'admin')
+    );
+
+CREATE POLICY "Owners and admins can update macros" ON public.macros
+    FOR UPDATE USING (
+        (owner_id = auth.uid() AND NOT is_shared) OR public.get_user_role(auth.uid()) = 'admin'
+    ) WITH CHECK (
+        (owner_id = auth.uid() AND NOT is_shared) OR public.get_user_role(auth.uid()) = 'admin'
+    );
+
+CREATE POLICY "Owners and admins can delete macros" ON public.macros
+    FOR DELETE USING (
+        (owner_id = auth.uid() AND NOT is_shared) OR public.get_user_role(auth.uid()) = 'admin'
+    );
+
+CREATE TRIGGER update_macros_updated_at BEFORE UPDATE ON public.macros
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Counts a use of a macro so the picker can list popular ones first. Agents
+-- can't update shared macros, hence SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION public.record_macro_use(_macro_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.macros
+    SET usage_count = usage_count + 1
+    WHERE id = _macro_id
+      AND public.get_user_role(auth.uid()) IN ('agent', 'admin')
+      AND (is_shared OR owner_id = auth.uid());
+$$;
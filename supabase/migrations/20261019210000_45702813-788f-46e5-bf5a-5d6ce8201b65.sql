@@ -0,0 +1,199 @@
+-- Automatic ticket assignment. Each category picks a strategy; new tickets
+-- are assigned on insert, whichever channel created them.
+
+ALTER TABLE public.categories
+    ADD COLUMN assignment_strategy TEXT NOT NULL DEFAULT 'manual'
+        CHECK (assignment_strategy IN ('manual', 'round_robin', 'least_open')),
+    -- Limits the candidates to a team's members; NULL means every agent
+    ADD COLUMN assignment_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+    -- Round-robin position: the agent who got this category's last ticket
+    ADD COLUMN last_assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Per-agent availability and capacity. A missing row means available with
+-- no cap.
+CREATE TABLE public.agent_availability (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    is_available BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Open and in-progress tickets above which the agent gets no new ones
+    max_open_tickets INTEGER CHECK (max_open_tickets > 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.agent_availability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view agent availability" ON public.agent_availability
+    FOR SELECT USING (public.get_user_role(auth.uid()) IN ('agent', 'admin'));
+
+-- Agents change their own availability through set_my_availability
+CREATE POLICY "Only admins can manage agent availability" ON public.agent_availability
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_agent_availability_updated_at BEFORE UPDATE ON public.agent_availability
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_my_availability(_available BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.get_user_role(auth.uid()) NOT IN ('agent', 'admin') THEN
+        RAISE EXCEPTION 'Only agents can set their availability';
+    END IF;
+
+    INSERT INTO public.agent_availability (user_id, is_available)
+    VALUES (auth.uid(), _available)
+    ON CONFLICT (user_id) DO UPDATE SET is_available = EXCLUDED.is_available;
+END;
+$$;
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT ticket_events_event_type_check;
+ALTER TABLE public.ticket_events ADD CONSTRAINT ticket_events_event_type_check CHECK (event_type IN (
+    'created',
+    'status_changed',
+    'priority_changed',
+    'assignee_changed',
+    'category_changed',
+    'title_changed',
+    'description_changed',
+    'comment_added',
+    'auto_assigned'
+));
+
+-- Picks an agent for a new ticket in the category, or NULL with the reason
+-- nobody was picked. Candidates are available agents (or the category
+-- team's members) under their capacity.
+CREATE OR REPLACE FUNCTION public.choose_ticket_assignee(
+    _category_id UUID,
+    OUT agent_id UUID,
+    OUT strategy TEXT,
+    OUT reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _category public.categories%ROWTYPE;
+    _open_count INTEGER;
+BEGIN
+    -- Locking the category serialises concurrent inserts, so round-robin
+    -- doesn't hand two tickets to the same agent
+    SELECT * INTO _category FROM public.categories WHERE id = _category_id FOR UPDATE;
+    strategy := COALESCE(_category.assignment_strategy, 'manual');
+    IF strategy = 'manual' THEN
+        RETURN;
+    END IF;
+
+    WITH candidates AS (
+        SELECT p.id, a.max_open_tickets, (
+            SELECT COUNT(*)::integer FROM public.tickets t
+            WHERE t.assigned_to = p.id AND t.status IN ('open', 'in_progress')
+        ) AS open_count
+        FROM public.profiles p
+        LEFT JOIN public.agent_availability a ON a.user_id = p.id
+        WHERE COALESCE(a.is_available, TRUE)
+          AND CASE
+              WHEN _category.assignment_team_id IS NOT NULL THEN
+                  p.role IN ('agent', 'admin') AND EXISTS (
+                      SELECT 1 FROM public.team_members m
+                      WHERE m.team_id = _category.assignment_team_id AND m.user_id = p.id
+                  )
+              ELSE p.role = 'agent'
+          END
+    )
+    SELECT c.id, c.open_count INTO agent_id, _open_count
+    FROM candidates c
+    WHERE c.max_open_tickets IS NULL OR c.open_count < c.max_open_tickets
+    ORDER BY
+        -- Least-open compares workloads first; both then continue after the
+        -- last agent picked, wrapping around
+        CASE WHEN strategy = 'least_open' THEN c.open_count ELSE 0 END,
+        (c.id <= _category.last_assigned_to) NULLS FIRST,
+        c.id
+    LIMIT 1;
+
+    IF agent_id IS NULL THEN
+        reason := 'No available agent under capacity';
+        RETURN;
+    END IF;
+
+    UPDATE public.categories SET last_assigned_to = agent_id WHERE id = _category_id;
+    reason := format('%s open ticket%s', _open_count, CASE WHEN _open_count = 1 THEN '' ELSE 's' END);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.choose_ticket_assignee(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Runs before the insert so the ticket is created already assigned. The
+-- decision is kept in a transaction-local setting, keyed by ticket id, until
+-- the row exists and the history entry can be written.
+CREATE OR REPLACE FUNCTION public.auto_assign_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _choice RECORD;
+    _pending JSONB;
+BEGIN
+    IF NEW.assigned_to IS NOT NULL OR NEW.category_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO _choice FROM public.choose_ticket_assignee(NEW.category_id);
+    IF _choice.strategy = 'manual' THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.assigned_to := _choice.agent_id;
+
+    _pending := COALESCE(NULLIF(current_setting('quickdesk.auto_assignments', true), ''), '{}')::jsonb;
+    _pending := _pending || jsonb_build_object(NEW.id::text, jsonb_build_object(
+        'agent_id', _choice.agent_id,
+        'strategy', _choice.strategy,
+        'reason', _choice.reason
+    ));
+    PERFORM set_config('quickdesk.auto_assignments', _pending::text, true);
+    RETURN NEW;
+END;
+$$;
+
+-- Records the assignment decision in the ticket history, as the system
+CREATE OR REPLACE FUNCTION public.log_ticket_auto_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _decision JSONB;
+BEGIN
+    _decision := COALESCE(NULLIF(current_setting('quickdesk.auto_assignments', true), ''), '{}')::jsonb -> NEW.id::text;
+    IF _decision IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value, metadata, is_internal)
+    VALUES (
+        NEW.id, NULL, 'auto_assigned', NULL, _decision->>'agent_id',
+        jsonb_build_object(
+            'new_label', public.profile_display_name((_decision->>'agent_id')::uuid),
+            'strategy', _decision->>'strategy',
+            'reason', _decision->>'reason'
+        ),
+        -- Requesters only need to see that someone picked up the ticket
+        _decision->>'agent_id' IS NULL
+    );
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER auto_assign_ticket BEFORE INSERT ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.auto_assign_ticket();
+
+-- Named to fire after track_ticket_insert, so "created" is logged first
+CREATE TRIGGER track_ticket_insert_assignment AFTER INSERT ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.log_ticket_auto_assignment();
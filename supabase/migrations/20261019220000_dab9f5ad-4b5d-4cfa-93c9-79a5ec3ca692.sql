@@ -0,0 +1,577 @@
+-- Automation rules: "when <event> and <conditions>, do <actions>", defined
+-- by admins and applied by triggers whichever way a ticket changed. Rules
+-- run in position order; a matching rule with stop_processing ends the run.
+
+CREATE TABLE public.automation_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    event TEXT NOT NULL CHECK (event IN ('ticket_created', 'ticket_updated', 'comment_added')),
+    -- [{"field": "priority", "operator": "is", "value": "urgent"}, ...]
+    conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    -- Whether all or any of the conditions must hold
+    match_type TEXT NOT NULL DEFAULT 'all' CHECK (match_type IN ('all', 'any')),
+    -- [{"type": "assign_team", "team_id": "..."}, {"type": "add_comment", "content": "...", "is_internal": true}, ...]
+    actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    position INTEGER NOT NULL DEFAULT 0,
+    stop_processing BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Comments added by the rule are posted as this user
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_automation_rules_event ON public.automation_rules(event, position) WHERE is_active;
+
+-- One row per rule that matched, with what each of its actions did
+CREATE TABLE public.automation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID REFERENCES public.automation_rules(id) ON DELETE SET NULL,
+    rule_name TEXT NOT NULL,
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('applied', 'failed')),
+    results JSONB NOT NULL DEFAULT '[]'::jsonb,
+    error TEXT,
+    -- Whoever made the change that set the rule off
+    actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_automation_runs_created ON public.automation_runs(created_at DESC);
+CREATE INDEX idx_automation_runs_ticket ON public.automation_runs(ticket_id);
+
+-- Webhook calls made by rules, delivered by the deliver-webhooks edge
+-- function with retries, like email_messages
+CREATE TABLE public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID REFERENCES public.automation_rules(id) ON DELETE SET NULL,
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_pending ON public.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'sending');
+
+ALTER TABLE public.automation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.automation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can manage automation rules" ON public.automation_rules
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Runs and deliveries are written by the functions below
+CREATE POLICY "Admins can view automation runs" ON public.automation_runs
+    FOR SELECT USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can view webhook deliveries" ON public.webhook_deliveries
+    FOR SELECT USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Lets admins requeue failed deliveries
+CREATE POLICY "Admins can update webhook deliveries" ON public.webhook_deliveries
+    FOR UPDATE USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_automation_rules_updated_at BEFORE UPDATE ON public.automation_rules
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at BEFORE UPDATE ON public.webhook_deliveries
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('assignment', 'comment', 'status_change', 'mention', 'automation'));
+
+-- Changes made by a rule are credited to the rule in the ticket history
+CREATE OR REPLACE FUNCTION public.log_ticket_event(
+    _ticket_id UUID,
+    _event_type TEXT,
+    _old_value TEXT DEFAULT NULL,
+    _new_value TEXT DEFAULT NULL,
+    _metadata JSONB DEFAULT '{}'::jsonb,
+    _is_internal BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rule TEXT := NULLIF(current_setting('quickdesk.automation_rule', true), '');
+BEGIN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value, metadata, is_internal)
+    VALUES (
+        _ticket_id,
+        CASE WHEN _rule IS NULL THEN auth.uid() END,
+        _event_type, _old_value, _new_value,
+        CASE WHEN _rule IS NULL THEN _metadata ELSE _metadata || jsonb_build_object('rule', _rule) END,
+        _is_internal
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_ticket_event(UUID, TEXT, TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Agents automatic assignment may pick from: available members of the team
+-- (every agent when NULL) below their ticket limit, with their open count
+CREATE OR REPLACE FUNCTION public.assignment_candidates(_team_id UUID)
+RETURNS TABLE (id UUID, open_count INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT c.id, c.open_count
+    FROM (
+        SELECT p.id, a.max_open_tickets, (
+            SELECT COUNT(*)::integer FROM public.tickets t
+            WHERE t.assigned_to = p.id AND t.status IN ('open', 'in_progress')
+        ) AS open_count
+        FROM public.profiles p
+        LEFT JOIN public.agent_availability a ON a.user_id = p.id
+        WHERE COALESCE(a.is_available, TRUE)
+          AND CASE
+              WHEN _team_id IS NOT NULL THEN
+                  p.role IN ('agent', 'admin') AND EXISTS (
+                      SELECT 1 FROM public.team_members m
+                      WHERE m.team_id = _team_id AND m.user_id = p.id
+                  )
+              ELSE p.role = 'agent'
+          END
+    ) c
+    WHERE c.max_open_tickets IS NULL OR c.open_count < c.max_open_tickets;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assignment_candidates(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.choose_ticket_assignee(
+    _category_id UUID,
+    OUT agent_id UUID,
+    OUT strategy TEXT,
+    OUT reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _category public.categories%ROWTYPE;
+    _open_count INTEGER;
+BEGIN
+    -- Locking the category serialises concurrent inserts, so round-robin
+    -- doesn't hand two tickets to the same agent
+    SELECT * INTO _category FROM public.categories WHERE id = _category_id FOR UPDATE;
+    strategy := COALESCE(_category.assignment_strategy, 'manual');
+    IF strategy = 'manual' THEN
+        RETURN;
+    END IF;
+
+    SELECT c.id, c.open_count INTO agent_id, _open_count
+    FROM public.assignment_candidates(_category.assignment_team_id) c
+    ORDER BY
+        -- Least-open compares workloads first; both then continue after the
+        -- last agent picked, wrapping around
+        CASE WHEN strategy = 'least_open' THEN c.open_count ELSE 0 END,
+        (c.id <= _category.last_assigned_to) NULLS FIRST,
+        c.id
+    LIMIT 1;
+
+    IF agent_id IS NULL THEN
+        reason := 'No available agent under capacity';
+        RETURN;
+    END IF;
+
+    UPDATE public.categories SET last_assigned_to = agent_id WHERE id = _category_id;
+    reason := format('%s open ticket%s', _open_count, CASE WHEN _open_count = 1 THEN '' ELSE 's' END);
+END;
+$$;
+
+-- What rule conditions look at: the ticket, its previous values (updates)
+-- and the new comment (comment_added)
+CREATE OR REPLACE FUNCTION public.automation_context(_ticket_id UUID, _old JSONB, _comment_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'ticket', (SELECT to_jsonb(t) FROM public.tickets t WHERE t.id = _ticket_id),
+        'old', _old,
+        'comment', (
+            SELECT to_jsonb(c) || jsonb_build_object('author_role', p.role)
+            FROM public.ticket_comments c
+            LEFT JOIN public.profiles p ON p.id = c.user_id
+            WHERE c.id = _comment_id
+        )
+    );
+$$;
+
+-- Reads any ticket and comment past RLS, so only the automation functions
+-- call it
+REVOKE EXECUTE ON FUNCTION public.automation_context(UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.automation_condition_holds(_condition JSONB, _context JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    _field TEXT := _condition->>'field';
+    _expected TEXT := _condition->>'value';
+    _value TEXT;
+    _changed BOOLEAN;
+BEGIN
+    _value := CASE _field
+        WHEN 'comment_body' THEN _context->'comment'->>'content'
+        WHEN 'comment_is_internal' THEN _context->'comment'->>'is_internal'
+        WHEN 'comment_author_role' THEN _context->'comment'->>'author_role'
+        ELSE _context->'ticket'->>_field
+    END;
+    -- Only updates have previous values
+    _changed := jsonb_typeof(_context->'old') = 'object'
+        AND (_context->'old'->>_field) IS DISTINCT FROM _value;
+
+    RETURN COALESCE(CASE _condition->>'operator'
+        WHEN 'is' THEN _value = _expected
+        WHEN 'is_not' THEN _value IS DISTINCT FROM _expected
+        WHEN 'contains' THEN position(lower(_expected) IN lower(COALESCE(_value, ''))) > 0
+        WHEN 'not_contains' THEN position(lower(_expected) IN lower(COALESCE(_value, ''))) = 0
+        WHEN 'is_empty' THEN COALESCE(_value, '') = ''
+        WHEN 'is_not_empty' THEN COALESCE(_value, '') <> ''
+        WHEN 'changed' THEN _changed
+        WHEN 'changed_to' THEN _changed AND _value = _expected
+    END, FALSE);
+END;
+$$;
+
+-- Rules without conditions always match
+CREATE OR REPLACE FUNCTION public.automation_rule_matches(_rule public.automation_rules, _context JSONB)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        CASE WHEN _rule.match_type = 'any' THEN bool_or(public.automation_condition_holds(c, _context))
+             ELSE bool_and(public.automation_condition_holds(c, _context))
+        END,
+        TRUE
+    )
+    FROM jsonb_array_elements(_rule.conditions) c;
+$$;
+
+-- Applies one action and describes what it did; with _dry_run it only
+-- describes what it would do
+CREATE OR REPLACE FUNCTION public.run_automation_action(
+    _rule public.automation_rules,
+    _action JSONB,
+    _context JSONB,
+    _dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket_id UUID := (_context->'ticket'->>'id')::uuid;
+    _value TEXT := _action->>'value';
+    _target UUID;
+    _team_name TEXT;
+BEGIN
+    CASE _action->>'type'
+    WHEN 'set_status' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET status = _value::ticket_status WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set status to %s', replace(_value, '_', ' '));
+
+    WHEN 'set_priority' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET priority = _value::ticket_priority WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set priority to %s', _value);
+
+    WHEN 'set_category' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET category_id = _value::uuid WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set category to %s', COALESCE((SELECT name FROM public.categories WHERE id = _value::uuid), 'a deleted category'));
+
+    WHEN 'assign' THEN
+        _target := CASE WHEN _value = 'none' THEN NULL ELSE _value::uuid END;
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET assigned_to = _target WHERE id = _ticket_id;
+        END IF;
+        RETURN CASE WHEN _target IS NULL THEN 'Unassign' ELSE format('Assign to %s', public.profile_display_name(_target)) END;
+
+    WHEN 'assign_team' THEN
+        _team_name := (SELECT name FROM public.teams WHERE id = (_action->>'team_id')::uuid);
+        SELECT c.id INTO _target
+        FROM public.assignment_candidates((_action->>'team_id')::uuid) c
+        ORDER BY c.open_count, c.id
+        LIMIT 1;
+        IF _target IS NULL THEN
+            RETURN format('No available agent in %s', COALESCE(_team_name, 'a deleted team'));
+        END IF;
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET assigned_to = _target WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Assign to %s (%s)', public.profile_display_name(_target), _team_name);
+
+    WHEN 'add_comment' THEN
+        IF _rule.created_by IS NULL THEN
+            RAISE EXCEPTION 'Rule "%" has no owner to post comments as', _rule.name;
+        END IF;
+        IF NOT _dry_run THEN
+            INSERT INTO public.ticket_comments (ticket_id, user_id, content, is_internal)
+            VALUES (_ticket_id, _rule.created_by, _action->>'content', COALESCE((_action->>'is_internal')::boolean, TRUE));
+        END IF;
+        RETURN format(
+            'Add %s: %s',
+            CASE WHEN COALESCE((_action->>'is_internal')::boolean, TRUE) THEN 'internal note' ELSE 'public reply' END,
+            left(_action->>'content', 80)
+        );
+
+    WHEN 'notify' THEN
+        _target := CASE _action->>'recipient'
+            WHEN 'requester' THEN (_context->'ticket'->>'created_by')::uuid
+            WHEN 'assignee' THEN (_context->'ticket'->>'assigned_to')::uuid
+            ELSE (_action->>'recipient')::uuid
+        END;
+        IF _target IS NULL THEN
+            RETURN 'Nobody to notify';
+        END IF;
+        IF NOT _dry_run THEN
+            PERFORM public.create_notification(
+                _target, 'automation', _ticket_id,
+                COALESCE(NULLIF(_action->>'message', ''), format('%s: "%s"', _rule.name, _context->'ticket'->>'title'))
+            );
+        END IF;
+        RETURN format('Notify %s', public.profile_display_name(_target));
+
+    WHEN 'webhook' THEN
+        IF NOT _dry_run THEN
+            INSERT INTO public.webhook_deliveries (rule_id, ticket_id, url, payload)
+            VALUES (
+                _rule.id, _ticket_id, _action->>'url',
+                jsonb_build_object(
+                    'event', _rule.event,
+                    'rule', jsonb_build_object('id', _rule.id, 'name', _rule.name),
+                    'ticket', _context->'ticket',
+                    'comment', _context->'comment'
+                )
+            );
+        END IF;
+        RETURN format('Call webhook %s', _action->>'url');
+
+    ELSE
+        RAISE EXCEPTION 'Unknown automation action "%"', _action->>'type';
+    END CASE;
+END;
+$$;
+
+-- Runs the active rules for an event against a ticket. Each matching rule's
+-- actions succeed or fail together; a failing rule is logged and skipped.
+-- Changes made by rules don't set off further rules.
+CREATE OR REPLACE FUNCTION public.run_automation_rules(
+    _event TEXT,
+    _ticket_id UUID,
+    _old JSONB DEFAULT NULL,
+    _comment_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rule public.automation_rules%ROWTYPE;
+    _context JSONB;
+    _action JSONB;
+    _results JSONB;
+BEGIN
+    IF current_setting('quickdesk.automation_running', true) = 'on' THEN
+        RETURN;
+    END IF;
+    PERFORM set_config('quickdesk.automation_running', 'on', true);
+
+    FOR _rule IN
+        SELECT * FROM public.automation_rules
+        WHERE is_active AND event = _event
+        ORDER BY position, created_at
+    LOOP
+        -- Rebuilt per rule so later rules see earlier rules' changes
+        _context := public.automation_context(_ticket_id, _old, _comment_id);
+        EXIT WHEN jsonb_typeof(_context->'ticket') IS DISTINCT FROM 'object';
+        CONTINUE WHEN NOT public.automation_rule_matches(_rule, _context);
+
+        _results := '[]'::jsonb;
+        BEGIN
+            PERFORM set_config('quickdesk.automation_rule', _rule.name, true);
+            FOR _action IN SELECT * FROM jsonb_array_elements(_rule.actions) LOOP
+                _results := _results || to_jsonb(public.run_automation_action(_rule, _action, _context));
+            END LOOP;
+
+            INSERT INTO public.automation_runs (rule_id, rule_name, ticket_id, event, status, results, actor_id)
+            VALUES (_rule.id, _rule.name, _ticket_id, _event, 'applied', _results, auth.uid());
+        EXCEPTION WHEN OTHERS THEN
+            INSERT INTO public.automation_runs (rule_id, rule_name, ticket_id, event, status, results, error, actor_id)
+            VALUES (_rule.id, _rule.name, _ticket_id, _event, 'failed', _results, SQLERRM, auth.uid());
+        END;
+        PERFORM set_config('quickdesk.automation_rule', '', true);
+
+        EXIT WHEN _rule.stop_processing;
+    END LOOP;
+
+    PERFORM set_config('quickdesk.automation_running', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_automation_rules(TEXT, UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_automation_action(public.automation_rules, JSONB, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.run_ticket_automation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.run_automation_rules('ticket_created', NEW.id);
+    -- Bookkeeping updates (SLA timestamps and the like) aren't ticket updates
+    ELSIF ROW(NEW.status, NEW.priority, NEW.category_id, NEW.assigned_to, NEW.title, NEW.description)
+          IS DISTINCT FROM ROW(OLD.status, OLD.priority, OLD.category_id, OLD.assigned_to, OLD.title, OLD.description) THEN
+        PERFORM public.run_automation_rules('ticket_updated', NEW.id, to_jsonb(OLD));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_comment_automation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.run_automation_rules('comment_added', NEW.ticket_id, NULL, NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER run_ticket_automation AFTER INSERT OR UPDATE ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.run_ticket_automation();
+
+CREATE TRIGGER run_comment_automation AFTER INSERT ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.run_comment_automation();
+
+-- Dry run for the admin tester: which rules would match a ticket and what
+-- they would do, without changing anything. comment_added uses the
+-- ticket's latest comment; ticket_updated has no previous values, so
+-- "changed" conditions never hold.
+CREATE OR REPLACE FUNCTION public.test_automation_rules(
+    _ticket_id UUID,
+    _event TEXT,
+    _rule_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    rule_id UUID,
+    rule_name TEXT,
+    matched BOOLEAN,
+    conditions JSONB,
+    actions JSONB,
+    error TEXT,
+    stops BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rule public.automation_rules%ROWTYPE;
+    _context JSONB;
+    _action JSONB;
+BEGIN
+    IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can test automation rules';
+    END IF;
+
+    _context := public.automation_context(
+        _ticket_id, NULL,
+        CASE WHEN _event = 'comment_added' THEN (
+            SELECT c.id FROM public.ticket_comments c
+            WHERE c.ticket_id = _ticket_id
+            ORDER BY c.created_at DESC
+            LIMIT 1
+        ) END
+    );
+    IF jsonb_typeof(_context->'ticket') IS DISTINCT FROM 'object' THEN
+        RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    FOR _rule IN
+        SELECT * FROM public.automation_rules r
+        WHERE r.event = _event AND (r.id = _rule_id OR (_rule_id IS NULL AND r.is_active))
+        ORDER BY r.position, r.created_at
+    LOOP
+        rule_id := _rule.id;
+        rule_name := _rule.name;
+        matched := public.automation_rule_matches(_rule, _context);
+        conditions := COALESCE((
+            SELECT jsonb_agg(c || jsonb_build_object('holds', public.automation_condition_holds(c, _context)))
+            FROM jsonb_array_elements(_rule.conditions) c
+        ), '[]'::jsonb);
+        actions := '[]'::jsonb;
+        error := NULL;
+        stops := matched AND _rule.stop_processing;
+
+        IF matched THEN
+            BEGIN
+                FOR _action IN SELECT * FROM jsonb_array_elements(_rule.actions) LOOP
+                    actions := actions || to_jsonb(public.run_automation_action(_rule, _action, _context, TRUE));
+                END LOOP;
+            EXCEPTION WHEN OTHERS THEN
+                error := SQLERRM;
+            END;
+        END IF;
+
+        RETURN NEXT;
+        EXIT WHEN stops;
+    END LOOP;
+END;
+$$;
+
+-- Claims due deliveries for the deliver-webhooks function
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.webhook_deliveries
+    SET status = 'sending', attempts = attempts + 1
+    WHERE id IN (
+        SELECT id FROM public.webhook_deliveries
+        WHERE (status = 'pending' AND next_attempt_at <= NOW())
+           OR (status = 'sending' AND updated_at < NOW() - INTERVAL '10 minutes')
+        ORDER BY next_attempt_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,433 @@
+-- Time-based automations: rules with the "scheduled" event are checked
+-- periodically against every ticket that isn't closed, with conditions over
+-- elapsed time ("resolved for 7 days", "urgent and unassigned for 30
+-- minutes"). run_scheduled_automations is the tick; it takes the current
+-- time as an argument so it can be driven by a fake clock.
+
+ALTER TABLE public.automation_rules DROP CONSTRAINT automation_rules_event_check;
+ALTER TABLE public.automation_rules ADD CONSTRAINT automation_rules_event_check
+    CHECK (event IN ('ticket_created', 'ticket_updated', 'comment_added', 'scheduled'));
+
+CREATE INDEX idx_automation_runs_rule_ticket ON public.automation_runs(rule_id, ticket_id, created_at);
+
+-- When a ticket last changed: an update to the ticket or a new comment
+CREATE OR REPLACE FUNCTION public.ticket_last_activity_at(_ticket_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT GREATEST(
+        t.updated_at,
+        (SELECT MAX(c.created_at) FROM public.ticket_comments c WHERE c.ticket_id = t.id)
+    )
+    FROM public.tickets t
+    WHERE t.id = _ticket_id;
+$$;
+
+-- Minutes elapsed at _now, for the time conditions. Waiting on the
+-- requester means the latest public staff reply is newer than anything the
+-- requester wrote; it is NULL otherwise.
+CREATE OR REPLACE FUNCTION public.automation_elapsed(_ticket_id UUID, _now TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH t AS (
+        SELECT
+            tk.created_at,
+            tk.updated_at,
+            COALESCE((
+                SELECT MAX(e.created_at) FROM public.ticket_events e
+                WHERE e.ticket_id = tk.id AND e.event_type = 'status_changed'
+            ), tk.created_at) AS status_since,
+            (
+                SELECT MAX(c.created_at) FROM public.ticket_comments c
+                WHERE c.ticket_id = tk.id AND c.user_id = tk.created_by
+            ) AS requester_reply_at,
+            (
+                SELECT MAX(c.created_at) FROM public.ticket_comments c
+                JOIN public.profiles p ON p.id = c.user_id
+                WHERE c.ticket_id = tk.id AND NOT c.is_internal
+                  AND c.user_id IS DISTINCT FROM tk.created_by
+                  AND p.role IN ('agent', 'admin')
+            ) AS staff_reply_at
+        FROM public.tickets tk
+        WHERE tk.id = _ticket_id
+    )
+    SELECT jsonb_build_object(
+        'minutes_since_created', floor(extract(epoch FROM _now - t.created_at) / 60),
+        'minutes_since_updated', floor(extract(epoch FROM _now - GREATEST(t.updated_at, t.requester_reply_at, t.staff_reply_at)) / 60),
+        'minutes_in_status', floor(extract(epoch FROM _now - t.status_since) / 60),
+        'minutes_since_requester_reply', floor(extract(epoch FROM _now - t.requester_reply_at) / 60),
+        'minutes_awaiting_requester', CASE
+            WHEN t.staff_reply_at > COALESCE(t.requester_reply_at, '-infinity')
+            THEN floor(extract(epoch FROM _now - t.staff_reply_at) / 60)
+        END
+    )
+    FROM t;
+$$;
+
+-- The context now carries elapsed times too
+DROP FUNCTION public.automation_context(UUID, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.automation_context(
+    _ticket_id UUID,
+    _old JSONB,
+    _comment_id UUID,
+    _now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'ticket', (SELECT to_jsonb(t) FROM public.tickets t WHERE t.id = _ticket_id),
+        'old', _old,
+        'comment', (
+            SELECT to_jsonb(c) || jsonb_build_object('author_role', p.role)
+            FROM public.ticket_comments c
+            LEFT JOIN public.profiles p ON p.id = c.user_id
+            WHERE c.id = _comment_id
+        ),
+        'elapsed', public.automation_elapsed(_ticket_id, _now)
+    );
+$$;
+
+-- These read tickets and comments past RLS, so only the automation
+-- functions call them
+REVOKE EXECUTE ON FUNCTION public.ticket_last_activity_at(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.automation_elapsed(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.automation_context(UUID, JSONB, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Adds the elapsed-time fields (in minutes) and the at_least / less_than
+-- operators
+CREATE OR REPLACE FUNCTION public.automation_condition_holds(_condition JSONB, _context JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    _field TEXT := _condition->>'field';
+    _expected TEXT := _condition->>'value';
+    _value TEXT;
+    _changed BOOLEAN;
+BEGIN
+    _value := CASE
+        WHEN _field = 'comment_body' THEN _context->'comment'->>'content'
+        WHEN _field = 'comment_is_internal' THEN _context->'comment'->>'is_internal'
+        WHEN _field = 'comment_author_role' THEN _context->'comment'->>'author_role'
+        WHEN _field LIKE 'minutes\_%' THEN _context->'elapsed'->>_field
+        ELSE _context->'ticket'->>_field
+    END;
+    -- Only updates have previous values
+    _changed := jsonb_typeof(_context->'old') = 'object'
+        AND (_context->'old'->>_field) IS DISTINCT FROM _value;
+
+    RETURN COALESCE(CASE _condition->>'operator'
+        WHEN 'is' THEN _value = _expected
+        WHEN 'is_not' THEN _value IS DISTINCT FROM _expected
+        WHEN 'contains' THEN position(lower(_expected) IN lower(COALESCE(_value, ''))) > 0
+        WHEN 'not_contains' THEN position(lower(_expected) IN lower(COALESCE(_value, ''))) = 0
+        WHEN 'is_empty' THEN COALESCE(_value, '') = ''
+        WHEN 'is_not_empty' THEN COALESCE(_value, '') <> ''
+        WHEN 'changed' THEN _changed
+        WHEN 'changed_to' THEN _changed AND _value = _expected
+        WHEN 'at_least' THEN _value::numeric >= _expected::numeric
+        WHEN 'less_than' THEN _value::numeric < _expected::numeric
+    END, FALSE);
+END;
+$$;
+
+-- Adds "admins" as a notify recipient, for escalations
+CREATE OR REPLACE FUNCTION public.run_automation_action(
+    _rule public.automation_rules,
+    _action JSONB,
+    _context JSONB,
+    _dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket_id UUID := (_context->'ticket'->>'id')::uuid;
+    _value TEXT := _action->>'value';
+    _target UUID;
+    _team_name TEXT;
+BEGIN
+    CASE _action->>'type'
+    WHEN 'set_status' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET status = _value::ticket_status WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set status to %s', replace(_value, '_', ' '));
+
+    WHEN 'set_priority' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET priority = _value::ticket_priority WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set priority to %s', _value);
+
+    WHEN 'set_category' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET category_id = _value::uuid WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set category to %s', COALESCE((SELECT name FROM public.categories WHERE id = _value::uuid), 'a deleted category'));
+
+    WHEN 'assign' THEN
+        _target := CASE WHEN _value = 'none' THEN NULL ELSE _value::uuid END;
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET assigned_to = _target WHERE id = _ticket_id;
+        END IF;
+        RETURN CASE WHEN _target IS NULL THEN 'Unassign' ELSE format('Assign to %s', public.profile_display_name(_target)) END;
+
+    WHEN 'assign_team' THEN
+        _team_name := (SELECT name FROM public.teams WHERE id = (_action->>'team_id')::uuid);
+        SELECT c.id INTO _target
+        FROM public.assignment_candidates((_action->>'team_id')::uuid) c
+        ORDER BY c.open_count, c.id
+        LIMIT 1;
+        IF _target IS NULL THEN
+            RETURN format('No available agent in %s', COALESCE(_team_name, 'a deleted team'));
+        END IF;
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET assigned_to = _target WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Assign to %s (%s)', public.profile_display_name(_target), _team_name);
+
+    WHEN 'add_comment' THEN
+        IF _rule.created_by IS NULL THEN
+            RAISE EXCEPTION 'Rule "%" has no owner to post comments as', _rule.name;
+        END IF;
+        IF NOT _dry_run THEN
+            INSERT INTO public.ticket_comments (ticket_id, user_id, content, is_internal)
+            VALUES (_ticket_id, _rule.created_by, _action->>'content', COALESCE((_action->>'is_internal')::boolean, TRUE));
+        END IF;
+        RETURN format(
+            'Add %s: %s',
+            CASE WHEN COALESCE((_action->>'is_internal')::boolean, TRUE) THEN 'internal note' ELSE 'public reply' END,
+            left(_action->>'content', 80)
+        );
+
+    WHEN 'notify' THEN
+        IF _action->>'recipient' = 'admins' THEN
+            IF NOT _dry_run THEN
+                PERFORM public.create_notification(
+                    p.id, 'automation', _ticket_id,
+                    COALESCE(NULLIF(_action->>'message', ''), format('%s: "%s"', _rule.name, _context->'ticket'->>'title'))
+                )
+                FROM public.profiles p
+                WHERE p.role = 'admin';
+            END IF;
+            RETURN 'Notify admins';
+        END IF;
+
+        _target := CASE _action->>'recipient'
+            WHEN 'requester' THEN (_context->'ticket'->>'created_by')::uuid
+            WHEN 'assignee' THEN (_context->'ticket'->>'assigned_to')::uuid
+            ELSE (_action->>'recipient')::uuid
+        END;
+        IF _target IS NULL THEN
+            RETURN 'Nobody to notify';
+        END IF;
+        IF NOT _dry_run THEN
+            PERFORM public.create_notification(
+                _target, 'automation', _ticket_id,
+                COALESCE(NULLIF(_action->>'message', ''), format('%s: "%s"', _rule.name, _context->'ticket'->>'title'))
+            );
+        END IF;
+        RETURN format('Notify %s', public.profile_display_name(_target));
+
+    WHEN 'webhook' THEN
+        IF NOT _dry_run THEN
+            INSERT INTO public.webhook_deliveries (rule_id, ticket_id, url, payload)
+            VALUES (
+                _rule.id, _ticket_id, _action->>'url',
+                jsonb_build_object(
+                    'event', _rule.event,
+                    'rule', jsonb_build_object('id', _rule.id, 'name', _rule.name),
+                    'ticket', _context->'ticket',
+                    'comment', _context->'comment'
+                )
+            );
+        END IF;
+        RETURN format('Call webhook %s', _action->>'url');
+
+    ELSE
+        RAISE EXCEPTION 'Unknown automation action "%"', _action->>'type';
+    END CASE;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.run_automation_action(public.automation_rules, JSONB, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- The scheduler tick. A scheduled rule fires at most once per ticket until
+-- the ticket next changes (see ticket_last_activity_at), so running the
+-- tick again, or more often, doesn't repeat actions; a failed run isn't
+-- retried either until then. Rules run in position order per ticket and
+-- stop_processing skips the ticket's remaining rules for this tick.
+-- Changes made here don't set off event rules. Only one tick runs at a time;
+-- one that starts while another is running returns without doing anything.
+--
+-- Schedule it with pg_cron, e.g.
+--   SELECT cron.schedule('quickdesk-automations', '*/5 * * * *',
+--                        'SELECT public.run_scheduled_automations()');
+-- or call the run-automations edge function from any scheduler.
+CREATE OR REPLACE FUNCTION public.run_scheduled_automations(_now TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TABLE (rule_name TEXT, ticket_id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket_id UUID;
+    _rule public.automation_rules%ROWTYPE;
+    _context JSONB;
+    _action JSONB;
+    _results JSONB;
+BEGIN
+    -- Overlapping ticks (pg_cron and the edge function, say) would both pass
+    -- the automation_runs check; the second one leaves the work to the first
+    IF NOT pg_try_advisory_xact_lock(hashtext('quickdesk.run_scheduled_automations')) THEN
+        RETURN;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.automation_rules WHERE is_active AND event = 'scheduled') THEN
+        RETURN;
+    END IF;
+
+    PERFORM set_config('quickdesk.automation_running', 'on', true);
+
+    FOR _ticket_id IN
+        SELECT t.id FROM public.tickets t WHERE t.status <> 'closed' ORDER BY t.created_at
+    LOOP
+        FOR _rule IN
+            SELECT * FROM public.automation_rules r
+            WHERE r.is_active AND r.event = 'scheduled'
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.automation_runs ar
+                  WHERE ar.rule_id = r.id AND ar.ticket_id = _ticket_id
+                    AND ar.created_at >= public.ticket_last_activity_at(_ticket_id)
+              )
+            ORDER BY r.position, r.created_at
+        LOOP
+            -- Rebuilt per rule so later rules see earlier rules' changes
+            _context := public.automation_context(_ticket_id, NULL, NULL, _now);
+            CONTINUE WHEN NOT public.automation_rule_matches(_rule, _context);
+
+            _results := '[]'::jsonb;
+            BEGIN
+                PERFORM set_config('quickdesk.automation_rule', _rule.name, true);
+                FOR _action IN SELECT * FROM jsonb_array_elements(_rule.actions) LOOP
+                    _results := _results || to_jsonb(public.run_automation_action(_rule, _action, _context));
+                END LOOP;
+
+                INSERT INTO public.automation_runs (rule_id, rule_name, ticket_id, event, status, results)
+                VALUES (_rule.id, _rule.name, _ticket_id, 'scheduled', 'applied', _results);
+                status := 'applied';
+            EXCEPTION WHEN OTHERS THEN
+                INSERT INTO public.automation_runs (rule_id, rule_name, ticket_id, event, status, results, error)
+                VALUES (_rule.id, _rule.name, _ticket_id, 'scheduled', 'failed', _results, SQLERRM);
+                status := 'failed';
+            END;
+            PERFORM set_config('quickdesk.automation_rule', '', true);
+
+            rule_name := _rule.name;
+            ticket_id := _ticket_id;
+            RETURN NEXT;
+
+            EXIT WHEN _rule.stop_processing;
+        END LOOP;
+    END LOOP;
+
+    PERFORM set_config('quickdesk.automation_running', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_scheduled_automations(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- The tester can pretend it is another time, for scheduled rules
+DROP FUNCTION public.test_automation_rules(UUID, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.test_automation_rules(
+    _ticket_id UUID,
+    _event TEXT,
+    _rule_id UUID DEFAULT NULL,
+    _now TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    rule_id UUID,
+    rule_name TEXT,
+    matched BOOLEAN,
+    conditions JSONB,
+    actions JSONB,
+    error TEXT,
+    stops BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rule public.automation_rules%ROWTYPE;
+    _context JSONB;
+    _action JSONB;
+BEGIN
+    IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can test automation rules';
+    END IF;
+
+    _context := public.automation_context(
+        _ticket_id, NULL,
+        CASE WHEN _event = 'comment_added' THEN (
+            SELECT c.id FROM public.ticket_comments c
+            WHERE c.ticket_id = _ticket_id
+            ORDER BY c.created_at DESC
+            LIMIT 1
+        ) END,
+        COALESCE(_now, NOW())
+    );
+    IF jsonb_typeof(_context->'ticket') IS DISTINCT FROM 'object' THEN
+        RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    FOR _rule IN
+        SELECT * FROM public.automation_rules r
+        WHERE r.event = _event AND (r.id = _rule_id OR (_rule_id IS NULL AND r.is_active))
+        ORDER BY r.position, r.created_at
+    LOOP
+        rule_id := _rule.id;
+        rule_name := _rule.name;
+        matched := public.automation_rule_matches(_rule, _context);
+        conditions := COALESCE((
+            SELECT jsonb_agg(c || jsonb_build_object('holds', public.automation_condition_holds(c, _context)))
+            FROM jsonb_array_elements(_rule.conditions) c
+        ), '[]'::jsonb);
+        actions := '[]'::jsonb;
+        error := NULL;
+        stops := matched AND _rule.stop_processing;
+
+        IF matched THEN
+            BEGIN
+                FOR _action IN SELECT * FROM jsonb_array_elements(_rule.actions) LOOP
+                    actions := actions || to_jsonb(public.run_automation_action(_rule, _action, _context, TRUE));
+                END LOOP;
+            EXCEPTION WHEN OTHERS THEN
+                error := SQLERRM;
+            END;
+        END IF;
+
+        RETURN NEXT;
+        EXIT WHEN stops;
+    END LOOP;
+END;
+$$;
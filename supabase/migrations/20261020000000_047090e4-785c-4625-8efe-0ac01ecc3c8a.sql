@@ -0,0 +1,631 @@
+-- Configurable ticket statuses. Admins define the statuses (each mapped to
+-- a category that the rest of the system reasons about: SLA, workload,
+-- schedules) and the transitions allowed between them. The graph is
+-- enforced by a trigger; solved and closed tickets can always be reopened
+-- through reopen_ticket.
+
+CREATE TABLE public.ticket_statuses (
+    key TEXT PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+    name TEXT NOT NULL,
+    category TEXT NOT NULL CHECK (category IN ('new', 'open', 'pending', 'solved', 'closed')),
+    -- One of the badge palette colors the app knows
+    color TEXT NOT NULL DEFAULT 'gray' CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple')),
+    position INTEGER NOT NULL DEFAULT 0,
+    -- The status new tickets start in
+    is_default BOOLEAN NOT NULL DEFAULT FALSE CHECK (NOT is_default OR category IN ('new', 'open')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_ticket_statuses_default ON public.ticket_statuses(is_default) WHERE is_default;
+
+CREATE TABLE public.ticket_status_transitions (
+    from_status TEXT NOT NULL REFERENCES public.ticket_statuses(key) ON DELETE CASCADE,
+    to_status TEXT NOT NULL REFERENCES public.ticket_statuses(key) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (from_status, to_status),
+    CHECK (from_status <> to_status)
+);
+
+ALTER TABLE public.ticket_statuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view ticket statuses" ON public.ticket_statuses
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage ticket statuses" ON public.ticket_statuses
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Anyone can view status transitions" ON public.ticket_status_transitions
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage status transitions" ON public.ticket_status_transitions
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_ticket_statuses_updated_at BEFORE UPDATE ON public.ticket_statuses
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The old enum values, with the workflow they allowed in practice
+INSERT INTO public.ticket_statuses (key, name, category, color, position, is_default) VALUES
+    ('open', 'Open', 'new', 'red', 0, true),
+    ('in_progress', 'In Progress', 'open', 'yellow', 1, false),
+    ('resolved', 'Resolved', 'solved', 'green', 2, false),
+    ('closed', 'Closed', 'closed', 'gray', 3, false);
+
+INSERT INTO public.ticket_status_transitions (from_status, to_status) VALUES
+    ('open', 'in_progress'),
+    ('open', 'resolved'),
+    ('open', 'closed'),
+    ('in_progress', 'open'),
+    ('in_progress', 'resolved'),
+    ('in_progress', 'closed'),
+    ('resolved', 'in_progress'),
+    ('resolved', 'closed');
+
+CREATE OR REPLACE FUNCTION public.ticket_status_category(_status TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT category FROM public.ticket_statuses WHERE key = _status;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ticket_status_name(_status TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE((SELECT name FROM public.ticket_statuses WHERE key = _status), replace(_status, '_', ' '));
+$$;
+
+-- Tickets someone still has to work on; these count towards agent workload
+CREATE OR REPLACE FUNCTION public.ticket_status_is_active(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(public.ticket_status_category(_status) IN ('new', 'open', 'pending'), FALSE);
+$$;
+
+CREATE OR REPLACE FUNCTION public.default_ticket_status()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT key FROM public.ticket_statuses WHERE is_default;
+$$;
+
+-- tickets.status becomes a reference to ticket_statuses. Triggers that list
+-- the column are recreated around the type change.
+DROP TRIGGER notify_ticket_update ON public.tickets;
+DROP TRIGGER queue_ticket_update_emails ON public.tickets;
+
+ALTER TABLE public.tickets ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.tickets ALTER COLUMN status TYPE TEXT USING status::text;
+UPDATE public.tickets SET status = 'open' WHERE status IS NULL;
+ALTER TABLE public.tickets ALTER COLUMN status SET DEFAULT public.default_ticket_status();
+ALTER TABLE public.tickets ALTER COLUMN status SET NOT NULL;
+ALTER TABLE public.tickets ADD CONSTRAINT tickets_status_fkey
+    FOREIGN KEY (status) REFERENCES public.ticket_statuses(key);
+
+CREATE INDEX idx_tickets_status ON public.tickets(status);
+
+CREATE TRIGGER notify_ticket_update AFTER UPDATE OF assigned_to, status ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.notify_ticket_changes();
+
+CREATE TRIGGER queue_ticket_update_emails AFTER UPDATE OF status, assigned_to ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.queue_ticket_emails();
+
+ALTER TABLE public.macros ALTER COLUMN set_status TYPE TEXT USING set_status::text;
+ALTER TABLE public.macros ADD CONSTRAINT macros_set_status_fkey
+    FOREIGN KEY (set_status) REFERENCES public.ticket_statuses(key) ON DELETE SET NULL;
+
+-- Workflow order for sorting by status (PostgREST computed column)
+CREATE OR REPLACE FUNCTION public.status_position(public.tickets)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT position FROM public.ticket_statuses WHERE key = $1.status;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+        AND current_setting('quickdesk.reopening', true) IS DISTINCT FROM NEW.id::text
+        AND NOT EXISTS (
+            SELECT 1 FROM public.ticket_status_transitions
+            WHERE from_status = OLD.status AND to_status = NEW.status
+        ) THEN
+        RAISE EXCEPTION 'A ticket can''t move from % to %',
+            public.ticket_status_name(OLD.status), public.ticket_status_name(NEW.status)
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_ticket_status_transition BEFORE UPDATE OF status ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_ticket_status_transition();
+
+-- Moves a solved or closed ticket back to work, whatever the graph says.
+-- Staff and the requester may reopen; so may service-role callers (inbound
+-- email). The target defaults to the default status.
+CREATE OR REPLACE FUNCTION public.reopen_ticket(_ticket_id UUID, _status TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket public.tickets%ROWTYPE;
+    _target TEXT := COALESCE(_status, public.default_ticket_status());
+BEGIN
+    SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+        AND _ticket.created_by IS DISTINCT FROM auth.uid()
+        AND NOT COALESCE(public.get_user_role(auth.uid()) IN ('agent', 'admin'), FALSE) THEN
+        RAISE EXCEPTION 'Only staff and the requester can reopen this ticket';
+    END IF;
+
+    IF public.ticket_status_category(_ticket.status) NOT IN ('solved', 'closed') THEN
+        RAISE EXCEPTION 'Only solved or closed tickets can be reopened';
+    END IF;
+
+    IF public.ticket_status_category(_target) IS DISTINCT FROM 'new'
+        AND public.ticket_status_category(_target) IS DISTINCT FROM 'open' THEN
+        RAISE EXCEPTION 'Tickets can only be reopened into a new or open status';
+    END IF;
+
+    PERFORM set_config('quickdesk.reopening', _ticket_id::text, true);
+    UPDATE public.tickets SET status = _target WHERE id = _ticket_id;
+    PERFORM set_config('quickdesk.reopening', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reopen_ticket(UUID, TEXT) FROM PUBLIC, anon;
+
+-- Functions that knew the enum values now go by category
+CREATE OR REPLACE FUNCTION public.apply_ticket_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _policy public.sla_policies%ROWTYPE;
+BEGIN
+    -- Requesters can update their own tickets, so the SLA columns, and the
+    -- created_at the due dates count from, are only ever set here or by
+    -- server code that sets quickdesk.updating_sla
+    IF current_setting('quickdesk.updating_sla', true) IS DISTINCT FROM NEW.id::text THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.created_at := NOW();
+            NEW.first_responded_at := NULL;
+            NEW.resolved_at := NULL;
+        ELSE
+            NEW.created_at := OLD.created_at;
+            NEW.sla_policy_id := OLD.sla_policy_id;
+            NEW.first_response_due_at := OLD.first_response_due_at;
+            NEW.resolution_due_at := OLD.resolution_due_at;
+            NEW.first_responded_at := OLD.first_responded_at;
+            NEW.resolved_at := OLD.resolved_at;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR NEW.priority IS DISTINCT FROM OLD.priority
+        OR NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        SELECT * INTO _policy FROM public.sla_policies
+        WHERE id = public.match_sla_policy(NEW.priority, NEW.category_id);
+
+        NEW.sla_policy_id := _policy.id;
+        NEW.first_response_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.first_response_minutes, _policy.schedule_id);
+        NEW.resolution_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.resolution_minutes, _policy.schedule_id);
+    END IF;
+
+    IF public.ticket_status_category(NEW.status) IN ('solved', 'closed') THEN
+        NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+    ELSE
+        NEW.resolved_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.assigned_to IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+        PERFORM public.create_notification(
+            NEW.assigned_to, 'assignment', NEW.id,
+            format('%s assigned you "%s"', public.notification_actor(), NEW.title)
+        );
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        PERFORM public.create_notification(
+            NEW.created_by, 'status_change', NEW.id,
+            format('Your ticket "%s" is now %s', NEW.title, public.ticket_status_name(NEW.status))
+        );
+
+        -- The assignee hears about status changes made by someone else too
+        IF NEW.assigned_to IS DISTINCT FROM NEW.created_by AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+            PERFORM public.create_notification(
+                NEW.assigned_to, 'status_change', NEW.id,
+                format('%s marked "%s" as %s', public.notification_actor(), NEW.title, public.ticket_status_name(NEW.status))
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assignment_candidates(_team_id UUID)
+RETURNS TABLE (id UUID, open_count INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT c.id, c.open_count
+    FROM (
+        SELECT p.id, a.max_open_tickets, (
+            SELECT COUNT(*)::integer FROM public.tickets t
+            WHERE t.assigned_to = p.id AND public.ticket_status_is_active(t.status)
+        ) AS open_count
+        FROM public.profiles p
+        LEFT JOIN public.agent_availability a ON a.user_id = p.id
+        WHERE COALESCE(a.is_available, TRUE)
+          AND CASE
+              WHEN _team_id IS NOT NULL THEN
+                  p.role IN ('agent', 'admin') AND EXISTS (
+                      SELECT 1 FROM public.team_members m
+                      WHERE m.team_id = _team_id AND m.user_id = p.id
+                  )
+              ELSE p.role = 'agent'
+          END
+    ) c
+    WHERE c.max_open_tickets IS NULL OR c.open_count < c.max_open_tickets;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_automation_action(
+    _rule public.automation_rules,
+    _action JSONB,
+    _context JSONB,
+    _dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket_id UUID := (_context->'ticket'->>'id')::uuid;
+    _value TEXT := _action->>'value';
+    _target UUID;
+    _team_name TEXT;
+BEGIN
+    CASE _action->>'type'
+    WHEN 'set_status' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET status = _value WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set status to %s', public.ticket_status_name(_value));
+
+    WHEN 'set_priority' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET priority = _value::ticket_priority WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set priority to %s', _value);
+
+    WHEN 'set_category' THEN
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET category_id = _value::uuid WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Set category to %s', COALESCE((SELECT name FROM public.categories WHERE id = _value::uuid), 'a deleted category'));
+
+    WHEN 'assign' THEN
+        _target := CASE WHEN _value = 'none' THEN NULL ELSE _value::uuid END;
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET assigned_to = _target WHERE id = _ticket_id;
+        END IF;
+        RETURN CASE WHEN _target IS NULL THEN 'Unassign' ELSE format('Assign to %s', public.profile_display_name(_target)) END;
+
+    WHEN 'assign_team' THEN
+        _team_name := (SELECT name FROM public.teams WHERE id = (_action->>'team_id')::uuid);
+        SELECT c.id INTO _target
+        FROM public.assignment_candidates((_action->>'team_id')::uuid) c
+        ORDER BY c.open_count, c.id
+        LIMIT 1;
+        IF _target IS NULL THEN
+            RETURN format('No available agent in %s', COALESCE(_team_name, 'a deleted team'));
+        END IF;
+        IF NOT _dry_run THEN
+            UPDATE public.tickets SET assigned_to = _target WHERE id = _ticket_id;
+        END IF;
+        RETURN format('Assign to %s (%s)', public.profile_display_name(_target), _team_name);
+
+    WHEN 'add_comment' THEN
+        IF _rule.created_by IS NULL THEN
+            RAISE EXCEPTION 'Rule "%" has no owner to post comments as', _rule.name;
+        END IF;
+        IF NOT _dry_run THEN
+            INSERT INTO public.ticket_comments (ticket_id, user_id, content, is_internal)
+            VALUES (_ticket_id, _rule.created_by, _action->>'content', COALESCE((_action->>'is_internal')::boolean, TRUE));
+        END IF;
+        RETURN format(
+            'Add %s: %s',
+            CASE WHEN COALESCE((_action->>'is_internal')::boolean, TRUE) THEN 'internal note' ELSE 'public reply' END,
+            left(_action->>'content', 80)
+        );
+
+    WHEN 'notify' THEN
+        IF _action->>'recipient' = 'admins' THEN
+            IF NOT _dry_run THEN
+                PERFORM public.create_notification(
+                    p.id, 'automation', _ticket_id,
+                    COALESCE(NULLIF(_action->>'message', ''), format('%s: "%s"', _rule.name, _context->'ticket'->>'title'))
+                )
+                FROM public.profiles p
+                WHERE p.role = 'admin';
+            END IF;
+            RETURN 'Notify admins';
+        END IF;
+
+        _target := CASE _action->>'recipient'
+            WHEN 'requester' THEN (_context->'ticket'->>'created_by')::uuid
+            WHEN 'assignee' THEN (_context->'ticket'->>'assigned_to')::uuid
+            ELSE (_action->>'recipient')::uuid
+        END;
+        IF _target IS NULL THEN
+            RETURN 'Nobody to notify';
+        END IF;
+        IF NOT _dry_run THEN
+            PERFORM public.create_notification(
+                _target, 'automation', _ticket_id,
+                COALESCE(NULLIF(_action->>'message', ''), format('%s: "%s"', _rule.name, _context->'ticket'->>'title'))
+            );
+        END IF;
+        RETURN format('Notify %s', public.profile_display_name(_target));
+
+    WHEN 'webhook' THEN
+        IF NOT _dry_run THEN
+            INSERT INTO public.webhook_deliveries (rule_id, ticket_id, url, payload)
+            VALUES (
+                _rule.id, _ticket_id, _action->>'url',
+                jsonb_build_object(
+                    'event', _rule.event,
+                    'rule', jsonb_build_object('id', _rule.id, 'name', _rule.name),
+                    'ticket', _context->'ticket',
+                    'comment', _context->'comment'
+                )
+            );
+        END IF;
+        RETURN format('Call webhook %s', _action->>'url');
+
+    ELSE
+        RAISE EXCEPTION 'Unknown automation action "%"', _action->>'type';
+    END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_automation_action(public.automation_rules, JSONB, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.run_scheduled_automations(_now TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TABLE (rule_name TEXT, ticket_id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket_id UUID;
+    _rule public.automation_rules%ROWTYPE;
+    _context JSONB;
+    _action JSONB;
+    _results JSONB;
+BEGIN
+    -- Overlapping ticks (pg_cron and the edge function, say) would both pass
+    -- the automation_runs check; the second one leaves the work to the first
+    IF NOT pg_try_advisory_xact_lock(hashtext('quickdesk.run_scheduled_automations')) THEN
+        RETURN;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.automation_rules WHERE is_active AND event = 'scheduled') THEN
+        RETURN;
+    END IF;
+
+    PERFORM set_config('quickdesk.automation_running', 'on', true);
+
+    FOR _ticket_id IN
+        SELECT t.id FROM public.tickets t
+        WHERE public.ticket_status_category(t.status) <> 'closed'
+        ORDER BY t.created_at
+    LOOP
+        FOR _rule IN
+            SELECT * FROM public.automation_rules r
+            WHERE r.is_active AND r.event = 'scheduled'
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.automation_runs ar
+                  WHERE ar.rule_id = r.id AND ar.ticket_id = _ticket_id
+                    AND ar.created_at >= public.ticket_last_activity_at(_ticket_id)
+              )
+            ORDER BY r.position, r.created_at
+        LOOP
+            -- Rebuilt per rule so later rules see earlier rules' changes
+            _context := public.automation_context(_ticket_id, NULL, NULL, _now);
+            CONTINUE WHEN NOT public.automation_rule_matches(_rule, _context);
+
+            _results := '[]'::jsonb;
+            BEGIN
+                PERFORM set_config('quickdesk.automation_rule', _rule.name, true);
+                FOR _action IN SELECT * FROM jsonb_array_elements(_rule.actions) LOOP
+                    _results := _results || to_jsonb(public.run_automation_action(_rule, _action, _context));
+                END LOOP;
+
+                INSERT INTO public.automation_runs (rule_id, rule_name, ticket_id, event, status, results)
+                VALUES (_rule.id, _rule.name, _ticket_id, 'scheduled', 'applied', _results);
+                status := 'applied';
+            EXCEPTION WHEN OTHERS THEN
+                INSERT INTO public.automation_runs (rule_id, rule_name, ticket_id, event, status, results, error)
+                VALUES (_rule.id, _rule.name, _ticket_id, 'scheduled', 'failed', _results, SQLERRM);
+                status := 'failed';
+            END;
+            PERFORM set_config('quickdesk.automation_rule', '', true);
+
+            rule_name := _rule.name;
+            ticket_id := _ticket_id;
+            RETURN NEXT;
+
+            EXIT WHEN _rule.stop_processing;
+        END LOOP;
+    END LOOP;
+
+    PERFORM set_config('quickdesk.automation_running', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_scheduled_automations(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Search takes any configured status and sorts by workflow order
+DROP FUNCTION public.search_tickets(
+    TEXT, public.ticket_status, public.ticket_priority, UUID, TEXT, TEXT, TEXT,
+    TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_tickets(
+    _text TEXT DEFAULT NULL,
+    _status TEXT DEFAULT NULL,
+    _priority public.ticket_priority DEFAULT NULL,
+    _category_id UUID DEFAULT NULL,
+    _category_name TEXT DEFAULT NULL,
+    _assignee TEXT DEFAULT NULL,
+    _creator TEXT DEFAULT NULL,
+    _created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _sort TEXT DEFAULT 'relevance',
+    _limit INTEGER DEFAULT 25,
+    _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    ticket_id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    WITH search AS (
+        SELECT CASE
+            WHEN COALESCE(trim(_text), '') = '' THEN NULL
+            ELSE websearch_to_tsquery('english', _text)
+        END AS query
+    ),
+    matches AS (
+        SELECT
+            t.id, t.title, t.description, t.status, t.priority, t.created_at, t.updated_at,
+            st.position AS status_position,
+            s.query,
+            CASE WHEN s.query IS NULL THEN 0 ELSE ts_rank(ts.document, s.query) END AS rank
+        FROM public.tickets t
+        CROSS JOIN search s
+        LEFT JOIN public.ticket_search ts ON ts.ticket_id = t.id
+        LEFT JOIN public.categories cat ON cat.id = t.category_id
+        LEFT JOIN public.ticket_statuses st ON st.key = t.status
+        WHERE (
+                s.query IS NULL
+                OR ts.document @@ s.query
+                OR EXISTS (
+                    SELECT 1 FROM public.ticket_comments ic
+                    WHERE ic.ticket_id = t.id AND ic.is_internal
+                      AND to_tsvector('english', ic.content) @@ s.query
+                )
+            )
+            AND (_status IS NULL OR t.status = _status)
+            AND (_priority IS NULL OR t.priority = _priority)
+            AND (_category_id IS NULL OR t.category_id = _category_id)
+            AND (_category_name IS NULL OR cat.name ILIKE _category_name)
+            AND (_assignee IS NULL OR CASE
+                WHEN _assignee = 'me' THEN t.assigned_to = auth.uid()
+                WHEN _assignee = 'none' THEN t.assigned_to IS NULL
+                ELSE EXISTS (
+                    SELECT 1 FROM public.profiles p
+                    WHERE p.id = t.assigned_to
+                      AND (p.id::text = _assignee OR p.username ILIKE _assignee OR p.full_name ILIKE _assignee)
+                )
+            END)
+            AND (_creator IS NULL OR CASE
+                WHEN _creator = 'me' THEN t.created_by = auth.uid()
+                ELSE EXISTS (
+                    SELECT 1 FROM public.profiles p
+                    WHERE p.id = t.created_by
+                      AND (p.id::text = _creator OR p.username ILIKE _creator OR p.full_name ILIKE _creator)
+                )
+            END)
+            AND (_created_from IS NULL OR t.created_at >= _created_from)
+            AND (_created_before IS NULL OR t.created_at < _created_before)
+    ),
+    ranked AS (
+        SELECT
+            m.*,
+            ROW_NUMBER() OVER (ORDER BY
+                CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+                CASE WHEN _sort = 'oldest' THEN m.created_at END ASC,
+                CASE WHEN _sort = 'updated' THEN m.updated_at END DESC,
+                CASE WHEN _sort = 'priority' THEN m.priority END DESC,
+                CASE WHEN _sort = 'status' THEN m.status_position END ASC,
+                m.created_at DESC,
+                m.id
+            ) AS position,
+            COUNT(*) OVER () AS total_count
+        FROM matches m
+    )
+    -- Headlines are built for the requested page only
+    SELECT
+        r.id,
+        r.rank,
+        CASE WHEN r.query IS NULL THEN r.title
+            ELSE ts_headline('english', r.title, r.query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')
+        END,
+        CASE WHEN r.query IS NULL THEN NULL
+            ELSE ts_headline(
+                'english',
+                concat_ws(' … ', r.description, (
+                    SELECT string_agg(c.content, ' … ' ORDER BY c.created_at)
+                    FROM public.ticket_comments c
+                    WHERE c.ticket_id = r.id AND to_tsvector('english', c.content) @@ r.query
+                )),
+                r.query,
+                'MaxFragments=2, MinWords=6, MaxWords=20, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>'
+            )
+        END,
+        r.total_count
+    FROM ranked r
+    WHERE r.position > _offset AND r.position <= _offset + _limit
+    ORDER BY r.position;
+$$;
+
+DROP TYPE public.ticket_status;
@@ -0,0 +1,231 @@
+-- Pending ("waiting on customer") tickets. While a ticket is in a pending
+-- status the resolution clock is paused: every pause is recorded, and the
+-- resolution due date and ticket age leave that time out.
+
+ALTER TABLE public.tickets ADD COLUMN pending_since TIMESTAMP WITH TIME ZONE;
+
+-- Completed pauses; the current one, if any, is tickets.pending_since
+CREATE TABLE public.ticket_pauses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    CHECK (ended_at >= started_at)
+);
+
+CREATE INDEX idx_ticket_pauses_ticket ON public.ticket_pauses(ticket_id);
+
+ALTER TABLE public.ticket_pauses ENABLE ROW LEVEL SECURITY;
+
+-- Written by apply_ticket_sla only
+CREATE POLICY "Users can view pauses of accessible tickets" ON public.ticket_pauses
+    FOR SELECT USING (public.can_view_ticket(ticket_id));
+
+-- The pending status, between the working statuses and the finished ones
+UPDATE public.ticket_statuses SET position = position + 1 WHERE category IN ('solved', 'closed');
+
+INSERT INTO public.ticket_statuses (key, name, category, color, position)
+SELECT 'pending', 'Waiting on Customer', 'pending', 'purple', COALESCE(MIN(position), 1) - 1
+FROM public.ticket_statuses
+WHERE category IN ('solved', 'closed');
+
+INSERT INTO public.ticket_status_transitions (from_status, to_status) VALUES
+    ('open', 'pending'),
+    ('in_progress', 'pending'),
+    ('pending', 'in_progress'),
+    ('pending', 'resolved'),
+    ('pending', 'closed');
+
+-- Pending tickets wait on the requester, so they no longer count towards
+-- agent workload
+CREATE OR REPLACE FUNCTION public.ticket_status_is_active(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(public.ticket_status_category(_status) IN ('new', 'open'), FALSE);
+$$;
+
+-- Minutes a ticket has spent paused, counted on the given schedule (wall
+-- clock for NULL). The ongoing pause counts up to _until, if given.
+CREATE OR REPLACE FUNCTION public.ticket_paused_minutes(
+    _ticket_id UUID,
+    _schedule_id UUID,
+    _until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN _schedule_id IS NULL THEN EXTRACT(EPOCH FROM (p.ended_at - p.started_at)) / 60
+            ELSE public.business_minutes_between(_schedule_id, p.started_at, p.ended_at)
+        END
+    ), 0)
+    FROM (
+        SELECT started_at, ended_at FROM public.ticket_pauses WHERE ticket_id = _ticket_id
+        UNION ALL
+        SELECT pending_since, _until FROM public.tickets
+        WHERE id = _ticket_id AND pending_since IS NOT NULL AND _until > pending_since
+    ) p;
+$$;
+
+-- Entering a pending status starts a pause; leaving it records the pause and
+-- pushes the resolution due date back by the paused time
+CREATE OR REPLACE FUNCTION public.apply_ticket_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _policy public.sla_policies%ROWTYPE;
+    _recalculate BOOLEAN := FALSE;
+BEGIN
+    -- Requesters can update their own tickets, so the SLA columns, and the
+    -- created_at the due dates count from, are only ever set here or by
+    -- server code that sets quickdesk.updating_sla
+    IF current_setting('quickdesk.updating_sla', true) IS DISTINCT FROM NEW.id::text THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.created_at := NOW();
+            NEW.first_responded_at := NULL;
+            NEW.resolved_at := NULL;
+        ELSE
+            NEW.created_at := OLD.created_at;
+            NEW.sla_policy_id := OLD.sla_policy_id;
+            NEW.first_response_due_at := OLD.first_response_due_at;
+            NEW.resolution_due_at := OLD.resolution_due_at;
+            NEW.first_responded_at := OLD.first_responded_at;
+            NEW.resolved_at := OLD.resolved_at;
+            NEW.pending_since := OLD.pending_since;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR NEW.priority IS DISTINCT FROM OLD.priority
+        OR NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        NEW.sla_policy_id := public.match_sla_policy(NEW.priority, NEW.category_id);
+        _recalculate := TRUE;
+    END IF;
+
+    IF public.ticket_status_category(NEW.status) = 'pending' THEN
+        NEW.pending_since := COALESCE(CASE WHEN TG_OP = 'UPDATE' THEN OLD.pending_since END, NOW());
+    ELSIF TG_OP = 'UPDATE' AND OLD.pending_since IS NOT NULL THEN
+        INSERT INTO public.ticket_pauses (ticket_id, started_at, ended_at)
+        VALUES (NEW.id, OLD.pending_since, GREATEST(NOW(), OLD.pending_since));
+        NEW.pending_since := NULL;
+        _recalculate := TRUE;
+    ELSE
+        NEW.pending_since := NULL;
+    END IF;
+
+    IF _recalculate THEN
+        SELECT * INTO _policy FROM public.sla_policies WHERE id = NEW.sla_policy_id;
+
+        NEW.first_response_due_at := public.sla_due_at(COALESCE(NEW.created_at, NOW()), _policy.first_response_minutes, _policy.schedule_id);
+        NEW.resolution_due_at := public.sla_due_at(
+            COALESCE(NEW.created_at, NOW()),
+            (_policy.resolution_minutes + ceil(public.ticket_paused_minutes(NEW.id, _policy.schedule_id)))::INTEGER,
+            _policy.schedule_id
+        );
+    END IF;
+
+    IF public.ticket_status_category(NEW.status) IN ('solved', 'closed') THEN
+        NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+    ELSE
+        NEW.resolved_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- A paused resolution target shows as 'paused' unless it had already been
+-- missed when the pause began
+CREATE OR REPLACE VIEW public.ticket_sla_status WITH (security_invoker = on) AS
+SELECT
+    t.id AS ticket_id,
+    t.sla_policy_id,
+    t.first_response_due_at,
+    t.resolution_due_at,
+    t.first_responded_at,
+    t.resolved_at,
+    s.first_response_state,
+    s.resolution_state,
+    CASE
+        WHEN 'breached' IN (s.first_response_state, s.resolution_state) THEN 'breached'
+        WHEN 'at_risk' IN (s.first_response_state, s.resolution_state) THEN 'at_risk'
+        WHEN s.resolution_state = 'paused' THEN 'paused'
+        WHEN s.resolution_state = 'met' THEN 'met'
+        WHEN s.resolution_state IS NOT NULL THEN 'on_track'
+    END AS sla_state,
+    t.pending_since
+FROM public.tickets t
+CROSS JOIN LATERAL (
+    SELECT
+        public.sla_target_state(t.created_at, t.first_response_due_at, t.first_responded_at) AS first_response_state,
+        CASE
+            WHEN t.pending_since IS NOT NULL AND t.resolved_at IS NULL
+                AND t.resolution_due_at > t.pending_since THEN 'paused'
+            ELSE public.sla_target_state(t.created_at, t.resolution_due_at, t.resolved_at)
+        END AS resolution_state
+) s;
+
+-- Ticket age without the time spent waiting on the requester
+CREATE OR REPLACE FUNCTION public.ticket_business_age_minutes(_ticket_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT GREATEST(0, CASE
+        WHEN s.id IS NULL THEN EXTRACT(EPOCH FROM (COALESCE(t.resolved_at, NOW()) - t.created_at)) / 60
+        ELSE public.business_minutes_between(s.id, t.created_at, COALESCE(t.resolved_at, NOW()))
+    END - public.ticket_paused_minutes(t.id, s.id, COALESCE(t.resolved_at, NOW())))
+    FROM public.tickets t
+    LEFT JOIN public.business_schedules s ON s.is_default
+    WHERE t.id = _ticket_id;
+$$;
+
+-- Where a pending ticket goes when the requester answers: the first status
+-- in the open category, else the default status
+CREATE OR REPLACE FUNCTION public.ticket_resume_status()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT key FROM public.ticket_statuses WHERE category = 'open' ORDER BY position LIMIT 1),
+        public.default_ticket_status()
+    );
+$$;
+
+-- A public reply from the requester takes the ticket out of pending. This is
+-- a system move, so it skips the transition graph like reopen_ticket does.
+CREATE OR REPLACE FUNCTION public.resume_pending_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT NEW.is_internal AND EXISTS (
+        SELECT 1 FROM public.tickets
+        WHERE id = NEW.ticket_id
+          AND created_by = NEW.user_id
+          AND public.ticket_status_category(status) = 'pending'
+    ) THEN
+        PERFORM set_config('quickdesk.reopening', NEW.ticket_id::text, true);
+        UPDATE public.tickets SET status = public.ticket_resume_status() WHERE id = NEW.ticket_id;
+        PERFORM set_config('quickdesk.reopening', '', true);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resume_pending_ticket AFTER INSERT ON public.ticket_comments
+    FOR EACH ROW EXECUTE FUNCTION public.resume_pending_ticket();
@@ -0,0 +1,173 @@
+-- Customer satisfaction surveys. Each time a ticket is solved the requester
+-- is asked for a good/bad rating with an optional comment, in the app and by
+-- email. The emailed link carries a secret token and works without logging
+-- in; both paths go through submit_csat_rating.
+
+CREATE TABLE public.csat_surveys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+    requester_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    -- Assignee and category when the ticket was solved, so the rating keeps
+    -- counting for them if the ticket changes later
+    agent_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    rating TEXT CHECK (rating IN ('good', 'bad')),
+    comment TEXT,
+    rated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_csat_surveys_ticket ON public.csat_surveys(ticket_id, created_at DESC);
+CREATE INDEX idx_csat_surveys_rated ON public.csat_surveys(rated_at) WHERE rating IS NOT NULL;
+
+ALTER TABLE public.csat_surveys ENABLE ROW LEVEL SECURITY;
+
+-- Surveys are created by a trigger and answered through submit_csat_rating
+CREATE POLICY "Requesters can view own surveys" ON public.csat_surveys
+    FOR SELECT USING (requester_id = auth.uid());
+
+CREATE POLICY "Staff can view all surveys" ON public.csat_surveys
+    FOR SELECT USING (public.get_user_role(auth.uid()) IN ('agent', 'admin'));
+
+-- The token rates a survey on its own, so no client can read it back: not
+-- staff (who could rate their own tickets), and not requesters either, who
+-- rate in the app through rate_csat_survey
+REVOKE SELECT ON public.csat_surveys FROM anon, authenticated;
+GRANT SELECT (
+    id, ticket_id, requester_id, agent_id, category_id, rating, comment, rated_at, created_at, updated_at
+) ON public.csat_surveys TO authenticated;
+
+CREATE TRIGGER update_csat_surveys_updated_at BEFORE UPDATE ON public.csat_surveys
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('assignment', 'comment', 'status_change', 'mention', 'automation', 'csat'));
+
+ALTER TABLE public.email_messages DROP CONSTRAINT email_messages_template_check;
+ALTER TABLE public.email_messages
+    ADD CONSTRAINT email_messages_template_check
+    CHECK (template IN ('ticket_created', 'agent_reply', 'status_changed', 'assignment', 'csat_request'));
+
+ALTER TABLE public.email_preferences ADD COLUMN csat_request BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Asks the requester for a rating when a ticket enters a solved status.
+-- Requesters who solve their own ticket aren't asked.
+CREATE OR REPLACE FUNCTION public.create_csat_survey()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _survey_id UUID;
+BEGIN
+    IF public.ticket_status_category(NEW.status) = 'solved'
+        AND public.ticket_status_category(OLD.status) IS DISTINCT FROM 'solved'
+        AND NEW.created_by IS DISTINCT FROM auth.uid() THEN
+        INSERT INTO public.csat_surveys (ticket_id, requester_id, agent_id, category_id)
+        VALUES (NEW.id, NEW.created_by, NEW.assigned_to, NEW.category_id)
+        RETURNING id INTO _survey_id;
+
+        PERFORM public.create_notification(
+            NEW.created_by, 'csat', NEW.id,
+            format('How did we do on "%s"? Rate the resolution', NEW.title)
+        );
+        -- Admins can read the email queue, so the token stays out of it;
+        -- send-email looks it up by survey id
+        PERFORM public.enqueue_email(
+            NEW.created_by, 'csat_request', NEW.id,
+            jsonb_build_object('csat_survey_id', _survey_id)
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_csat_survey AFTER UPDATE OF status ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.create_csat_survey();
+
+-- What the rating page shows for a token; nothing for an unknown one
+CREATE OR REPLACE FUNCTION public.get_csat_survey(_token TEXT)
+RETURNS TABLE (
+    ticket_id UUID,
+    ticket_title TEXT,
+    agent_name TEXT,
+    rating TEXT,
+    comment TEXT,
+    rated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT s.ticket_id, t.title, public.profile_display_name(s.agent_id), s.rating, s.comment, s.rated_at
+    FROM public.csat_surveys s
+    JOIN public.tickets t ON t.id = s.ticket_id
+    WHERE s.token = _token;
+$$;
+
+-- Records or changes a rating. The token is the only credential, so this
+-- works for signed-out requesters too. A NULL comment keeps the old one.
+CREATE OR REPLACE FUNCTION public.submit_csat_rating(_token TEXT, _rating TEXT, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _survey public.csat_surveys%ROWTYPE;
+BEGIN
+    IF _rating NOT IN ('good', 'bad') THEN
+        RAISE EXCEPTION 'Rating must be good or bad';
+    END IF;
+
+    SELECT * INTO _survey FROM public.csat_surveys WHERE token = _token FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Survey not found';
+    END IF;
+
+    UPDATE public.csat_surveys
+    SET rating = _rating,
+        comment = COALESCE(NULLIF(trim(_comment), ''), comment),
+        rated_at = NOW()
+    WHERE id = _survey.id;
+
+    -- The agent hears about new and changed ratings
+    IF _survey.rating IS DISTINCT FROM _rating THEN
+        PERFORM public.create_notification(
+            _survey.agent_id, 'csat', _survey.ticket_id,
+            format('%s rated the resolution of "%s" %s',
+                public.profile_display_name(_survey.requester_id),
+                (SELECT title FROM public.tickets WHERE id = _survey.ticket_id),
+                _rating)
+        );
+    END IF;
+END;
+$$;
+
+-- The in-app rating for a signed-in requester, by survey rather than token
+CREATE OR REPLACE FUNCTION public.rate_csat_survey(_survey_id UUID, _rating TEXT, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _token TEXT;
+BEGIN
+    SELECT token INTO _token FROM public.csat_surveys
+    WHERE id = _survey_id AND requester_id = auth.uid();
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Survey not found';
+    END IF;
+
+    PERFORM public.submit_csat_rating(_token, _rating, _comment);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rate_csat_survey(UUID, TEXT, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,137 @@
+-- Knowledge base. Community Q&A runs on the existing questions, answers,
+-- comments and votes tables; agents can promote an accepted answer into an
+-- official article in kb_articles.
+
+CREATE TABLE public.kb_articles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    -- The accepted answer the article was promoted from, if any
+    source_answer_id UUID UNIQUE REFERENCES public.answers(id) ON DELETE SET NULL,
+    author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_kb_articles_tags ON public.kb_articles USING GIN (tags);
+CREATE INDEX idx_questions_tags ON public.questions USING GIN (tags);
+CREATE INDEX idx_answers_question ON public.answers(question_id);
+CREATE INDEX idx_comments_answer ON public.comments(answer_id, created_at);
+
+ALTER TABLE public.kb_articles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view articles" ON public.kb_articles
+    FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage articles" ON public.kb_articles
+    FOR ALL USING (public.get_user_role(auth.uid()) IN ('agent', 'admin'));
+
+CREATE TRIGGER update_kb_articles_updated_at BEFORE UPDATE ON public.kb_articles
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One vote per user and answer, up (1) or down (-1). Retracting a vote
+-- deletes it.
+DELETE FROM public.votes v
+USING public.votes newer
+WHERE newer.answer_id = v.answer_id
+  AND newer.user_id = v.user_id
+  AND (newer.created_at, newer.id) > (v.created_at, v.id);
+
+ALTER TABLE public.votes ADD CONSTRAINT votes_answer_user_key UNIQUE (answer_id, user_id);
+ALTER TABLE public.votes ADD CONSTRAINT votes_vote_type_check CHECK (vote_type IN (-1, 1));
+
+CREATE POLICY "Users can delete own votes" ON public.votes
+    FOR DELETE USING (user_id = auth.uid());
+
+-- Only accept_answer may change is_accepted; new answers start unaccepted
+CREATE OR REPLACE FUNCTION public.guard_answer_acceptance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.is_accepted := FALSE;
+    ELSIF NEW.is_accepted IS DISTINCT FROM OLD.is_accepted
+        AND current_setting('quickdesk.accepting_answer', true) IS DISTINCT FROM NEW.question_id::text THEN
+        RAISE EXCEPTION 'Answers are accepted with accept_answer'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_answer_acceptance BEFORE INSERT OR UPDATE ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_answer_acceptance();
+
+-- Marks an answer as the accepted one for its question, or unmarks it if it
+-- already is. Allowed for the question's author and for staff.
+CREATE OR REPLACE FUNCTION public.accept_answer(_answer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _answer public.answers%ROWTYPE;
+BEGIN
+    SELECT * INTO _answer FROM public.answers WHERE id = _answer_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Answer not found';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = _answer.question_id AND user_id = auth.uid())
+        AND public.get_user_role(auth.uid()) NOT IN ('agent', 'admin') THEN
+        RAISE EXCEPTION 'Only the author of the question can accept an answer'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('quickdesk.accepting_answer', _answer.question_id::text, true);
+    UPDATE public.answers
+    SET is_accepted = (id = _answer_id AND NOT COALESCE(_answer.is_accepted, FALSE))
+    WHERE question_id = _answer.question_id;
+    PERFORM set_config('quickdesk.accepting_answer', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_answer(UUID) FROM PUBLIC, anon;
+
+-- Turns an accepted answer into an official article with the question's
+-- title and tags. Promoting the same answer again returns the existing
+-- article.
+CREATE OR REPLACE FUNCTION public.promote_answer_to_article(_answer_id UUID, _title TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _article_id UUID;
+BEGIN
+    IF public.get_user_role(auth.uid()) NOT IN ('agent', 'admin') THEN
+        RAISE EXCEPTION 'Only agents can publish articles'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT id INTO _article_id FROM public.kb_articles WHERE source_answer_id = _answer_id;
+    IF FOUND THEN
+        RETURN _article_id;
+    END IF;
+
+    INSERT INTO public.kb_articles (title, content, tags, source_answer_id, author_id)
+    SELECT COALESCE(NULLIF(trim(_title), ''), q.title), a.content, COALESCE(q.tags, '{}'), a.id, auth.uid()
+    FROM public.answers a
+    JOIN public.questions q ON q.id = a.question_id
+    WHERE a.id = _answer_id AND a.is_accepted
+    RETURNING id INTO _article_id;
+
+    IF _article_id IS NULL THEN
+        RAISE EXCEPTION 'Only accepted answers can be published';
+    END IF;
+
+    RETURN _article_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_answer_to_article(UUID, TEXT) FROM PUBLIC, anon;
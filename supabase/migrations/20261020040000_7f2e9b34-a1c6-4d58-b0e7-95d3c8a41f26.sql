@@ -0,0 +1,105 @@
+-- Knowledge base suggestions while a ticket is being written, and tracking
+-- of whether they deflected the ticket.
+
+-- Search documents for articles and questions. Title weighs most. The
+-- functions are immutable so the GIN indexes below can use them.
+CREATE OR REPLACE FUNCTION public.kb_search_document(_title TEXT, _body TEXT)
+RETURNS TSVECTOR
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT setweight(to_tsvector('english', COALESCE(_title, '')), 'A') ||
+           setweight(to_tsvector('english', COALESCE(_body, '')), 'B');
+$$;
+
+CREATE INDEX idx_kb_articles_search ON public.kb_articles
+    USING GIN (public.kb_search_document(title, content));
+
+CREATE INDEX idx_questions_search ON public.questions
+    USING GIN (public.kb_search_document(title, description));
+
+-- Free text as an OR of its words, so a long ticket description still
+-- matches articles that share only some of them. Ranking puts the closest
+-- matches first.
+CREATE OR REPLACE FUNCTION public.kb_suggestion_query(_text TEXT)
+RETURNS TSQUERY
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | '))
+    FROM unnest(tsvector_to_array(to_tsvector('english', COALESCE(_text, '')))) AS lexeme;
+$$;
+
+-- Articles and accepted answers that match what the user is writing, best
+-- first. Answers that were promoted to an article only show as the article.
+CREATE OR REPLACE FUNCTION public.suggest_kb_content(_text TEXT, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+    kind TEXT,
+    id UUID,
+    title TEXT,
+    snippet TEXT,
+    rank REAL
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    WITH q AS (SELECT public.kb_suggestion_query(_text) AS query)
+    SELECT * FROM (
+        SELECT 'article'::TEXT, a.id, a.title, left(a.content, 200),
+               ts_rank(public.kb_search_document(a.title, a.content), q.query)
+        FROM public.kb_articles a, q
+        WHERE public.kb_search_document(a.title, a.content) @@ q.query
+
+        UNION ALL
+
+        SELECT 'answer'::TEXT, qu.id, qu.title, left(an.content, 200),
+               ts_rank(public.kb_search_document(qu.title, qu.description), q.query)
+        FROM public.questions qu
+        JOIN public.answers an ON an.question_id = qu.id AND an.is_accepted
+        CROSS JOIN q
+        WHERE public.kb_search_document(qu.title, qu.description) @@ q.query
+          AND NOT EXISTS (SELECT 1 FROM public.kb_articles a WHERE a.source_answer_id = an.id)
+    ) matches (kind, id, title, snippet, rank)
+    ORDER BY rank DESC
+    LIMIT LEAST(GREATEST(_limit, 1), 20);
+$$;
+
+-- One row per ticket form that showed suggestions. A row with a viewed
+-- suggestion and no ticket is a deflected ticket.
+CREATE TABLE public.ticket_deflections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    -- Ticket title when suggestions were first shown
+    query TEXT NOT NULL,
+    suggestion_count INTEGER NOT NULL DEFAULT 0,
+    -- First suggestion the user opened
+    viewed_kind TEXT CHECK (viewed_kind IN ('article', 'answer')),
+    viewed_id UUID,
+    viewed_title TEXT,
+    viewed_at TIMESTAMP WITH TIME ZONE,
+    -- Set when the user went on to create the ticket
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ticket_deflections_created ON public.ticket_deflections(created_at);
+
+ALTER TABLE public.ticket_deflections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record own deflections" ON public.ticket_deflections
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own deflections" ON public.ticket_deflections
+    FOR UPDATE USING (user_id = auth.uid());
+
+-- Inserting with RETURNING needs the row to be visible to its author
+CREATE POLICY "Users can view own deflections" ON public.ticket_deflections
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all deflections" ON public.ticket_deflections
+    FOR SELECT USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_ticket_deflections_updated_at BEFORE UPDATE ON public.ticket_deflections
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
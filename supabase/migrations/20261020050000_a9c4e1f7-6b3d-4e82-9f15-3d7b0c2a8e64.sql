@@ -0,0 +1,224 @@
+-- Knowledge base articles drafted from solved tickets. The draft leaves out
+-- the requester's identity, links back to its ticket, and goes live only
+-- once an admin approves it.
+
+ALTER TABLE public.kb_articles
+    ADD COLUMN status TEXT NOT NULL DEFAULT 'published'
+        CHECK (status IN ('pending_review', 'published', 'rejected')),
+    ADD COLUMN source_ticket_id UUID REFERENCES public.tickets(id) ON DELETE SET NULL,
+    ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    ADD COLUMN reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN review_note TEXT;
+
+CREATE INDEX idx_kb_articles_status ON public.kb_articles(status);
+CREATE INDEX idx_kb_articles_source_ticket ON public.kb_articles(source_ticket_id);
+
+-- Unreviewed and rejected articles are for staff only
+DROP POLICY "Anyone can view articles" ON public.kb_articles;
+
+CREATE POLICY "Anyone can view published articles" ON public.kb_articles
+    FOR SELECT USING (status = 'published');
+
+-- Articles from tickets are published by review_kb_article only. Clearing
+-- source_ticket_id in the same update doesn't get around that.
+CREATE OR REPLACE FUNCTION public.guard_kb_article_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.source_ticket_id IS NOT NULL OR (TG_OP = 'UPDATE' AND OLD.source_ticket_id IS NOT NULL))
+        AND NEW.status = 'published'
+        AND (TG_OP = 'INSERT' OR OLD.status <> 'published')
+        AND current_setting('quickdesk.reviewing_article', true) IS DISTINCT FROM NEW.id::text THEN
+        RAISE EXCEPTION 'Articles drafted from tickets must be approved before they are published'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_kb_article_review BEFORE INSERT OR UPDATE ON public.kb_articles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_kb_article_review();
+
+-- Replaces the requester's name, username and email, and any other email
+-- address or phone number, with placeholders
+CREATE OR REPLACE FUNCTION public.redact_requester(_text TEXT, _requester_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _profile public.profiles%ROWTYPE;
+    _result TEXT := COALESCE(_text, '');
+    _name TEXT;
+BEGIN
+    SELECT * INTO _profile FROM public.profiles WHERE id = _requester_id;
+
+    _result := regexp_replace(_result, '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}', '[email]', 'g');
+    _result := regexp_replace(_result, '\+?\d[\d\s().-]{7,}\d', '[phone]', 'g');
+
+    -- Full name first, then its parts; short parts would hit ordinary words
+    FOREACH _name IN ARRAY
+        ARRAY[_profile.full_name, _profile.username] || string_to_array(COALESCE(_profile.full_name, ''), ' ')
+    LOOP
+        IF length(trim(_name)) >= 3 THEN
+            _result := regexp_replace(
+                _result,
+                '\m' || regexp_replace(trim(_name), '([.^$*+?()\[\]{}|\\-])', '\\\1', 'g') || '\M',
+                '[customer]',
+                'gi'
+            );
+        END IF;
+    END LOOP;
+
+    RETURN _result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redact_requester(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Drafts an article from a solved ticket: its title, its description as the
+-- problem and the chosen public comments as the solution, tagged with the
+-- ticket's category. The draft waits for review.
+CREATE OR REPLACE FUNCTION public.draft_article_from_ticket(_ticket_id UUID, _comment_ids UUID[] DEFAULT '{}')
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ticket public.tickets%ROWTYPE;
+    _category public.categories%ROWTYPE;
+    _solution TEXT;
+    _article_id UUID;
+BEGIN
+    IF public.get_user_role(auth.uid()) NOT IN ('agent', 'admin') THEN
+        RAISE EXCEPTION 'Only agents can draft articles'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    IF public.ticket_status_category(_ticket.status) NOT IN ('solved', 'closed') THEN
+        RAISE EXCEPTION 'Only solved tickets can be published as articles';
+    END IF;
+
+    SELECT * INTO _category FROM public.categories WHERE id = _ticket.category_id;
+
+    SELECT string_agg(public.redact_requester(c.content, _ticket.created_by), E'\n\n' ORDER BY c.created_at)
+    INTO _solution
+    FROM public.ticket_comments c
+    WHERE c.ticket_id = _ticket_id
+      AND NOT c.is_internal
+      AND c.id = ANY(_comment_ids);
+
+    INSERT INTO public.kb_articles (
+        title, content, tags, category_id, source_ticket_id, author_id, status
+    )
+    VALUES (
+        public.redact_requester(_ticket.title, _ticket.created_by),
+        'Problem' || E'\n\n' || public.redact_requester(_ticket.description, _ticket.created_by)
+            || COALESCE(E'\n\nSolution\n\n' || _solution, ''),
+        CASE
+            WHEN _category.name IS NULL THEN '{}'
+            ELSE ARRAY[trim(BOTH '-' FROM lower(regexp_replace(_category.name, '[^a-zA-Z0-9]+', '-', 'g')))]
+        END,
+        _ticket.category_id,
+        _ticket.id,
+        auth.uid(),
+        'pending_review'
+    )
+    RETURNING id INTO _article_id;
+
+    RETURN _article_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draft_article_from_ticket(UUID, UUID[]) FROM PUBLIC, anon;
+
+-- Approves (publishes) or rejects an article waiting for review. Admins
+-- only, and not their own drafts.
+CREATE OR REPLACE FUNCTION public.review_kb_article(_article_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _article public.kb_articles%ROWTYPE;
+BEGIN
+    IF public.get_user_role(auth.uid()) <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can review articles'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO _article FROM public.kb_articles WHERE id = _article_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Article not found';
+    END IF;
+
+    IF _article.status <> 'pending_review' THEN
+        RAISE EXCEPTION 'This article is not waiting for review';
+    END IF;
+
+    IF _article.author_id = auth.uid() THEN
+        RAISE EXCEPTION 'Articles must be reviewed by someone other than their author';
+    END IF;
+
+    PERFORM set_config('quickdesk.reviewing_article', _article_id::text, true);
+    UPDATE public.kb_articles
+    SET status = CASE WHEN _approve THEN 'published' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW(),
+        review_note = NULLIF(trim(_note), '')
+    WHERE id = _article_id;
+    PERFORM set_config('quickdesk.reviewing_article', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_kb_article(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+
+-- Suggestions only offer published articles
+CREATE OR REPLACE FUNCTION public.suggest_kb_content(_text TEXT, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+    kind TEXT,
+    id UUID,
+    title TEXT,
+    snippet TEXT,
+    rank REAL
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    WITH q AS (SELECT public.kb_suggestion_query(_text) AS query)
+    SELECT * FROM (
+        SELECT 'article'::TEXT, a.id, a.title, left(a.content, 200),
+               ts_rank(public.kb_search_document(a.title, a.content), q.query)
+        FROM public.kb_articles a, q
+        WHERE a.status = 'published'
+          AND public.kb_search_document(a.title, a.content) @@ q.query
+
+        UNION ALL
+
+        SELECT 'answer'::TEXT, qu.id, qu.title, left(an.content, 200),
+               ts_rank(public.kb_search_document(qu.title, qu.description), q.query)
+        FROM public.questions qu
+        JOIN public.answers an ON an.question_id = qu.id AND an.is_accepted
+        CROSS JOIN q
+        WHERE public.kb_search_document(qu.title, qu.description) @@ q.query
+          AND NOT EXISTS (
+              SELECT 1 FROM public.kb_articles a
+              WHERE a.source_answer_id = an.id AND a.status = 'published'
+          )
+    ) matches (kind, id, title, snippet, rank)
+    ORDER BY rank DESC
+    LIMIT LEAST(GREATEST(_limit, 1), 20);
+$$;
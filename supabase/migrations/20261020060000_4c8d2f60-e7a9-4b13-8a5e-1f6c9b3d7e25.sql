@@ -0,0 +1,352 @@
+-- Reputation. Votes and accepted answers in the knowledge base earn (or
+-- cost) reputation through a ledger, reputation_events; profiles.reputation
+-- is its running total. Retracting a vote or unaccepting an answer adds a
+-- reversing entry, so the history is never rewritten.
+
+-- Privileges unlocked by reputation. Staff have all of them.
+CREATE TABLE public.reputation_privileges (
+    key TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    min_reputation INTEGER NOT NULL CHECK (min_reputation >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.reputation_privileges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reputation privileges" ON public.reputation_privileges
+    FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage reputation privileges" ON public.reputation_privileges
+    FOR ALL USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_reputation_privileges_updated_at BEFORE UPDATE ON public.reputation_privileges
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.reputation_privileges (key, name, description, min_reputation) VALUES
+    ('downvote', 'Vote down', 'Downvote unhelpful answers', 50),
+    ('edit_posts', 'Edit others'' posts', 'Edit questions and answers written by other people', 200);
+
+CREATE OR REPLACE FUNCTION public.has_privilege(_user_id UUID, _key TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(public.get_user_role(_user_id) IN ('agent', 'admin'), FALSE)
+        OR COALESCE((SELECT reputation FROM public.profiles WHERE id = _user_id), 0)
+            >= COALESCE((SELECT min_reputation FROM public.reputation_privileges WHERE key = _key), 0);
+$$;
+
+CREATE TABLE public.reputation_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    amount INTEGER NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('upvote', 'downvote', 'accepted_answer', 'reversal')),
+    -- What earned it: a vote or an (accepted) answer. No foreign keys, so
+    -- entries outlive the posts they were for.
+    source_type TEXT NOT NULL CHECK (source_type IN ('vote', 'answer')),
+    source_id UUID NOT NULL,
+    question_id UUID,
+    -- Who voted or accepted
+    actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    -- The entry a reversal cancels
+    reverses_id UUID UNIQUE REFERENCES public.reputation_events(id),
+    -- Why an entry earned less than usual
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_reputation_events_user ON public.reputation_events(user_id, created_at DESC);
+CREATE INDEX idx_reputation_events_source ON public.reputation_events(source_type, source_id);
+
+ALTER TABLE public.reputation_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers below only
+CREATE POLICY "Users can view own reputation history" ON public.reputation_events
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Staff can view all reputation history" ON public.reputation_events
+    FOR SELECT USING (public.get_user_role(auth.uid()) IN ('agent', 'admin'));
+
+-- Existing votes and accepted answers, before the rules below applied
+INSERT INTO public.reputation_events (user_id, amount, reason, source_type, source_id, question_id, actor_id, note)
+SELECT a.user_id,
+       CASE WHEN v.vote_type > 0 THEN 10 ELSE -2 END,
+       CASE WHEN v.vote_type > 0 THEN 'upvote' ELSE 'downvote' END,
+       'vote', v.id, a.question_id, v.user_id, 'Backfilled'
+FROM public.votes v
+JOIN public.answers a ON a.id = v.answer_id
+WHERE a.user_id IS NOT NULL AND a.user_id IS DISTINCT FROM v.user_id;
+
+INSERT INTO public.reputation_events (user_id, amount, reason, source_type, source_id, question_id, actor_id, note)
+SELECT a.user_id, 15, 'accepted_answer', 'answer', a.id, a.question_id, q.user_id, 'Backfilled'
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE a.is_accepted AND a.user_id IS NOT NULL AND a.user_id IS DISTINCT FROM q.user_id;
+
+UPDATE public.profiles p
+SET reputation = COALESCE((SELECT SUM(amount) FROM public.reputation_events e WHERE e.user_id = p.id), 0);
+
+ALTER TABLE public.profiles ALTER COLUMN reputation SET DEFAULT 0;
+
+-- Reputation only changes through the ledger
+CREATE OR REPLACE FUNCTION public.guard_profile_reputation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.reputation IS DISTINCT FROM OLD.reputation
+        AND current_setting('quickdesk.reputation', true) IS DISTINCT FROM NEW.id::text THEN
+        RAISE EXCEPTION 'Reputation can''t be changed directly'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_reputation BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_reputation();
+
+CREATE OR REPLACE FUNCTION public.apply_reputation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.amount <> 0 THEN
+        PERFORM set_config('quickdesk.reputation', NEW.user_id::text, true);
+        UPDATE public.profiles SET reputation = COALESCE(reputation, 0) + NEW.amount WHERE id = NEW.user_id;
+        PERFORM set_config('quickdesk.reputation', '', true);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_reputation_event AFTER INSERT ON public.reputation_events
+    FOR EACH ROW EXECUTE FUNCTION public.apply_reputation_event();
+
+-- Cancels whatever a vote or answer earned so far
+CREATE OR REPLACE FUNCTION public.reverse_reputation(_source_type TEXT, _source_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.reputation_events (
+        user_id, amount, reason, source_type, source_id, question_id, actor_id, reverses_id
+    )
+    SELECT e.user_id, -e.amount, 'reversal', e.source_type, e.source_id, e.question_id, e.actor_id, e.id
+    FROM public.reputation_events e
+    WHERE e.source_type = _source_type
+      AND e.source_id = _source_id
+      AND e.reason <> 'reversal'
+      AND NOT EXISTS (SELECT 1 FROM public.reputation_events r WHERE r.reverses_id = e.id);
+$$;
+
+-- Only the vote and answer triggers reverse reputation
+REVOKE EXECUTE ON FUNCTION public.reverse_reputation(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- What a vote is worth: +10 up, -2 down. Upvotes earn nothing between two
+-- users who keep upvoting each other (3+ times each way in 30 days), once a
+-- voter has given the same user 30 points in 30 days, or past 200 points
+-- from votes per day.
+CREATE OR REPLACE FUNCTION public.vote_reputation(
+    _voter_id UUID,
+    _recipient_id UUID,
+    _vote_type INTEGER,
+    OUT amount INTEGER,
+    OUT note TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _given INTEGER;
+    _today INTEGER;
+BEGIN
+    IF _vote_type < 0 THEN
+        amount := -2;
+        RETURN;
+    END IF;
+
+    amount := 10;
+
+    IF (
+        SELECT count(*) FROM public.votes v JOIN public.answers a ON a.id = v.answer_id
+        WHERE v.user_id = _voter_id AND a.user_id = _recipient_id
+          AND v.vote_type > 0 AND v.created_at > NOW() - INTERVAL '30 days'
+    ) >= 3 AND (
+        SELECT count(*) FROM public.votes v JOIN public.answers a ON a.id = v.answer_id
+        WHERE v.user_id = _recipient_id AND a.user_id = _voter_id
+          AND v.vote_type > 0 AND v.created_at > NOW() - INTERVAL '30 days'
+    ) >= 3 THEN
+        amount := 0;
+        note := 'These users keep upvoting each other';
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(e.amount), 0) INTO _given
+    FROM public.reputation_events e
+    WHERE e.user_id = _recipient_id AND e.actor_id = _voter_id AND e.source_type = 'vote'
+      AND e.created_at > NOW() - INTERVAL '30 days';
+
+    IF _given >= 30 THEN
+        amount := 0;
+        note := 'This voter has given this user the most reputation allowed for now';
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(e.amount), 0) INTO _today
+    FROM public.reputation_events e
+    WHERE e.user_id = _recipient_id AND e.source_type = 'vote' AND e.amount > 0
+      AND e.created_at > NOW() - INTERVAL '1 day';
+
+    IF _today + amount > 200 THEN
+        amount := GREATEST(200 - _today, 0);
+        note := 'Daily reputation limit reached';
+    END IF;
+END;
+$$;
+
+-- No voting on your own answers; downvoting takes the privilege
+CREATE OR REPLACE FUNCTION public.guard_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- A vote stays on its answer; moving it would leave the old answer's
+    -- author credited and let the voter vote there again
+    IF TG_OP = 'UPDATE' AND (NEW.answer_id IS DISTINCT FROM OLD.answer_id OR NEW.user_id IS DISTINCT FROM OLD.user_id) THEN
+        RAISE EXCEPTION 'A vote can''t be moved to another answer or user; delete it and vote again'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.answers WHERE id = NEW.answer_id AND user_id = NEW.user_id) THEN
+        RAISE EXCEPTION 'You can''t vote on your own answer'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.vote_type < 0 AND NOT public.has_privilege(NEW.user_id, 'downvote') THEN
+        RAISE EXCEPTION 'You need % reputation to downvote',
+            (SELECT min_reputation FROM public.reputation_privileges WHERE key = 'downvote')
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_vote BEFORE INSERT OR UPDATE ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION public.guard_vote();
+
+CREATE OR REPLACE FUNCTION public.track_vote_reputation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _answer public.answers%ROWTYPE;
+    _award RECORD;
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.vote_type IS NOT DISTINCT FROM OLD.vote_type
+        AND NEW.answer_id IS NOT DISTINCT FROM OLD.answer_id THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.reverse_reputation('vote', OLD.id);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        SELECT * INTO _answer FROM public.answers WHERE id = NEW.answer_id;
+        IF _answer.user_id IS NOT NULL AND _answer.user_id IS DISTINCT FROM NEW.user_id THEN
+            SELECT * INTO _award FROM public.vote_reputation(NEW.user_id, _answer.user_id, NEW.vote_type);
+            INSERT INTO public.reputation_events (
+                user_id, amount, reason, source_type, source_id, question_id, actor_id, note
+            )
+            VALUES (
+                _answer.user_id, _award.amount,
+                CASE WHEN NEW.vote_type > 0 THEN 'upvote' ELSE 'downvote' END,
+                'vote', NEW.id, _answer.question_id, NEW.user_id, _award.note
+            );
+        END IF;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER track_vote_reputation AFTER INSERT OR UPDATE OR DELETE ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION public.track_vote_reputation();
+
+-- +15 for an accepted answer, unless the answerer accepted it themselves or
+-- answered their own question
+CREATE OR REPLACE FUNCTION public.track_answer_reputation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM public.reverse_reputation('answer', OLD.id);
+        RETURN NULL;
+    END IF;
+
+    IF COALESCE(OLD.is_accepted, FALSE) AND NOT COALESCE(NEW.is_accepted, FALSE) THEN
+        PERFORM public.reverse_reputation('answer', NEW.id);
+    ELSIF NOT COALESCE(OLD.is_accepted, FALSE) AND NEW.is_accepted
+        AND NEW.user_id IS NOT NULL
+        AND NEW.user_id IS DISTINCT FROM auth.uid()
+        AND NOT EXISTS (SELECT 1 FROM public.questions WHERE id = NEW.question_id AND user_id = NEW.user_id) THEN
+        INSERT INTO public.reputation_events (user_id, amount, reason, source_type, source_id, question_id, actor_id)
+        VALUES (NEW.user_id, 15, 'accepted_answer', 'answer', NEW.id, NEW.question_id, auth.uid());
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER track_answer_reputation AFTER UPDATE OF is_accepted OR DELETE ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.track_answer_reputation();
+
+-- Users with the edit_posts privilege can edit anyone's questions and
+-- answers, but not move them to another author or question
+CREATE POLICY "Trusted users can edit questions" ON public.questions
+    FOR UPDATE USING (public.has_privilege(auth.uid(), 'edit_posts'));
+
+CREATE POLICY "Trusted users can edit answers" ON public.answers
+    FOR UPDATE USING (public.has_privilege(auth.uid(), 'edit_posts'));
+
+CREATE OR REPLACE FUNCTION public.guard_post_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'The author of a post can''t be changed'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF TG_TABLE_NAME = 'answers' AND NEW.question_id IS DISTINCT FROM OLD.question_id THEN
+        RAISE EXCEPTION 'An answer can''t be moved to another question'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_question_ownership BEFORE UPDATE ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_ownership();
+
+CREATE TRIGGER guard_answer_ownership BEFORE UPDATE ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_ownership();
@@ -0,0 +1,209 @@
+-- Bans. Admins suspend an account with a reason and an optional expiry;
+-- every ban and unban is recorded in admin_actions. A suspended account can
+-- still sign in but can't create tickets, comments or community posts.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS banned_until TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.profiles SET is_banned = false WHERE is_banned IS NULL;
+ALTER TABLE public.profiles ALTER COLUMN is_banned SET DEFAULT false;
+ALTER TABLE public.profiles ALTER COLUMN is_banned SET NOT NULL;
+
+ALTER TABLE public.admin_actions
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_admin_actions_created_at ON public.admin_actions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_actions_target ON public.admin_actions(target_type, target_id);
+
+-- The audit log is read-only; rows are written by the functions below,
+-- which cover bans and role changes.
+-- Admins keep "Only admins can view admin actions".
+ALTER TABLE public.admin_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Only admins can create admin actions" ON public.admin_actions;
+
+-- A ban with an expiry lapses on its own, without anyone clearing the flag
+CREATE OR REPLACE FUNCTION public.is_user_banned(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT is_banned AND (banned_until IS NULL OR banned_until > NOW())
+        FROM public.profiles
+        WHERE id = _user_id
+    ), false);
+$$;
+
+-- Users can update their own profile, so the ban columns only change
+-- through ban_user and unban_user
+CREATE OR REPLACE FUNCTION public.guard_profile_ban()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.is_banned IS DISTINCT FROM OLD.is_banned OR NEW.banned_until IS DISTINCT FROM OLD.banned_until)
+        AND current_setting('quickdesk.moderating', true) IS DISTINCT FROM NEW.id::text THEN
+        RAISE EXCEPTION 'Bans can only be changed by an admin'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_ban BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_ban();
+
+-- The same goes for roles: otherwise a user could make themselves an admin,
+-- lift their own ban and pick up every privilege. API users change roles
+-- through set_user_role; the service role and the SQL editor still can
+-- directly, which is how the first admin gets made.
+CREATE OR REPLACE FUNCTION public.guard_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role
+        AND current_user IN ('anon', 'authenticated')
+        AND current_setting('quickdesk.changing_role', true) IS DISTINCT FROM NEW.id::text THEN
+        RAISE EXCEPTION 'Roles can only be changed by an admin'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_role BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_role();
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role public.user_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _old_role public.user_role;
+BEGIN
+    IF public.get_user_role(auth.uid()) <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can change roles'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You can''t change your own role';
+    END IF;
+
+    SELECT role INTO _old_role FROM public.profiles WHERE id = _user_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF _old_role IS NOT DISTINCT FROM _role THEN
+        RETURN;
+    END IF;
+
+    PERFORM set_config('quickdesk.changing_role', _user_id::text, true);
+    UPDATE public.profiles SET role = _role WHERE id = _user_id;
+    PERFORM set_config('quickdesk.changing_role', '', true);
+
+    INSERT INTO public.admin_actions (admin_id, action, target_type, target_id, reason)
+    VALUES (auth.uid(), 'role_change', 'user', _user_id, format('%s → %s', COALESCE(_old_role::text, 'none'), _role));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ban_user(_user_id UUID, _reason TEXT, _until TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.get_user_role(auth.uid()) <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can ban users'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to ban a user';
+    END IF;
+
+    IF _until IS NOT NULL AND _until <= NOW() THEN
+        RAISE EXCEPTION 'The ban must end in the future';
+    END IF;
+
+    IF _user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You can''t ban yourself';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _user_id) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    PERFORM set_config('quickdesk.moderating', _user_id::text, true);
+    UPDATE public.profiles
+    SET is_banned = true,
+        banned_until = _until
+    WHERE id = _user_id;
+    PERFORM set_config('quickdesk.moderating', '', true);
+
+    INSERT INTO public.admin_actions (admin_id, action, target_type, target_id, reason, expires_at)
+    VALUES (auth.uid(), 'ban', 'user', _user_id, trim(_reason), _until);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unban_user(_user_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.get_user_role(auth.uid()) <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can unban users'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to unban a user';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _user_id AND is_banned) THEN
+        RAISE EXCEPTION 'This user is not banned';
+    END IF;
+
+    PERFORM set_config('quickdesk.moderating', _user_id::text, true);
+    UPDATE public.profiles
+    SET is_banned = false,
+        banned_until = NULL
+    WHERE id = _user_id;
+    PERFORM set_config('quickdesk.moderating', '', true);
+
+    INSERT INTO public.admin_actions (admin_id, action, target_type, target_id, reason)
+    VALUES (auth.uid(), 'unban', 'user', _user_id, trim(_reason));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ban_user(UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.unban_user(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, public.user_role) FROM PUBLIC, anon;
+
+-- Restrictive, so they hold whatever other insert policies grant
+CREATE POLICY "Banned users can't create tickets" ON public.tickets
+    AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_user_banned(auth.uid()));
+
+CREATE POLICY "Banned users can't comment on tickets" ON public.ticket_comments
+    AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_user_banned(auth.uid()));
+
+CREATE POLICY "Banned users can't ask questions" ON public.questions
+    AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_user_banned(auth.uid()));
+
+CREATE POLICY "Banned users can't answer questions" ON public.answers
+    AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_user_banned(auth.uid()));
+
+CREATE POLICY "Banned users can't comment on answers" ON public.comments
+    AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_user_banned(auth.uid()));
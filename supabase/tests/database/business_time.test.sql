@@ -0,0 +1,128 @@
+-- business_minutes_between and business_time_add against the same fixtures as
+-- src/lib/businessTime.test.ts. Run with `supabase test db`.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+INSERT INTO public.business_schedules (id, name, timezone) VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'Test: Berlin all day', 'Europe/Berlin'),
+    ('00000000-0000-0000-0000-0000000000a2', 'Test: Berlin weekdays', 'Europe/Berlin'),
+    ('00000000-0000-0000-0000-0000000000a3', 'Test: Berlin Sunday 02:30-04:00', 'Europe/Berlin'),
+    ('00000000-0000-0000-0000-0000000000a4', 'Test: Berlin Sunday 01:00-02:30', 'Europe/Berlin'),
+    ('00000000-0000-0000-0000-0000000000a5', 'Test: UTC weekdays with holidays', 'UTC'),
+    ('00000000-0000-0000-0000-0000000000a6', 'Test: Los Angeles all day', 'America/Los_Angeles'),
+    ('00000000-0000-0000-0000-0000000000a7', 'Test: no hours', 'UTC');
+
+INSERT INTO public.business_hours (schedule_id, day_of_week, start_time, end_time)
+SELECT s.id, d, '00:00', '24:00'
+FROM (VALUES ('00000000-0000-0000-0000-0000000000a1'::uuid), ('00000000-0000-0000-0000-0000000000a6'::uuid)) s(id)
+CROSS JOIN generate_series(0, 6) d;
+
+INSERT INTO public.business_hours (schedule_id, day_of_week, start_time, end_time)
+SELECT s.id, d, '09:00', '17:00'
+FROM (VALUES ('00000000-0000-0000-0000-0000000000a2'::uuid), ('00000000-0000-0000-0000-0000000000a5'::uuid)) s(id)
+CROSS JOIN generate_series(1, 5) d;
+
+INSERT INTO public.business_hours (schedule_id, day_of_week, start_time, end_time) VALUES
+    ('00000000-0000-0000-0000-0000000000a3', 0, '02:30', '04:00'),
+    ('00000000-0000-0000-0000-0000000000a4', 0, '01:00', '02:30');
+
+INSERT INTO public.business_holidays (schedule_id, holiday_date) VALUES
+    ('00000000-0000-0000-0000-0000000000a5', '2026-12-25'),
+    ('00000000-0000-0000-0000-0000000000a5', '2026-12-28'),
+    ('00000000-0000-0000-0000-0000000000a6', '2026-12-25');
+
+-- DST transitions: Europe/Berlin springs forward on 2026-03-29 and falls back
+-- on 2026-10-25
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a1', '2026-03-28T23:00:00Z', '2026-03-29T22:00:00Z'),
+    23 * 60::numeric,
+    'counts 23 hours on the spring-forward day'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a1', '2026-10-24T22:00:00Z', '2026-10-25T23:00:00Z'),
+    25 * 60::numeric,
+    'counts 25 hours on the fall-back day'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a2', '2026-03-27T08:00:00Z', '2026-03-30T07:00:00Z'),
+    8 * 60::numeric,
+    'keeps wall-clock hours across the change'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a3', '2026-03-28T12:00:00Z', '2026-03-30T00:00:00Z'),
+    30::numeric,
+    'reads a start inside the spring-forward gap with the pre-jump offset'
+);
+
+SELECT is(
+    public.business_time_add('00000000-0000-0000-0000-0000000000a3', '2026-03-28T12:00:00Z', 0),
+    '2026-03-29T01:30:00Z'::timestamptz,
+    'starts the first window at 03:30 CEST'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a4', '2026-03-28T12:00:00Z', '2026-03-30T00:00:00Z'),
+    90::numeric,
+    'reads an end inside the spring-forward gap with the pre-jump offset'
+);
+
+SELECT is(
+    public.business_time_add('00000000-0000-0000-0000-0000000000a3', '2026-10-24T12:00:00Z', 0),
+    '2026-10-25T01:30:00Z'::timestamptz,
+    'reads an ambiguous fall-back time as standard time'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a3', '2026-10-24T12:00:00Z', '2026-10-26T00:00:00Z'),
+    90::numeric,
+    'counts the window after the fall-back in standard time'
+);
+
+SELECT is(
+    public.business_time_add('00000000-0000-0000-0000-0000000000a1', '2026-03-28T21:00:00Z', 4 * 60),
+    '2026-03-29T01:00:00Z'::timestamptz,
+    'adds across the spring-forward night by business time, not wall-clock time'
+);
+
+-- Holidays: Thursday 2026-12-24, Friday 25 (holiday), weekend, Monday 28 (holiday)
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a5', '2026-12-24T09:00:00Z', '2026-12-29T09:00:00Z'),
+    8 * 60::numeric,
+    'skips holidays when counting'
+);
+
+SELECT is(
+    public.business_time_add('00000000-0000-0000-0000-0000000000a5', '2026-12-24T16:00:00Z', 2 * 60),
+    '2026-12-29T10:00:00Z'::timestamptz,
+    'skips holidays when adding'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a6', '2026-12-25T08:00:00Z', '2026-12-26T08:00:00Z'),
+    0::numeric,
+    'matches holidays on the local date'
+);
+
+SELECT is(
+    public.business_minutes_between('00000000-0000-0000-0000-0000000000a6', '2026-12-25T07:00:00Z', '2026-12-26T09:00:00Z'),
+    2 * 60::numeric,
+    'counts the hours either side of a local-date holiday'
+);
+
+-- Edge cases
+SELECT is(
+    public.business_time_add('00000000-0000-0000-0000-0000000000a7', '2026-01-01T00:00:00Z', 60),
+    NULL,
+    'gives up on a schedule without hours'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;